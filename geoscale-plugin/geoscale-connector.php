@@ -3,7 +3,7 @@
  * Plugin Name: GeoScale
  * Plugin URI: https://geoscale.app/wordpress-plugin
  * Description: Allows GeoScale app to publish location-based landing pages on your WordPress site. <a href="https://geoscale.app/wordpress-plugin" target="_blank">View documentation</a>
- * Version: 1.0.0
+ * Version: 1.6.0
  * Author: GeoScale
  * Author URI: https://geoscale.app
  * License: GPL v2 or later
@@ -17,7 +17,7 @@ if (!defined('ABSPATH')) {
 }
 
 // Define plugin constants
-define('GEOSCALE_VERSION', '1.0.0');
+define('GEOSCALE_VERSION', '1.6.0');
 define('GEOSCALE_PLUGIN_DIR', plugin_dir_path(__FILE__));
 define('GEOSCALE_PLUGIN_URL', plugin_dir_url(__FILE__));
 
@@ -69,6 +69,13 @@ class GeoScale_Connector {
 
         // Add CORS support for REST API
         add_action('rest_api_init', array($this, 'add_cors_support'));
+
+        // Print the JSON-LD sent with each page
+        add_action('wp_head', array($this, 'output_schema'));
+
+        // Meta title and description for sites without Yoast or Rank Math
+        add_filter('pre_get_document_title', array($this, 'filter_document_title'));
+        add_action('wp_head', array($this, 'output_meta_description'), 1);
     }
 
     /**
@@ -176,6 +183,12 @@ class GeoScale_Connector {
             'callback' => array($this, 'handle_update_meta_request'),
             'permission_callback' => array($this, 'verify_api_key'),
         ));
+
+        register_rest_route('geoscale/v1', '/update-meta-batch', array(
+            'methods' => 'POST',
+            'callback' => array($this, 'handle_update_meta_batch_request'),
+            'permission_callback' => array($this, 'verify_api_key'),
+        ));
     }
     
     /**
@@ -209,12 +222,18 @@ class GeoScale_Connector {
     }
     
     /**
-     * Handle templates request - returns available page templates
+     * Handle templates request - returns available page templates, and the
+     * post types, authors and parent pages pages can be published with
      */
     public function handle_templates_request($request) {
         $this->log('Templates request received', 'info');
 
-        $templates = wp_get_theme()->get_page_templates();
+        $post_type = sanitize_key((string) $request->get_param('post_type'));
+        if (!in_array($post_type, $this->publishable_post_types(), true)) {
+            $post_type = 'page';
+        }
+
+        $templates = wp_get_theme()->get_page_templates(null, $post_type);
         
         $formatted_templates = array();
         
@@ -237,7 +256,197 @@ class GeoScale_Connector {
         return rest_ensure_response(array(
             'success' => true,
             'templates' => $formatted_templates,
+            'post_types' => $this->post_type_options(),
+            'authors' => $this->author_options(),
+            'parents' => $this->parent_options($post_type),
+        ));
+    }
+    
+    /**
+     * Public post types GeoScale can publish to
+     */
+    private function publishable_post_types() {
+        return array_values(array_diff(get_post_types(array('public' => true), 'names'), array('attachment')));
+    }
+    
+    /**
+     * Publishable post types with the taxonomies each one uses
+     */
+    private function post_type_options() {
+        $options = array();
+        
+        foreach ($this->publishable_post_types() as $post_type) {
+            $object = get_post_type_object($post_type);
+            $taxonomies = array();
+            
+            foreach (get_object_taxonomies($post_type, 'objects') as $taxonomy) {
+                if (!$taxonomy->public || $taxonomy->name === 'post_format') {
+                    continue;
+                }
+                $taxonomies[] = array(
+                    'name' => $taxonomy->name,
+                    'label' => $taxonomy->labels->singular_name,
+                    'hierarchical' => (bool) $taxonomy->hierarchical,
+                );
+            }
+            
+            $options[] = array(
+                'name' => $post_type,
+                'label' => $object->labels->singular_name,
+                'hierarchical' => (bool) $object->hierarchical,
+                'taxonomies' => $taxonomies,
+            );
+        }
+        
+        return $options;
+    }
+    
+    /**
+     * Users who can be set as a page's author
+     */
+    private function author_options() {
+        $users = get_users(array(
+            'capability' => array('edit_posts'),
+            'orderby' => 'display_name',
+            'number' => 200,
+        ));
+        
+        return array_map(function ($user) {
+            return array('id' => $user->ID, 'name' => $user->display_name);
+        }, $users);
+    }
+    
+    /**
+     * Posts of a hierarchical post type that can be a page's parent
+     */
+    private function parent_options($post_type) {
+        if (!is_post_type_hierarchical($post_type)) {
+            return array();
+        }
+        
+        $posts = get_posts(array(
+            'post_type' => $post_type,
+            'post_status' => array('publish', 'draft', 'private'),
+            'numberposts' => 500,
+            'orderby' => 'title',
+            'order' => 'ASC',
         ));
+        
+        return array_map(function ($post) {
+            return array('id' => $post->ID, 'title' => $post->post_title, 'parent_id' => $post->post_parent);
+        }, $posts);
+    }
+    
+    /**
+     * Whether GeoScale may update this post: its own pages of any post type,
+     * and pages published before GeoScale marked them
+     */
+    private function is_geoscale_post($post) {
+        if (!$post || !in_array($post->post_type, $this->publishable_post_types(), true)) {
+            return false;
+        }
+        
+        return $post->post_type === 'page' || (bool) get_post_meta($post->ID, 'geoscale_page', true);
+    }
+    
+    /**
+     * post_parent, post_author and post_name from the request's parent_id (or
+     * parent_url, looked up when parent_id is empty), author_id and slug.
+     * Only fields present in the request are returned; invalid values are
+     * dropped with a warning.
+     */
+    private function mapped_post_fields($post_type, $params) {
+        $fields = array();
+        
+        if (empty($params['parent_id']) && !empty($params['parent_url'])) {
+            $params['parent_id'] = url_to_postid(esc_url_raw($params['parent_url']));
+            if (!$params['parent_id']) {
+                $this->log('No page found at parent URL ' . $params['parent_url'] . ', publishing at the top level', 'warning');
+            }
+        }
+        
+        if (array_key_exists('parent_id', $params)) {
+            $parent_id = intval($params['parent_id']);
+            $parent = $parent_id ? get_post($parent_id) : null;
+            if (!$parent_id) {
+                $fields['post_parent'] = 0;
+            } elseif ($parent && is_post_type_hierarchical($post_type) && $parent->post_type === $post_type) {
+                $fields['post_parent'] = $parent_id;
+            } else {
+                $this->log('Parent ID ' . $parent_id . ' is not a ' . $post_type . ', publishing at the top level', 'warning');
+                $fields['post_parent'] = 0;
+            }
+        }
+        
+        if (!empty($params['author_id'])) {
+            $author_id = intval($params['author_id']);
+            if (get_userdata($author_id) && user_can($author_id, 'edit_posts')) {
+                $fields['post_author'] = $author_id;
+            } else {
+                $this->log('User ID ' . $author_id . ' cannot be an author, keeping the default', 'warning');
+            }
+        }
+        
+        // WordPress adds a suffix if a sibling already has the slug
+        if (!empty($params['slug'])) {
+            $fields['post_name'] = sanitize_title($params['slug']);
+        }
+        
+        return $fields;
+    }
+    
+    /**
+     * Set taxonomy terms and custom fields from the request. terms maps a
+     * taxonomy to term names, creating terms that don't exist yet;
+     * custom_fields maps a meta key to its value, saved through ACF when the
+     * key is an ACF field. Protected and geoscale_ keys are skipped.
+     */
+    private function apply_publish_mapping($page_id, $post_type, $params) {
+        if (!empty($params['terms']) && is_array($params['terms'])) {
+            foreach ($params['terms'] as $taxonomy => $names) {
+                $taxonomy = sanitize_key($taxonomy);
+                if (!taxonomy_exists($taxonomy) || !is_object_in_taxonomy($post_type, $taxonomy)) {
+                    $this->log('Taxonomy ' . $taxonomy . ' is not registered for ' . $post_type . ', skipped', 'warning');
+                    continue;
+                }
+                
+                $term_ids = array();
+                foreach ((array) $names as $name) {
+                    $name = sanitize_text_field($name);
+                    if ($name === '') {
+                        continue;
+                    }
+                    $term = term_exists($name, $taxonomy);
+                    if (!$term) {
+                        $term = wp_insert_term($name, $taxonomy);
+                    }
+                    if (is_wp_error($term)) {
+                        $this->log('Failed to create ' . $taxonomy . ' term ' . $name . ' - ' . $term->get_error_message(), 'error');
+                        continue;
+                    }
+                    $term_ids[] = intval($term['term_id']);
+                }
+                
+                wp_set_object_terms($page_id, $term_ids, $taxonomy, false);
+            }
+        }
+        
+        if (!empty($params['custom_fields']) && is_array($params['custom_fields'])) {
+            foreach ($params['custom_fields'] as $key => $value) {
+                $key = sanitize_text_field($key);
+                if ($key === '' || is_protected_meta($key, 'post') || strpos($key, 'geoscale_') === 0) {
+                    $this->log('Custom field ' . $key . ' is protected, skipped', 'warning');
+                    continue;
+                }
+                $value = sanitize_text_field($value);
+                
+                if (function_exists('acf_get_field') && acf_get_field($key)) {
+                    update_field($key, $value, $page_id);
+                } else {
+                    update_post_meta($page_id, $key, $value);
+                }
+            }
+        }
     }
     
     /**
@@ -254,8 +463,13 @@ class GeoScale_Connector {
         try {
             $this->log('Starting publish request for page: ' . $params['title']);
             
+            $post_type = !empty($params['post_type']) ? sanitize_key($params['post_type']) : 'page';
+            if (!in_array($post_type, $this->publishable_post_types(), true)) {
+                return new WP_Error('invalid_post_type', 'Post type ' . $post_type . ' does not exist or is not public', array('status' => 400));
+            }
+            
             // Check for duplicate pages with the same title
-            $existing_page = get_page_by_title($params['title'], OBJECT, 'page');
+            $existing_page = get_page_by_title($params['title'], OBJECT, $post_type);
             if ($existing_page) {
                 $this->log('Duplicate page detected! Page with title "' . $params['title'] . '" already exists (ID: ' . $existing_page->ID . ')', 'warning');
                 
@@ -263,14 +477,14 @@ class GeoScale_Connector {
                 $is_geoscale_page = get_post_meta($existing_page->ID, 'geoscale_page', true);
                 if ($is_geoscale_page) {
                     $this->log('Existing page is a GeoScale page, returning existing page ID instead of creating duplicate', 'warning');
-                    return rest_ensure_response(array(
+                    return rest_ensure_response(array_merge(array(
                         'success' => true,
                         'message' => 'Page with this title already exists',
                         'page_id' => $existing_page->ID,
                         'edit_url' => get_edit_post_link($existing_page->ID, 'raw'),
                         'page_url' => get_permalink($existing_page->ID),
                         'duplicate_prevented' => true
-                    ));
+                    ), $this->sync_state($existing_page->ID)));
                 }
             }
             
@@ -291,6 +505,10 @@ class GeoScale_Connector {
                 $content = $this->convert_markdown_to_html($content);
             }
             
+            // Upload in-content images to the media library (attached to the page once it exists)
+            $content_images = $this->sideload_content_images($content, $params['title'], 0, array());
+            $content = $content_images['content'];
+            
             // Use wp_kses_post for sanitization
             $allowed_html = wp_kses_allowed_html('post');
             $allowed_html['iframe'] = array(
@@ -306,13 +524,13 @@ class GeoScale_Connector {
                 'style' => true,
             );
             
-            $page_data = array(
+            $page_data = array_merge(array(
                 'post_title'    => sanitize_text_field($params['title']),
                 'post_content'  => wp_kses($content, $allowed_html),
                 'post_status'   => $page_status,
                 'post_author'   => 1, // Default to admin
-                'post_type'     => 'page', // Create as page, not post
-            );
+                'post_type'     => $post_type,
+            ), $this->mapped_post_fields($post_type, $params));
             
             // Set meta description if provided
             if (!empty($params['meta_description'])) {
@@ -323,7 +541,7 @@ class GeoScale_Connector {
             if (!empty($params['page_template'])) {
                 $template = sanitize_text_field($params['page_template']);
                 // Validate template exists
-                $available_templates = wp_get_theme()->get_page_templates();
+                $available_templates = wp_get_theme()->get_page_templates(null, $post_type);
                 if ($template === '' || isset($available_templates[$template])) {
                     $page_data['page_template'] = $template;
                     $this->log('Using page template: ' . ($template === '' ? 'default' : $template));
@@ -342,27 +560,20 @@ class GeoScale_Connector {
                 update_post_meta($page_id, '_wp_page_template', $params['page_template']);
             }
             
-            // Handle featured image if provided
-            if (!empty($params['image_url'])) {
-                $this->log('Processing image URL: ' . substr($params['image_url'], 0, 100) . '...');
-                $featured_image_id = $this->upload_image_from_url($params['image_url'], $params['title'], $page_id);
-                if ($featured_image_id) {
-                    $this->log('Featured image uploaded with ID: ' . $featured_image_id, 'success');
-                    update_post_meta($featured_image_id, '_wp_attachment_image_alt', sanitize_text_field($params['title']));
-                    set_post_thumbnail($page_id, $featured_image_id);
-                }
+            // Attach the in-content images to the new page
+            foreach ($content_images['image_map'] as $attachment_id) {
+                wp_update_post(array('ID' => $attachment_id, 'post_parent' => $page_id));
             }
+            update_post_meta($page_id, 'geoscale_image_map', $content_images['image_map']);
+            
+            // Handle featured image if provided
+            $this->set_featured_image($page_id, $params);
             
             // Add SEO meta data
-            if (!empty($params['meta_title'])) {
-                update_post_meta($page_id, '_yoast_wpseo_title', sanitize_text_field($params['meta_title']));
-                update_post_meta($page_id, 'rank_math_title', sanitize_text_field($params['meta_title']));
-            }
+            $this->save_seo_meta($page_id, $params);
             
-            if (!empty($params['meta_description'])) {
-                update_post_meta($page_id, '_yoast_wpseo_metadesc', sanitize_text_field($params['meta_description']));
-                update_post_meta($page_id, 'rank_math_description', sanitize_text_field($params['meta_description']));
-            }
+            // Taxonomy terms and custom fields
+            $this->apply_publish_mapping($page_id, $post_type, $params);
             
             // Mark this as a GeoScale page for tracking
             update_post_meta($page_id, 'geoscale_page', '1');
@@ -376,6 +587,9 @@ class GeoScale_Connector {
                 update_post_meta($page_id, 'geoscale_keyword', sanitize_text_field($params['keyword']));
             }
             
+            // Store JSON-LD structured data
+            $this->save_schema($page_id, $params);
+            
             // Final update to ensure all metadata is saved
             wp_update_post(array('ID' => $page_id));
             
@@ -398,13 +612,13 @@ class GeoScale_Connector {
             $this->log('Page creation complete with ID: ' . $page_id, 'success');
 
             // Return success response
-            return rest_ensure_response(array(
+            return rest_ensure_response(array_merge(array(
                 'success' => true,
                 'message' => 'Page published successfully',
                 'page_id' => $page_id,
                 'edit_url' => get_edit_post_link($page_id, 'raw'),
                 'page_url' => get_permalink($page_id),
-            ));
+            ), $this->sync_state($page_id)));
 
         } catch (Exception $e) {
             $this->log('Exception in handle_publish_request: ' . $e->getMessage(), 'error');
@@ -427,13 +641,40 @@ class GeoScale_Connector {
         
         // Check if page exists
         $page = get_post($page_id);
-        if (!$page || $page->post_type !== 'page') {
+        if (!$this->is_geoscale_post($page)) {
             return new WP_Error('page_not_found', 'Page not found', array('status' => 404));
         }
         
+        // Pages can move to another post type when the project's mapping changes
+        $post_type = !empty($params['post_type']) ? sanitize_key($params['post_type']) : $page->post_type;
+        if (!in_array($post_type, $this->publishable_post_types(), true)) {
+            return new WP_Error('invalid_post_type', 'Post type ' . $post_type . ' does not exist or is not public', array('status' => 400));
+        }
+        
+        // Refuse to overwrite edits made in WordPress since GeoScale last pushed,
+        // unless the app sends force after asking the user
+        if (!empty($params['expected_hash']) && empty($params['force'])) {
+            $current_hash = $this->content_hash($page);
+            if (!hash_equals($current_hash, (string) $params['expected_hash'])) {
+                $this->log('Page ID ' . $page_id . ' was changed in WordPress, update refused', 'warning');
+                return new WP_Error(
+                    'changed_in_wordpress',
+                    'This page has been edited in WordPress since GeoScale last published it',
+                    array_merge(array('status' => 409), $this->sync_state($page_id))
+                );
+            }
+        }
+        
         try {
             $this->log('Updating page ID: ' . $page_id);
             
+            // Pages trashed in WordPress come back with their original slug
+            if ($page->post_status === 'trash') {
+                wp_untrash_post($page_id);
+                $page = get_post($page_id);
+                $this->log('Restored page ID ' . $page_id . ' from the trash', 'warning');
+            }
+            
             // Determine page status
             $page_status = $page->post_status;
             if (!empty($params['status'])) {
@@ -449,6 +690,11 @@ class GeoScale_Connector {
                 $content = $this->convert_markdown_to_html($content);
             }
             
+            // Upload in-content images, reusing ones uploaded on earlier pushes
+            $image_map = get_post_meta($page_id, 'geoscale_image_map', true);
+            $content_images = $this->sideload_content_images($content, $params['title'], $page_id, is_array($image_map) ? $image_map : array());
+            $content = $content_images['content'];
+            
             $allowed_html = wp_kses_allowed_html('post');
             $allowed_html['iframe'] = array(
                 'src' => true,
@@ -463,12 +709,13 @@ class GeoScale_Connector {
                 'style' => true,
             );
             
-            $page_data = array(
+            $page_data = array_merge(array(
                 'ID'            => $page_id,
                 'post_title'    => sanitize_text_field($params['title']),
                 'post_content'  => wp_kses($content, $allowed_html),
                 'post_status'   => $page_status,
-            );
+                'post_type'     => $post_type,
+            ), $this->mapped_post_fields($post_type, $params));
             
             if (!empty($params['meta_description'])) {
                 $page_data['post_excerpt'] = sanitize_text_field($params['meta_description']);
@@ -484,36 +731,22 @@ class GeoScale_Connector {
             // Update page template if provided
             if (!empty($params['page_template'])) {
                 $template = sanitize_text_field($params['page_template']);
-                $available_templates = wp_get_theme()->get_page_templates();
+                $available_templates = wp_get_theme()->get_page_templates(null, $post_type);
                 if ($template === '' || isset($available_templates[$template])) {
                     update_post_meta($page_id, '_wp_page_template', $template);
                 }
             }
             
+            update_post_meta($page_id, 'geoscale_image_map', $content_images['image_map']);
+            
             // Handle featured image
-            if (!empty($params['image_url'])) {
-                $old_thumbnail_id = get_post_thumbnail_id($page_id);
-                if ($old_thumbnail_id) {
-                    wp_delete_attachment($old_thumbnail_id, true);
-                }
-                
-                $featured_image_id = $this->upload_image_from_url($params['image_url'], $params['title'], $page_id);
-                if ($featured_image_id) {
-                    update_post_meta($featured_image_id, '_wp_attachment_image_alt', sanitize_text_field($params['title']));
-                    set_post_thumbnail($page_id, $featured_image_id);
-                }
-            }
+            $this->set_featured_image($page_id, $params);
             
             // Update SEO meta
-            if (!empty($params['meta_title'])) {
-                update_post_meta($page_id, '_yoast_wpseo_title', sanitize_text_field($params['meta_title']));
-                update_post_meta($page_id, 'rank_math_title', sanitize_text_field($params['meta_title']));
-            }
+            $this->save_seo_meta($page_id, $params);
             
-            if (!empty($params['meta_description'])) {
-                update_post_meta($page_id, '_yoast_wpseo_metadesc', sanitize_text_field($params['meta_description']));
-                update_post_meta($page_id, 'rank_math_description', sanitize_text_field($params['meta_description']));
-            }
+            // Taxonomy terms and custom fields
+            $this->apply_publish_mapping($page_id, $post_type, $params);
             
             // Update location and keyword
             if (!empty($params['location'])) {
@@ -524,6 +757,9 @@ class GeoScale_Connector {
                 update_post_meta($page_id, 'geoscale_keyword', sanitize_text_field($params['keyword']));
             }
             
+            // Update JSON-LD structured data
+            $this->save_schema($page_id, $params);
+            
             // Clear caches
             clean_post_cache($page_id);
             
@@ -540,13 +776,13 @@ class GeoScale_Connector {
 
             $this->log('Page update complete for ID: ' . $page_id, 'success');
             
-            return rest_ensure_response(array(
+            return rest_ensure_response(array_merge(array(
                 'success' => true,
                 'message' => 'Page updated successfully',
                 'page_id' => $page_id,
                 'edit_url' => get_edit_post_link($page_id, 'raw'),
                 'page_url' => get_permalink($page_id),
-            ));
+            ), $this->sync_state($page_id)));
             
         } catch (Exception $e) {
             $this->log('Exception in handle_update_request: ' . $e->getMessage(), 'error');
@@ -569,7 +805,7 @@ class GeoScale_Connector {
         
         // Check if page exists
         $page = get_post($page_id);
-        if (!$page || ($page->post_type !== 'page' && $page->post_type !== 'post')) {
+        if (!$page || ($page->post_type !== 'post' && !$this->is_geoscale_post($page))) {
             return new WP_Error('page_not_found', 'Page not found', array('status' => 404));
         }
         
@@ -577,38 +813,16 @@ class GeoScale_Connector {
             $this->log('Updating meta for page ID: ' . $page_id);
             
             // Update SEO meta
-            if (!empty($params['meta_title'])) {
-                update_post_meta($page_id, '_yoast_wpseo_title', sanitize_text_field($params['meta_title']));
-                update_post_meta($page_id, 'rank_math_title', sanitize_text_field($params['meta_title']));
-                $this->log('Updated meta title for page ID: ' . $page_id);
-            }
-            
-            if (!empty($params['meta_description'])) {
-                update_post_meta($page_id, '_yoast_wpseo_metadesc', sanitize_text_field($params['meta_description']));
-                update_post_meta($page_id, 'rank_math_description', sanitize_text_field($params['meta_description']));
-                $this->log('Updated meta description for page ID: ' . $page_id);
-            }
-            
-            // Clear caches
-            clean_post_cache($page_id);
-            
-            // Purge LiteSpeed Cache
-            if (defined('LSCWP_V')) {
-                do_action('litespeed_purge_post', $page_id);
-            }
-            
-            // Purge Cloudflare
-            if (class_exists('CF\WordPress\Hooks')) {
-                do_action('cloudflare_purge_by_url', get_permalink($page_id));
-            }
+            $this->save_seo_meta($page_id, $params);
+            $this->purge_page_cache($page_id);
 
             $this->log('Meta update complete for page ID: ' . $page_id, 'success');
             
-            return rest_ensure_response(array(
+            return rest_ensure_response(array_merge(array(
                 'success' => true,
                 'message' => 'Page meta updated successfully',
                 'page_id' => $page_id,
-            ));
+            ), $this->seo_meta_state($page_id, $this->detect_seo_plugin())));
             
         } catch (Exception $e) {
             $this->log('Exception in handle_update_meta_request: ' . $e->getMessage(), 'error');
@@ -616,6 +830,149 @@ class GeoScale_Connector {
         }
     }
 
+    /**
+     * Handle batch meta update request - updates meta title and description on
+     * up to 100 pages, and reports what the SEO plugin holds for each page
+     * afterwards
+     */
+    public function handle_update_meta_batch_request($request) {
+        $params = $request->get_json_params();
+        $pages = isset($params['pages']) && is_array($params['pages']) ? $params['pages'] : array();
+
+        if (empty($pages)) {
+            return new WP_Error('missing_fields', 'Pages are required', array('status' => 400));
+        }
+
+        if (count($pages) > 100) {
+            return new WP_Error('too_many_pages', 'At most 100 pages per request', array('status' => 400));
+        }
+
+        $seo_plugin = $this->detect_seo_plugin();
+        $this->log('Batch meta update for ' . count($pages) . ' pages (SEO plugin: ' . $seo_plugin . ')');
+
+        $results = array();
+        $updated = 0;
+
+        foreach ($pages as $item) {
+            $page_id = isset($item['page_id']) ? intval($item['page_id']) : 0;
+            $page = $page_id ? get_post($page_id) : null;
+
+            if (!$page || ($page->post_type !== 'post' && !$this->is_geoscale_post($page))) {
+                $results[] = array(
+                    'page_id' => $page_id,
+                    'success' => false,
+                    'error' => 'Page not found',
+                );
+                continue;
+            }
+
+            try {
+                $this->save_seo_meta($page_id, $item);
+                $this->purge_page_cache($page_id);
+                $results[] = array_merge(array(
+                    'page_id' => $page_id,
+                    'success' => true,
+                ), $this->seo_meta_state($page_id, $seo_plugin));
+                $updated++;
+            } catch (Exception $e) {
+                $this->log('Batch meta update failed for page ID ' . $page_id . ': ' . $e->getMessage(), 'error');
+                $results[] = array(
+                    'page_id' => $page_id,
+                    'success' => false,
+                    'error' => $e->getMessage(),
+                );
+            }
+        }
+
+        $this->log('Batch meta update complete: ' . $updated . ' of ' . count($pages) . ' pages', 'success');
+
+        return rest_ensure_response(array(
+            'success' => true,
+            'seo_plugin' => $seo_plugin,
+            'updated' => $updated,
+            'results' => $results,
+        ));
+    }
+
+    /**
+     * Save meta title and description for Yoast, Rank Math and, when neither
+     * is active, the plugin's own title and description tags
+     */
+    private function save_seo_meta($page_id, $params) {
+        if (!empty($params['meta_title'])) {
+            $meta_title = sanitize_text_field($params['meta_title']);
+            update_post_meta($page_id, '_yoast_wpseo_title', $meta_title);
+            update_post_meta($page_id, 'rank_math_title', $meta_title);
+            update_post_meta($page_id, 'geoscale_meta_title', $meta_title);
+        }
+
+        if (!empty($params['meta_description'])) {
+            $meta_description = sanitize_text_field($params['meta_description']);
+            update_post_meta($page_id, '_yoast_wpseo_metadesc', $meta_description);
+            update_post_meta($page_id, 'rank_math_description', $meta_description);
+            update_post_meta($page_id, 'geoscale_meta_description', $meta_description);
+        }
+    }
+
+    /**
+     * The meta title and description the active SEO plugin will use for a page
+     */
+    private function seo_meta_state($page_id, $seo_plugin) {
+        clean_post_cache($page_id);
+
+        return array(
+            'seo_plugin' => $seo_plugin,
+            'meta_title' => $this->get_meta_title($page_id, $seo_plugin),
+            'meta_description' => $this->get_meta_description($page_id, $seo_plugin),
+        );
+    }
+
+    /**
+     * Clear the post cache and purge page caches after a meta change
+     */
+    private function purge_page_cache($page_id) {
+        clean_post_cache($page_id);
+
+        // Purge LiteSpeed Cache
+        if (defined('LSCWP_V')) {
+            do_action('litespeed_purge_post', $page_id);
+        }
+
+        // Purge Cloudflare
+        if (class_exists('CF\WordPress\Hooks')) {
+            do_action('cloudflare_purge_by_url', get_permalink($page_id));
+        }
+    }
+
+    /**
+     * Use the GeoScale meta title as the document title when no SEO plugin is
+     * active
+     */
+    public function filter_document_title($title) {
+        if (!is_singular() || $this->detect_seo_plugin() !== 'none') {
+            return $title;
+        }
+
+        $meta_title = get_post_meta(get_queried_object_id(), 'geoscale_meta_title', true);
+        return !empty($meta_title) ? $meta_title : $title;
+    }
+
+    /**
+     * Print the GeoScale meta description when no SEO plugin is active
+     */
+    public function output_meta_description() {
+        if (!is_singular() || $this->detect_seo_plugin() !== 'none') {
+            return;
+        }
+
+        $meta_description = get_post_meta(get_queried_object_id(), 'geoscale_meta_description', true);
+        if (empty($meta_description)) {
+            return;
+        }
+
+        echo '<meta name="description" content="' . esc_attr($meta_description) . '" />' . "\n";
+    }
+
     /**
      * Detect which SEO plugin is active
      */
@@ -644,6 +1001,9 @@ class GeoScale_Connector {
             case 'yoast':
                 $meta_title = get_post_meta($post_id, '_yoast_wpseo_title', true);
                 break;
+            default:
+                $meta_title = get_post_meta($post_id, 'geoscale_meta_title', true);
+                break;
         }
         
         if (empty($meta_title)) {
@@ -666,6 +1026,9 @@ class GeoScale_Connector {
             case 'yoast':
                 $meta_description = get_post_meta($post_id, '_yoast_wpseo_metadesc', true);
                 break;
+            default:
+                $meta_description = get_post_meta($post_id, 'geoscale_meta_description', true);
+                break;
         }
         
         if (empty($meta_description)) {
@@ -676,7 +1039,12 @@ class GeoScale_Connector {
     }
 
     /**
-     * Handle sitemap request
+     * Handle sitemap request. GeoScale pages also carry their content hash and
+     * GMT modified time so the app can spot edits made in WordPress.
+     *
+     * Optional query params:
+     * - geoscale_only=1: only GeoScale pages, drafts and trashed pages included
+     * - ids=1,2,3: only these pages, with their title and content
      */
     public function handle_sitemap_request($request) {
         $this->log('Sitemap request received', 'info');
@@ -684,10 +1052,13 @@ class GeoScale_Connector {
         $seo_plugin = $this->detect_seo_plugin();
         $this->log('SEO plugin detected: ' . $seo_plugin, 'info');
 
+        $geoscale_only = !empty($request->get_param('geoscale_only'));
+        $ids = array_filter(array_map('intval', explode(',', (string) $request->get_param('ids'))));
+
         $sitemap_data = array();
 
-        // Get all pages and posts
-        $post_types = array('page', 'post');
+        // Get all pages and posts; GeoScale pages can be of any public post type
+        $post_types = ($geoscale_only || !empty($ids)) ? array($this->publishable_post_types()) : array('page', 'post');
 
         foreach ($post_types as $post_type) {
             $args = array(
@@ -698,6 +1069,19 @@ class GeoScale_Connector {
                 'order' => 'DESC',
             );
 
+            if ($geoscale_only || !empty($ids)) {
+                $args['post_status'] = array('publish', 'draft', 'pending', 'private', 'future', 'trash');
+            }
+
+            if ($geoscale_only) {
+                $args['meta_key'] = 'geoscale_page';
+                $args['meta_value'] = '1';
+            }
+
+            if (!empty($ids)) {
+                $args['post__in'] = $ids;
+            }
+
             $query = new WP_Query($args);
 
             if ($query->have_posts()) {
@@ -707,17 +1091,30 @@ class GeoScale_Connector {
 
                     $meta_title = $this->get_meta_title($post_id, $seo_plugin);
                     $meta_description = $this->get_meta_description($post_id, $seo_plugin);
+                    $is_geoscale_page = (bool) get_post_meta($post_id, 'geoscale_page', true);
 
-                    $sitemap_data[] = array(
+                    $item = array(
                         'id' => $post_id,
-                        'type' => $post_type,
+                        'type' => get_post_type($post_id),
                         'slug' => get_post_field('post_name', $post_id),
                         'url' => get_permalink($post_id),
                         'meta_title' => $meta_title,
                         'meta_description' => $meta_description,
                         'status' => get_post_status($post_id),
                         'modified' => get_the_modified_date('Y-m-d H:i:s'),
+                        'geoscale_page' => $is_geoscale_page,
                     );
+
+                    if ($is_geoscale_page) {
+                        $item = array_merge($item, $this->sync_state($post_id));
+                    }
+
+                    if (!empty($ids)) {
+                        $item['title'] = get_post_field('post_title', $post_id, 'raw');
+                        $item['content'] = get_post_field('post_content', $post_id, 'raw');
+                    }
+
+                    $sitemap_data[] = $item;
                 }
                 wp_reset_postdata();
             }
@@ -730,9 +1127,121 @@ class GeoScale_Connector {
             'sitemap' => $sitemap_data,
             'total_items' => count($sitemap_data),
             'seo_plugin' => $seo_plugin,
+            'plugin_version' => GEOSCALE_VERSION,
         ));
     }
 
+    /**
+     * Hash of a page's title and content as stored in WordPress. GeoScale keeps
+     * the hash from its last push; a different one means the page was edited here.
+     */
+    private function content_hash($post) {
+        $post = get_post($post);
+        if (!$post) {
+            return '';
+        }
+        
+        $content = str_replace("\r\n", "\n", $post->post_content);
+        return hash('sha256', trim($post->post_title) . "\n" . trim($content));
+    }
+    
+    /**
+     * Content hash and GMT modified time of a page, added to responses
+     */
+    private function sync_state($page_id) {
+        clean_post_cache($page_id);
+        
+        return array(
+            'content_hash' => $this->content_hash($page_id),
+            'modified_gmt' => get_post_modified_time('c', true, $page_id),
+        );
+    }
+
+    /**
+     * Set the page's featured image from image_url, with image_alt as its alt
+     * text (the title when missing). The image is only uploaded again when
+     * the URL has changed since the last push.
+     */
+    private function set_featured_image($page_id, $params) {
+        if (empty($params['image_url'])) {
+            return;
+        }
+        
+        $alt = !empty($params['image_alt']) ? $params['image_alt'] : $params['title'];
+        $source = md5($params['image_url']);
+        $old_thumbnail_id = get_post_thumbnail_id($page_id);
+        
+        if ($old_thumbnail_id && get_post_meta($page_id, 'geoscale_featured_source', true) === $source) {
+            update_post_meta($old_thumbnail_id, '_wp_attachment_image_alt', sanitize_text_field($alt));
+            return;
+        }
+        
+        $this->log('Processing image URL: ' . substr($params['image_url'], 0, 100) . '...');
+        $featured_image_id = $this->upload_image_from_url($params['image_url'], $params['title'], $page_id);
+        if (!$featured_image_id) {
+            return;
+        }
+        
+        // Only remove the old image once the new one is in
+        if ($old_thumbnail_id) {
+            wp_delete_attachment($old_thumbnail_id, true);
+        }
+        
+        $this->log('Featured image uploaded with ID: ' . $featured_image_id, 'success');
+        update_post_meta($featured_image_id, '_wp_attachment_image_alt', sanitize_text_field($alt));
+        set_post_thumbnail($page_id, $featured_image_id);
+        update_post_meta($page_id, 'geoscale_featured_source', $source);
+    }
+    
+    /**
+     * Upload the images GeoScale placed in the content (marked with
+     * data-geoscale-image) to the media library and point them at the local
+     * copies. $image_map maps md5(source URL) to attachment ID so images
+     * already uploaded for the page are reused. Images that fail to upload
+     * are removed from the content.
+     */
+    private function sideload_content_images($content, $title, $page_id, $image_map) {
+        $used = array();
+        
+        $content = preg_replace_callback('/<img\b[^>]*\bdata-geoscale-image="1"[^>]*>/i', function ($matches) use ($title, $page_id, $image_map, &$used) {
+            $tag = $matches[0];
+            if (!preg_match('/\bsrc="([^"]+)"/i', $tag, $src)) {
+                return '';
+            }
+            
+            $source_url = html_entity_decode($src[1]);
+            $key = md5($source_url);
+            
+            $attachment_id = isset($image_map[$key]) ? intval($image_map[$key]) : 0;
+            if (!$attachment_id || !wp_get_attachment_url($attachment_id)) {
+                $attachment_id = $this->upload_image_from_url($source_url, $title, $page_id);
+            }
+            if (!$attachment_id) {
+                return '';
+            }
+            
+            $used[$key] = $attachment_id;
+            
+            if (preg_match('/\balt="([^"]*)"/i', $tag, $alt)) {
+                update_post_meta($attachment_id, '_wp_attachment_image_alt', sanitize_text_field(html_entity_decode($alt[1])));
+            }
+            
+            $local_url = wp_get_attachment_image_url($attachment_id, 'large') ?: wp_get_attachment_url($attachment_id);
+            return str_replace($src[0], 'src="' . esc_url($local_url) . '" class="wp-image-' . $attachment_id . '"', $tag);
+        }, $content);
+        
+        // Images dropped from the content are no longer needed
+        foreach (array_diff_key($image_map, $used) as $attachment_id) {
+            wp_delete_attachment(intval($attachment_id), true);
+        }
+        
+        if (!empty($used)) {
+            $this->log('Placed ' . count($used) . ' in-content image(s)', 'success');
+        }
+        
+        return array('content' => $content, 'image_map' => $used);
+    }
+    
     /**
      * Upload image from URL
      */
@@ -835,6 +1344,56 @@ class GeoScale_Connector {
         return $attachment_id;
     }
     
+    /**
+     * Store the page's JSON-LD. A request without a schema field leaves the
+     * stored JSON-LD alone; an empty one removes it.
+     */
+    private function save_schema($page_id, $params) {
+        if (!array_key_exists('schema', $params)) {
+            return;
+        }
+        
+        $schema = $params['schema'];
+        if (is_string($schema) && $schema !== '') {
+            $schema = json_decode($schema, true);
+        }
+        
+        if (empty($schema)) {
+            delete_post_meta($page_id, 'geoscale_schema');
+            return;
+        }
+        
+        if (!is_array($schema)) {
+            $this->log('Ignoring invalid JSON-LD for page ID: ' . $page_id, 'warning');
+            return;
+        }
+        
+        update_post_meta($page_id, 'geoscale_schema', wp_slash(wp_json_encode($schema)));
+        $this->log('Stored JSON-LD for page ID: ' . $page_id);
+    }
+    
+    /**
+     * Print the JSON-LD of a GeoScale page in its head
+     */
+    public function output_schema() {
+        if (!is_singular()) {
+            return;
+        }
+        
+        $stored = get_post_meta(get_queried_object_id(), 'geoscale_schema', true);
+        if (empty($stored)) {
+            return;
+        }
+        
+        $schema = json_decode($stored, true);
+        if (!is_array($schema)) {
+            return;
+        }
+        
+        // JSON_HEX_TAG keeps "</script>" inside values from closing the tag
+        echo '<script type="application/ld+json">' . wp_json_encode($schema, JSON_UNESCAPED_SLASHES | JSON_UNESCAPED_UNICODE | JSON_HEX_TAG) . "</script>\n";
+    }
+    
     /**
      * Check if content is HTML
      */
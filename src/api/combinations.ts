@@ -2,6 +2,8 @@ import { supabase } from '@/lib/supabase'
 import { findNearbyTowns } from './google-places'
 import { getKeywordVariations } from './dataforseo'
 import { generateCombinations } from './combination-generator'
+import { resolveLocale } from '@/lib/locale'
+import type { CsvRecord } from '@/lib/csv'
 
 interface CreateCombinationsInput {
   base_location: string
@@ -44,7 +46,6 @@ export async function createLocationKeywordCombinations(
   const keywords = await getKeywordVariations({
     project_id: projectId,
     base_keyword: input.base_keyword,
-    location: 'GB',
     limit: 50,
   })
 
@@ -87,6 +88,14 @@ export async function getProjectCombinations(projectId: string) {
         search_volume,
         difficulty
       ),
+      generated_page:generated_pages (
+        max_similarity,
+        most_similar_location_keyword_id,
+        score,
+        score_grade,
+        score_ruleset,
+        score_checks
+      ),
       created_at
     `)
     .eq('project_id', projectId)
@@ -98,6 +107,7 @@ export async function getProjectCombinations(projectId: string) {
     ...item,
     location: Array.isArray(item.location) ? item.location[0] : item.location,
     keyword: Array.isArray(item.keyword) ? item.keyword[0] : item.keyword,
+    generated_page: (Array.isArray(item.generated_page) ? item.generated_page[0] : item.generated_page) || null,
   })) || []
   
   // Sort so suburbs appear directly after their parent town
@@ -193,10 +203,18 @@ export async function getMainTownCombinations(projectId: string) {
   )
 }
 
-interface CsvUploadResponse {
-  rows_processed: number
-  combinations_count: number
-  errors: string[]
+/**
+ * Country for locations added by hand, from the project's locale
+ */
+async function getProjectCountry(projectId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('locale_country')
+    .eq('id', projectId)
+    .single()
+
+  if (error) throw error
+  return resolveLocale(data).country
 }
 
 export async function addSpecificCombinations(
@@ -213,14 +231,16 @@ export async function addSpecificCombinations(
   })
 
   // Insert locations
+  const country = await getProjectCountry(projectId)
   const locationsToInsert = Array.from(uniqueLocations).map(location => ({
     project_id: projectId,
     place_id: `manual_${location.toLowerCase().replace(/\s+/g, '-')}`,
     name: location,
     slug: location.toLowerCase().replace(/\s+/g, '-'),
-    lat: 0, // Manual entries don't have coordinates
+    lat: 0, // Manual entries don't have coordinates until they are geocoded
     lng: 0,
-    country: 'GB',
+    country,
+    geocode_status: 'pending',
   }))
 
   const { data: insertedLocations, error: locError } = await supabase
@@ -319,167 +339,387 @@ export async function addSpecificCombinations(
   }
 }
 
+export type CsvImportField =
+  | 'location'
+  | 'keyword'
+  | 'search_volume'
+  | 'difficulty'
+  | 'service'
+  | 'parent_town'
+  | 'lat'
+  | 'lng'
+
+/**
+ * Columns a CSV import can fill, with the header names recognised for each
+ */
+export const CSV_IMPORT_FIELDS: Array<{ field: CsvImportField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'location', label: 'Location', required: true, aliases: ['location', 'town', 'city', 'suburb', 'area'] },
+  { field: 'keyword', label: 'Keyword', required: true, aliases: ['keyword', 'keywords', 'keyword phrase', 'search term'] },
+  { field: 'search_volume', label: 'Search volume', required: false, aliases: ['search_volume', 'search volume', 'volume'] },
+  { field: 'difficulty', label: 'Difficulty', required: false, aliases: ['difficulty', 'keyword difficulty', 'kd'] },
+  { field: 'service', label: 'Service', required: false, aliases: ['service', 'service name'] },
+  { field: 'parent_town', label: 'Parent town', required: false, aliases: ['parent_town', 'parent town', 'parent'] },
+  { field: 'lat', label: 'Latitude', required: false, aliases: ['lat', 'latitude'] },
+  { field: 'lng', label: 'Longitude', required: false, aliases: ['lng', 'lon', 'long', 'longitude'] },
+]
+
+// Column index for each mapped field
+export type CsvColumnMapping = Partial<Record<CsvImportField, number>>
+
+export interface CsvImportRow {
+  line: number
+  location: string
+  keyword: string
+  search_volume: number | null
+  difficulty: number | null
+  service: string | null
+  parent_town: string | null
+  lat: number | null
+  lng: number | null
+}
+
+export interface CsvRowError {
+  line: number
+  message: string
+}
+
+interface CsvUploadResponse {
+  rows_processed: number
+  combinations_count: number
+  locations_to_geocode: number
+  errors: CsvRowError[]
+}
+
+/**
+ * Map header cells to import fields by name
+ */
+export function guessCsvColumnMapping(header: string[]): CsvColumnMapping {
+  const normalised = header.map(cell => cell.trim().toLowerCase().replace(/[\s_-]+/g, ' '))
+  const mapping: CsvColumnMapping = {}
+
+  for (const { field, aliases } of CSV_IMPORT_FIELDS) {
+    const index = normalised.findIndex(cell => aliases.some(alias => alias.replace(/_/g, ' ') === cell))
+    if (index !== -1 && !Object.values(mapping).includes(index)) {
+      mapping[field] = index
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Turn mapped CSV records into import rows, collecting an error for every row
+ * that can't be imported. `serviceNames` are the project's services; a row
+ * naming any other service is rejected.
+ */
+export function validateCsvRows(
+  records: CsvRecord[],
+  mapping: CsvColumnMapping,
+  serviceNames: string[]
+): { rows: CsvImportRow[]; errors: CsvRowError[] } {
+  const rows: CsvImportRow[] = []
+  const errors: CsvRowError[] = []
+  const services = new Set(serviceNames.map(name => name.toLowerCase()))
+  const seen = new Map<string, number>()
+
+  const cell = (record: CsvRecord, field: CsvImportField) => {
+    const index = mapping[field]
+    return index === undefined ? '' : (record.fields[index] ?? '').trim()
+  }
+
+  const number = (value: string) => (value === '' ? null : Number(value.replace(/,/g, '')))
+
+  for (const record of records) {
+    const problems: string[] = []
+    const location = cell(record, 'location')
+    const keyword = cell(record, 'keyword')
+    const service = cell(record, 'service') || null
+    const parentTown = cell(record, 'parent_town') || null
+    const searchVolume = number(cell(record, 'search_volume'))
+    const difficulty = number(cell(record, 'difficulty'))
+    const lat = number(cell(record, 'lat'))
+    const lng = number(cell(record, 'lng'))
+
+    if (!location) problems.push('missing location')
+    if (!keyword) problems.push('missing keyword')
+    if (searchVolume !== null && (!Number.isInteger(searchVolume) || searchVolume < 0)) {
+      problems.push('search volume must be a whole number')
+    }
+    if (difficulty !== null && (Number.isNaN(difficulty) || difficulty < 0 || difficulty > 100)) {
+      problems.push('difficulty must be between 0 and 100')
+    }
+    if ((lat === null) !== (lng === null)) {
+      problems.push('latitude and longitude must be given together')
+    } else if (lat !== null && lng !== null) {
+      if (Number.isNaN(lat) || lat < -90 || lat > 90) problems.push('latitude must be between -90 and 90')
+      if (Number.isNaN(lng) || lng < -180 || lng > 180) problems.push('longitude must be between -180 and 180')
+    }
+    if (service && !services.has(service.toLowerCase())) {
+      problems.push(`no service called "${service}" in this project`)
+    }
+    if (parentTown && location && parentTown.toLowerCase() === location.toLowerCase()) {
+      problems.push('a location can\'t be its own parent town')
+    }
+
+    const key = `${location.toLowerCase()}|${keyword.toLowerCase()}`
+    if (location && keyword && seen.has(key)) {
+      problems.push(`same location and keyword as line ${seen.get(key)}`)
+    }
+
+    if (problems.length > 0) {
+      const message = problems.join('; ')
+      errors.push({ line: record.line, message: message.charAt(0).toUpperCase() + message.slice(1) })
+      continue
+    }
+
+    seen.set(key, record.line)
+    rows.push({
+      line: record.line,
+      location,
+      keyword,
+      search_volume: searchVolume,
+      difficulty,
+      service,
+      parent_town: parentTown,
+      lat,
+      lng,
+    })
+  }
+
+  return { rows, errors }
+}
+
+function combinationPhrase(keyword: string, location: string): string {
+  const phrase = keyword.includes('near me')
+    ? keyword.replace('near me', `near ${location}`)
+    : `${keyword} in ${location}`
+  return phrase.toLowerCase()
+}
+
+/**
+ * Import validated CSV rows. Locations already in the project are reused by
+ * name; new ones take the file's coordinates or are left for geocoding. Rows
+ * without a parent town become town pages and are created first, so suburbs
+ * further down the file can point at them.
+ */
 export async function uploadCsvCombinations(
   projectId: string,
-  file: File
+  rows: CsvImportRow[]
 ): Promise<CsvUploadResponse> {
-  // Read the CSV file
-  const text = await file.text()
-  const lines = text.split('\n').filter(line => line.trim())
-  
-  if (lines.length < 2) {
-    throw new Error('CSV file is empty or has no data rows')
+  if (rows.length === 0) {
+    throw new Error('There are no valid rows to import')
   }
 
-  // Parse header
-  const header = lines[0].toLowerCase().split(',').map(h => h.trim())
-  const locationIndex = header.indexOf('location')
-  const keywordIndex = header.indexOf('keyword')
-  const volumeIndex = header.indexOf('search_volume')
-  const difficultyIndex = header.indexOf('difficulty')
+  const errors: CsvRowError[] = []
+  const country = await getProjectCountry(projectId)
 
-  if (locationIndex === -1 || keywordIndex === -1) {
-    throw new Error('CSV must have "location" and "keyword" columns')
-  }
-
-  const errors: string[] = []
-  const locationsMap = new Map<string, any>()
-  const keywordsMap = new Map<string, any>()
+  // Locations: reuse the project's own, insert the rest
+  const { data: existingLocations, error: existingError } = await supabase
+    .from('project_locations')
+    .select('id, name, lat, lng')
+    .eq('project_id', projectId)
 
-  // Parse data rows
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (!line) continue
+  if (existingError) throw existingError
 
-    const columns = line.split(',').map(c => c.trim())
-    const location = columns[locationIndex]
-    const keyword = columns[keywordIndex]
-    const volume = volumeIndex !== -1 ? parseInt(columns[volumeIndex]) : null
-    const difficulty = difficultyIndex !== -1 ? parseFloat(columns[difficultyIndex]) : null
+  const locationIds = new Map<string, string>()
+  const coordinateUpdates = new Map<string, { lat: number; lng: number }>()
+  existingLocations?.forEach((loc: any) => {
+    locationIds.set(loc.name.toLowerCase(), loc.id)
+  })
 
-    if (!location || !keyword) {
-      errors.push(`Row ${i + 1}: Missing location or keyword`)
+  const locationsMap = new Map<string, any>()
+  for (const row of rows) {
+    const key = row.location.toLowerCase()
+    const existing = existingLocations?.find((loc: any) => loc.name.toLowerCase() === key)
+
+    if (existing) {
+      // Fill in coordinates for a location that never had any
+      if (row.lat !== null && row.lng !== null && !Number(existing.lat) && !Number(existing.lng)) {
+        coordinateUpdates.set(existing.id, { lat: row.lat, lng: row.lng })
+      }
       continue
     }
 
-    // Store unique locations
-    if (!locationsMap.has(location)) {
-      locationsMap.set(location, {
-        name: location,
-        slug: location.toLowerCase().replace(/\s+/g, '-'),
-        // We don't have lat/lng from CSV, use 0,0 as placeholder
-        // These can be geocoded later if needed
-        lat: 0,
-        lng: 0,
-        country: 'GB',
+    const current = locationsMap.get(key)
+    if (!current || (current.geocode_status === 'pending' && row.lat !== null)) {
+      const slug = row.location.toLowerCase().replace(/\s+/g, '-')
+      locationsMap.set(key, {
+        project_id: projectId,
+        place_id: `csv_${slug}`,
+        name: row.location,
+        slug,
+        lat: row.lat ?? 0,
+        lng: row.lng ?? 0,
+        country,
+        geocode_status: row.lat !== null ? null : 'pending',
       })
     }
+  }
 
-    // Store unique keywords
-    if (!keywordsMap.has(keyword)) {
-      keywordsMap.set(keyword, {
-        keyword,
-        search_volume: volume,
-        difficulty,
+  const locationsToInsert = Array.from(locationsMap.values())
+  if (locationsToInsert.length > 0) {
+    const { data: insertedLocations, error: locError } = await supabase
+      .from('project_locations')
+      .upsert(locationsToInsert, {
+        onConflict: 'project_id,place_id',
+        ignoreDuplicates: false,
       })
-    }
-  }
+      .select('id, name')
 
-  // Insert locations
-  const locationsToInsert = Array.from(locationsMap.values()).map(loc => ({
-    project_id: projectId,
-    place_id: `csv_${loc.slug}`,
-    ...loc,
-  }))
+    if (locError) throw locError
 
-  const { data: insertedLocations, error: locError } = await supabase
-    .from('project_locations')
-    .upsert(locationsToInsert, {
-      onConflict: 'project_id,place_id',
-      ignoreDuplicates: false,
+    insertedLocations?.forEach((loc: any) => {
+      locationIds.set(loc.name.toLowerCase(), loc.id)
     })
-    .select()
+  }
 
-  if (locError) throw locError
+  for (const [id, coordinates] of coordinateUpdates) {
+    const { error } = await supabase
+      .from('project_locations')
+      .update({ ...coordinates, geocode_status: null })
+      .eq('id', id)
 
-  // Insert keywords
-  const keywordsToInsert = Array.from(keywordsMap.values()).map(kw => ({
-    project_id: projectId,
-    ...kw,
-  }))
+    if (error) throw error
+  }
+
+  // Keywords
+  const keywordsMap = new Map<string, any>()
+  for (const row of rows) {
+    if (!keywordsMap.has(row.keyword)) {
+      keywordsMap.set(row.keyword, {
+        project_id: projectId,
+        keyword: row.keyword,
+        search_volume: row.search_volume,
+        difficulty: row.difficulty,
+      })
+    }
+  }
 
   const { data: insertedKeywords, error: kwError } = await supabase
     .from('keyword_variations')
-    .upsert(keywordsToInsert, {
+    .upsert(Array.from(keywordsMap.values()), {
       onConflict: 'project_id,keyword',
       ignoreDuplicates: false,
     })
-    .select()
+    .select('id, keyword')
 
   if (kwError) throw kwError
 
-  // Create location-keyword map for quick lookup
-  const locationIdMap = new Map<string, string>()
-  insertedLocations?.forEach((loc: any) => {
-    locationIdMap.set(loc.name, loc.id)
-  })
-
-  const keywordIdMap = new Map<string, string>()
+  const keywordIds = new Map<string, string>()
   insertedKeywords?.forEach((kw: any) => {
-    keywordIdMap.set(kw.keyword, kw.id)
+    keywordIds.set(kw.keyword, kw.id)
   })
 
-  // Generate combinations from CSV rows
-  const combinations = []
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim()
-    if (!line) continue
+  // Services, matched by name
+  const { data: services, error: servicesError } = await supabase
+    .from('project_services')
+    .select('id, name')
+    .eq('project_id', projectId)
 
-    const columns = line.split(',').map(c => c.trim())
-    const location = columns[locationIndex]
-    const keyword = columns[keywordIndex]
+  if (servicesError) throw servicesError
 
-    if (!location || !keyword) continue
+  const serviceIds = new Map<string, string>()
+  services?.forEach((service: any) => {
+    serviceIds.set(service.name.toLowerCase(), service.id)
+  })
 
-    const locationId = locationIdMap.get(location)
-    const keywordId = keywordIdMap.get(keyword)
+  const toCombination = (row: CsvImportRow) => {
+    const locationId = locationIds.get(row.location.toLowerCase())
+    const keywordId = keywordIds.get(row.keyword)
 
     if (!locationId || !keywordId) {
-      errors.push(`Row ${i + 1}: Could not map location/keyword to database IDs`)
-      continue
-    }
-
-    // Create phrase
-    let phrase: string
-    if (keyword.includes('near me')) {
-      phrase = keyword.replace('near me', `near ${location}`)
-    } else {
-      phrase = `${keyword} in ${location}`
+      errors.push({ line: row.line, message: 'Could not map location/keyword to database IDs' })
+      return null
     }
 
-    combinations.push({
+    return {
       project_id: projectId,
       location_id: locationId,
       keyword_id: keywordId,
-      phrase: phrase.toLowerCase(),
+      phrase: combinationPhrase(row.keyword, row.location),
       status: 'pending',
-    })
+      service_id: row.service ? serviceIds.get(row.service.toLowerCase()) || null : null,
+    }
   }
 
-  // Insert combinations
-  const { data: insertedCombos, error: comboError } = await supabase
-    .from('location_keywords')
-    .upsert(combinations, {
-      onConflict: 'project_id,location_id,keyword_id',
-      ignoreDuplicates: true,
+  // Town rows first
+  const towns = rows.filter(row => !row.parent_town).map(toCombination).filter(combo => combo !== null)
+  let combinationsCount = 0
+
+  if (towns.length > 0) {
+    const { data: insertedTowns, error: townError } = await supabase
+      .from('location_keywords')
+      .upsert(towns, {
+        onConflict: 'project_id,location_id,keyword_id',
+        ignoreDuplicates: true,
+      })
+      .select('id')
+
+    if (townError) throw townError
+    combinationsCount += insertedTowns?.length || 0
+  }
+
+  // Then suburbs, under a town page for their parent town
+  const suburbRows = rows.filter(row => row.parent_town)
+  if (suburbRows.length > 0) {
+    const { data: townCombinations, error: parentError } = await supabase
+      .from('location_keywords')
+      .select('id, keyword_id, service_id, location:project_locations!location_id(name)')
+      .eq('project_id', projectId)
+      .is('parent_location_id', null)
+
+    if (parentError) throw parentError
+
+    const townsByName = new Map<string, Array<{ id: string; keyword_id: string; service_id: string | null }>>()
+    townCombinations?.forEach((town: any) => {
+      const location = Array.isArray(town.location) ? town.location[0] : town.location
+      if (!location?.name) return
+      const key = location.name.toLowerCase()
+      townsByName.set(key, [...(townsByName.get(key) || []), town])
     })
-    .select()
 
-  if (comboError) throw comboError
+    const suburbs = []
+    for (const row of suburbRows) {
+      const combination = toCombination(row)
+      if (!combination) continue
+
+      // Prefer the town page for the same keyword, then the same service
+      const candidates = townsByName.get(row.parent_town!.toLowerCase()) || []
+      const parent =
+        candidates.find(town => town.keyword_id === combination.keyword_id) ||
+        candidates.find(town => combination.service_id && town.service_id === combination.service_id) ||
+        candidates[0]
+
+      if (!parent) {
+        errors.push({ line: row.line, message: `Parent town "${row.parent_town}" has no town page in this project` })
+        continue
+      }
+
+      suburbs.push({
+        ...combination,
+        parent_location_id: parent.id,
+        service_id: combination.service_id || parent.service_id, // Inherit service_id from parent
+      })
+    }
+
+    if (suburbs.length > 0) {
+      const { data: insertedSuburbs, error: suburbError } = await supabase
+        .from('location_keywords')
+        .upsert(suburbs, {
+          onConflict: 'project_id,location_id,keyword_id',
+          ignoreDuplicates: true,
+        })
+        .select('id')
+
+      if (suburbError) throw suburbError
+      combinationsCount += insertedSuburbs?.length || 0
+    }
+  }
 
   return {
-    rows_processed: lines.length - 1,
-    combinations_count: insertedCombos?.length || 0,
+    rows_processed: rows.length,
+    combinations_count: combinationsCount,
+    locations_to_geocode: locationsToInsert.filter(loc => loc.geocode_status === 'pending').length,
     errors,
   }
 }
@@ -1,5 +1,5 @@
 import { supabase } from '../lib/supabase';
-import { publishToWordPress } from './wordpress';
+import { publishToWordPress, WordPressConflictError } from './wordpress';
 
 export interface GenerateContentRequest {
   locationKeywordIds: string[];
@@ -23,6 +23,7 @@ export interface PublishToWordPressResult {
   page_url?: string;
   edit_url?: string;
   error?: string;
+  conflict?: boolean; // edited in WordPress since the last push; nothing was overwritten
 }
 
 /**
@@ -118,11 +119,13 @@ export async function deleteGeneratedPage(locationKeywordId: string) {
 }
 
 /**
- * Publishes generated content to WordPress
+ * Publishes generated content to WordPress. An update is refused (conflict)
+ * if the page was edited in WordPress since, unless force is set.
  */
 export async function publishGeneratedPageToWordPress(
   locationKeywordId: string,
-  projectId: string
+  projectId: string,
+  options: { force?: boolean } = {}
 ): Promise<PublishToWordPressResult> {
   try {
     // Get the generated page content
@@ -181,6 +184,7 @@ export async function publishGeneratedPageToWordPress(
       publishStatus: (project.wp_publish_status as 'draft' | 'publish') || 'publish',
       location: combination.project_locations?.name || '',
       keyword: combination.keyword_variations?.keyword || '',
+      force: options.force,
     });
 
     // Update location_keywords with WordPress page ID and URL
@@ -204,6 +208,7 @@ export async function publishGeneratedPageToWordPress(
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to publish to WordPress',
+      conflict: error instanceof WordPressConflictError,
     };
   }
 }
@@ -34,6 +34,18 @@ export async function queueContentGeneration(
       throw updateError
     }
 
+    // Pages the user regenerates get their automatic duplicate regenerations back
+    const { error: resetError } = await supabase
+      .from('generated_pages')
+      .update({ duplicate_regenerations: 0 })
+      .in('location_keyword_id', locationKeywordIds)
+      .gt('duplicate_regenerations', 0)
+
+    if (resetError) {
+      console.error('❌ [QUEUE] Error resetting duplicate regenerations:', resetError)
+      throw resetError
+    }
+
     // Create jobs in the queue
     const jobs = locationKeywordIds.map((locationKeywordId) => ({
       user_id: userId,
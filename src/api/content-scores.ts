@@ -0,0 +1,172 @@
+import { supabase } from '@/lib/supabase'
+import { resolveScoringRuleset, scoreContent, type ContentScore, type ScoringProfile } from '@/lib/content-scoring'
+import { effectiveScoringProfile, getScoringProfiles } from '@/api/scoring-profiles'
+
+export interface ScorablePage {
+  content: string
+  title: string
+  location_keyword?: {
+    phrase?: string | null
+    parent_location_id?: string | null
+    location?: { name?: string | null } | null
+  } | null
+}
+
+/**
+ * What a page is scored against besides its own content: the project's
+ * scoring profile, the contact details its required elements are checked for
+ * and the score the workers optimise towards
+ */
+export interface ScoringContext {
+  profile: ScoringProfile
+  phoneNumber: string | null
+  contactUrl: string | null
+  targetScore: number
+}
+
+// Matches DEFAULT_OPTIMISE_TARGET_SCORE in the content workers
+export const DEFAULT_TARGET_SCORE = 80
+
+const SCORABLE_PAGE_COLUMNS = `
+  location_keyword_id,
+  project_id,
+  content,
+  title,
+  location_keyword:location_keywords!location_keyword_id(
+    phrase,
+    parent_location_id,
+    location:project_locations!location_id(name)
+  )
+`
+
+const PAGE_SIZE = 1000
+
+/**
+ * Get the scoring profile, contact details and target score for a project's pages
+ */
+export async function getScoringContext(projectId: string): Promise<ScoringContext> {
+  const [profiles, { data: project, error }] = await Promise.all([
+    getScoringProfiles(projectId),
+    supabase.from('projects').select('phone_number, contact_url, optimise_target_score').eq('id', projectId).single(),
+  ])
+
+  if (error) throw error
+  return {
+    profile: effectiveScoringProfile(profiles),
+    phoneNumber: project?.phone_number || null,
+    contactUrl: project?.contact_url || null,
+    targetScore: project?.optimise_target_score ?? DEFAULT_TARGET_SCORE,
+  }
+}
+
+/**
+ * Score a page with the suburb ruleset (Local Support Score) or the town ruleset (SEO Score),
+ * customised by the project's scoring profile when a context is given
+ */
+export function scorePage(page: ScorablePage, context?: ScoringContext | null): ContentScore {
+  const pageType = page.location_keyword?.parent_location_id ? 'suburb' : 'town'
+  return scoreContent(
+    {
+      content: page.content,
+      title: page.title,
+      phrase: page.location_keyword?.phrase,
+      location: page.location_keyword?.location?.name,
+      phoneNumber: context?.phoneNumber,
+      contactUrl: context?.contactUrl,
+    },
+    resolveScoringRuleset(pageType, context?.profile[pageType])
+  )
+}
+
+function scoreColumns(score: ContentScore) {
+  return {
+    score: score.score,
+    score_grade: score.grade,
+    score_ruleset: score.ruleset,
+    score_checks: score.checks,
+    scored_at: new Date().toISOString(),
+  }
+}
+
+/**
+ * Recalculate and save a page's score after its content or title changed
+ */
+export async function rescorePage(locationKeywordId: string): Promise<ContentScore> {
+  const { data, error } = await supabase
+    .from('generated_pages')
+    .select(SCORABLE_PAGE_COLUMNS)
+    .eq('location_keyword_id', locationKeywordId)
+    .single()
+
+  if (error) throw error
+
+  const score = scorePage(data as unknown as ScorablePage, await getScoringContext(data.project_id))
+  const { error: updateError } = await supabase
+    .from('generated_pages')
+    .update(scoreColumns(score))
+    .eq('location_keyword_id', locationKeywordId)
+
+  if (updateError) throw updateError
+  return score
+}
+
+/**
+ * Recalculate the score of every page in a project. Returns how many were scored.
+ */
+export async function rescoreProjectPages(projectId: string): Promise<number> {
+  const context = await getScoringContext(projectId)
+  let scored = 0
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('generated_pages')
+      .select(SCORABLE_PAGE_COLUMNS)
+      .eq('project_id', projectId)
+      .order('location_keyword_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    for (const page of data || []) {
+      const { error: updateError } = await supabase
+        .from('generated_pages')
+        .update(scoreColumns(scorePage(page as unknown as ScorablePage, context)))
+        .eq('location_keyword_id', page.location_keyword_id)
+
+      if (updateError) throw updateError
+      scored++
+    }
+
+    if (!data || data.length < PAGE_SIZE) return scored
+  }
+}
+
+export interface OptimisationSummary {
+  runs: number
+  averageBefore: number
+  averageAfter: number
+  reachedTarget: number
+}
+
+/**
+ * How much auto-optimising has raised the project's scores, over its most recent runs
+ */
+export async function getOptimisationSummary(projectId: string): Promise<OptimisationSummary> {
+  const { data, error } = await supabase
+    .from('content_optimisation_runs')
+    .select('initial_score, final_score, target_score')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(PAGE_SIZE)
+
+  if (error) throw error
+
+  const runs = data || []
+  const average = (values: number[]) => (values.length > 0 ? Math.round(values.reduce((sum, v) => sum + v, 0) / values.length) : 0)
+  return {
+    runs: runs.length,
+    averageBefore: average(runs.map(run => run.initial_score)),
+    averageAfter: average(runs.map(run => run.final_score)),
+    reachedTarget: runs.filter(run => run.final_score >= run.target_score).length,
+  }
+}
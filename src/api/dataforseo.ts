@@ -18,7 +18,7 @@ import { supabase } from '@/lib/supabase'
 interface KeywordVariationsInput {
   project_id: string
   base_keyword: string
-  location?: string // GB by default
+  location?: string // Country code, the project's locale country by default
   limit?: number // Maximum number of variations to return
 }
 
@@ -52,7 +52,7 @@ export async function getKeywordVariations(input: KeywordVariationsInput): Promi
     body: {
       project_id: input.project_id,
       base_keyword: input.base_keyword,
-      location: input.location || 'GB',
+      location: input.location,
       limit: input.limit || 50,
     },
     headers: {
@@ -0,0 +1,283 @@
+/**
+ * Drip publishing: push jobs with a publish time, spread over the coming days
+ * by the project's pages-per-day and time window. The queue worker doesn't
+ * know about schedules; a job's next_attempt_at is set to its publish time,
+ * and claiming already skips jobs that aren't due.
+ */
+
+import { supabase } from '@/lib/supabase'
+import {
+  DEFAULT_DRIP_SETTINGS,
+  planDripSchedule,
+  startOfLocalDay,
+  type DripCandidate,
+  type DripSettings,
+} from '@/lib/drip-schedule'
+
+export interface DripScheduleResult {
+  scheduled: number // pages waiting for their publish time, including these
+  added: number // pages newly queued
+  skipped: number // already queued or being published
+  firstAt: string | null
+  lastAt: string | null
+}
+
+export interface ScheduledPublish {
+  id: string
+  location_keyword_id: string
+  phrase: string
+  is_suburb: boolean
+  status: 'queued' | 'processing' | 'completed' | 'failed'
+  scheduled_for: string
+  completed_at: string | null
+  error_message: string | null
+  wp_page_url: string | null
+}
+
+// A push job as selected for the schedule, with its combination embedded
+interface ScheduleJobRow extends Pick<ScheduledPublish, 'id' | 'location_keyword_id' | 'status' | 'scheduled_for' | 'completed_at' | 'error_message'> {
+  location_keyword: ScheduleCombination | ScheduleCombination[] | null
+}
+
+interface ScheduleCombination {
+  phrase: string
+  parent_location_id: string | null
+  wp_page_url: string | null
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+// Rows per insert
+const WRITE_BATCH = 500
+// Schedule updates sent at once; each job is updated on its own
+const UPDATE_BATCH = 25
+
+async function selectAll<T = any>(build: () => any): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+function single<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null
+}
+
+/**
+ * A project's drip settings, with defaults for anything unset
+ */
+export async function getDripSettings(projectId: string): Promise<DripSettings & { enabled: boolean }> {
+  const { data, error } = await supabase
+    .from('projects')
+    .select('drip_enabled, drip_pages_per_day, drip_window_start, drip_window_end, drip_timezone')
+    .eq('id', projectId)
+    .single()
+
+  if (error) throw error
+
+  return {
+    enabled: !!data.drip_enabled,
+    pagesPerDay: data.drip_pages_per_day ?? DEFAULT_DRIP_SETTINGS.pagesPerDay,
+    windowStart: data.drip_window_start ?? DEFAULT_DRIP_SETTINGS.windowStart,
+    windowEnd: data.drip_window_end ?? DEFAULT_DRIP_SETTINGS.windowEnd,
+    timeZone: data.drip_timezone || DEFAULT_DRIP_SETTINGS.timeZone,
+  }
+}
+
+/**
+ * Re-plan every page still waiting for its publish time, plus any new pages.
+ * Pages that are due or already out keep their time and count towards today.
+ */
+async function planAndSave(
+  projectId: string,
+  newPages: { userId: string; locationKeywordIds: string[] } | null
+): Promise<DripScheduleResult> {
+  const settings = await getDripSettings(projectId)
+  const now = new Date()
+  const nowIso = now.toISOString()
+
+  const [combinations, activeJobs, releasedJobs] = await Promise.all([
+    selectAll(() =>
+      supabase
+        .from('location_keywords')
+        .select('id, phrase, parent_location_id, search_volume, keyword:keyword_variations!keyword_id(search_volume)')
+        .eq('project_id', projectId)
+        .order('id', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('wordpress_push_jobs')
+        .select('id, user_id, location_keyword_id, scheduled_for')
+        .eq('project_id', projectId)
+        .in('status', ['queued', 'processing'])
+        .order('id', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('wordpress_push_jobs')
+        .select('id')
+        .eq('project_id', projectId)
+        .gte('scheduled_for', startOfLocalDay(now, settings.timeZone).toISOString())
+        .lte('scheduled_for', nowIso)
+        .is('discarded_at', null)
+        .order('id', { ascending: true })
+    ),
+  ])
+
+  const candidateFor = new Map<string, DripCandidate>(
+    combinations.map((combo: any) => [combo.id, {
+      id: combo.id,
+      isSuburb: !!combo.parent_location_id,
+      searchVolume: combo.search_volume ?? single(combo.keyword)?.search_volume ?? null,
+      phrase: combo.phrase || '',
+    }])
+  )
+
+  // Jobs still waiting for their publish time are re-planned
+  const waiting = activeJobs.filter((job: any) => job.scheduled_for && job.scheduled_for > nowIso)
+  const busy = new Set(activeJobs.map((job: any) => job.location_keyword_id))
+  const adding = [...new Set(newPages?.locationKeywordIds || [])].filter((id) => candidateFor.has(id) && !busy.has(id))
+
+  // Candidates are keyed by job id; new pages don't have one yet
+  const candidates: DripCandidate[] = []
+  for (const job of waiting) {
+    const candidate = candidateFor.get(job.location_keyword_id)
+    if (candidate) candidates.push({ ...candidate, id: job.id })
+  }
+  for (const id of adding) {
+    candidates.push({ ...candidateFor.get(id)!, id: `new:${id}` })
+  }
+
+  const plan = planDripSchedule(candidates, settings, now, releasedJobs.length)
+
+  const updates: Array<{ id: string; at: string }> = []
+  const inserts: any[] = []
+
+  for (const { id, scheduledFor } of plan) {
+    const at = scheduledFor.toISOString()
+    if (id.startsWith('new:')) {
+      inserts.push({
+        user_id: newPages!.userId,
+        project_id: projectId,
+        location_keyword_id: id.slice(4),
+        status: 'queued',
+        priority: 0,
+        attempts: 0,
+        max_attempts: 3,
+        scheduled_for: at,
+        next_attempt_at: at,
+      })
+    } else {
+      updates.push({ id, at })
+    }
+  }
+
+  // Only jobs still waiting are moved, so one claimed, finished or deleted
+  // since the plan was read is left alone
+  for (let i = 0; i < updates.length; i += UPDATE_BATCH) {
+    const results = await Promise.all(
+      updates.slice(i, i + UPDATE_BATCH).map(({ id, at }) =>
+        supabase
+          .from('wordpress_push_jobs')
+          .update({ scheduled_for: at, next_attempt_at: at })
+          .eq('id', id)
+          .eq('status', 'queued')
+      )
+    )
+    const failed = results.find((result) => result.error)
+    if (failed) throw failed.error
+  }
+
+  for (let i = 0; i < inserts.length; i += WRITE_BATCH) {
+    const { error } = await supabase
+      .from('wordpress_push_jobs')
+      .insert(inserts.slice(i, i + WRITE_BATCH))
+    if (error) throw error
+  }
+
+  const times = plan.map((item) => item.scheduledFor.toISOString())
+  return {
+    scheduled: plan.length,
+    added: inserts.length,
+    skipped: (newPages?.locationKeywordIds.length || 0) - inserts.length,
+    firstAt: times[0] || null,
+    lastAt: times[times.length - 1] || null,
+  }
+}
+
+/**
+ * Schedule pages for drip publishing. Pages already queued are skipped, and
+ * the whole waiting schedule is re-planned so priority order holds across it.
+ */
+export async function queueDripPublishing(
+  projectId: string,
+  userId: string,
+  locationKeywordIds: string[]
+): Promise<DripScheduleResult> {
+  return planAndSave(projectId, { userId, locationKeywordIds })
+}
+
+/**
+ * Re-plan waiting publishes, e.g. after the drip settings change
+ */
+export async function rescheduleDripPublishing(projectId: string): Promise<DripScheduleResult> {
+  return planAndSave(projectId, null)
+}
+
+/**
+ * Remove publishes that haven't reached their time yet. Returns how many.
+ */
+export async function cancelScheduledPublishing(projectId: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('wordpress_push_jobs')
+    .delete()
+    .eq('project_id', projectId)
+    .eq('status', 'queued')
+    .gt('scheduled_for', new Date().toISOString())
+    .select('id')
+
+  if (error) throw error
+  return data?.length || 0
+}
+
+/**
+ * Scheduled publishes between two instants, earliest first
+ */
+export async function getPublishingSchedule(projectId: string, from: Date, to: Date): Promise<ScheduledPublish[]> {
+  const rows = await selectAll<ScheduleJobRow>(() =>
+    supabase
+      .from('wordpress_push_jobs')
+      .select(`
+        id,
+        location_keyword_id,
+        status,
+        scheduled_for,
+        completed_at,
+        error_message,
+        location_keyword:location_keywords!location_keyword_id(phrase, parent_location_id, wp_page_url)
+      `)
+      .eq('project_id', projectId)
+      .gte('scheduled_for', from.toISOString())
+      .lt('scheduled_for', to.toISOString())
+      .is('discarded_at', null)
+      .order('scheduled_for', { ascending: true })
+  )
+
+  return rows.map((row) => {
+    const combination = single(row.location_keyword)
+    return {
+      id: row.id,
+      location_keyword_id: row.location_keyword_id,
+      phrase: combination?.phrase || '',
+      is_suburb: !!combination?.parent_location_id,
+      status: row.status,
+      scheduled_for: row.scheduled_for,
+      completed_at: row.completed_at,
+      error_message: row.error_message,
+      wp_page_url: combination?.wp_page_url || null,
+    }
+  })
+}
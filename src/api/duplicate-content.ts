@@ -0,0 +1,82 @@
+import { supabase } from '@/lib/supabase'
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8
+
+export interface DuplicatePair {
+  id: string
+  location_keyword_id_a: string
+  location_keyword_id_b: string
+  similarity: number
+  detected_at: string
+}
+
+export interface DuplicateScanResult {
+  pagesScanned: number
+  duplicatePairs: number
+  pagesFlagged: number
+}
+
+/**
+ * Uniqueness (0-100) of a page from its similarity to the closest page in the project
+ */
+export function uniquenessScore(maxSimilarity: number | null | undefined): number | null {
+  if (maxSimilarity === null || maxSimilarity === undefined) return null
+  return Math.round((1 - Number(maxSimilarity)) * 100)
+}
+
+/**
+ * Get the near-duplicate pairs for a project, most similar first
+ */
+export async function getDuplicatePairs(projectId: string): Promise<DuplicatePair[]> {
+  const { data, error } = await supabase
+    .from('duplicate_content_pairs')
+    .select('id, location_keyword_id_a, location_keyword_id_b, similarity, detected_at')
+    .eq('project_id', projectId)
+    .order('similarity', { ascending: false })
+
+  if (error) throw error
+  return (data || []).map((pair) => ({ ...pair, similarity: Number(pair.similarity) }))
+}
+
+/**
+ * Rescan every generated page in the project for near-duplicates
+ */
+export async function scanProjectDuplicates(projectId: string): Promise<DuplicateScanResult> {
+  const { data, error } = await supabase.functions.invoke('check-duplicate-content', {
+    body: { projectId },
+  })
+
+  if (error) throw error
+  if (data?.error) throw new Error(data.error)
+  return data
+}
+
+/**
+ * Pick which near-duplicate pages to regenerate: one page per flagged pair,
+ * never a page that is already pushed to WordPress
+ */
+export function pickDuplicateOffenders(
+  pages: Array<{ id: string; status: string; maxSimilarity: number | null; mostSimilarId: string | null }>,
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): string[] {
+  const byId = new Map(pages.map((page) => [page.id, page]))
+  const offenders = new Set<string>()
+
+  const flagged = pages
+    .filter((page) => page.maxSimilarity !== null && page.maxSimilarity >= threshold)
+    .sort((a, b) => (b.maxSimilarity || 0) - (a.maxSimilarity || 0))
+
+  for (const page of flagged) {
+    const partner = page.mostSimilarId ? byId.get(page.mostSimilarId) : undefined
+    // The partner is being rewritten already, which settles this pair
+    if (partner && offenders.has(partner.id)) continue
+
+    if (page.status !== 'pushed') {
+      offenders.add(page.id)
+    } else if (partner && partner.status !== 'pushed') {
+      offenders.add(partner.id)
+    }
+  }
+
+  return [...offenders]
+}
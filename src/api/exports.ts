@@ -0,0 +1,45 @@
+import { supabase } from '@/lib/supabase'
+
+export type ExportDataset = 'combinations' | 'pages' | 'rankings' | 'heat_maps'
+export type ExportFormat = 'csv' | 'json' | 'xlsx'
+
+export interface ExportOptions {
+  dataset: ExportDataset
+  format: ExportFormat
+  contentFormat?: 'html' | 'markdown' // pages only
+  since?: string // ISO date; rankings and heat maps only
+}
+
+/**
+ * Export a project's data as a file. XLSX is binary, so this calls the
+ * function with fetch rather than functions.invoke.
+ */
+export async function exportProject(
+  projectId: string,
+  options: ExportOptions
+): Promise<{ blob: Blob; filename: string }> {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session) {
+    throw new Error('No active session')
+  }
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/export-project`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ projectId, ...options }),
+  })
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null)
+    throw new Error(result?.error || 'Failed to export project data')
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || ''
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${options.dataset}.${options.format}`
+
+  return { blob: await response.blob(), filename }
+}
@@ -81,6 +81,35 @@ export async function findNearbyTowns(input: NearbyTownsInput): Promise<Location
   return data.towns
 }
 
+export interface GeocodeLocationsResult {
+  geocoded: number
+  failed: number
+  remaining: number
+}
+
+/**
+ * Look up coordinates for the project's locations that were added without
+ * them (CSV imports and hand-entered towns). The function works in batches,
+ * so keep calling while it is still finding places.
+ */
+export async function geocodePendingLocations(projectId: string): Promise<GeocodeLocationsResult> {
+  const total: GeocodeLocationsResult = { geocoded: 0, failed: 0, remaining: 0 }
+
+  for (;;) {
+    const { data, error } = await supabase.functions.invoke('geocode-locations', {
+      body: { projectId },
+    })
+
+    if (error) throw error
+    if (data?.error) throw new Error(data.error)
+
+    total.geocoded += data.geocoded
+    total.failed += data.failed
+    total.remaining = data.remaining
+    if (data.geocoded === 0 || data.remaining === 0) return total
+  }
+}
+
 /**
  * IMPLEMENTATION NOTES FOR GOOGLE PLACES API (NEW):
  * 
@@ -0,0 +1,22 @@
+import { supabase } from '@/lib/supabase'
+import type { LinkGraphReport } from '@/lib/link-graph'
+
+export interface LinkGraphResult extends LinkGraphReport {
+  pagesRewritten: number
+  pagesQueued: number // Rewritten pages already in WordPress, queued for a push
+}
+
+/**
+ * Get a project's internal link graph: orphan pages, broken links and the
+ * links between pages. With rewrite, every page's internal link block is
+ * rebuilt first and the live ones are queued for a WordPress push.
+ */
+export async function getLinkGraph(projectId: string, rewrite = false): Promise<LinkGraphResult> {
+  const { data, error } = await supabase.functions.invoke('link-graph', {
+    body: { projectId, rewrite },
+  })
+
+  if (error) throw error
+  if (data?.error) throw new Error(data.error)
+  return data
+}
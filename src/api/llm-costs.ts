@@ -0,0 +1,137 @@
+import { supabase } from '@/lib/supabase'
+
+export type CostPageType = 'town' | 'suburb'
+
+export interface LlmBudgetStatus {
+  month_start: string
+  project_spend_usd: number
+  project_budget_usd: number | null
+  agency_id: string | null
+  agency_spend_usd: number
+  agency_budget_usd: number | null
+  paused: boolean
+  paused_reason: string | null
+}
+
+export interface LlmCostRow {
+  service_id: string | null
+  service_name: string | null
+  location_id: string | null
+  location_name: string | null
+  page_type: CostPageType | null
+  operation: 'generate' | 'repair' | 'optimise'
+  calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+}
+
+export interface LlmCostGroup {
+  key: string
+  label: string
+  calls: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+}
+
+export type LlmCostDimension = 'service' | 'location' | 'page_type' | 'operation'
+
+/**
+ * Get this month's AI spend against the project and agency budgets
+ */
+export async function getLlmBudgetStatus(projectId: string): Promise<LlmBudgetStatus> {
+  const { data, error } = await supabase.rpc('get_llm_budget_status', { p_project_id: projectId })
+
+  if (error) throw error
+  return data as LlmBudgetStatus
+}
+
+/**
+ * Get a project's AI spend grouped by service, location, page type and operation
+ */
+export async function getProjectLlmCosts(projectId: string, since: string | null): Promise<LlmCostRow[]> {
+  const { data, error } = await supabase.rpc('get_project_llm_costs', {
+    p_project_id: projectId,
+    p_since: since,
+  })
+
+  if (error) throw error
+  // NUMERIC and BIGINT columns arrive as strings
+  return (data || []).map((row: any) => ({
+    ...row,
+    calls: Number(row.calls),
+    prompt_tokens: Number(row.prompt_tokens),
+    completion_tokens: Number(row.completion_tokens),
+    cost_usd: Number(row.cost_usd),
+  }))
+}
+
+/**
+ * Set (or clear) the monthly AI budget shared by all of an agency's projects
+ */
+export async function updateAgencyLlmBudget(agencyId: string, budgetUsd: number | null) {
+  const { error } = await supabase.rpc('set_agency_llm_budget', {
+    p_agency_id: agencyId,
+    p_budget_usd: budgetUsd,
+  })
+
+  if (error) throw error
+}
+
+const PAGE_TYPE_LABELS: Record<CostPageType, string> = {
+  town: 'Town pages',
+  suburb: 'Suburb pages',
+}
+
+const OPERATION_LABELS: Record<LlmCostRow['operation'], string> = {
+  generate: 'Generation',
+  repair: 'JSON repair',
+  optimise: 'Optimisation',
+}
+
+/**
+ * Total cost rows along one dimension, most expensive first
+ */
+export function groupLlmCosts(rows: LlmCostRow[], dimension: LlmCostDimension): LlmCostGroup[] {
+  const groups = new Map<string, LlmCostGroup>()
+
+  for (const row of rows) {
+    let key: string
+    let label: string
+    switch (dimension) {
+      case 'service':
+        key = row.service_id || 'none'
+        label = row.service_name || 'No service'
+        break
+      case 'location':
+        key = row.location_id || 'none'
+        label = row.location_name || 'No location'
+        break
+      case 'page_type':
+        key = row.page_type || 'none'
+        label = row.page_type ? PAGE_TYPE_LABELS[row.page_type] : 'Unknown'
+        break
+      case 'operation':
+        key = row.operation
+        label = OPERATION_LABELS[row.operation] || row.operation
+        break
+    }
+
+    const group = groups.get(key) || { key, label, calls: 0, prompt_tokens: 0, completion_tokens: 0, cost_usd: 0 }
+    group.calls += row.calls
+    group.prompt_tokens += row.prompt_tokens
+    group.completion_tokens += row.completion_tokens
+    group.cost_usd += row.cost_usd
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.cost_usd - a.cost_usd)
+}
+
+/**
+ * Format a USD amount, keeping sub-cent precision for small totals
+ */
+export function formatUsd(amount: number): string {
+  return amount > 0 && amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`
+}
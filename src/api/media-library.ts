@@ -0,0 +1,135 @@
+import { supabase } from '@/lib/supabase'
+
+export type ImageProviderName = 'media_library' | 'unsplash' | 'openai' | 'placeholder'
+
+export interface ProjectMedia {
+  id: string
+  project_id: string
+  storage_path: string
+  url: string
+  filename: string | null
+  service_id: string | null
+  location_id: string | null
+  source: 'upload' | 'openai'
+  created_at: string
+}
+
+export interface MediaTagOption {
+  id: string
+  name: string
+}
+
+export const IMAGE_PROVIDER_OPTIONS: Array<{ value: ImageProviderName; label: string; description: string }> = [
+  { value: 'media_library', label: 'Media library', description: 'Images you upload below, preferring ones tagged with the page\'s service or location' },
+  { value: 'unsplash', label: 'Unsplash', description: 'Stock photos matching the service and location, with photographer credit' },
+  { value: 'openai', label: 'OpenAI', description: 'A new image generated for each page and saved to the media library' },
+  { value: 'placeholder', label: 'Placeholder', description: 'Plain coloured images made locally, for testing' },
+]
+
+export const MAX_CONTENT_IMAGES = 3
+
+// Match the project-media bucket's limits
+export const MAX_MEDIA_BYTES = 5 * 1024 * 1024
+export const MEDIA_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+const MEDIA_BUCKET = 'project-media'
+
+/**
+ * Images in a project's media library, newest first
+ */
+export async function getProjectMedia(projectId: string): Promise<ProjectMedia[]> {
+  const { data, error } = await supabase
+    .from('project_media')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Services and locations an image can be tagged with
+ */
+export async function getMediaTagOptions(projectId: string): Promise<{ services: MediaTagOption[]; locations: MediaTagOption[] }> {
+  const [services, locations] = await Promise.all([
+    supabase.from('project_services').select('id, name').eq('project_id', projectId).order('name'),
+    supabase.from('project_locations').select('id, name').eq('project_id', projectId).order('name'),
+  ])
+
+  if (services.error) throw services.error
+  if (locations.error) throw locations.error
+  return { services: services.data || [], locations: locations.data || [] }
+}
+
+/**
+ * Upload an image to the project's media library
+ */
+export async function uploadProjectMedia(projectId: string, file: File): Promise<ProjectMedia> {
+  if (!MEDIA_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a JPEG, PNG, WebP or GIF image`)
+  }
+  if (file.size > MAX_MEDIA_BYTES) {
+    throw new Error(`${file.name} is larger than ${MAX_MEDIA_BYTES / 1024 / 1024} MB`)
+  }
+
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg'
+  const path = `${projectId}/uploads/${crypto.randomUUID()}.${extension}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .upload(path, file, { contentType: file.type })
+
+  if (uploadError) throw uploadError
+
+  const { data: { publicUrl } } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path)
+
+  const { data, error } = await supabase
+    .from('project_media')
+    .insert({
+      project_id: projectId,
+      storage_path: path,
+      url: publicUrl,
+      filename: file.name,
+      source: 'upload',
+    })
+    .select()
+    .single()
+
+  if (error) {
+    await supabase.storage.from(MEDIA_BUCKET).remove([path])
+    throw error
+  }
+  return data
+}
+
+/**
+ * Tag an image with the service and location it shows
+ */
+export async function tagProjectMedia(mediaId: string, tags: { service_id?: string | null; location_id?: string | null }): Promise<void> {
+  const { error } = await supabase
+    .from('project_media')
+    .update(tags)
+    .eq('id', mediaId)
+
+  if (error) throw error
+}
+
+/**
+ * Remove an image from the media library. Pages already published keep
+ * the copy WordPress downloaded.
+ */
+export async function deleteProjectMedia(media: ProjectMedia): Promise<void> {
+  const { error } = await supabase
+    .from('project_media')
+    .delete()
+    .eq('id', media.id)
+
+  if (error) throw error
+
+  const { error: storageError } = await supabase.storage
+    .from(MEDIA_BUCKET)
+    .remove([media.storage_path])
+
+  if (storageError) throw storageError
+}
@@ -0,0 +1,158 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import type { MetaPatternValues } from '@/lib/serp-meta'
+
+export type SeoPlugin = 'yoast' | 'rank_math' | 'none'
+
+export interface MetaEditorRow {
+  locationKeywordId: string
+  phrase: string
+  status: string
+  wpPageId: number | null
+  wpPageUrl: string | null
+  isSuburb: boolean
+  metaTitle: string
+  metaDescription: string
+  values: MetaPatternValues // for patterns
+}
+
+export interface MetaChange {
+  locationKeywordId: string
+  metaTitle: string
+  metaDescription: string
+}
+
+export interface MetaPushResult {
+  location_keyword_id: string
+  saved: boolean
+  pushed: boolean
+  seo_plugin: SeoPlugin | null
+  meta_title: string | null // as WordPress holds it after the push
+  meta_description: string | null
+  error: string | null
+}
+
+export interface BulkMetaResult {
+  seoPlugin: SeoPlugin | null
+  saved: number
+  pushed: number
+  failed: number
+  results: MetaPushResult[]
+}
+
+export const SEO_PLUGIN_LABELS: Record<SeoPlugin, string> = {
+  yoast: 'Yoast SEO',
+  rank_math: 'Rank Math',
+  none: 'No SEO plugin',
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+// Pages per call to bulk-update-wordpress-meta
+const PUSH_BATCH = 500
+
+async function selectAll<T = any>(build: () => any): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+function single<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null
+}
+
+/**
+ * Meta title and description of every generated page in a project
+ */
+export async function getMetaEditorRows(projectId: string): Promise<MetaEditorRow[]> {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('company_name')
+    .eq('id', projectId)
+    .single()
+
+  if (error) throw error
+
+  const pages = await selectAll(() =>
+    supabase
+      .from('generated_pages')
+      .select(`
+        location_keyword_id,
+        title,
+        meta_title,
+        meta_description,
+        location_keyword:location_keywords!inner(
+          phrase,
+          status,
+          wp_page_id,
+          wp_page_url,
+          parent_location_id,
+          project_id,
+          location:project_locations!location_id(name),
+          keyword:keyword_variations!keyword_id(keyword),
+          service:project_services!service_id(name)
+        )
+      `)
+      .eq('location_keyword.project_id', projectId)
+      .order('location_keyword_id', { ascending: true })
+  )
+
+  return pages
+    .map((page) => {
+      const combination = single<any>(page.location_keyword)
+      const keyword = single<any>(combination?.keyword)?.keyword || ''
+      return {
+        locationKeywordId: page.location_keyword_id,
+        phrase: combination?.phrase || '',
+        status: combination?.status || '',
+        wpPageId: combination?.wp_page_id ?? null,
+        wpPageUrl: combination?.wp_page_url ?? null,
+        isSuburb: !!combination?.parent_location_id,
+        metaTitle: page.meta_title || page.title || '',
+        metaDescription: page.meta_description || '',
+        values: {
+          service: single<any>(combination?.service)?.name || keyword,
+          location: single<any>(combination?.location)?.name || '',
+          business: project?.company_name || '',
+          keyword,
+          phrase: combination?.phrase || '',
+        },
+      }
+    })
+    .sort((a, b) => a.phrase.localeCompare(b.phrase))
+}
+
+/**
+ * Save meta titles and descriptions and push them to WordPress for pages
+ * already published there
+ */
+export async function saveAndPushMeta(projectId: string, changes: MetaChange[]): Promise<BulkMetaResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const combined: BulkMetaResult = { seoPlugin: null, saved: 0, pushed: 0, failed: 0, results: [] }
+
+  for (let i = 0; i < changes.length; i += PUSH_BATCH) {
+    const { data, error } = await supabase.functions.invoke('bulk-update-wordpress-meta', {
+      body: { projectId, pages: changes.slice(i, i + PUSH_BATCH) },
+      headers: session ? {
+        Authorization: `Bearer ${session.access_token}`,
+      } : {},
+    })
+
+    if (error) {
+      const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null
+      throw new Error(body?.error || error.message || 'Failed to update page meta')
+    }
+
+    combined.seoPlugin = data.seoPlugin || combined.seoPlugin
+    combined.saved += data.saved
+    combined.pushed += data.pushed
+    combined.failed += data.failed
+    combined.results.push(...data.results)
+  }
+
+  return combined
+}
@@ -0,0 +1,69 @@
+import { supabase } from '@/lib/supabase'
+import { rescorePage } from './content-scores'
+
+export type RevisionSource = 'ai_generate' | 'ai_optimise' | 'enhance' | 'manual_edit' | 'restore' | 'link_mesh' | 'import' | 'wordpress_edit'
+
+export interface PageRevision {
+  id: string
+  project_id: string
+  location_keyword_id: string
+  revision_number: number
+  source: RevisionSource
+  title: string | null
+  meta_title: string | null
+  meta_description: string | null
+  content: string | null
+  created_by: string | null
+  created_at: string
+}
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  ai_generate: 'AI generated',
+  ai_optimise: 'AI optimised',
+  enhance: 'Keywords enhanced',
+  manual_edit: 'Manual edit',
+  restore: 'Restored',
+  link_mesh: 'Internal links updated',
+  import: 'Imported from backup',
+  wordpress_edit: 'Pulled from WordPress',
+}
+
+/**
+ * Get every saved revision of a page, newest first
+ */
+export async function getPageRevisions(locationKeywordId: string): Promise<PageRevision[]> {
+  const { data, error } = await supabase
+    .from('generated_page_revisions')
+    .select('*')
+    .eq('location_keyword_id', locationKeywordId)
+    .order('revision_number', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+/**
+ * Put a revision's title, meta and content back on the page.
+ * The restore itself is recorded as a new revision.
+ */
+export async function restorePageRevision(revision: PageRevision) {
+  const { data, error } = await supabase
+    .from('generated_pages')
+    .update({
+      title: revision.title,
+      meta_title: revision.meta_title,
+      meta_description: revision.meta_description,
+      content: revision.content,
+      content_source: 'restore',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('location_keyword_id', revision.location_keyword_id)
+    .select('id')
+
+  if (error) throw error
+  if (!data || data.length === 0) {
+    throw new Error('This page no longer has generated content to restore into. Generate it first.')
+  }
+
+  await rescorePage(revision.location_keyword_id)
+}
@@ -0,0 +1,502 @@
+/**
+ * Project backups: a portable JSON copy of a project's services, locations,
+ * keywords, testimonials, combinations and (optionally) generated pages, and
+ * restoring one into a new project. Cloning a project is a backup restored
+ * straight away.
+ *
+ * Rows refer to each other by natural keys (service slug, location place_id,
+ * keyword text, combination id from the source project), so a backup can be
+ * restored into any account.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { createProject } from './projects'
+import { generateWordPressApiKey } from '@/utils/api-key-generator'
+import { stripLinkMesh } from '@/lib/link-graph'
+import { buildStructuredData } from '@/lib/structured-data'
+
+export const PROJECT_BACKUP_FORMAT = 'geoscale-project-backup'
+export const PROJECT_BACKUP_VERSION = 1
+
+// Project columns carried over. Not carried: WordPress page ids, the API key,
+// rankings and anything tied to the source site.
+const PROJECT_SETTINGS = [
+  'project_name',
+  'company_name',
+  'contact_name',
+  'contact_email',
+  'phone_number',
+  'contact_url',
+  'service_description',
+  'wp_url',
+  'blog_url',
+  'town',
+  'latitude',
+  'longitude',
+  'base_location',
+  'base_keyword',
+  'wp_page_template',
+  'wp_publish_status',
+  'wp_url_structure',
+  'wp_post_type',
+  'wp_term_mapping',
+  'wp_custom_fields',
+  'llm_provider',
+  'llm_model',
+  'llm_temperature',
+  'llm_max_tokens',
+  'town_prompt_template_id',
+  'suburb_prompt_template_id',
+  'monthly_llm_budget_usd',
+  'duplicate_similarity_threshold',
+  'auto_regenerate_duplicates',
+  'optimise_target_score',
+  'optimise_max_iterations',
+  'scoring_profile',
+  'locale_country',
+  'locale_language',
+  'locale_spelling',
+  'locale_currency',
+  'drip_enabled',
+  'drip_pages_per_day',
+  'drip_window_start',
+  'drip_window_end',
+  'drip_timezone',
+  'image_provider',
+  'content_images_per_page',
+] as const
+
+export interface ProjectBackup {
+  format: typeof PROJECT_BACKUP_FORMAT
+  version: number
+  exported_at: string
+  project: Record<string, unknown>
+  services: Array<{
+    slug: string
+    name: string
+    description: string | null
+    service_page_url: string | null
+    town_prompt_template_id: string | null
+    suburb_prompt_template_id: string | null
+    keywords: Array<{ keyword: string; search_volume: number | null; difficulty: number | null; is_selected: boolean }>
+    faqs: Array<{ question: string; answer: string; sort_order: number }>
+  }>
+  locations: Array<{
+    place_id: string
+    name: string
+    slug: string
+    lat: number
+    lng: number
+    region: string | null
+    country: string | null
+    geocode_status: string | null
+  }>
+  keywords: Array<{ keyword: string; search_volume: number | null; difficulty: number | null }>
+  testimonials: Array<{ testimonial_text: string; customer_name: string | null; business_name: string | null }>
+  combinations: Array<{
+    key: string
+    place_id: string
+    keyword: string
+    service_slug: string | null
+    parent_key: string | null
+    phrase: string
+    track_position: boolean
+  }>
+  pages?: Array<{
+    combination_key: string
+    title: string
+    meta_title: string | null
+    meta_description: string | null
+    content: string
+  }>
+}
+
+export interface RestoreProjectInput {
+  userId: string
+  companyName?: string
+  wpUrl?: string
+  includePages?: boolean
+}
+
+export interface RestoreProjectResult {
+  projectId: string
+  wpApiKey: string
+  combinationsCount: number
+  pagesCount: number
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000
+// Rows per insert
+const INSERT_BATCH = 500
+
+async function selectAll<T = any>(build: () => any): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1)
+    if (error) throw error
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return rows
+  }
+}
+
+async function insertAll<T = any>(table: string, rows: any[], columns: string): Promise<T[]> {
+  const inserted: T[] = []
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { data, error } = await supabase
+      .from(table)
+      .insert(rows.slice(i, i + INSERT_BATCH))
+      .select(columns)
+
+    if (error) throw error
+    inserted.push(...((data || []) as T[]))
+  }
+  return inserted
+}
+
+/**
+ * Read a project into a backup
+ */
+export async function buildProjectBackup(
+  projectId: string,
+  options: { includePages?: boolean } = {}
+): Promise<ProjectBackup> {
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', projectId)
+    .single()
+
+  if (projectError) throw projectError
+
+  const [services, locations, keywords, testimonials, combinations] = await Promise.all([
+    selectAll(() =>
+      supabase
+        .from('project_services')
+        .select(`
+          id, slug, name, description, service_page_url, town_prompt_template_id, suburb_prompt_template_id,
+          service_keywords(keyword, search_volume, difficulty, is_selected),
+          service_faqs(question, answer, sort_order)
+        `)
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('project_locations')
+        .select('id, place_id, name, slug, lat, lng, region, country, geocode_status')
+        .eq('project_id', projectId)
+        .order('name', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('keyword_variations')
+        .select('id, keyword, search_volume, difficulty')
+        .eq('project_id', projectId)
+        .order('keyword', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('project_testimonials')
+        .select('testimonial_text, customer_name, business_name')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true })
+    ),
+    selectAll(() =>
+      supabase
+        .from('location_keywords')
+        .select('id, location_id, keyword_id, service_id, parent_location_id, phrase, track_position')
+        .eq('project_id', projectId)
+        .order('phrase', { ascending: true })
+    ),
+  ])
+
+  const serviceSlugs = new Map(services.map((service: any) => [service.id, service.slug]))
+  const placeIds = new Map(locations.map((location: any) => [location.id, location.place_id]))
+  const keywordTexts = new Map(keywords.map((keyword: any) => [keyword.id, keyword.keyword]))
+
+  const backup: ProjectBackup = {
+    format: PROJECT_BACKUP_FORMAT,
+    version: PROJECT_BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    project: Object.fromEntries(PROJECT_SETTINGS.map((column) => [column, project[column] ?? null])),
+    services: services.map((service: any) => ({
+      slug: service.slug,
+      name: service.name,
+      description: service.description,
+      service_page_url: service.service_page_url,
+      town_prompt_template_id: service.town_prompt_template_id,
+      suburb_prompt_template_id: service.suburb_prompt_template_id,
+      keywords: service.service_keywords || [],
+      faqs: service.service_faqs || [],
+    })),
+    locations: locations.map(({ id: _id, ...location }: any) => location),
+    keywords: keywords.map(({ id: _id, ...keyword }: any) => keyword),
+    testimonials,
+    combinations: combinations
+      .filter((combo: any) => placeIds.has(combo.location_id) && keywordTexts.has(combo.keyword_id))
+      .map((combo: any) => ({
+        key: combo.id,
+        place_id: placeIds.get(combo.location_id),
+        keyword: keywordTexts.get(combo.keyword_id),
+        service_slug: combo.service_id ? serviceSlugs.get(combo.service_id) || null : null,
+        parent_key: combo.parent_location_id,
+        phrase: combo.phrase,
+        track_position: !!combo.track_position,
+      })),
+  }
+
+  if (options.includePages) {
+    const pages = await selectAll(() =>
+      supabase
+        .from('generated_pages')
+        .select('location_keyword_id, title, meta_title, meta_description, content, location_keyword:location_keywords!inner(project_id)')
+        .eq('location_keyword.project_id', projectId)
+        .order('location_keyword_id', { ascending: true })
+    )
+
+    backup.pages = pages.map((page: any) => ({
+      combination_key: page.location_keyword_id,
+      title: page.title,
+      meta_title: page.meta_title,
+      meta_description: page.meta_description,
+      content: stripLinkMesh(page.content || ''),
+    }))
+  }
+
+  return backup
+}
+
+/**
+ * Check that parsed JSON is a backup this version can restore
+ */
+export function parseProjectBackup(text: string): ProjectBackup {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+
+  if (data?.format !== PROJECT_BACKUP_FORMAT) {
+    throw new Error('The file is not a GeoScale project backup')
+  }
+  if (typeof data.version !== 'number' || data.version > PROJECT_BACKUP_VERSION) {
+    throw new Error(`Backup version ${data.version} is newer than this app supports (${PROJECT_BACKUP_VERSION})`)
+  }
+  for (const key of ['services', 'locations', 'keywords', 'testimonials', 'combinations'] as const) {
+    if (!Array.isArray(data[key])) {
+      throw new Error(`The backup has no ${key} list`)
+    }
+  }
+  if (!data.project || typeof data.project !== 'object') {
+    throw new Error('The backup has no project settings')
+  }
+
+  return data as ProjectBackup
+}
+
+/**
+ * Create a new project from a backup, with its own WordPress API key. Pages
+ * come back as generated but unpublished; their internal links and JSON-LD
+ * are rebuilt for the new project.
+ */
+export async function restoreProjectBackup(
+  backup: ProjectBackup,
+  input: RestoreProjectInput
+): Promise<RestoreProjectResult> {
+  const settings = backup.project as Record<string, any>
+  const companyName = input.companyName?.trim() || settings.company_name || settings.project_name || 'Restored project'
+  const wpUrl = input.wpUrl?.trim() ?? settings.wp_url ?? ''
+
+  // Templates belong to an agency; drop any this account can't use
+  const templateIds = [
+    settings.town_prompt_template_id,
+    settings.suburb_prompt_template_id,
+    ...backup.services.flatMap((service) => [service.town_prompt_template_id, service.suburb_prompt_template_id]),
+  ].filter(Boolean)
+
+  const usableTemplates = new Set<string>()
+  if (templateIds.length > 0) {
+    const { data: templates } = await supabase
+      .from('prompt_templates')
+      .select('id')
+      .in('id', [...new Set(templateIds)])
+    templates?.forEach((template: any) => usableTemplates.add(template.id))
+  }
+  const template = (id: string | null | undefined) => (id && usableTemplates.has(id) ? id : null)
+
+  const { project, wpApiKey } = await createProject({
+    companyName,
+    contactName: settings.contact_name || '',
+    contactEmail: settings.contact_email || '',
+    phoneNumber: settings.phone_number || '',
+    contactUrl: settings.contact_url || '',
+    serviceDescription: settings.service_description || '',
+    wpUrl,
+    blogUrl: settings.blog_url || '',
+    userId: input.userId,
+    town: settings.town || undefined,
+    latitude: settings.latitude ?? undefined,
+    longitude: settings.longitude ?? undefined,
+    wpApiKey: generateWordPressApiKey(),
+  })
+  const projectId: string = project.id
+
+  const { error: settingsError } = await supabase
+    .from('projects')
+    .update({
+      ...Object.fromEntries(PROJECT_SETTINGS.filter((column) => column in settings).map((column) => [column, settings[column]])),
+      project_name: companyName,
+      company_name: companyName,
+      wp_url: wpUrl,
+      town_prompt_template_id: template(settings.town_prompt_template_id),
+      suburb_prompt_template_id: template(settings.suburb_prompt_template_id),
+    })
+    .eq('id', projectId)
+
+  if (settingsError) throw settingsError
+
+  // Services, with their keywords and FAQs
+  const serviceIds = new Map<string, string>()
+  for (const service of backup.services) {
+    const { data: inserted, error } = await supabase
+      .from('project_services')
+      .insert({
+        project_id: projectId,
+        name: service.name,
+        slug: service.slug,
+        description: service.description,
+        service_page_url: service.service_page_url,
+        town_prompt_template_id: template(service.town_prompt_template_id),
+        suburb_prompt_template_id: template(service.suburb_prompt_template_id),
+      })
+      .select('id')
+      .single()
+
+    if (error) throw error
+    serviceIds.set(service.slug, inserted.id)
+  }
+
+  await insertAll('service_keywords', backup.services.flatMap((service) =>
+    service.keywords.map((keyword) => ({ ...keyword, service_id: serviceIds.get(service.slug) }))
+  ), 'id')
+  await insertAll('service_faqs', backup.services.flatMap((service) =>
+    service.faqs.map((faq) => ({ ...faq, service_id: serviceIds.get(service.slug) }))
+  ), 'id')
+
+  // Locations, keywords and testimonials
+  const locations = await insertAll<{ id: string; place_id: string }>(
+    'project_locations',
+    backup.locations.map((location) => ({ ...location, project_id: projectId })),
+    'id, place_id'
+  )
+  const locationIds = new Map(locations.map((location) => [location.place_id, location.id]))
+
+  const keywords = await insertAll<{ id: string; keyword: string }>(
+    'keyword_variations',
+    backup.keywords.map((keyword) => ({ ...keyword, project_id: projectId })),
+    'id, keyword'
+  )
+  const keywordIds = new Map(keywords.map((keyword) => [keyword.keyword, keyword.id]))
+
+  await insertAll('project_testimonials', backup.testimonials.map((testimonial) => ({
+    ...testimonial,
+    project_id: projectId,
+  })), 'id')
+
+  // Combinations: towns first, so suburbs can point at their new parent
+  const pages = input.includePages ? backup.pages || [] : []
+  const withPage = new Set(pages.map((page) => page.combination_key))
+  const combinationIds = new Map<string, string>()
+
+  const insertCombinations = async (rows: ProjectBackup['combinations']) => {
+    const prepared = rows
+      .filter((combo) => locationIds.has(combo.place_id) && keywordIds.has(combo.keyword))
+      .filter((combo) => !combo.parent_key || combinationIds.has(combo.parent_key))
+
+    const inserted = await insertAll<{ id: string; location_id: string; keyword_id: string }>(
+      'location_keywords',
+      prepared.map((combo) => ({
+        project_id: projectId,
+        location_id: locationIds.get(combo.place_id),
+        keyword_id: keywordIds.get(combo.keyword),
+        service_id: combo.service_slug ? serviceIds.get(combo.service_slug) || null : null,
+        parent_location_id: combo.parent_key ? combinationIds.get(combo.parent_key) : null,
+        phrase: combo.phrase,
+        status: withPage.has(combo.key) ? 'generated' : 'pending',
+        track_position: combo.track_position,
+      })),
+      'id, location_id, keyword_id'
+    )
+
+    const newIds = new Map(inserted.map((row) => [`${row.location_id}|${row.keyword_id}`, row.id]))
+    for (const combo of prepared) {
+      const id = newIds.get(`${locationIds.get(combo.place_id)}|${keywordIds.get(combo.keyword)}`)
+      if (id) combinationIds.set(combo.key, id)
+    }
+  }
+
+  await insertCombinations(backup.combinations.filter((combo) => !combo.parent_key))
+  await insertCombinations(backup.combinations.filter((combo) => combo.parent_key))
+
+  // Pages, with JSON-LD for the new business
+  let pagesCount = 0
+  if (pages.length > 0) {
+    const combinationByKey = new Map(backup.combinations.map((combo) => [combo.key, combo]))
+    const locationByPlace = new Map(backup.locations.map((location) => [location.place_id, location]))
+    const serviceBySlug = new Map(backup.services.map((service) => [service.slug, service]))
+
+    const rows = pages
+      .filter((page) => combinationIds.has(page.combination_key))
+      .map((page) => {
+        const combo = combinationByKey.get(page.combination_key)!
+        const parent = combo.parent_key ? combinationByKey.get(combo.parent_key) : null
+        const service = combo.service_slug ? serviceBySlug.get(combo.service_slug) : null
+        const schema = buildStructuredData({
+          businessName: companyName,
+          websiteUrl: wpUrl,
+          phoneNumber: settings.phone_number,
+          serviceName: service?.name || combo.keyword,
+          serviceDescription: service?.description || settings.service_description,
+          pageTitle: page.title,
+          pageDescription: page.meta_description,
+          location: locationByPlace.get(combo.place_id) || { name: '' },
+          parentTown: parent ? locationByPlace.get(parent.place_id)?.name : null,
+          faqs: service?.faqs || [],
+          testimonials: backup.testimonials,
+        })
+
+        return {
+          location_keyword_id: combinationIds.get(page.combination_key),
+          title: page.title,
+          meta_title: page.meta_title,
+          meta_description: page.meta_description,
+          content: stripLinkMesh(page.content),
+          content_source: 'import',
+          schema_json: schema,
+          schema_updated_at: new Date().toISOString(),
+        }
+      })
+
+    pagesCount = (await insertAll('generated_pages', rows, 'id')).length
+  }
+
+  return {
+    projectId,
+    wpApiKey,
+    combinationsCount: combinationIds.size,
+    pagesCount,
+  }
+}
+
+/**
+ * Copy a project into a new one for another brand or domain
+ */
+export async function cloneProject(
+  projectId: string,
+  input: RestoreProjectInput
+): Promise<RestoreProjectResult> {
+  const backup = await buildProjectBackup(projectId, { includePages: input.includePages })
+  return restoreProjectBackup(backup, input)
+}
@@ -1,5 +1,7 @@
 import { supabase } from '@/lib/supabase'
 import { nanoid } from 'nanoid'
+import type { ImageProviderName } from '@/api/media-library'
+import type { CustomFieldMapping, TermMapping, UrlStructure } from '@/api/wordpress'
 
 export interface CreateProjectData {
   companyName: string
@@ -14,12 +16,13 @@ export interface CreateProjectData {
   town?: string
   latitude?: number
   longitude?: number
+  wpApiKey?: string // defaults to a new random key
 }
 
 export async function createProject(data: CreateProjectData) {
   try {
     // Generate a secure API key for WordPress plugin authentication
-    const wpApiKey = nanoid(32)
+    const wpApiKey = data.wpApiKey || nanoid(32)
 
     const { data: project, error } = await supabase
       .from('projects')
@@ -85,6 +88,15 @@ export async function getProject(projectId: string) {
   return data
 }
 
+export type LlmProviderName = 'openrouter' | 'openai' | 'anthropic' | 'mock'
+
+export const LLM_PROVIDER_OPTIONS: Array<{ value: LlmProviderName; label: string; defaultModel: string }> = [
+  { value: 'openrouter', label: 'OpenRouter', defaultModel: 'x-ai/grok-4.1-fast' },
+  { value: 'openai', label: 'OpenAI-compatible', defaultModel: 'gpt-4o-mini' },
+  { value: 'anthropic', label: 'Anthropic', defaultModel: 'claude-sonnet-4-5' },
+  { value: 'mock', label: 'Mock (offline testing)', defaultModel: 'mock-echo' },
+]
+
 export async function updateProject(projectId: string, updates: Partial<{
   company_name: string
   contact_name: string
@@ -100,6 +112,34 @@ export async function updateProject(projectId: string, updates: Partial<{
   town: string
   latitude: number
   longitude: number
+  llm_provider: LlmProviderName | null
+  llm_model: string | null
+  llm_temperature: number | null
+  llm_max_tokens: number | null
+  town_prompt_template_id: string | null
+  suburb_prompt_template_id: string | null
+  monthly_llm_budget_usd: number | null
+  duplicate_similarity_threshold: number
+  auto_regenerate_duplicates: boolean
+  optimise_target_score: number
+  optimise_max_iterations: number
+  locale_country: string
+  locale_language: string
+  locale_spelling: string
+  locale_currency: string
+  drip_enabled: boolean
+  drip_pages_per_day: number
+  drip_window_start: number
+  drip_window_end: number
+  drip_timezone: string
+  image_provider: ImageProviderName | null
+  content_images_per_page: number
+  wp_url_structure: UrlStructure
+  wp_post_type: string
+  wp_parent_id: number | null
+  wp_author_id: number | null
+  wp_term_mapping: TermMapping[]
+  wp_custom_fields: CustomFieldMapping[]
 }>) {
   const { data, error } = await supabase
     .from('projects')
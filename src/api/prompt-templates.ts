@@ -0,0 +1,199 @@
+/**
+ * API functions for editable, versioned content generation prompt templates
+ */
+
+import { supabase } from '@/lib/supabase'
+
+// Types
+export type PromptPageType = 'town' | 'suburb'
+
+export interface PromptTemplateVersion {
+  id: string
+  template_id: string
+  version_number: number
+  body: string
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+  // Computed fields
+  page_count?: number
+}
+
+export interface PromptTemplate {
+  id: string
+  user_id: string
+  name: string
+  description?: string | null
+  page_type: PromptPageType
+  current_version_id: string | null
+  created_at: string
+  updated_at: string
+  // Joined fields
+  current_version?: Pick<PromptTemplateVersion, 'id' | 'version_number' | 'body'> | null
+}
+
+/** Variables the content worker fills in when rendering a template */
+export const PROMPT_TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'serviceName', description: 'Keyword / service name, e.g. "Web Design"' },
+  { name: 'location', description: 'Town or suburb the page targets' },
+  { name: 'parentLocation', description: 'Parent town (suburb pages only)' },
+  { name: 'primaryTown', description: 'Set when a town page has suburb pages below it' },
+  { name: 'businessName', description: 'Company name' },
+  { name: 'phoneNumber', description: 'Company phone number' },
+  { name: 'contactUrl', description: 'Contact page URL' },
+  { name: 'serviceDescription', description: 'Project service description' },
+  { name: 'testimonialBlock', description: 'One random project testimonial with attribution' },
+  { name: 'projectServicesBlock', description: 'Bulleted list of the project\'s services' },
+  { name: 'serviceFaqsBlock', description: 'Q/A list of the service\'s FAQs' },
+  { name: 'internalLinkingBlock', description: 'Parent, suburb and service page URLs' },
+  { name: 'internalLinkingInstructions', description: 'How to link to those pages' },
+  { name: 'localeInstructions', description: 'Language, spelling, country and currency to write for' },
+  { name: 'language', description: 'Language name, e.g. "English"' },
+  { name: 'spellingVariant', description: 'Spelling variant, e.g. "British English"' },
+  { name: 'country', description: 'Country name, e.g. "United Kingdom"' },
+  { name: 'currency', description: 'Currency code and symbol, e.g. "GBP (£)"' },
+]
+
+export const PROMPT_TEMPLATE_SYNTAX_HELP =
+  'Use {{name}} for a value, {{name|fallback}} for a value with a default, ' +
+  '{{#name}}...{{/name}} for text shown only when the value is set, and ' +
+  '{{^name}}...{{/name}} for text shown only when it is empty.'
+
+/** Placeholders used in a template body that the worker does not know about */
+export function findUnknownPromptVariables(body: string): string[] {
+  const known = new Set(PROMPT_TEMPLATE_VARIABLES.map(v => v.name))
+  const used = Array.from(body.matchAll(/\{\{\s*[#^/]?\s*(\w+)/g), match => match[1])
+  return Array.from(new Set(used.filter(name => !known.has(name))))
+}
+
+// ============ TEMPLATES ============
+
+export async function getPromptTemplates(userId: string): Promise<PromptTemplate[]> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .select(`
+      *,
+      current_version:prompt_template_versions!prompt_templates_current_version_id_fkey(id, version_number, body)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as PromptTemplate[]
+}
+
+/** Create a template together with its first version */
+export async function createPromptTemplate(
+  userId: string,
+  template: { name: string; description?: string; page_type: PromptPageType; body: string }
+): Promise<PromptTemplate> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert({
+      user_id: userId,
+      name: template.name.trim(),
+      description: template.description?.trim() || null,
+      page_type: template.page_type,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await createPromptTemplateVersion(data.id, userId, template.body, 'Initial version')
+
+  return data
+}
+
+export async function updatePromptTemplate(
+  templateId: string,
+  updates: { name?: string; description?: string | null }
+): Promise<PromptTemplate> {
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .update(updates)
+    .eq('id', templateId)
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+export async function deletePromptTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase
+    .from('prompt_templates')
+    .delete()
+    .eq('id', templateId)
+
+  if (error) throw error
+}
+
+// ============ VERSIONS ============
+
+/** All versions of a template, newest first, with how many pages each produced */
+export async function getPromptTemplateVersions(templateId: string): Promise<PromptTemplateVersion[]> {
+  const { data, error } = await supabase
+    .from('prompt_template_versions')
+    .select('*, generated_pages(count)')
+    .eq('template_id', templateId)
+    .order('version_number', { ascending: false })
+
+  if (error) throw error
+
+  return (data || []).map((version: any) => ({
+    ...version,
+    page_count: version.generated_pages?.[0]?.count || 0,
+    generated_pages: undefined,
+  }))
+}
+
+/**
+ * Save an edited body as a new version and make it the current one.
+ * Versions are never edited in place so generated pages keep pointing at the
+ * exact wording that produced them.
+ */
+export async function createPromptTemplateVersion(
+  templateId: string,
+  userId: string,
+  body: string,
+  notes?: string
+): Promise<PromptTemplateVersion> {
+  const { data: latest, error: latestError } = await supabase
+    .from('prompt_template_versions')
+    .select('version_number')
+    .eq('template_id', templateId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (latestError) throw latestError
+
+  const { data, error } = await supabase
+    .from('prompt_template_versions')
+    .insert({
+      template_id: templateId,
+      version_number: (latest?.version_number || 0) + 1,
+      body,
+      notes: notes?.trim() || null,
+      created_by: userId,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+
+  await setCurrentPromptTemplateVersion(templateId, data.id)
+
+  return data
+}
+
+/** Point a template at an existing version (used to roll back) */
+export async function setCurrentPromptTemplateVersion(templateId: string, versionId: string): Promise<void> {
+  const { error } = await supabase
+    .from('prompt_templates')
+    .update({ current_version_id: versionId })
+    .eq('id', templateId)
+
+  if (error) throw error
+}
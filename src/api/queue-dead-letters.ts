@@ -0,0 +1,120 @@
+import { supabase } from '@/lib/supabase'
+
+export type QueueName = 'content_generation_jobs' | 'wordpress_push_jobs'
+
+export interface JobErrorHistoryEntry {
+  attempt: number
+  at: string
+  error: string
+  status_code: number | null
+  retryable: boolean
+}
+
+export interface DeadLetterJob {
+  queue: QueueName
+  id: string
+  user_id: string
+  project_id: string
+  location_keyword_id: string
+  phrase: string | null
+  attempts: number
+  max_attempts: number
+  error_message: string | null
+  error_history: JobErrorHistoryEntry[]
+  created_at: string
+  failed_at: string
+}
+
+export type DeadLetterRef = Pick<DeadLetterJob, 'queue' | 'id'>
+
+export const QUEUE_LABELS: Record<QueueName, string> = {
+  content_generation_jobs: 'Generate',
+  wordpress_push_jobs: 'Push',
+}
+
+/**
+ * Get failed jobs from both queues that haven't been discarded
+ */
+export async function getProjectDeadLetters(projectId: string): Promise<DeadLetterJob[]> {
+  const { data, error } = await supabase
+    .from('queue_dead_letters')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('failed_at', { ascending: false })
+
+  if (error) throw error
+  return data || []
+}
+
+function groupIdsByQueue(jobs: DeadLetterRef[]) {
+  return {
+    content_generation_jobs: jobs.filter((job) => job.queue === 'content_generation_jobs').map((job) => job.id),
+    wordpress_push_jobs: jobs.filter((job) => job.queue === 'wordpress_push_jobs').map((job) => job.id),
+  }
+}
+
+/**
+ * Put failed jobs back in the queue with a fresh set of attempts.
+ * Retries every dead letter in the project when no jobs are given.
+ */
+export async function retryFailedJobs(projectId: string, jobs?: DeadLetterRef[]): Promise<number> {
+  const ids = jobs ? groupIdsByQueue(jobs) : null
+  let retried = 0
+
+  for (const queue of ['content_generation_jobs', 'wordpress_push_jobs'] as QueueName[]) {
+    if (ids && ids[queue].length === 0) continue
+
+    let query = supabase
+      .from(queue)
+      .update({
+        status: 'queued',
+        attempts: 0,
+        next_attempt_at: null,
+        error_message: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('project_id', projectId)
+      .eq('status', 'failed')
+      .is('discarded_at', null)
+
+    if (ids) {
+      query = query.in('id', ids[queue])
+    }
+
+    const { data, error } = await query.select('location_keyword_id')
+    if (error) throw error
+    if (!data || data.length === 0) continue
+
+    retried += data.length
+
+    // Generation jobs drive the combination's status in the table
+    if (queue === 'content_generation_jobs') {
+      const { error: keywordError } = await supabase
+        .from('location_keywords')
+        .update({ status: 'queued', updated_at: new Date().toISOString() })
+        .in('id', data.map((job) => job.location_keyword_id))
+
+      if (keywordError) throw keywordError
+    }
+  }
+
+  return retried
+}
+
+/**
+ * Remove failed jobs from the dead-letter view without retrying them
+ */
+export async function discardFailedJobs(jobs: DeadLetterRef[]): Promise<void> {
+  const ids = groupIdsByQueue(jobs)
+
+  for (const queue of ['content_generation_jobs', 'wordpress_push_jobs'] as QueueName[]) {
+    if (ids[queue].length === 0) continue
+
+    const { error } = await supabase
+      .from(queue)
+      .update({ discarded_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+      .in('id', ids[queue])
+
+    if (error) throw error
+  }
+}
@@ -0,0 +1,77 @@
+import { supabase } from '@/lib/supabase'
+import {
+  mergeScoringProfiles,
+  resolveScoringRuleset,
+  type ScoringPageType,
+  type ScoringProfile,
+  type ScoringRuleOverrides,
+  type ScoringRules,
+} from '@/lib/content-scoring'
+
+export interface ScoringProfiles {
+  agency_id: string | null
+  agency: ScoringProfile
+  project: ScoringProfile
+}
+
+/**
+ * Get a project's scoring profile and its agency's default profile
+ */
+export async function getScoringProfiles(projectId: string): Promise<ScoringProfiles> {
+  const { data, error } = await supabase.rpc('get_scoring_profiles', { p_project_id: projectId })
+
+  if (error) throw error
+  return data as ScoringProfiles
+}
+
+/**
+ * The profile pages are scored with: the project's overrides over the agency's
+ */
+export function effectiveScoringProfile(profiles: ScoringProfiles | null | undefined): ScoringProfile {
+  return mergeScoringProfiles(profiles?.agency, profiles?.project)
+}
+
+export async function updateProjectScoringProfile(projectId: string, profile: ScoringProfile) {
+  const { error } = await supabase
+    .from('projects')
+    .update({ scoring_profile: profile, updated_at: new Date().toISOString() })
+    .eq('id', projectId)
+
+  if (error) throw error
+}
+
+/**
+ * Set the default scoring profile for every project in an agency
+ */
+export async function updateAgencyScoringProfile(agencyId: string, profile: ScoringProfile) {
+  const { error } = await supabase
+    .from('agencies')
+    .update({ scoring_profile: profile, updated_at: new Date().toISOString() })
+    .eq('id', agencyId)
+
+  if (error) throw error
+}
+
+/**
+ * The overrides that turn the inherited rules into the edited ones. Only
+ * changed fields are kept, so later changes to the inherited rules still apply.
+ */
+export function diffScoringRules(
+  pageType: ScoringPageType,
+  inherited: ScoringRuleOverrides | undefined,
+  edited: ScoringRules
+): ScoringRuleOverrides {
+  const base = resolveScoringRuleset(pageType, inherited).rules
+  const overrides: Record<string, Record<string, unknown>> = {}
+
+  for (const key of Object.keys(edited) as Array<keyof ScoringRules>) {
+    const baseRule = base[key] as unknown as Record<string, unknown>
+    const editedRule = edited[key] as unknown as Record<string, unknown>
+    for (const [field, value] of Object.entries(editedRule)) {
+      if (JSON.stringify(value) === JSON.stringify(baseRule[field])) continue
+      overrides[key] = { ...overrides[key], [field]: value }
+    }
+  }
+
+  return overrides as ScoringRuleOverrides
+}
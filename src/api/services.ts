@@ -12,6 +12,8 @@ export interface ProjectService {
   slug: string
   description?: string
   service_page_url?: string
+  town_prompt_template_id?: string | null
+  suburb_prompt_template_id?: string | null
   created_at: string
   updated_at: string
   // Computed fields from joins
@@ -112,7 +114,13 @@ export async function createProjectService(
 
 export async function updateProjectService(
   serviceId: string,
-  updates: { name?: string; description?: string; service_page_url?: string }
+  updates: {
+    name?: string
+    description?: string
+    service_page_url?: string
+    town_prompt_template_id?: string | null
+    suburb_prompt_template_id?: string | null
+  }
 ): Promise<ProjectService> {
   const updateData: any = { updated_at: new Date().toISOString() }
   
@@ -126,6 +134,12 @@ export async function updateProjectService(
   if (updates.service_page_url !== undefined) {
     updateData.service_page_url = updates.service_page_url?.trim() || null
   }
+  if (updates.town_prompt_template_id !== undefined) {
+    updateData.town_prompt_template_id = updates.town_prompt_template_id
+  }
+  if (updates.suburb_prompt_template_id !== undefined) {
+    updateData.suburb_prompt_template_id = updates.suburb_prompt_template_id
+  }
 
   const { data, error } = await supabase
     .from('project_services')
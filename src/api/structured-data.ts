@@ -0,0 +1,26 @@
+import { supabase } from '@/lib/supabase'
+import { buildStructuredDataForPage, type JsonLd } from '@/lib/structured-data'
+
+/**
+ * Save edited JSON-LD for a page. It is published with the page on the next push.
+ */
+export async function saveStructuredData(locationKeywordId: string, schema: JsonLd | null) {
+  const { error } = await supabase
+    .from('generated_pages')
+    .update({ schema_json: schema, schema_updated_at: new Date().toISOString() })
+    .eq('location_keyword_id', locationKeywordId)
+
+  if (error) throw error
+}
+
+/**
+ * Rebuild a page's JSON-LD from the current project, service FAQs and testimonials
+ */
+export async function rebuildStructuredData(
+  locationKeywordId: string,
+  page: { title: string; meta_description?: string | null }
+): Promise<JsonLd> {
+  const schema = await buildStructuredDataForPage(supabase, locationKeywordId, page)
+  await saveStructuredData(locationKeywordId, schema)
+  return schema
+}
@@ -1,4 +1,5 @@
 import { supabase } from '@/lib/supabase'
+import { queueDripPublishing } from './drip-publishing'
 
 export interface WordPressPushJobRequest {
   locationKeywordIds: string[]
@@ -10,16 +11,31 @@ export interface WordPressPushJobResponse {
   success: boolean
   jobsCreated: number
   jobIds: string[]
+  firstAt?: string | null // drip only: first and last publish times
+  lastAt?: string | null
 }
 
 /**
- * Queue WordPress push jobs for processing by the background worker
+ * Queue WordPress push jobs for processing by the background worker, either
+ * straight away or spread out by the project's drip publishing schedule
  */
 export async function queueWordPressPush(
   locationKeywordIds: string[],
   projectId: string,
-  userId: string
+  userId: string,
+  options: { schedule?: 'now' | 'drip' } = {}
 ): Promise<WordPressPushJobResponse> {
+  if (options.schedule === 'drip') {
+    const result = await queueDripPublishing(projectId, userId, locationKeywordIds)
+    return {
+      success: true,
+      jobsCreated: result.added,
+      jobIds: [],
+      firstAt: result.firstAt,
+      lastAt: result.lastAt,
+    }
+  }
+
   try {
     console.log('📋 [WP QUEUE] Queueing WordPress push jobs for:', locationKeywordIds.length, 'items')
 
@@ -105,6 +121,7 @@ export async function getWordPressPushQueuePosition(locationKeywordId: string):
     .from('wordpress_push_jobs')
     .select('id, location_keyword_id, created_at, priority')
     .eq('status', 'queued')
+    .or(`scheduled_for.is.null,scheduled_for.lte.${new Date().toISOString()}`)
     .order('priority', { ascending: false })
     .order('created_at', { ascending: true })
 
@@ -161,11 +178,22 @@ export async function getGlobalWordPressPushQueueStats() {
  * Get WordPress push queue stats for a specific project
  */
 export async function getProjectWordPressPushQueueStats(projectId: string) {
+  const now = new Date().toISOString()
+
+  // Drip publishes waiting for their time aren't part of the current backlog
   const { count: queuedCount } = await supabase
     .from('wordpress_push_jobs')
     .select('*', { count: 'exact', head: true })
     .eq('project_id', projectId)
     .eq('status', 'queued')
+    .or(`scheduled_for.is.null,scheduled_for.lte.${now}`)
+
+  const { count: scheduledCount } = await supabase
+    .from('wordpress_push_jobs')
+    .select('*', { count: 'exact', head: true })
+    .eq('project_id', projectId)
+    .eq('status', 'queued')
+    .gt('scheduled_for', now)
 
   const { count: processingCount } = await supabase
     .from('wordpress_push_jobs')
@@ -182,6 +210,7 @@ export async function getProjectWordPressPushQueueStats(projectId: string) {
   return {
     queued: queuedCount || 0,
     processing: processingCount || 0,
+    scheduled: scheduledCount || 0,
     totalPending,
     estimatedMinutes,
   }
@@ -0,0 +1,101 @@
+/**
+ * Pages deleted, trashed, unpublished or moved in WordPress after GeoScale
+ * pushed them. Reconciliation runs daily for every connected project and can
+ * be run on demand; each flagged page can be re-pushed, relinked to its new
+ * URL or reset to generated.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+
+export type WordPressPageIssue = 'missing' | 'trashed' | 'unpublished' | 'url_changed'
+
+export type WordPressRepairAction = 'repush' | 'relink' | 'reset'
+
+export const WORDPRESS_ISSUE_LABELS: Record<WordPressPageIssue, string> = {
+  missing: 'Deleted',
+  trashed: 'In trash',
+  unpublished: 'Unpublished',
+  url_changed: 'URL changed',
+}
+
+export const WORDPRESS_REPAIR_ACTIONS: Record<WordPressPageIssue, WordPressRepairAction[]> = {
+  missing: ['repush', 'reset'],
+  trashed: ['repush', 'reset'],
+  unpublished: ['repush', 'reset'],
+  url_changed: ['relink', 'reset'],
+}
+
+export interface WordPressPageIssueRow {
+  id: string
+  phrase: string
+  wp_page_id: number | null
+  wp_page_url: string | null
+  wp_issue: WordPressPageIssue
+  wp_issue_url: string | null
+  wp_issue_detected_at: string | null
+}
+
+export interface WordPressReconcileResult {
+  supported: boolean // false for plugins that don't report drafts and trashed pages
+  checked: number
+  issues: Record<WordPressPageIssue, number>
+}
+
+export interface WordPressRepairResult {
+  updated: number
+  skipped: number // pages without an issue the action fixes
+  queued: number
+  neighboursQueued: number // pages re-pushed because their links changed
+}
+
+async function invokeReconcile(body: Record<string, unknown>, fallbackMessage: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const { data, error } = await supabase.functions.invoke('reconcile-wordpress-pages', {
+    body,
+    headers: session ? {
+      Authorization: `Bearer ${session.access_token}`,
+    } : {},
+  })
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null
+    throw new Error(body?.error || error.message || fallbackMessage)
+  }
+
+  return data
+}
+
+/**
+ * Compare the project's pushed pages with WordPress now
+ */
+export async function reconcileWordPressPages(projectId: string): Promise<WordPressReconcileResult> {
+  return invokeReconcile({ projectId, action: 'check' }, 'Failed to check WordPress pages')
+}
+
+/**
+ * Re-push, relink or reset flagged pages
+ */
+export async function repairWordPressPages(
+  projectId: string,
+  action: WordPressRepairAction,
+  locationKeywordIds: string[]
+): Promise<WordPressRepairResult> {
+  return invokeReconcile({ projectId, action, locationKeywordIds }, 'Failed to repair WordPress pages')
+}
+
+/**
+ * The project's pages flagged by the last reconciliation
+ */
+export async function getWordPressIssues(projectId: string): Promise<WordPressPageIssueRow[]> {
+  const { data, error } = await supabase
+    .from('location_keywords')
+    .select('id, phrase, wp_page_id, wp_page_url, wp_issue, wp_issue_url, wp_issue_detected_at')
+    .eq('project_id', projectId)
+    .not('wp_issue', 'is', null)
+    .order('wp_issue_detected_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as WordPressPageIssueRow[]
+}
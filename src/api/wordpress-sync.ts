@@ -0,0 +1,108 @@
+/**
+ * Edits made in WordPress. The plugin reports a hash of each GeoScale page's
+ * title and content; a page whose hash differs from the one stored at its
+ * last push was changed in WordPress. Those edits can be pulled back into
+ * GeoScale, or overwritten by publishing with force.
+ */
+
+import { FunctionsHttpError } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { rescorePage } from './content-scores'
+
+export interface WordPressChange {
+  location_keyword_id: string
+  phrase: string
+  modified_gmt: string | null
+}
+
+export interface WordPressPageVersion {
+  location_keyword_id: string
+  wp_page_id: number
+  title: string
+  content: string
+  content_hash: string
+  modified_gmt: string | null
+  url: string
+}
+
+export interface WordPressChangesResult {
+  supported: boolean // false for plugins older than 1.1.0
+  checked: number
+  changed: WordPressChange[]
+  missing: string[] // pushed pages WordPress no longer has
+  pages: WordPressPageVersion[] // only with includeContent
+}
+
+/**
+ * Ask WordPress which pushed pages were edited there. Checks the whole
+ * project unless locationKeywordIds is given.
+ */
+export async function checkWordPressChanges(
+  projectId: string,
+  locationKeywordIds?: string[],
+  options: { includeContent?: boolean } = {}
+): Promise<WordPressChangesResult> {
+  const { data: { session } } = await supabase.auth.getSession()
+
+  const { data, error } = await supabase.functions.invoke('sync-wordpress-changes', {
+    body: {
+      projectId,
+      locationKeywordIds,
+      includeContent: options.includeContent || false,
+    },
+    headers: session ? {
+      Authorization: `Bearer ${session.access_token}`,
+    } : {},
+  })
+
+  if (error) {
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null
+    throw new Error(body?.error || error.message || 'Failed to check WordPress for changes')
+  }
+
+  return data
+}
+
+/**
+ * The page as it is in WordPress now, or null if WordPress no longer has it
+ */
+export async function getWordPressVersion(
+  projectId: string,
+  locationKeywordId: string
+): Promise<WordPressPageVersion | null> {
+  const result = await checkWordPressChanges(projectId, [locationKeywordId], { includeContent: true })
+  return result.pages.find((page) => page.location_keyword_id === locationKeywordId) || null
+}
+
+/**
+ * Replace the GeoScale page with the WordPress version. GeoScale and WordPress
+ * match afterwards, so the next update goes through without asking.
+ */
+export async function pullWordPressEdits(version: WordPressPageVersion): Promise<void> {
+  const { error } = await supabase
+    .from('generated_pages')
+    .update({
+      title: version.title,
+      content: version.content,
+      content_source: 'wordpress_edit',
+      updated_at: new Date().toISOString(),
+    })
+    .eq('location_keyword_id', version.location_keyword_id)
+
+  if (error) throw error
+
+  const { error: syncError } = await supabase
+    .from('location_keywords')
+    .update({
+      wp_content_hash: version.content_hash,
+      wp_modified_at: version.modified_gmt,
+      wp_remote_hash: version.content_hash,
+      wp_remote_modified_at: version.modified_gmt,
+      wp_checked_at: new Date().toISOString(),
+    })
+    .eq('id', version.location_keyword_id)
+
+  if (syncError) throw syncError
+
+  await rescorePage(version.location_keyword_id)
+}
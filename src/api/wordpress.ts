@@ -1,3 +1,4 @@
+import { FunctionsHttpError } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
 
 export interface WordPressTemplate {
@@ -5,6 +6,67 @@ export interface WordPressTemplate {
   label: string
 }
 
+export interface WordPressTaxonomy {
+  name: string
+  label: string
+  hierarchical: boolean
+}
+
+export interface WordPressPostType {
+  name: string
+  label: string
+  hierarchical: boolean
+  taxonomies: WordPressTaxonomy[]
+}
+
+export interface WordPressAuthor {
+  id: number
+  name: string
+}
+
+export interface WordPressParentPage {
+  id: number
+  title: string
+  parent_id: number
+}
+
+// Empty lists from plugins older than 1.5.0, which only publish pages
+export interface WordPressPublishOptions {
+  templates: WordPressTemplate[]
+  postTypes: WordPressPostType[]
+  authors: WordPressAuthor[]
+  parents: WordPressParentPage[]
+}
+
+export type UrlStructure = 'flat' | 'hierarchical'
+
+export const URL_STRUCTURE_OPTIONS: Array<{ value: UrlStructure; label: string; example: string }> = [
+  { value: 'flat', label: 'Flat', example: '/web-design-in-bessacarr/' },
+  { value: 'hierarchical', label: 'Service > town > suburb', example: '/web-design/doncaster/bessacarr/' },
+]
+
+export type TermSource = 'region' | 'service' | 'location' | 'fixed'
+
+export interface TermMapping {
+  taxonomy: string
+  source: TermSource
+  value?: string | null // the term for 'fixed'
+}
+
+export interface CustomFieldMapping {
+  key: string
+  value: string // may use {variables}
+}
+
+export const TERM_SOURCE_LABELS: Record<TermSource, string> = {
+  region: 'Location region',
+  service: 'Service',
+  location: 'Location name',
+  fixed: 'Fixed term',
+}
+
+export const CUSTOM_FIELD_VARIABLES = ['service', 'location', 'region', 'keyword', 'phrase', 'business', 'phone', 'lat', 'lng']
+
 export interface WordPressSitemapItem {
   id: number
   type: string
@@ -14,6 +76,23 @@ export interface WordPressSitemapItem {
   meta_description: string
   status: string
   modified: string
+  geoscale_page?: boolean
+  content_hash?: string // GeoScale pages, plugin 1.1.0 or later
+  modified_gmt?: string
+}
+
+/**
+ * The page was edited in WordPress since GeoScale last published it, so the
+ * update was refused. Publish again with force to overwrite those edits.
+ */
+export class WordPressConflictError extends Error {
+  modifiedAt: string | null
+
+  constructor(message: string, modifiedAt: string | null = null) {
+    super(message)
+    this.name = 'WordPressConflictError'
+    this.modifiedAt = modifiedAt
+  }
 }
 
 /**
@@ -21,8 +100,22 @@ export interface WordPressSitemapItem {
  */
 export async function fetchWordPressTemplates(
   wordpressUrl: string,
-  wordpressApiKey: string
+  wordpressApiKey: string,
+  postType?: string
 ): Promise<WordPressTemplate[]> {
+  const options = await fetchWordPressPublishOptions(wordpressUrl, wordpressApiKey, postType)
+  return options.templates
+}
+
+/**
+ * Fetch the templates, post types, authors and parent pages pages can be
+ * published with. Templates and parents are for the given post type.
+ */
+export async function fetchWordPressPublishOptions(
+  wordpressUrl: string,
+  wordpressApiKey: string,
+  postType?: string
+): Promise<WordPressPublishOptions> {
   // Get session to ensure JWT token is included
   const { data: { session } } = await supabase.auth.getSession()
   
@@ -30,6 +123,7 @@ export async function fetchWordPressTemplates(
     body: {
       wordpressUrl,
       wordpressApiKey,
+      postType,
     },
     headers: session ? {
       Authorization: `Bearer ${session.access_token}`,
@@ -44,7 +138,12 @@ export async function fetchWordPressTemplates(
     throw new Error(data.error || 'Failed to fetch WordPress templates')
   }
 
-  return data.templates
+  return {
+    templates: data.templates,
+    postTypes: data.postTypes || [],
+    authors: data.authors || [],
+    parents: data.parents || [],
+  }
 }
 
 /**
@@ -101,6 +200,7 @@ export async function publishToWordPress(params: {
   publishStatus?: 'draft' | 'publish'
   location?: string
   keyword?: string
+  force?: boolean
 }): Promise<{
   success: boolean
   message: string
@@ -124,6 +224,7 @@ export async function publishToWordPress(params: {
       publishStatus: params.publishStatus || 'draft',
       location: params.location,
       keyword: params.keyword,
+      force: params.force || false,
     },
     headers: session ? {
       Authorization: `Bearer ${session.access_token}`,
@@ -131,6 +232,12 @@ export async function publishToWordPress(params: {
   })
 
   if (error) {
+    if (error instanceof FunctionsHttpError && error.context?.status === 409) {
+      const body = await error.context.json().catch(() => ({}))
+      if (body.conflict) {
+        throw new WordPressConflictError(body.error, body.modified_gmt || null)
+      }
+    }
     throw new Error(error.message || 'Failed to publish to WordPress')
   }
 
@@ -0,0 +1,236 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ArchiveRestore, CheckCircle2, Copy, Loader2 } from 'lucide-react'
+import {
+  parseProjectBackup,
+  restoreProjectBackup,
+  type ProjectBackup,
+  type RestoreProjectResult,
+} from '@/api/project-backup'
+import { copyApiKeyToClipboard } from '@/utils/api-key-generator'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+interface RestoreProjectDialogProps {
+  userId: string
+}
+
+/**
+ * Create a project from a JSON backup downloaded from another project
+ */
+export function RestoreProjectDialog({ userId }: RestoreProjectDialogProps) {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [open, setOpen] = useState(false)
+  const [backup, setBackup] = useState<ProjectBackup | null>(null)
+  const [fileName, setFileName] = useState('')
+  const [companyName, setCompanyName] = useState('')
+  const [wpUrl, setWpUrl] = useState('')
+  const [includePages, setIncludePages] = useState(true)
+  const [isRestoring, setIsRestoring] = useState(false)
+  const [result, setResult] = useState<RestoreProjectResult | null>(null)
+
+  const handleOpenChange = (next: boolean) => {
+    if (isRestoring) return
+    setOpen(next)
+    if (!next) {
+      setTimeout(() => {
+        setBackup(null)
+        setFileName('')
+        setResult(null)
+      }, 200)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const parsed = parseProjectBackup(await file.text())
+      setBackup(parsed)
+      setFileName(file.name)
+      setCompanyName(String(parsed.project.company_name || parsed.project.project_name || ''))
+      setWpUrl(String(parsed.project.wp_url || ''))
+      setIncludePages(!!parsed.pages?.length)
+    } catch (error) {
+      setBackup(null)
+      toast.error('Cannot read backup', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  const handleRestore = async () => {
+    if (!backup) return
+
+    setIsRestoring(true)
+    try {
+      const restored = await restoreProjectBackup(backup, { userId, companyName, wpUrl, includePages })
+      queryClient.invalidateQueries({ queryKey: ['agencyProjects', userId] })
+      setResult(restored)
+    } catch (error) {
+      toast.error('Error restoring project', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsRestoring(false)
+    }
+  }
+
+  const handleCopyApiKey = async () => {
+    if (!result) return
+    const success = await copyApiKeyToClipboard(result.wpApiKey)
+    if (success) {
+      toast.success('API key copied to clipboard')
+    } else {
+      toast.error('Failed to copy API key')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ArchiveRestore className="mr-2 h-4 w-4" />
+          Restore Backup
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        {!result ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Restore Project Backup</DialogTitle>
+              <DialogDescription>
+                Create a new project from a GeoScale backup file. The project gets its own WordPress API key.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-5 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="backup-file">Backup file</Label>
+                <Input id="backup-file" type="file" accept=".json,application/json" onChange={handleFileChange} />
+                {backup && (
+                  <p className="text-xs text-muted-foreground">
+                    {fileName}: {backup.services.length} services, {backup.locations.length} locations,{' '}
+                    {backup.combinations.length} combinations
+                    {backup.pages ? `, ${backup.pages.length} pages` : ''}, exported{' '}
+                    {new Date(backup.exported_at).toLocaleDateString()}
+                  </p>
+                )}
+              </div>
+
+              {backup && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="restore-company-name">Company name</Label>
+                    <Input
+                      id="restore-company-name"
+                      value={companyName}
+                      onChange={(e) => setCompanyName(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="restore-wp-url">WordPress URL</Label>
+                    <Input
+                      id="restore-wp-url"
+                      value={wpUrl}
+                      onChange={(e) => setWpUrl(e.target.value)}
+                    />
+                  </div>
+
+                  {!!backup.pages?.length && (
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="restore-include-pages">Restore generated pages</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Pages come back unpublished, ready to push to the new site
+                        </p>
+                      </div>
+                      <Switch
+                        id="restore-include-pages"
+                        checked={includePages}
+                        onCheckedChange={setIncludePages}
+                      />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)} disabled={isRestoring}>
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={handleRestore}
+                disabled={!backup || !companyName.trim() || isRestoring}
+                style={{ backgroundColor: 'var(--brand-dark)' }}
+                className="hover:opacity-90 text-white"
+              >
+                {isRestoring && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Restore Project
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <div className="flex items-center gap-3">
+                <CheckCircle2 className="h-8 w-8 text-green-500" />
+                <div>
+                  <DialogTitle>Project Restored</DialogTitle>
+                  <DialogDescription>
+                    {companyName} has {result.combinationsCount} combinations
+                    {result.pagesCount > 0 && ` and ${result.pagesCount} pages ready to publish`}.
+                  </DialogDescription>
+                </div>
+              </div>
+            </DialogHeader>
+
+            <div className="space-y-2 py-4">
+              <Label className="text-sm text-muted-foreground font-normal">WordPress API Key</Label>
+              <div className="flex items-center gap-2">
+                <Input value={result.wpApiKey} readOnly className="font-mono text-sm" />
+                <Button variant="outline" size="icon" onClick={handleCopyApiKey} title="Copy API key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Paste this key into the GeoScale WordPress plugin on the site.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button
+                onClick={() => {
+                  handleOpenChange(false)
+                  navigate(`/projects/${result.projectId}`)
+                }}
+                style={{ backgroundColor: 'var(--brand-dark)' }}
+                className="hover:opacity-90 text-white"
+              >
+                Open Project
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -77,7 +77,6 @@ export function AddServiceDialog({ projectId, wpUrl, open, onOpenChange }: AddSe
       const keywords = await getKeywordVariations({
         project_id: projectId,
         base_keyword: serviceName,
-        location: 'GB',
         limit: 20,
       })
       
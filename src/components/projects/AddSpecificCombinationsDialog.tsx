@@ -17,6 +17,7 @@ import { Badge } from '@/components/ui/badge'
 import { Plus, X } from 'lucide-react'
 import { toast } from 'sonner'
 import { addSpecificCombinations } from '@/api/combinations'
+import { geocodePendingLocations } from '@/api/google-places'
 import { UK_REGIONS } from '@/data/uk-regions'
 
 interface AddSpecificCombinationsDialogProps {
@@ -63,6 +64,11 @@ export function AddSpecificCombinationsDialog({
       })
       queryClient.invalidateQueries({ queryKey: ['project', projectId] })
       queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+
+      // New towns are added without coordinates; look them up in the background
+      geocodePendingLocations(projectId)
+        .then(() => queryClient.invalidateQueries({ queryKey: ['projectLocations', projectId] }))
+        .catch((error) => console.error('Failed to geocode new towns:', error))
       handleClose()
     },
     onError: (error: Error) => {
@@ -0,0 +1,232 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { CheckCircle2, Copy, CopyPlus, Download, Loader2 } from 'lucide-react'
+import { buildProjectBackup, cloneProject, type RestoreProjectResult } from '@/api/project-backup'
+import { copyApiKeyToClipboard } from '@/utils/api-key-generator'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+
+interface CloneProjectDialogProps {
+  projectId: string
+  projectName: string
+  userId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'project'
+}
+
+/**
+ * Clone a project for another brand or domain, or download it as a JSON
+ * backup that can be restored from the projects list
+ */
+export function CloneProjectDialog({ projectId, projectName, userId, open, onOpenChange }: CloneProjectDialogProps) {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [companyName, setCompanyName] = useState(`${projectName} (copy)`)
+  const [wpUrl, setWpUrl] = useState('https://')
+  const [includePages, setIncludePages] = useState(false)
+  const [busy, setBusy] = useState<'clone' | 'backup' | null>(null)
+  const [result, setResult] = useState<RestoreProjectResult | null>(null)
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return
+    onOpenChange(next)
+    if (!next) {
+      setTimeout(() => {
+        setResult(null)
+        setCompanyName(`${projectName} (copy)`)
+        setWpUrl('https://')
+        setIncludePages(false)
+      }, 200)
+    }
+  }
+
+  const handleDownload = async () => {
+    setBusy('backup')
+    try {
+      const backup = await buildProjectBackup(projectId, { includePages })
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `${slugify(projectName)}-backup-${new Date().toISOString().slice(0, 10)}.json`
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+
+      toast.success('Backup downloaded', {
+        description: `${backup.services.length} services, ${backup.combinations.length} combinations${backup.pages ? `, ${backup.pages.length} pages` : ''}`,
+      })
+    } catch (error) {
+      toast.error('Error creating backup', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleClone = async () => {
+    if (!companyName.trim()) {
+      toast.error('Enter a company name for the new project')
+      return
+    }
+
+    setBusy('clone')
+    try {
+      const cloned = await cloneProject(projectId, {
+        userId,
+        companyName,
+        wpUrl: wpUrl === 'https://' ? '' : wpUrl,
+        includePages,
+      })
+      queryClient.invalidateQueries({ queryKey: ['agencyProjects', userId] })
+      setResult(cloned)
+    } catch (error) {
+      toast.error('Error cloning project', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCopyApiKey = async () => {
+    if (!result) return
+    const success = await copyApiKeyToClipboard(result.wpApiKey)
+    if (success) {
+      toast.success('API key copied to clipboard')
+    } else {
+      toast.error('Failed to copy API key')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        {!result ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Clone or Back Up Project</DialogTitle>
+              <DialogDescription>
+                Copy services, keywords, FAQs, locations, testimonials and combinations into a new project with its own WordPress API key, or download them as a JSON backup.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-5 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="clone-company-name">New company name</Label>
+                <Input
+                  id="clone-company-name"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="clone-wp-url">New WordPress URL</Label>
+                <Input
+                  id="clone-wp-url"
+                  value={wpUrl}
+                  onChange={(e) => setWpUrl(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Pages are never published automatically. Connect the new site with the API key shown after cloning.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="clone-include-pages">Include generated pages</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Copy page content as unpublished drafts instead of generating it again
+                  </p>
+                </div>
+                <Switch
+                  id="clone-include-pages"
+                  checked={includePages}
+                  onCheckedChange={setIncludePages}
+                />
+              </div>
+            </div>
+
+            <DialogFooter className="gap-2 sm:justify-between">
+              <Button type="button" variant="outline" onClick={handleDownload} disabled={!!busy}>
+                {busy === 'backup' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+                Download Backup
+              </Button>
+              <Button
+                type="button"
+                onClick={handleClone}
+                disabled={!!busy}
+                style={{ backgroundColor: 'var(--brand-dark)' }}
+                className="hover:opacity-90 text-white"
+              >
+                {busy === 'clone' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CopyPlus className="mr-2 h-4 w-4" />}
+                Clone Project
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <div className="flex items-center gap-3">
+                <CheckCircle2 className="h-8 w-8 text-green-500" />
+                <div>
+                  <DialogTitle>Project Cloned</DialogTitle>
+                  <DialogDescription>
+                    {companyName} has {result.combinationsCount} combinations
+                    {result.pagesCount > 0 && ` and ${result.pagesCount} pages ready to publish`}.
+                  </DialogDescription>
+                </div>
+              </div>
+            </DialogHeader>
+
+            <div className="space-y-2 py-4">
+              <Label className="text-sm text-muted-foreground font-normal">WordPress API Key</Label>
+              <div className="flex items-center gap-2">
+                <Input value={result.wpApiKey} readOnly className="font-mono text-sm" />
+                <Button variant="outline" size="icon" onClick={handleCopyApiKey} title="Copy API key">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Paste this key into the GeoScale WordPress plugin on the new site.
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button
+                onClick={() => {
+                  handleOpenChange(false)
+                  navigate(`/projects/${result.projectId}`)
+                }}
+                style={{ backgroundColor: 'var(--brand-dark)' }}
+                className="hover:opacity-90 text-white"
+              >
+                Open New Project
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
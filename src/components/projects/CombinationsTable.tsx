@@ -20,7 +20,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
-import { Trash2, X, Wand2, Loader2, CheckCircle2, XCircle, RefreshCw, Eye, ExternalLink, HelpCircle, Plus, Upload, Map, TrendingUp, BarChart3, CornerLeftUp } from 'lucide-react'
+import { Trash2, X, Wand2, Loader2, CheckCircle2, XCircle, RefreshCw, Eye, ExternalLink, HelpCircle, Plus, Upload, Map, TrendingUp, BarChart3, CornerLeftUp, Copy, ScanSearch, ArrowUp, ArrowDown, ArrowUpDown } from 'lucide-react'
 import { WordPressIcon } from '@/components/icons/WordPressIcon'
 import { toast } from 'sonner'
 import { supabase } from '@/lib/supabase'
@@ -31,6 +31,9 @@ import { QueueStatusIndicator } from './QueueStatusIndicator'
 import { checkRankings } from '@/api/rankings'
 import { togglePositionTracking, getTrackedCombinationsCount } from '@/api/combinations'
 import { getKeywordMetrics } from '@/api/dataforseo'
+import { DEFAULT_DUPLICATE_THRESHOLD, pickDuplicateOffenders, scanProjectDuplicates, uniquenessScore } from '@/api/duplicate-content'
+import { rescoreProjectPages } from '@/api/content-scores'
+import type { ScoreCheck, ScoreGrade } from '@/lib/content-scoring'
 import { usePlanLimits } from '@/hooks/usePlanLimits'
 import { Switch } from '@/components/ui/switch'
 import { GoogleIcon } from '@/components/icons/GoogleIcon'
@@ -56,6 +59,25 @@ interface Combination {
     search_volume?: number
     difficulty?: number
   }
+  generated_page?: {
+    max_similarity: number | null
+    most_similar_location_keyword_id: string | null
+    score?: number | null
+    score_grade?: ScoreGrade | null
+    score_ruleset?: string | null
+    score_checks?: ScoreCheck[] | null
+  } | null
+}
+
+type ScoreFilter = 'all' | ScoreGrade | 'unscored'
+
+const SCORE_FILTER_LABELS: Record<ScoreFilter, string> = {
+  all: 'All Scores',
+  excellent: 'Excellent (80+)',
+  good: 'Good (60-79)',
+  'needs-work': 'Needs Work (40-59)',
+  poor: 'Poor (<40)',
+  unscored: 'Not Scored',
 }
 
 interface CombinationsTableProps {
@@ -70,6 +92,8 @@ interface CombinationsTableProps {
   isGenerating?: boolean
   addButtons?: React.ReactNode
   generateButton?: React.ReactNode
+  duplicateThreshold?: number
+  dripPublishing?: boolean // Push All schedules pages instead of publishing now
 }
 
 export function CombinationsTable({ 
@@ -83,6 +107,8 @@ export function CombinationsTable({
   isGenerating: externalIsGenerating,
   addButtons,
   generateButton,
+  duplicateThreshold = DEFAULT_DUPLICATE_THRESHOLD,
+  dripPublishing = false,
 }: CombinationsTableProps) {
   const queryClient = useQueryClient()
   const navigate = useNavigate()
@@ -93,6 +119,9 @@ export function CombinationsTable({
   // Check if user can use rank tracking (not Starter plan)
   const canUseRankTracking = plan?.rankTrackingFrequency !== null
   const [selectedTown, setSelectedTown] = useState<string>('all')
+  const [showDuplicatesOnly, setShowDuplicatesOnly] = useState(false)
+  const [scoreFilter, setScoreFilter] = useState<ScoreFilter>('all')
+  const [scoreSort, setScoreSort] = useState<'asc' | 'desc' | null>(null)
   const [deleteMode, setDeleteMode] = useState(false)
   const [internalGenerateMode, setInternalGenerateMode] = useState(false)
   const [internalSelectedIds, setInternalSelectedIds] = useState<Set<string>>(new Set())
@@ -304,9 +333,27 @@ export function CombinationsTable({
     return Array.from(towns).sort()
   }, [combinations])
 
+  const isDuplicate = (combo: Combination) =>
+    combo.generated_page?.max_similarity != null && Number(combo.generated_page.max_similarity) >= duplicateThreshold
+
+  // Near-duplicate pages, and the ones to regenerate (one per pair)
+  const duplicateCount = useMemo(() => combinations.filter(isDuplicate).length, [combinations, duplicateThreshold])
+  const duplicateOffenders = useMemo(() => pickDuplicateOffenders(
+    combinations
+      .filter(combo => combo.status === 'generated' || combo.status === 'pushed')
+      .map(combo => ({
+        id: combo.id,
+        status: combo.status,
+        maxSimilarity: combo.generated_page?.max_similarity != null ? Number(combo.generated_page.max_similarity) : null,
+        mostSimilarId: combo.generated_page?.most_similar_location_keyword_id || null,
+      })),
+    duplicateThreshold
+  ), [combinations, duplicateThreshold])
+  const phrasesById = useMemo(() => Object.fromEntries(combinations.map(combo => [combo.id, combo.phrase])) as Record<string, string>, [combinations])
+
   // Filter combinations
   const filteredCombinations = useMemo(() => {
-    return combinations.filter(combo => {
+    const filtered = combinations.filter(combo => {
       // Search filter
       const matchesSearch = searchQuery === '' || 
         combo.phrase.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -316,9 +363,27 @@ export function CombinationsTable({
       // Town filter
       const matchesTown = selectedTown === 'all' || combo.location?.name === selectedTown
 
-      return matchesSearch && matchesTown
+      const matchesDuplicates = !showDuplicatesOnly || isDuplicate(combo)
+
+      // Score filter
+      const grade = combo.generated_page?.score_grade
+      const matchesScore = scoreFilter === 'all' || (scoreFilter === 'unscored' ? !grade : grade === scoreFilter)
+
+      return matchesSearch && matchesTown && matchesDuplicates && matchesScore
     })
-  }, [combinations, searchQuery, selectedTown])
+
+    if (!scoreSort) return filtered
+
+    // Sort by score, keeping unscored pages at the bottom either way
+    return [...filtered].sort((a, b) => {
+      const scoreA = a.generated_page?.score
+      const scoreB = b.generated_page?.score
+      if (scoreA == null && scoreB == null) return 0
+      if (scoreA == null) return 1
+      if (scoreB == null) return -1
+      return scoreSort === 'asc' ? scoreA - scoreB : scoreB - scoreA
+    })
+  }, [combinations, searchQuery, selectedTown, showDuplicatesOnly, duplicateThreshold, scoreFilter, scoreSort])
 
   const deleteMutation = useMutation({
     mutationFn: async (ids: string[]) => {
@@ -565,14 +630,26 @@ export function CombinationsTable({
 
       console.log('📋 [UI] Queueing', generatedIds.length, 'pages for WordPress push')
       
-      const response = await queueWordPressPush(generatedIds, projectId, user.id)
+      const response = await queueWordPressPush(generatedIds, projectId, user.id, {
+        schedule: dripPublishing ? 'drip' : 'now',
+      })
       return response
     },
     onSuccess: (data) => {
-      toast.success(`${data.jobsCreated} pages queued for WordPress`, {
-        description: 'Pages will be published in the background. You can navigate away.',
-      })
+      if (dripPublishing) {
+        toast.success(`${data.jobsCreated} page${data.jobsCreated !== 1 ? 's' : ''} scheduled for WordPress`, {
+          description: data.lastAt
+            ? `Publishing between ${new Date(data.firstAt!).toLocaleDateString()} and ${new Date(data.lastAt).toLocaleDateString()}. See the publishing calendar for times.`
+            : 'Every generated page is already queued.',
+        })
+        queryClient.invalidateQueries({ queryKey: ['publishingSchedule', projectId] })
+      } else {
+        toast.success(`${data.jobsCreated} pages queued for WordPress`, {
+          description: 'Pages will be published in the background. You can navigate away.',
+        })
+      }
       queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['wpPushQueueStats', projectId] })
     },
     onError: (error: Error) => {
       toast.error('Error queuing WordPress push', {
@@ -581,6 +658,50 @@ export function CombinationsTable({
     },
   })
 
+  const scanDuplicatesMutation = useMutation({
+    mutationFn: async () => {
+      await rescoreProjectPages(projectId)
+      return scanProjectDuplicates(projectId)
+    },
+    onSuccess: (data) => {
+      toast.success(`Rescored ${data.pagesScanned} pages and checked them for duplicate content`, {
+        description: data.pagesFlagged > 0
+          ? `${data.pagesFlagged} page${data.pagesFlagged !== 1 ? 's are' : ' is'} at least ${Math.round(duplicateThreshold * 100)}% similar to another page`
+          : 'No near-duplicates found',
+      })
+      queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+    },
+    onError: (error: Error) => {
+      toast.error('Error checking pages', {
+        description: error.message,
+      })
+    },
+  })
+
+  const regenerateDuplicatesMutation = useMutation({
+    mutationFn: async () => {
+      if (!user?.id) {
+        throw new Error('User not authenticated')
+      }
+      if (duplicateOffenders.length === 0) {
+        throw new Error('No near-duplicate pages to regenerate')
+      }
+      return queueContentGeneration(duplicateOffenders, projectId, user.id)
+    },
+    onSuccess: (data) => {
+      toast.success(`${data.jobsCreated} near-duplicate page${data.jobsCreated !== 1 ? 's' : ''} queued for regeneration`, {
+        description: 'Each pair keeps one page; pushed pages are left alone.',
+      })
+      setShowDuplicatesOnly(false)
+      queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to queue regeneration', {
+        description: error.message,
+      })
+    },
+  })
+
   // Count of generated (unpushed) combinations
   const generatedUnpushedCount = useMemo(() => {
     return combinations.filter(c => c.status === 'generated').length
@@ -654,8 +775,8 @@ export function CombinationsTable({
   return (
     <>
     <div className="space-y-4">
-      {/* Queue Status Indicator - shows when items are queued */}
-      {hasQueuedItems && <QueueStatusIndicator projectId={projectId} />}
+      {/* Queue Status Indicator - shows when items are queued or jobs have failed */}
+      <QueueStatusIndicator projectId={projectId} showQueueStats={hasQueuedItems} />
 
       {/* Generation Progress Bar */}
       {generationProgress && (
@@ -727,6 +848,19 @@ export function CombinationsTable({
               ))}
             </SelectContent>
           </Select>
+
+          <Select value={scoreFilter} onValueChange={(value) => setScoreFilter(value as ScoreFilter)}>
+            <SelectTrigger className="w-[170px]">
+              <SelectValue placeholder="Filter by score" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SCORE_FILTER_LABELS) as ScoreFilter[]).map(value => (
+                <SelectItem key={value} value={value}>
+                  {SCORE_FILTER_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
         {/* Generate Content button - always show (handles its own state) */}
         {generateButton}
@@ -739,7 +873,9 @@ export function CombinationsTable({
                 size="sm"
                 onClick={() => pushAllMutation.mutate()}
                 disabled={pushAllMutation.isPending}
-                title={`Push ${generatedUnpushedCount} generated page${generatedUnpushedCount !== 1 ? 's' : ''} to WordPress`}
+                title={dripPublishing
+                  ? `Schedule ${generatedUnpushedCount} generated page${generatedUnpushedCount !== 1 ? 's' : ''} for drip publishing`
+                  : `Push ${generatedUnpushedCount} generated page${generatedUnpushedCount !== 1 ? 's' : ''} to WordPress`}
                 className="border-[var(--brand-dark)] text-[var(--brand-dark)] hover:bg-[var(--brand-dark)]/10"
               >
                 {pushAllMutation.isPending ? (
@@ -747,7 +883,7 @@ export function CombinationsTable({
                 ) : (
                   <WordPressIcon className="mr-2 h-4 w-4" />
                 )}
-                Push to WordPress ({generatedUnpushedCount})
+                {dripPublishing ? 'Schedule Publishing' : 'Push to WordPress'} ({generatedUnpushedCount})
               </Button>
             )}
             {/* Get Keyword Data button - fetches volume/difficulty from DataForSEO */}
@@ -765,6 +901,48 @@ export function CombinationsTable({
               )}
               Get Keyword Data
             </Button>
+            {/* Near-duplicate content: filter, regenerate offenders, or rescan the project */}
+            {duplicateCount > 0 && (
+              <Button
+                variant={showDuplicatesOnly ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowDuplicatesOnly(!showDuplicatesOnly)}
+                title={`Show pages at least ${Math.round(duplicateThreshold * 100)}% similar to another page`}
+                className={showDuplicatesOnly ? '' : 'border-amber-500 text-amber-700 hover:bg-amber-50'}
+              >
+                <Copy className="mr-2 h-4 w-4" />
+                Near-duplicates ({duplicateCount})
+              </Button>
+            )}
+            {showDuplicatesOnly && duplicateOffenders.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => regenerateDuplicatesMutation.mutate()}
+                disabled={regenerateDuplicatesMutation.isPending}
+                title="Regenerate one page of each near-duplicate pair (pushed pages are skipped)"
+              >
+                {regenerateDuplicatesMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                Regenerate ({duplicateOffenders.length})
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => scanDuplicatesMutation.mutate()}
+              disabled={scanDuplicatesMutation.isPending}
+              title="Rescore every generated page and check the project for near-duplicate content"
+            >
+              {scanDuplicatesMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <ScanSearch className="h-4 w-4" />
+              )}
+            </Button>
             {/* Hide Check Rankings button for Starter plan */}
             {canUseRankTracking && (
               <Button
@@ -873,6 +1051,11 @@ export function CombinationsTable({
             )}
           </span>
         )}
+        {wpQueueStats && wpQueueStats.scheduled > 0 && (
+          <span>
+            {wpQueueStats.scheduled} page{wpQueueStats.scheduled !== 1 ? 's' : ''} scheduled for drip publishing
+          </span>
+        )}
       </div>
 
       {/* Table */}
@@ -903,6 +1086,23 @@ export function CombinationsTable({
               <TableHead className="text-right">Volume</TableHead>
               <TableHead className="text-right">Difficulty</TableHead>
               <TableHead>Assessment</TableHead>
+              <TableHead className="text-center">
+                <button
+                  onClick={() => setScoreSort(scoreSort === null ? 'desc' : scoreSort === 'desc' ? 'asc' : null)}
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                  title="Sort by content score"
+                >
+                  Score
+                  {scoreSort === 'desc' ? (
+                    <ArrowDown className="h-3 w-3" />
+                  ) : scoreSort === 'asc' ? (
+                    <ArrowUp className="h-3 w-3" />
+                  ) : (
+                    <ArrowUpDown className="h-3 w-3 opacity-50" />
+                  )}
+                </button>
+              </TableHead>
+              <TableHead className="text-center">Uniqueness</TableHead>
               <TableHead>Status</TableHead>
               {canUseRankTracking && (
                 <>
@@ -917,7 +1117,7 @@ export function CombinationsTable({
             {filteredCombinations.length === 0 ? (
               <TableRow>
                 <TableCell 
-                  colSpan={(deleteMode || generateMode) ? (canUseRankTracking ? 11 : 9) : (canUseRankTracking ? 10 : 8)} 
+                  colSpan={(deleteMode || generateMode) ? (canUseRankTracking ? 13 : 11) : (canUseRankTracking ? 12 : 10)} 
                   className="text-center py-8 text-muted-foreground"
                 >
                   No combinations found
@@ -991,6 +1191,41 @@ export function CombinationsTable({
                       return <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-full bg-red-500"></span><span className="text-red-700 text-xs">Very hard</span>{suffix}</span>;
                     })()}
                   </TableCell>
+                  <TableCell className={`text-center ${deleteMode && combo.status === 'pushed' ? 'opacity-50' : ''}`}>
+                    {(() => {
+                      const score = combo.generated_page?.score
+                      if (score === null || score === undefined) return <span className="text-muted-foreground">-</span>
+                      const failed = (combo.generated_page?.score_checks || []).filter(check => !check.passed).map(check => check.name)
+                      const colour = score >= 70 ? 'text-green-600' : score >= 50 ? 'text-orange-600' : 'text-red-600'
+                      return (
+                        <span
+                          className={`text-sm font-medium ${colour}`}
+                          title={failed.length > 0 ? `Needs work: ${failed.join(', ')}` : 'All checks passed'}
+                        >
+                          {score}
+                        </span>
+                      )
+                    })()}
+                  </TableCell>
+                  <TableCell className={`text-center ${deleteMode && combo.status === 'pushed' ? 'opacity-50' : ''}`}>
+                    {(() => {
+                      const uniqueness = uniquenessScore(combo.generated_page?.max_similarity)
+                      if (uniqueness === null) return <span className="text-muted-foreground">-</span>
+                      const similarPhrase = phrasesById[combo.generated_page?.most_similar_location_keyword_id || '']
+                      const title = similarPhrase
+                        ? `${100 - uniqueness}% similar to "${similarPhrase}"`
+                        : 'No similar pages in this project'
+                      if (isDuplicate(combo)) {
+                        return (
+                          <span title={`Near-duplicate: ${title}`} className="inline-flex items-center gap-1 text-amber-700 text-xs font-medium">
+                            <Copy className="h-3 w-3" />
+                            {uniqueness}%
+                          </span>
+                        )
+                      }
+                      return <span title={title} className="text-xs text-muted-foreground">{uniqueness}%</span>
+                    })()}
+                  </TableCell>
                   <TableCell className={deleteMode && combo.status === 'pushed' ? 'opacity-50' : ''}>
                     <Badge
                       variant={getStatusBadgeVariant(combo.status)}
@@ -1214,7 +1449,7 @@ export function CombinationsTable({
             {/* Toggle All Track Row */}
             {canUseRankTracking && filteredCombinations.length > 0 && (
               <TableRow className="bg-muted/30">
-                <TableCell colSpan={deleteMode || generateMode ? 8 : 7}></TableCell>
+                <TableCell colSpan={deleteMode || generateMode ? 10 : 9}></TableCell>
                 <TableCell className="text-center">
                   <Button
                     variant="outline"
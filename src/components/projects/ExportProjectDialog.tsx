@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Download, Loader2 } from 'lucide-react'
+import { exportProject, type ExportDataset, type ExportFormat } from '@/api/exports'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+
+interface ExportProjectDialogProps {
+  projectId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+const DATASETS: Record<ExportDataset, { label: string; description: string }> = {
+  combinations: {
+    label: 'Keyword combinations',
+    description: 'Status, search volume, difficulty, position, score and WordPress URL for every combination',
+  },
+  pages: {
+    label: 'Generated pages',
+    description: 'Title, meta title, meta description and content of every generated page',
+  },
+  rankings: {
+    label: 'Position history',
+    description: 'Every rank check for the tracked combinations',
+  },
+  heat_maps: {
+    label: 'Heat map scans',
+    description: 'Scan summaries with weak locations. XLSX exports add every grid point on a second sheet.',
+  },
+}
+
+const FORMATS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON',
+}
+
+// Days back from today; 0 exports everything
+const PERIODS: Record<string, string> = {
+  '30': 'Last 30 days',
+  '90': 'Last 90 days',
+  '365': 'Last 12 months',
+  '0': 'All time',
+}
+
+/**
+ * Download a project's combinations, pages, position history or heat map
+ * scans for client reports
+ */
+export function ExportProjectDialog({ projectId, open, onOpenChange }: ExportProjectDialogProps) {
+  const [dataset, setDataset] = useState<ExportDataset>('combinations')
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [contentFormat, setContentFormat] = useState<'html' | 'markdown'>('html')
+  const [period, setPeriod] = useState('30')
+  const [isExporting, setIsExporting] = useState(false)
+
+  const hasPeriod = dataset === 'rankings' || dataset === 'heat_maps'
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      const days = Number(period)
+      const { blob, filename } = await exportProject(projectId, {
+        dataset,
+        format,
+        contentFormat: dataset === 'pages' ? contentFormat : undefined,
+        since: hasPeriod && days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      })
+
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = filename
+      document.body.appendChild(a)
+      a.click()
+      document.body.removeChild(a)
+      window.URL.revokeObjectURL(url)
+
+      toast.success(`Exported ${DATASETS[dataset].label.toLowerCase()}`)
+      onOpenChange(false)
+    } catch (error) {
+      toast.error('Error exporting data', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Export Project Data</DialogTitle>
+          <DialogDescription>
+            Download this project's data as a spreadsheet or JSON file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-5 py-4">
+          <div className="space-y-2">
+            <Label>Data</Label>
+            <Select value={dataset} onValueChange={(value) => setDataset(value as ExportDataset)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATASETS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{DATASETS[dataset].description}</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FORMATS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {dataset === 'pages' && (
+            <div className="space-y-2">
+              <Label>Page content as</Label>
+              <Select value={contentFormat} onValueChange={(value) => setContentFormat(value as 'html' | 'markdown')}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="html">HTML</SelectItem>
+                  <SelectItem value="markdown">Markdown</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {hasPeriod && (
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PERIODS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            style={{ backgroundColor: 'var(--brand-dark)' }}
+            className="hover:opacity-90 text-white"
+          >
+            {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
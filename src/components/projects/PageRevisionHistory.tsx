@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { History, Loader2, RotateCcw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getPageRevisions,
+  restorePageRevision,
+  REVISION_SOURCE_LABELS,
+  type PageRevision,
+} from '@/api/page-revisions'
+import { publishGeneratedPageToWordPress } from '@/api/content-generator'
+import { diffLines, htmlToLines, htmlToTextLines, summariseDiff, type DiffLine } from '@/lib/text-diff'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface PageSnapshot {
+  title: string | null
+  meta_title: string | null
+  meta_description: string | null
+  content: string | null
+}
+
+interface PageRevisionHistoryProps {
+  projectId: string
+  locationKeywordId: string
+  current: PageSnapshot
+  canRepush: boolean
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+type DiffMode = 'text' | 'html'
+
+const COMPARE_CURRENT = 'current'
+const COMPARE_PREVIOUS = 'previous'
+
+const META_FIELDS: Array<{ key: keyof PageSnapshot; label: string }> = [
+  { key: 'title', label: 'Title' },
+  { key: 'meta_title', label: 'Meta Title' },
+  { key: 'meta_description', label: 'Meta Description' },
+]
+
+export function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) {
+    return <td colSpan={2} className="bg-muted/40" />
+  }
+
+  const removedOnly = line.parts.every(part => part.op === 'removed')
+  const addedOnly = line.parts.every(part => part.op === 'added')
+
+  return (
+    <>
+      <td className="w-8 pr-2 text-right align-top text-muted-foreground select-none">{line.number}</td>
+      <td
+        className={`align-top whitespace-pre-wrap break-words px-2 py-0.5 ${
+          removedOnly ? 'bg-red-50 dark:bg-red-950/40' : addedOnly ? 'bg-green-50 dark:bg-green-950/40' : ''
+        }`}
+      >
+        {line.parts.map((part, index) => (
+          <span
+            key={index}
+            className={
+              part.op === 'removed'
+                ? 'bg-red-200 dark:bg-red-900/70 line-through decoration-red-500/60'
+                : part.op === 'added'
+                  ? 'bg-green-200 dark:bg-green-900/70'
+                  : undefined
+            }
+          >
+            {part.value}
+          </span>
+        ))}
+      </td>
+    </>
+  )
+}
+
+/**
+ * Revision history for a generated page: side-by-side diff against the
+ * current version (or the previous revision) and one-click restore
+ */
+export function PageRevisionHistory({
+  projectId,
+  locationKeywordId,
+  current,
+  canRepush,
+  open,
+  onOpenChange,
+}: PageRevisionHistoryProps) {
+  const queryClient = useQueryClient()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [compareTo, setCompareTo] = useState<string>(COMPARE_CURRENT)
+  const [mode, setMode] = useState<DiffMode>('text')
+  const [repush, setRepush] = useState(canRepush)
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: ['pageRevisions', locationKeywordId],
+    queryFn: () => getPageRevisions(locationKeywordId),
+    enabled: open,
+  })
+
+  // Default to the newest revision that differs from what's live
+  useEffect(() => {
+    if (!open || revisions.length === 0) return
+    if (selectedId && revisions.some(r => r.id === selectedId)) return
+    setSelectedId((revisions[1] || revisions[0]).id)
+  }, [open, revisions, selectedId])
+
+  useEffect(() => {
+    setRepush(canRepush)
+  }, [canRepush])
+
+  const selected = revisions.find(r => r.id === selectedId) || null
+  const previous = selected ? revisions.find(r => r.revision_number < selected.revision_number) || null : null
+  // Diff reads old -> new: the older version is always on the left
+  const [older, newer]: [PageSnapshot | null, PageSnapshot | null] =
+    compareTo === COMPARE_PREVIOUS ? [previous, selected] : [selected, current]
+
+  const rows = useMemo(() => {
+    if (!older || !newer) return []
+    const toLines = mode === 'html' ? htmlToLines : htmlToTextLines
+    return diffLines(toLines(older.content || ''), toLines(newer.content || ''))
+  }, [older, newer, mode])
+
+  const summary = summariseDiff(rows)
+  const changedMeta = older && newer ? META_FIELDS.filter(field => (older[field.key] || '') !== (newer[field.key] || '')) : []
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revision: PageRevision) => {
+      await restorePageRevision(revision)
+      if (repush && canRepush) {
+        const result = await publishGeneratedPageToWordPress(locationKeywordId, projectId)
+        if (!result.success) {
+          throw new Error(`Restored, but re-publishing to WordPress failed: ${result.error}`)
+        }
+        return { pushed: true }
+      }
+      return { pushed: false }
+    },
+    onSuccess: ({ pushed }, revision) => {
+      toast.success(`Restored revision ${revision.revision_number}${pushed ? ' and updated WordPress' : ''}`)
+      onOpenChange(false)
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to restore revision', { description: error.message })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
+      queryClient.invalidateQueries({ queryKey: ['pageRevisions', locationKeywordId] })
+      queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+    },
+  })
+
+  const isCurrent = (revision: PageRevision) =>
+    revision.content === current.content &&
+    revision.title === current.title &&
+    revision.meta_title === current.meta_title &&
+    revision.meta_description === current.meta_description
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Revision History
+          </DialogTitle>
+          <DialogDescription>
+            Every regenerate, optimise, keyword enhance and manual edit is saved. Compare any revision and restore it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-12 text-center">No revisions recorded for this page yet</p>
+        ) : (
+          <div className="grid grid-cols-[220px_1fr] gap-4 min-h-0 flex-1">
+            {/* Revision list */}
+            <div className="overflow-y-auto border rounded-lg divide-y">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-3 space-y-1 hover:bg-muted/60 ${
+                    revision.id === selectedId ? 'bg-muted' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">Revision {revision.revision_number}</span>
+                    {isCurrent(revision) && <Badge variant="secondary" className="text-[10px]">Current</Badge>}
+                  </div>
+                  <Badge variant="outline" className="text-[10px]">
+                    {REVISION_SOURCE_LABELS[revision.source] || revision.source}
+                  </Badge>
+                  <p className="text-xs text-muted-foreground">{new Date(revision.created_at).toLocaleString()}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Diff */}
+            <div className="flex flex-col min-h-0 space-y-3">
+              <div className="flex items-center justify-between gap-3 flex-wrap">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Compare with</span>
+                  <Select value={compareTo} onValueChange={setCompareTo}>
+                    <SelectTrigger className="w-[180px] h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={COMPARE_CURRENT}>Current version</SelectItem>
+                      <SelectItem value={COMPARE_PREVIOUS} disabled={!previous}>Previous revision</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Tabs value={mode} onValueChange={(value) => setMode(value as DiffMode)}>
+                    <TabsList className="h-8">
+                      <TabsTrigger value="text" className="text-xs">Text</TabsTrigger>
+                      <TabsTrigger value="html" className="text-xs">HTML</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  <span className="text-green-600">+{summary.added}</span>{' '}
+                  <span className="text-red-600">−{summary.removed}</span>{' '}
+                  <span>~{summary.changed}</span> lines
+                </p>
+              </div>
+
+              {!older || !newer ? (
+                <p className="text-sm text-muted-foreground">This is the first revision - nothing to compare with.</p>
+              ) : (
+                <div className="overflow-y-auto border rounded-lg flex-1 min-h-0">
+                  {changedMeta.length > 0 && (
+                    <div className="border-b p-3 space-y-2">
+                      {changedMeta.map((field) => (
+                        <div key={field.key} className="grid grid-cols-[120px_1fr_1fr] gap-2 text-xs">
+                          <span className="font-medium text-muted-foreground">{field.label}</span>
+                          <span className="bg-red-50 dark:bg-red-950/40 px-2 py-1 rounded">{older?.[field.key] || '—'}</span>
+                          <span className="bg-green-50 dark:bg-green-950/40 px-2 py-1 rounded">{newer?.[field.key] || '—'}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <table className="w-full text-xs font-mono table-fixed">
+                    <colgroup>
+                      <col className="w-8" />
+                      <col />
+                      <col className="w-8" />
+                      <col />
+                    </colgroup>
+                    <thead className="sticky top-0 bg-background border-b">
+                      <tr>
+                        <th colSpan={2} className="text-left p-2 font-sans font-medium">
+                          {compareTo === COMPARE_PREVIOUS
+                            ? `Revision ${previous?.revision_number}`
+                            : `Revision ${selected?.revision_number}`}
+                        </th>
+                        <th colSpan={2} className="text-left p-2 font-sans font-medium">
+                          {compareTo === COMPARE_PREVIOUS ? `Revision ${selected?.revision_number}` : 'Current version'}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rows.map((row, index) => (
+                        <tr key={index} className="border-b border-border/40">
+                          <DiffCell line={row.left} />
+                          <DiffCell line={row.right} />
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {selected && (
+                <div className="flex items-center justify-end gap-4 pt-1">
+                  {canRepush && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="revision-repush"
+                        checked={repush}
+                        onCheckedChange={(checked) => setRepush(checked === true)}
+                      />
+                      <Label htmlFor="revision-repush" className="text-sm font-normal">
+                        Re-publish to WordPress
+                      </Label>
+                    </div>
+                  )}
+                  <Button
+                    onClick={() => restoreMutation.mutate(selected)}
+                    disabled={restoreMutation.isPending || isCurrent(selected)}
+                    size="sm"
+                  >
+                    {restoreMutation.isPending ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-3 w-3 mr-1" />
+                    )}
+                    Restore Revision {selected.revision_number}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, CheckCircle2, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { rebuildStructuredData, saveStructuredData } from '@/api/structured-data'
+import { validateStructuredData, type JsonLd } from '@/lib/structured-data'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+interface PageStructuredDataProps {
+  locationKeywordId: string
+  page: {
+    title: string
+    meta_description: string | null
+    schema_json: JsonLd | null
+  }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+function formatSchema(schema: JsonLd | null) {
+  return schema ? JSON.stringify(schema, null, 2) : ''
+}
+
+/**
+ * Edit, validate and rebuild the JSON-LD published in the page head
+ */
+export function PageStructuredData({ locationKeywordId, page, open, onOpenChange }: PageStructuredDataProps) {
+  const queryClient = useQueryClient()
+  const [text, setText] = useState(formatSchema(page.schema_json))
+  const [isSaving, setIsSaving] = useState(false)
+  const [isRebuilding, setIsRebuilding] = useState(false)
+
+  // Start from the stored JSON-LD each time the dialog opens
+  useEffect(() => {
+    if (open) setText(formatSchema(page.schema_json))
+  }, [open, page.schema_json])
+
+  const errors = useMemo(() => {
+    if (!text.trim()) return []
+    try {
+      return validateStructuredData(JSON.parse(text))
+    } catch (error) {
+      return [`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse'}`]
+    }
+  }, [text])
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await saveStructuredData(locationKeywordId, text.trim() ? JSON.parse(text) : null)
+      refresh()
+      toast.success('Structured data saved', { description: 'It will be published with the page on the next push' })
+    } catch (error) {
+      toast.error('Failed to save structured data', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRebuild = async () => {
+    setIsRebuilding(true)
+    try {
+      const schema = await rebuildStructuredData(locationKeywordId, page)
+      setText(formatSchema(schema))
+      refresh()
+      toast.success('Structured data rebuilt from the project, FAQs and testimonials')
+    } catch (error) {
+      toast.error('Failed to rebuild structured data', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsRebuilding(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Structured Data (JSON-LD)</DialogTitle>
+          <DialogDescription>
+            LocalBusiness, Service, FAQ and review markup printed in the page head by the WordPress plugin.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={20}
+          className="font-mono text-xs"
+          placeholder="No structured data yet. Rebuild to generate it."
+          spellCheck={false}
+        />
+
+        {text.trim() && (
+          errors.length === 0 ? (
+            <p className="flex items-center gap-1 text-sm text-green-600">
+              <CheckCircle2 className="h-4 w-4" />
+              Valid JSON-LD
+            </p>
+          ) : (
+            <ul className="space-y-1 text-sm text-red-600">
+              {errors.map((error, index) => (
+                <li key={index} className="flex items-start gap-1">
+                  <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {error}
+                </li>
+              ))}
+            </ul>
+          )
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={handleRebuild} disabled={isRebuilding || isSaving} className="gap-1">
+            {isRebuilding ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Rebuild
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || isRebuilding || errors.length > 0}>
+            {isSaving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
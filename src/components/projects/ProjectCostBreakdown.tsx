@@ -0,0 +1,247 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { InlineEdit } from '@/components/InlineEdit'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  formatUsd,
+  getLlmBudgetStatus,
+  getProjectLlmCosts,
+  groupLlmCosts,
+  updateAgencyLlmBudget,
+  type LlmCostDimension,
+  type LlmCostRow,
+} from '@/api/llm-costs'
+
+interface ProjectCostBreakdownProps {
+  projectId: string
+  onUpdate: (updates: { monthly_llm_budget_usd?: number | null }) => Promise<void>
+}
+
+type CostPeriod = 'month' | '30days' | 'all'
+
+const PERIOD_LABELS: Record<CostPeriod, string> = {
+  month: 'This month',
+  '30days': 'Last 30 days',
+  all: 'All time',
+}
+
+const DIMENSIONS: Array<{ value: LlmCostDimension; label: string }> = [
+  { value: 'service', label: 'By Service' },
+  { value: 'location', label: 'By Location' },
+  { value: 'page_type', label: 'By Page Type' },
+  { value: 'operation', label: 'By Operation' },
+]
+
+function periodStart(period: CostPeriod): string | null {
+  const now = new Date()
+  switch (period) {
+    case 'month':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString()
+    case '30days':
+      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString()
+    case 'all':
+      return null
+  }
+}
+
+function parseBudget(value: string) {
+  if (!value.trim()) return null
+  const parsed = parseFloat(value.replace(/[$,]/g, ''))
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error('Please enter an amount in USD')
+  }
+  return parsed
+}
+
+function BudgetMeter({ label, spend, budget }: { label: string; spend: number; budget: number | null }) {
+  const percent = budget ? Math.min(100, (spend / budget) * 100) : 0
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{label}</span>
+        <span className="font-medium">
+          {formatUsd(spend)}
+          {budget !== null ? ` of ${formatUsd(budget)}` : ' (no cap)'}
+        </span>
+      </div>
+      {budget !== null && <Progress value={percent} className="h-2" />}
+    </div>
+  )
+}
+
+function CostTable({ rows, dimension }: { rows: LlmCostRow[]; dimension: LlmCostDimension }) {
+  const groups = groupLlmCosts(rows, dimension)
+  const total = groups.reduce((sum, group) => sum + group.cost_usd, 0)
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{DIMENSIONS.find(d => d.value === dimension)?.label.replace('By ', '')}</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Prompt Tokens</TableHead>
+          <TableHead className="text-right">Completion Tokens</TableHead>
+          <TableHead className="text-right">Cost</TableHead>
+          <TableHead className="text-right">Share</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.map((group) => (
+          <TableRow key={group.key}>
+            <TableCell className="font-medium">{group.label}</TableCell>
+            <TableCell className="text-right">{group.calls.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{group.prompt_tokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{group.completion_tokens.toLocaleString()}</TableCell>
+            <TableCell className="text-right">{formatUsd(group.cost_usd)}</TableCell>
+            <TableCell className="text-right text-muted-foreground">
+              {total > 0 ? `${Math.round((group.cost_usd / total) * 100)}%` : '–'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
+
+/**
+ * AI spend for the project: monthly budgets and a cost breakdown by service,
+ * location, page type and operation (from the token usage in api_logs)
+ */
+export function ProjectCostBreakdown({ projectId, onUpdate }: ProjectCostBreakdownProps) {
+  const queryClient = useQueryClient()
+  const [period, setPeriod] = useState<CostPeriod>('month')
+
+  const { data: budget } = useQuery({
+    queryKey: ['llmBudgetStatus', projectId],
+    queryFn: () => getLlmBudgetStatus(projectId),
+  })
+
+  const { data: costs = [], isLoading } = useQuery({
+    queryKey: ['projectLlmCosts', projectId, period],
+    queryFn: () => getProjectLlmCosts(projectId, periodStart(period)),
+  })
+
+  const refreshBudget = () => queryClient.invalidateQueries({ queryKey: ['llmBudgetStatus', projectId] })
+
+  const handleProjectBudgetSave = async (value: string) => {
+    await onUpdate({ monthly_llm_budget_usd: parseBudget(value) })
+    refreshBudget()
+  }
+
+  const handleAgencyBudgetSave = async (value: string) => {
+    if (!budget?.agency_id) return
+    try {
+      await updateAgencyLlmBudget(budget.agency_id, parseBudget(value))
+      refreshBudget()
+      toast.success('Agency budget updated')
+    } catch (error) {
+      toast.error('Failed to update agency budget', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+      throw error
+    }
+  }
+
+  const totalCost = costs.reduce((sum, row) => sum + row.cost_usd, 0)
+  const totalCalls = costs.reduce((sum, row) => sum + row.calls, 0)
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">AI Costs & Budget</h3>
+        {budget?.paused && <Badge variant="destructive">Generation paused</Badge>}
+      </div>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3">
+        <p className="text-sm text-muted-foreground">
+          Every generation, JSON repair and optimisation call is recorded with its token usage and cost. When this
+          month's spend reaches the project or agency budget, queued pages wait until the budget is raised or the
+          month ends.
+        </p>
+      </div>
+
+      {budget?.paused && budget.paused_reason && (
+        <p className="text-sm text-red-600 dark:text-red-400">Paused: {budget.paused_reason}</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-1">Project Monthly Budget (USD)</p>
+            <InlineEdit
+              value={budget?.project_budget_usd !== null && budget?.project_budget_usd !== undefined ? String(budget.project_budget_usd) : ''}
+              onSave={handleProjectBudgetSave}
+              type="number"
+              placeholder="No cap"
+            />
+          </div>
+          {budget && (
+            <BudgetMeter label="Spent this month" spend={Number(budget.project_spend_usd)} budget={budget.project_budget_usd !== null ? Number(budget.project_budget_usd) : null} />
+          )}
+        </div>
+
+        {budget?.agency_id && (
+          <div className="space-y-3">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-1">Agency Monthly Budget (USD)</p>
+              <InlineEdit
+                value={budget.agency_budget_usd !== null ? String(budget.agency_budget_usd) : ''}
+                onSave={handleAgencyBudgetSave}
+                type="number"
+                placeholder="No cap"
+              />
+            </div>
+            <BudgetMeter label="Agency spent this month" spend={Number(budget.agency_spend_usd)} budget={budget.agency_budget_usd !== null ? Number(budget.agency_budget_usd) : null} />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <p className="text-sm">
+            <span className="font-semibold">{formatUsd(totalCost)}</span>
+            <span className="text-muted-foreground"> across {totalCalls.toLocaleString()} AI call{totalCalls !== 1 ? 's' : ''}</span>
+          </p>
+          <Select value={period} onValueChange={(value) => setPeriod(value as CostPeriod)}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_LABELS) as CostPeriod[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {PERIOD_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading costs...</p>
+        ) : costs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No AI usage recorded for this period</p>
+        ) : (
+          <Tabs defaultValue="service">
+            <TabsList>
+              {DIMENSIONS.map((dimension) => (
+                <TabsTrigger key={dimension.value} value={dimension.value}>
+                  {dimension.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {DIMENSIONS.map((dimension) => (
+              <TabsContent key={dimension.value} value={dimension.value}>
+                <CostTable rows={costs} dimension={dimension.value} />
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { InlineEdit } from '@/components/InlineEdit'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { rescheduleDripPublishing } from '@/api/drip-publishing'
+import { DEFAULT_DRIP_SETTINGS, DRIP_TIME_ZONES } from '@/lib/drip-schedule'
+
+interface ProjectDripSettingsProps {
+  projectId: string
+  enabled: boolean
+  pagesPerDay: number | null
+  windowStart: number | null
+  windowEnd: number | null
+  timeZone: string | null
+  onUpdate: (updates: {
+    drip_enabled?: boolean
+    drip_pages_per_day?: number
+    drip_window_start?: number
+    drip_window_end?: number
+    drip_timezone?: string
+  }) => Promise<void>
+}
+
+const MAX_PAGES_PER_DAY = 500
+
+function hourLabel(hour: number) {
+  return `${String(hour).padStart(2, '0')}:00`
+}
+
+/**
+ * Whether Push All publishes pages now or spreads them over the coming days,
+ * and how many go out each day within which hours
+ */
+export function ProjectDripSettings({
+  projectId,
+  enabled,
+  pagesPerDay,
+  windowStart,
+  windowEnd,
+  timeZone,
+  onUpdate,
+}: ProjectDripSettingsProps) {
+  const queryClient = useQueryClient()
+  const start = windowStart ?? DEFAULT_DRIP_SETTINGS.windowStart
+  const end = windowEnd ?? DEFAULT_DRIP_SETTINGS.windowEnd
+  const zone = timeZone || DEFAULT_DRIP_SETTINGS.timeZone
+
+  // Pages already waiting move to the new times
+  const updateTiming = async (updates: Parameters<typeof onUpdate>[0]) => {
+    await onUpdate(updates)
+    try {
+      const result = await rescheduleDripPublishing(projectId)
+      if (result.scheduled > 0) {
+        toast.success(`Rescheduled ${result.scheduled} waiting page${result.scheduled !== 1 ? 's' : ''}`)
+      }
+      queryClient.invalidateQueries({ queryKey: ['publishingSchedule', projectId] })
+    } catch (error) {
+      toast.error('Error rescheduling pages', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  const handlePagesPerDaySave = async (value: string) => {
+    const parsed = parseInt(value, 10)
+    if (!Number.isFinite(parsed) || parsed < 1 || parsed > MAX_PAGES_PER_DAY) {
+      throw new Error(`Please enter a whole number between 1 and ${MAX_PAGES_PER_DAY}`)
+    }
+    await updateTiming({ drip_pages_per_day: parsed })
+  }
+
+  // Keep the window at least an hour long
+  const handleStartChange = (value: string) => {
+    const hour = Number(value)
+    updateTiming(hour >= end ? { drip_window_start: hour, drip_window_end: hour + 1 } : { drip_window_start: hour })
+  }
+
+  const handleEndChange = (value: string) => {
+    const hour = Number(value)
+    updateTiming(hour <= start ? { drip_window_start: hour - 1, drip_window_end: hour } : { drip_window_end: hour })
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Drip Publishing</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          Publishing hundreds of pages at once can look spammy to search engines. With drip publishing on, Push to
+          WordPress schedules pages instead: towns before suburbs, highest search volume first, spread evenly through
+          the publishing window each day. Pages still go out with the WordPress status set above.
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label htmlFor="drip-enabled" className="text-sm font-medium text-muted-foreground">
+            Drip Publishing
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {enabled
+              ? 'Push to WordPress schedules pages'
+              : 'Push to WordPress publishes pages straight away. Pages already scheduled keep their times.'}
+          </p>
+        </div>
+        <Switch
+          id="drip-enabled"
+          checked={enabled}
+          onCheckedChange={(checked) => onUpdate({ drip_enabled: checked })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Pages per Day</p>
+          <InlineEdit
+            value={String(pagesPerDay ?? DEFAULT_DRIP_SETTINGS.pagesPerDay)}
+            onSave={handlePagesPerDaySave}
+            type="number"
+            placeholder={String(DEFAULT_DRIP_SETTINGS.pagesPerDay)}
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Time Zone</p>
+          <Select value={zone} onValueChange={(value) => updateTiming({ drip_timezone: value })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!(zone in DRIP_TIME_ZONES) && <SelectItem value={zone}>{zone}</SelectItem>}
+              {Object.entries(DRIP_TIME_ZONES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Window Starts</p>
+          <Select value={String(start)} onValueChange={handleStartChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 24 }, (_, hour) => (
+                <SelectItem key={hour} value={String(hour)}>{hourLabel(hour)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Window Ends</p>
+          <Select value={String(end)} onValueChange={handleEndChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 24 }, (_, i) => i + 1).map((hour) => (
+                <SelectItem key={hour} value={String(hour)}>{hourLabel(hour)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  )
+}
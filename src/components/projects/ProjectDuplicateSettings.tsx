@@ -0,0 +1,72 @@
+import { InlineEdit } from '@/components/InlineEdit'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { DEFAULT_DUPLICATE_THRESHOLD } from '@/api/duplicate-content'
+
+interface ProjectDuplicateSettingsProps {
+  threshold: number | null
+  autoRegenerate: boolean
+  onUpdate: (updates: {
+    duplicate_similarity_threshold?: number
+    auto_regenerate_duplicates?: boolean
+  }) => Promise<void>
+}
+
+/**
+ * When two of the project's pages count as near-duplicates, and whether the
+ * queue worker regenerates a new page that comes out as one
+ */
+export function ProjectDuplicateSettings({ threshold, autoRegenerate, onUpdate }: ProjectDuplicateSettingsProps) {
+  const percent = Math.round((threshold ?? DEFAULT_DUPLICATE_THRESHOLD) * 100)
+
+  const handleThresholdSave = async (value: string) => {
+    const parsed = parseFloat(value.replace('%', ''))
+    if (!Number.isFinite(parsed) || parsed < 1 || parsed > 100) {
+      throw new Error('Please enter a percentage between 1 and 100')
+    }
+    await onUpdate({ duplicate_similarity_threshold: Math.round(parsed) / 100 })
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Duplicate Content</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          Each generated page is compared with the rest of the project, ignoring its own town and keyword. Pages at or
+          above the similarity threshold are flagged in the combinations table.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Similarity Threshold (%)</p>
+          <InlineEdit
+            value={String(percent)}
+            onSave={handleThresholdSave}
+            type="number"
+            placeholder={String(DEFAULT_DUPLICATE_THRESHOLD * 100)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Rescan from the combinations table after changing this to re-flag existing pages
+          </p>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label htmlFor="auto-regenerate-duplicates" className="text-sm font-medium text-muted-foreground">
+              Auto-regenerate Duplicates
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Queue a newly generated near-duplicate again (up to 2 times per page)
+            </p>
+          </div>
+          <Switch
+            id="auto-regenerate-duplicates"
+            checked={autoRegenerate}
+            onCheckedChange={(checked) => onUpdate({ auto_regenerate_duplicates: checked })}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+import { useRef } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { ImagePlus, Loader2, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  IMAGE_PROVIDER_OPTIONS,
+  MAX_CONTENT_IMAGES,
+  MEDIA_TYPES,
+  deleteProjectMedia,
+  getMediaTagOptions,
+  getProjectMedia,
+  tagProjectMedia,
+  uploadProjectMedia,
+  type ImageProviderName,
+  type ProjectMedia,
+} from '@/api/media-library'
+
+interface ProjectImageSettingsProps {
+  projectId: string
+  provider: ImageProviderName | null
+  contentImagesPerPage: number | null
+  onUpdate: (updates: {
+    image_provider?: ImageProviderName | null
+    content_images_per_page?: number
+  }) => Promise<void>
+}
+
+const NONE_VALUE = 'none'
+const ANY_VALUE = 'any'
+
+/**
+ * Where generated pages get their featured and in-content images, and the
+ * project's media library
+ */
+export function ProjectImageSettings({ projectId, provider, contentImagesPerPage, onUpdate }: ProjectImageSettingsProps) {
+  const queryClient = useQueryClient()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const selectedOption = IMAGE_PROVIDER_OPTIONS.find(o => o.value === provider)
+
+  const { data: media = [], isLoading } = useQuery({
+    queryKey: ['projectMedia', projectId],
+    queryFn: () => getProjectMedia(projectId),
+  })
+
+  const { data: tagOptions } = useQuery({
+    queryKey: ['mediaTagOptions', projectId],
+    queryFn: () => getMediaTagOptions(projectId),
+  })
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const failed: string[] = []
+      for (const file of files) {
+        try {
+          await uploadProjectMedia(projectId, file)
+        } catch (error) {
+          failed.push(error instanceof Error ? error.message : file.name)
+        }
+      }
+      return { uploaded: files.length - failed.length, failed }
+    },
+    onSuccess: ({ uploaded, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['projectMedia', projectId] })
+      if (uploaded > 0) {
+        toast.success(`Uploaded ${uploaded} image${uploaded !== 1 ? 's' : ''}`)
+      }
+      if (failed.length > 0) {
+        toast.error(`${failed.length} image${failed.length !== 1 ? 's' : ''} not uploaded`, {
+          description: failed.join('\n'),
+        })
+      }
+    },
+  })
+
+  const tagMutation = useMutation({
+    mutationFn: ({ mediaId, tags }: { mediaId: string; tags: Parameters<typeof tagProjectMedia>[1] }) =>
+      tagProjectMedia(mediaId, tags),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectMedia', projectId] })
+    },
+    onError: (error: Error) => {
+      toast.error('Error tagging image', { description: error.message })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: (item: ProjectMedia) => deleteProjectMedia(item),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['projectMedia', projectId] })
+      toast.success('Image deleted')
+    },
+    onError: (error: Error) => {
+      toast.error('Error deleting image', { description: error.message })
+    },
+  })
+
+  const handleFiles = (files: FileList | null) => {
+    if (files && files.length > 0) {
+      uploadMutation.mutate(Array.from(files))
+    }
+    if (fileInput.current) fileInput.current.value = ''
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Page Images</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          Give each generated page a featured image, and optionally images between its sections. Alt text always names
+          the service and location. Images are added when a page is generated and uploaded to WordPress when it's
+          published.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Image source</p>
+          <Select
+            value={provider || NONE_VALUE}
+            onValueChange={(value) => onUpdate({ image_provider: value === NONE_VALUE ? null : (value as ImageProviderName) })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="No images" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE_VALUE}>No images</SelectItem>
+              {IMAGE_PROVIDER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedOption && (
+            <p className="text-xs text-muted-foreground mt-1">{selectedOption.description}</p>
+          )}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">In-content images per page</p>
+          <Select
+            value={String(contentImagesPerPage ?? 0)}
+            onValueChange={(value) => onUpdate({ content_images_per_page: Number(value) })}
+            disabled={!provider}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_CONTENT_IMAGES + 1 }, (_, count) => (
+                <SelectItem key={count} value={String(count)}>
+                  {count === 0 ? 'Featured image only' : `${count} besides the featured image`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <p className="text-sm font-medium">Media library</p>
+            <p className="text-xs text-muted-foreground">
+              Tag images with a service or location to use them on matching pages only. Untagged images are used anywhere.
+            </p>
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={MEDIA_TYPES.join(',')}
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ImagePlus className="h-4 w-4 mr-2" />
+            )}
+            Upload Images
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading images...</p>
+        ) : media.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No images uploaded yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {media.map((item) => (
+              <div key={item.id} className="border rounded-md overflow-hidden">
+                <img src={item.url} alt={item.filename || ''} className="w-full h-32 object-cover" loading="lazy" />
+                <div className="p-2 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs truncate" title={item.filename || ''}>
+                      {item.filename || 'Untitled'}
+                      {item.source === 'openai' && <span className="text-muted-foreground"> (generated)</span>}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => deleteMutation.mutate(item)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                  <Select
+                    value={item.service_id || ANY_VALUE}
+                    onValueChange={(value) =>
+                      tagMutation.mutate({ mediaId: item.id, tags: { service_id: value === ANY_VALUE ? null : value } })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any service</SelectItem>
+                      {tagOptions?.services.map((service) => (
+                        <SelectItem key={service.id} value={service.id}>
+                          {service.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={item.location_id || ANY_VALUE}
+                    onValueChange={(value) =>
+                      tagMutation.mutate({ mediaId: item.id, tags: { location_id: value === ANY_VALUE ? null : value } })
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_VALUE}>Any location</SelectItem>
+                      {tagOptions?.locations.map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
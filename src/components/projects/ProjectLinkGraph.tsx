@@ -0,0 +1,194 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import { getLinkGraph } from '@/api/link-graph'
+import type { BrokenLink, LinkGraphNode } from '@/lib/link-graph'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+interface ProjectLinkGraphProps {
+  projectId: string
+}
+
+const BROKEN_REASON_LABELS: Record<BrokenLink['reason'], string> = {
+  placeholder: 'Placeholder or empty link',
+  unknown_page: 'No matching page',
+}
+
+function Stat({ label, value, tone }: { label: string; value: number; tone?: 'bad' }) {
+  return (
+    <div className="rounded-md border p-3">
+      <div className={`text-2xl font-semibold ${tone === 'bad' && value > 0 ? 'text-red-600' : ''}`}>{value}</div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+    </div>
+  )
+}
+
+/**
+ * Internal links between the project's town and suburb pages, with orphan
+ * pages and broken links called out
+ */
+export function ProjectLinkGraph({ projectId }: ProjectLinkGraphProps) {
+  const queryClient = useQueryClient()
+  const [isRewriting, setIsRewriting] = useState(false)
+
+  const { data: graph, isLoading, error } = useQuery({
+    queryKey: ['linkGraph', projectId],
+    queryFn: () => getLinkGraph(projectId),
+  })
+
+  // Towns first, each followed by its suburbs
+  const rows = useMemo(() => {
+    if (!graph) return []
+    const byName = (a: LinkGraphNode, b: LinkGraphNode) => a.phrase.localeCompare(b.phrase)
+    const towns = graph.nodes.filter((node) => node.pageType === 'town').sort(byName)
+    const ordered: LinkGraphNode[] = []
+    for (const town of towns) {
+      ordered.push(town, ...graph.nodes.filter((node) => node.parentId === town.id).sort(byName))
+    }
+    const placed = new Set(ordered.map((node) => node.id))
+    return [...ordered, ...graph.nodes.filter((node) => !placed.has(node.id)).sort(byName)]
+  }, [graph])
+
+  const orphans = useMemo(() => new Set(graph?.orphans || []), [graph])
+  const phraseById = useMemo(() => new Map((graph?.nodes || []).map((node) => [node.id, node.phrase])), [graph])
+
+  const handleRewrite = async () => {
+    setIsRewriting(true)
+    try {
+      const result = await getLinkGraph(projectId, true)
+      queryClient.setQueryData(['linkGraph', projectId], result)
+      toast.success(`Internal links rewritten on ${result.pagesRewritten} page${result.pagesRewritten !== 1 ? 's' : ''}`, {
+        description: result.pagesQueued > 0
+          ? `${result.pagesQueued} page${result.pagesQueued !== 1 ? 's' : ''} already in WordPress queued for a push`
+          : undefined,
+      })
+    } catch (error) {
+      toast.error('Failed to rewrite internal links', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsRewriting(false)
+    }
+  }
+
+  const missingLinks = graph?.nodes.reduce((sum, node) => sum + node.missingMeshLinks, 0) || 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Internal Links</CardTitle>
+            <CardDescription>
+              Town pages link to their suburbs, and suburbs link to their parent town and nearby suburbs once those pages are published
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleRewrite} disabled={isRewriting || isLoading} className="gap-1">
+            {isRewriting ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Rewrite Links
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>Loading link graph...</p>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load the link graph'}
+          </p>
+        ) : graph && (
+          <>
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+              <Stat label="Pages" value={graph.nodes.filter((node) => node.hasPage).length} />
+              <Stat label="Links between pages" value={graph.edges.length} />
+              <Stat label="Orphan pages" value={graph.orphans.length} tone="bad" />
+              <Stat label="Broken links" value={graph.broken.length} tone="bad" />
+              <Stat label="Links to add" value={missingLinks} tone="bad" />
+            </div>
+
+            <div>
+              <h3 className="mb-2 text-sm font-medium">Link Graph</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Page</TableHead>
+                    <TableHead>Published</TableHead>
+                    <TableHead className="text-right">Linked from</TableHead>
+                    <TableHead className="text-right">Links to</TableHead>
+                    <TableHead className="text-right">Links to add</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((node) => (
+                    <TableRow key={node.id} className={node.hasPage ? '' : 'text-muted-foreground'}>
+                      <TableCell className={node.pageType === 'suburb' ? 'pl-8' : 'font-medium'}>
+                        {node.hasPage ? (
+                          <Link to={`/projects/${projectId}/content/${node.id}`} className="hover:underline">
+                            {node.phrase}
+                          </Link>
+                        ) : (
+                          <span>{node.phrase}</span>
+                        )}
+                        {orphans.has(node.id) && (
+                          <Badge variant="destructive" className="ml-2">Orphan</Badge>
+                        )}
+                        {!node.hasPage && <span className="ml-2 text-xs">(not generated)</span>}
+                      </TableCell>
+                      <TableCell>{node.url ? 'Yes' : 'No'}</TableCell>
+                      <TableCell className="text-right">{node.inbound}</TableCell>
+                      <TableCell className="text-right">{node.outbound}</TableCell>
+                      <TableCell className={`text-right ${node.missingMeshLinks > 0 ? 'text-orange-600' : ''}`}>
+                        {node.missingMeshLinks}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div>
+              <h3 className="mb-2 text-sm font-medium">Broken Links</h3>
+              {graph.broken.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No broken links found.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>On page</TableHead>
+                      <TableHead>Link</TableHead>
+                      <TableHead>Anchor text</TableHead>
+                      <TableHead>Problem</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {graph.broken.map((link, index) => (
+                      <TableRow key={`${link.sourceId}-${index}`}>
+                        <TableCell>
+                          <Link to={`/projects/${projectId}/content/${link.sourceId}`} className="hover:underline">
+                            {phraseById.get(link.sourceId) || link.sourceId}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate font-mono text-xs" title={link.href}>
+                          {link.href || '(empty)'}
+                        </TableCell>
+                        <TableCell>{link.anchor}</TableCell>
+                        <TableCell className="text-red-600">{BROKEN_REASON_LABELS[link.reason]}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
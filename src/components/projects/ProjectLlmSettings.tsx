@@ -0,0 +1,104 @@
+import { InlineEdit } from '@/components/InlineEdit'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LLM_PROVIDER_OPTIONS, type LlmProviderName } from '@/api/projects'
+
+interface ProjectLlmSettingsProps {
+  provider: LlmProviderName | null
+  model: string | null
+  temperature: number | null
+  maxTokens: number | null
+  onUpdate: (updates: {
+    llm_provider?: LlmProviderName | null
+    llm_model?: string | null
+    llm_temperature?: number | null
+    llm_max_tokens?: number | null
+  }) => Promise<void>
+}
+
+const INHERIT_VALUE = 'inherit'
+
+/**
+ * Per-project AI model settings used by the content queue worker.
+ * Blank values inherit from the plan, then from the built-in default.
+ */
+export function ProjectLlmSettings({ provider, model, temperature, maxTokens, onUpdate }: ProjectLlmSettingsProps) {
+  const selectedOption = LLM_PROVIDER_OPTIONS.find(o => o.value === provider)
+
+  const parseNumber = (value: string, parser: (v: string) => number) => {
+    if (!value.trim()) return null
+    const parsed = parser(value)
+    if (!Number.isFinite(parsed)) {
+      throw new Error('Please enter a number')
+    }
+    return parsed
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">AI Content Settings</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          Choose which AI provider and model write this project's pages. Leave fields blank to use your plan's default.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Provider</p>
+          <Select
+            value={provider || INHERIT_VALUE}
+            onValueChange={(value) =>
+              onUpdate({
+                llm_provider: value === INHERIT_VALUE ? null : (value as LlmProviderName),
+                // A model name only makes sense for the provider it was chosen for
+                llm_model: null,
+              })
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Plan default" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={INHERIT_VALUE}>Plan default</SelectItem>
+              {LLM_PROVIDER_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Model</p>
+          <InlineEdit
+            value={model || ''}
+            onSave={(value) => onUpdate({ llm_model: value.trim() || null })}
+            placeholder={selectedOption ? selectedOption.defaultModel : 'Plan default'}
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Temperature</p>
+          <InlineEdit
+            value={temperature !== null && temperature !== undefined ? String(temperature) : ''}
+            onSave={(value) => onUpdate({ llm_temperature: parseNumber(value, parseFloat) })}
+            type="number"
+            placeholder="Provider default"
+          />
+          <p className="text-xs text-muted-foreground mt-1">0 – 2. Lower values give more consistent wording.</p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Max Tokens</p>
+          <InlineEdit
+            value={maxTokens !== null && maxTokens !== undefined ? String(maxTokens) : ''}
+            onSave={(value) => onUpdate({ llm_max_tokens: parseNumber(value, (v) => parseInt(v, 10)) })}
+            type="number"
+            placeholder="Provider default"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
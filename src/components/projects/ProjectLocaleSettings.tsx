@@ -0,0 +1,122 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  LOCALE_COUNTRIES,
+  LOCALE_CURRENCIES,
+  LOCALE_LANGUAGES,
+  SPELLING_VARIANTS,
+  resolveLocale,
+} from '@/lib/locale'
+
+interface ProjectLocaleSettingsProps {
+  country: string | null
+  language: string | null
+  spelling: string | null
+  currency: string | null
+  onUpdate: (updates: {
+    locale_country?: string
+    locale_language?: string
+    locale_spelling?: string
+    locale_currency?: string
+  }) => Promise<void>
+}
+
+/**
+ * Country, language, spelling and currency the project's pages are written
+ * for. The country also sets the DataForSEO market and where town searches look.
+ */
+export function ProjectLocaleSettings({ country, language, spelling, currency, onUpdate }: ProjectLocaleSettingsProps) {
+  const locale = resolveLocale({
+    locale_country: country,
+    locale_language: language,
+    locale_spelling: spelling,
+    locale_currency: currency,
+  })
+
+  // A new country brings its own language, spelling and currency, which can then be changed
+  const handleCountryChange = (value: string) => {
+    const defaults = LOCALE_COUNTRIES[value].defaults
+    onUpdate({
+      locale_country: value,
+      locale_language: defaults.language,
+      locale_spelling: defaults.spelling,
+      locale_currency: defaults.currency,
+    })
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Locale</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          New pages are written in this language and spelling, with prices in this currency. Keyword research, search
+          volumes and rank checks use this country's Google market, and town searches look in this country.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Country</p>
+          <Select value={locale.country} onValueChange={handleCountryChange}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LOCALE_COUNTRIES).map(([code, option]) => (
+                <SelectItem key={code} value={code}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Language</p>
+          <Select value={locale.language} onValueChange={(value) => onUpdate({ locale_language: value })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LOCALE_LANGUAGES).map(([code, name]) => (
+                <SelectItem key={code} value={code}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Spelling</p>
+          <Select
+            value={locale.spelling}
+            onValueChange={(value) => onUpdate({ locale_spelling: value })}
+            disabled={locale.language !== 'en'}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(SPELLING_VARIANTS).map(([code, option]) => (
+                <SelectItem key={code} value={code}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground mt-1">
+            {locale.language === 'en' ? `e.g. ${SPELLING_VARIANTS[locale.spelling].example}` : 'Only used for English pages'}
+          </p>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Currency</p>
+          <Select value={locale.currency} onValueChange={(value) => onUpdate({ locale_currency: value })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(LOCALE_CURRENCIES).map(([code, option]) => (
+                <SelectItem key={code} value={code}>{option.symbol} {option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,404 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertTriangle, CheckCircle2, Loader2, RotateCcw, Upload, XCircle } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getMetaEditorRows,
+  saveAndPushMeta,
+  SEO_PLUGIN_LABELS,
+  type MetaChange,
+  type MetaEditorRow,
+  type MetaPushResult,
+} from '@/api/meta-editor'
+import {
+  measureMeta,
+  META_FIELD_LABELS,
+  META_LIMITS,
+  META_PATTERN_VARIABLES,
+  renderMetaPattern,
+  replaceText,
+  type MetaField,
+} from '@/lib/serp-meta'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
+
+interface ProjectMetaEditorProps {
+  projectId: string
+}
+
+type FieldScope = MetaField | 'both'
+
+type MetaValues = Pick<MetaChange, 'metaTitle' | 'metaDescription'>
+
+const FIELD_KEYS: Record<MetaField, keyof MetaValues> = {
+  meta_title: 'metaTitle',
+  meta_description: 'metaDescription',
+}
+
+function scopeFields(scope: FieldScope): MetaField[] {
+  return scope === 'both' ? ['meta_title', 'meta_description'] : [scope]
+}
+
+function LengthHint({ field, value }: { field: MetaField; value: string }) {
+  const measure = measureMeta(field, value)
+  const limits = META_LIMITS[field]
+  const tone = measure.warnings.length === 0
+    ? 'text-muted-foreground'
+    : measure.pixels > limits.maxPixels || !measure.chars ? 'text-red-600' : 'text-orange-600'
+
+  return (
+    <div className={`mt-1 flex items-center gap-1 text-xs ${tone}`} title={measure.warnings.join(', ')}>
+      {measure.warnings.length > 0 && <AlertTriangle className="h-3 w-3 shrink-0" />}
+      <span>
+        {measure.chars}/{limits.maxChars} chars · {measure.pixels}/{limits.maxPixels}px
+      </span>
+      {measure.warnings.length > 0 && <span className="truncate">· {measure.warnings[0]}</span>}
+    </div>
+  )
+}
+
+function PushResult({ result, values }: { result: MetaPushResult | undefined; values: MetaValues }) {
+  if (!result) return null
+  if (result.error) {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs text-red-600" title={result.error}>
+        <XCircle className="h-3 w-3 shrink-0" />
+        <span className="truncate">{result.saved ? 'Saved, not pushed' : 'Failed'}: {result.error}</span>
+      </span>
+    )
+  }
+  if (!result.pushed) {
+    return <span className="text-xs text-muted-foreground">Saved (not in WordPress)</span>
+  }
+  // WordPress strips tags and extra whitespace, so what it holds can differ
+  const differs = (result.meta_title !== null && result.meta_title !== values.metaTitle) ||
+    (result.meta_description !== null && result.meta_description !== values.metaDescription)
+  return (
+    <div className="space-y-1">
+      <span className="inline-flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle2 className="h-3 w-3 shrink-0" />
+        {result.seo_plugin ? SEO_PLUGIN_LABELS[result.seo_plugin] : 'Pushed'}
+      </span>
+      {differs && (
+        <p
+          className="text-xs text-orange-600"
+          title={`${result.meta_title ?? ''}\n${result.meta_description ?? ''}`}
+        >
+          WordPress holds a different version
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Spreadsheet-style editor for the meta titles and descriptions of every page
+ * in a project, with find/replace, patterns and a batch push to WordPress
+ */
+export function ProjectMetaEditor({ projectId }: ProjectMetaEditorProps) {
+  const queryClient = useQueryClient()
+  const [edits, setEdits] = useState<Record<string, MetaValues>>({})
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<Record<string, MetaPushResult>>({})
+  const [isPushing, setIsPushing] = useState(false)
+
+  const [findText, setFindText] = useState('')
+  const [replaceWith, setReplaceWith] = useState('')
+  const [replaceScope, setReplaceScope] = useState<FieldScope>('both')
+  const [pattern, setPattern] = useState('{service} in {location} | {business}')
+  const [patternField, setPatternField] = useState<MetaField>('meta_title')
+
+  const { data: rows = [], isLoading, error } = useQuery({
+    queryKey: ['metaEditor', projectId],
+    queryFn: () => getMetaEditorRows(projectId),
+  })
+
+  const valuesOf = (row: MetaEditorRow): MetaValues =>
+    edits[row.locationKeywordId] || { metaTitle: row.metaTitle, metaDescription: row.metaDescription }
+
+  const visibleRows = useMemo(() => {
+    const query = search.trim().toLowerCase()
+    if (!query) return rows
+    return rows.filter((row) => {
+      const values = edits[row.locationKeywordId]
+      return [row.phrase, values?.metaTitle ?? row.metaTitle, values?.metaDescription ?? row.metaDescription]
+        .some((text) => text.toLowerCase().includes(query))
+    })
+  }, [rows, edits, search])
+
+  const changes = useMemo(() => rows
+    .filter((row) => {
+      const values = edits[row.locationKeywordId]
+      return values && (values.metaTitle !== row.metaTitle || values.metaDescription !== row.metaDescription)
+    })
+    .map((row) => ({ locationKeywordId: row.locationKeywordId, ...edits[row.locationKeywordId] })), [rows, edits])
+
+  const warningCount = useMemo(() => rows.reduce((count, row) => {
+    const values = edits[row.locationKeywordId] || row
+    return count +
+      (measureMeta('meta_title', values.metaTitle).warnings.length > 0 ? 1 : 0) +
+      (measureMeta('meta_description', values.metaDescription).warnings.length > 0 ? 1 : 0)
+  }, 0), [rows, edits])
+
+  // Bulk tools work on the ticked rows, or every row shown when none are ticked
+  const targetRows = selected.size > 0 ? visibleRows.filter((row) => selected.has(row.locationKeywordId)) : visibleRows
+
+  const updateRows = (targets: MetaEditorRow[], update: (row: MetaEditorRow, values: MetaValues) => MetaValues) => {
+    const next = { ...edits }
+    for (const row of targets) {
+      next[row.locationKeywordId] = update(row, valuesOf(row))
+    }
+    setEdits(next)
+  }
+
+  const setField = (row: MetaEditorRow, field: MetaField, value: string) => {
+    updateRows([row], (_, values) => ({ ...values, [FIELD_KEYS[field]]: value }))
+  }
+
+  const handleReplace = () => {
+    if (!findText) return
+    const fields = scopeFields(replaceScope)
+    let replaced = 0
+    updateRows(targetRows, (_, values) => {
+      const next = { ...values }
+      for (const field of fields) {
+        const key = FIELD_KEYS[field]
+        const updated = replaceText(values[key], findText, replaceWith)
+        if (updated !== values[key]) replaced++
+        next[key] = updated
+      }
+      return next
+    })
+    toast.success(`Replaced in ${replaced} field${replaced !== 1 ? 's' : ''}`)
+  }
+
+  const handlePattern = () => {
+    if (!pattern.trim()) return
+    const key = FIELD_KEYS[patternField]
+    updateRows(targetRows, (row, values) => ({ ...values, [key]: renderMetaPattern(pattern, row.values) }))
+    toast.success(`${META_FIELD_LABELS[patternField]} set on ${targetRows.length} page${targetRows.length !== 1 ? 's' : ''}`)
+  }
+
+  const handleReset = () => {
+    setEdits({})
+    setResults({})
+  }
+
+  const handlePush = async () => {
+    if (changes.length === 0) return
+    setIsPushing(true)
+    try {
+      const result = await saveAndPushMeta(projectId, changes)
+      setResults(Object.fromEntries(result.results.map((item) => [item.location_keyword_id, item])))
+
+      const message = `${result.saved} page${result.saved !== 1 ? 's' : ''} saved, ${result.pushed} pushed to WordPress`
+      const description = result.seoPlugin ? `Meta written for ${SEO_PLUGIN_LABELS[result.seoPlugin]}` : undefined
+      if (result.failed > 0) {
+        toast.warning(message, { description: `${result.failed} failed, see the Result column` })
+      } else {
+        toast.success(message, { description })
+      }
+
+      // Keep the failed rows' edits so they can be pushed again
+      const failed = new Set(result.results.filter((item) => !item.saved).map((item) => item.location_keyword_id))
+      setEdits((current) => Object.fromEntries(Object.entries(current).filter(([id]) => failed.has(id))))
+      await queryClient.invalidateQueries({ queryKey: ['metaEditor', projectId] })
+    } catch (error) {
+      toast.error('Failed to update page meta', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsPushing(false)
+    }
+  }
+
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every((row) => selected.has(row.locationKeywordId))
+
+  const toggleAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visibleRows.map((row) => row.locationKeywordId)))
+  }
+
+  const toggleRow = (id: string) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Meta Tags</CardTitle>
+            <CardDescription>
+              Edit meta titles and descriptions across every page. Changes to pages already in WordPress are pushed to
+              Yoast SEO, Rank Math, or the GeoScale plugin when neither is installed.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReset} disabled={isPushing || changes.length === 0} className="gap-1">
+              <RotateCcw className="h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              onClick={handlePush}
+              disabled={isPushing || changes.length === 0}
+              style={{ backgroundColor: 'var(--brand-dark)' }}
+              className="hover:opacity-90 text-white gap-1"
+            >
+              {isPushing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              Save &amp; Push {changes.length > 0 && `(${changes.length})`}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 rounded-md border p-3">
+            <h3 className="text-sm font-medium">Find and replace</h3>
+            <div className="flex gap-2">
+              <Input placeholder="Find" value={findText} onChange={(e) => setFindText(e.target.value)} />
+              <Input placeholder="Replace with" value={replaceWith} onChange={(e) => setReplaceWith(e.target.value)} />
+            </div>
+            <div className="flex gap-2">
+              <Select value={replaceScope} onValueChange={(value) => setReplaceScope(value as FieldScope)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">Titles and descriptions</SelectItem>
+                  <SelectItem value="meta_title">Titles</SelectItem>
+                  <SelectItem value="meta_description">Descriptions</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleReplace} disabled={!findText || targetRows.length === 0}>
+                Replace in {selected.size > 0 ? `${targetRows.length} selected` : 'all'}
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <h3 className="text-sm font-medium">Apply a pattern</h3>
+            <Input value={pattern} onChange={(e) => setPattern(e.target.value)} />
+            <div className="flex items-center gap-2">
+              <Select value={patternField} onValueChange={(value) => setPatternField(value as MetaField)}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="meta_title">{META_FIELD_LABELS.meta_title}</SelectItem>
+                  <SelectItem value="meta_description">{META_FIELD_LABELS.meta_description}</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handlePattern} disabled={!pattern.trim() || targetRows.length === 0}>
+                Apply to {selected.size > 0 ? `${targetRows.length} selected` : 'all'}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Variables: {META_PATTERN_VARIABLES.map((name) => `{${name}}`).join(' ')}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Input
+            placeholder="Search pages..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="max-w-xs"
+          />
+          <span className="text-sm text-muted-foreground">
+            {rows.length} pages · {changes.length} changed
+            {warningCount > 0 && <span className="text-orange-600"> · {warningCount} with length warnings</span>}
+          </span>
+        </div>
+
+        {isLoading ? (
+          <div className="py-12 text-center text-muted-foreground">
+            <p>Loading pages...</p>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load pages'}
+          </p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Generate some pages to edit their meta tags.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8">
+                  <Checkbox checked={allVisibleSelected} onCheckedChange={toggleAll} />
+                </TableHead>
+                <TableHead className="w-[200px]">Page</TableHead>
+                <TableHead>{META_FIELD_LABELS.meta_title}</TableHead>
+                <TableHead>{META_FIELD_LABELS.meta_description}</TableHead>
+                <TableHead className="w-[180px]">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((row) => {
+                const values = valuesOf(row)
+                const titleChanged = values.metaTitle !== row.metaTitle
+                const descriptionChanged = values.metaDescription !== row.metaDescription
+                return (
+                  <TableRow key={row.locationKeywordId}>
+                    <TableCell className="align-top">
+                      <Checkbox
+                        checked={selected.has(row.locationKeywordId)}
+                        onCheckedChange={() => toggleRow(row.locationKeywordId)}
+                      />
+                    </TableCell>
+                    <TableCell className={`align-top ${row.isSuburb ? 'pl-6' : 'font-medium'}`}>
+                      <Link to={`/projects/${projectId}/content/${row.locationKeywordId}`} className="hover:underline">
+                        {row.phrase}
+                      </Link>
+                      <div className="mt-1">
+                        {row.wpPageId ? (
+                          <Badge variant="secondary">In WordPress</Badge>
+                        ) : (
+                          <Badge variant="outline">Not published</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Input
+                        value={values.metaTitle}
+                        onChange={(e) => setField(row, 'meta_title', e.target.value)}
+                        className={`text-sm ${titleChanged ? 'border-amber-400' : ''}`}
+                      />
+                      <LengthHint field="meta_title" value={values.metaTitle} />
+                    </TableCell>
+                    <TableCell className="align-top">
+                      <Textarea
+                        value={values.metaDescription}
+                        onChange={(e) => setField(row, 'meta_description', e.target.value)}
+                        rows={2}
+                        className={`text-sm ${descriptionChanged ? 'border-amber-400' : ''}`}
+                      />
+                      <LengthHint field="meta_description" value={values.metaDescription} />
+                    </TableCell>
+                    <TableCell className="align-top max-w-[180px]">
+                      <PushResult result={results[row.locationKeywordId]} values={values} />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
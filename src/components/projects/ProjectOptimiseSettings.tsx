@@ -0,0 +1,81 @@
+import { useQuery } from '@tanstack/react-query'
+import { InlineEdit } from '@/components/InlineEdit'
+import { DEFAULT_TARGET_SCORE, getOptimisationSummary } from '@/api/content-scores'
+
+interface ProjectOptimiseSettingsProps {
+  projectId: string
+  targetScore: number | null
+  maxIterations: number | null
+  onUpdate: (updates: {
+    optimise_target_score?: number
+    optimise_max_iterations?: number
+  }) => Promise<void>
+}
+
+const DEFAULT_MAX_ITERATIONS = 2
+const MAX_ITERATIONS_LIMIT = 5
+
+function parseWholeNumber(value: string, min: number, max: number) {
+  const parsed = parseInt(value, 10)
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    throw new Error(`Please enter a whole number between ${min} and ${max}`)
+  }
+  return parsed
+}
+
+/**
+ * How far the content workers optimise new pages (score target and pass
+ * limit), and how much optimising has helped so far
+ */
+export function ProjectOptimiseSettings({ projectId, targetScore, maxIterations, onUpdate }: ProjectOptimiseSettingsProps) {
+  const { data: summary } = useQuery({
+    queryKey: ['optimisationSummary', projectId],
+    queryFn: () => getOptimisationSummary(projectId),
+  })
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Auto-Optimise</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          After a page is generated it is scored (SEO Score for town pages, Local Support Score for suburb pages). Pages
+          below the target are rewritten to fix their failed checks and scored again, until they reach the target or the
+          pass limit. A rewrite that scores lower is discarded.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Target Score</p>
+          <InlineEdit
+            value={String(targetScore ?? DEFAULT_TARGET_SCORE)}
+            onSave={(value) => onUpdate({ optimise_target_score: parseWholeNumber(value, 0, 100) })}
+            type="number"
+            placeholder={String(DEFAULT_TARGET_SCORE)}
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Max Passes per Page</p>
+          <InlineEdit
+            value={String(maxIterations ?? DEFAULT_MAX_ITERATIONS)}
+            onSave={(value) => onUpdate({ optimise_max_iterations: parseWholeNumber(value, 0, MAX_ITERATIONS_LIMIT) })}
+            type="number"
+            placeholder={String(DEFAULT_MAX_ITERATIONS)}
+          />
+          <p className="text-xs text-muted-foreground mt-1">0 turns auto-optimising off. Each pass is one AI call.</p>
+        </div>
+      </div>
+
+      {summary && summary.runs > 0 && (
+        <p className="text-sm">
+          <span className="text-muted-foreground">Last {summary.runs} optimised page{summary.runs !== 1 ? 's' : ''}: </span>
+          <span className="font-medium">
+            average score {summary.averageBefore} → {summary.averageAfter}
+          </span>
+          <span className="text-muted-foreground">, {summary.reachedTarget} reached the target</span>
+        </p>
+      )}
+    </div>
+  )
+}
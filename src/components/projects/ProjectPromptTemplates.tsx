@@ -0,0 +1,370 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Plus, Pencil, History, Trash2, Loader2 } from 'lucide-react'
+import { PromptTemplateSelect } from '@/components/projects/PromptTemplateSelect'
+import {
+  getPromptTemplates,
+  getPromptTemplateVersions,
+  createPromptTemplate,
+  createPromptTemplateVersion,
+  setCurrentPromptTemplateVersion,
+  deletePromptTemplate,
+  findUnknownPromptVariables,
+  PROMPT_TEMPLATE_VARIABLES,
+  PROMPT_TEMPLATE_SYNTAX_HELP,
+  type PromptPageType,
+  type PromptTemplate,
+} from '@/api/prompt-templates'
+
+interface ProjectPromptTemplatesProps {
+  userId: string
+  townTemplateId: string | null
+  suburbTemplateId: string | null
+  onUpdate: (updates: {
+    town_prompt_template_id?: string | null
+    suburb_prompt_template_id?: string | null
+  }) => Promise<void>
+}
+
+const EMPTY_FORM = { name: '', description: '', page_type: 'town' as PromptPageType, body: '', notes: '' }
+
+/**
+ * Prompt template library plus the templates this project uses.
+ * Services can override these from their own settings tab.
+ */
+export function ProjectPromptTemplates({ userId, townTemplateId, suburbTemplateId, onUpdate }: ProjectPromptTemplatesProps) {
+  const queryClient = useQueryClient()
+  const [editing, setEditing] = useState<PromptTemplate | 'new' | null>(null)
+  const [historyFor, setHistoryFor] = useState<PromptTemplate | null>(null)
+  const [form, setForm] = useState(EMPTY_FORM)
+
+  const { data: templates } = useQuery({
+    queryKey: ['promptTemplates', userId],
+    queryFn: () => getPromptTemplates(userId),
+  })
+
+  const { data: versions, isLoading: versionsLoading } = useQuery({
+    queryKey: ['promptTemplateVersions', historyFor?.id],
+    queryFn: () => getPromptTemplateVersions(historyFor!.id),
+    enabled: !!historyFor,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['promptTemplates', userId] })
+    queryClient.invalidateQueries({ queryKey: ['promptTemplateVersions'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (editing === 'new') {
+        return createPromptTemplate(userId, form)
+      }
+      return createPromptTemplateVersion(editing!.id, userId, form.body, form.notes)
+    },
+    onSuccess: () => {
+      invalidate()
+      toast.success(editing === 'new' ? 'Prompt template created' : 'New template version saved')
+      setEditing(null)
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save prompt template', { description: error.message })
+    },
+  })
+
+  const rollbackMutation = useMutation({
+    mutationFn: ({ templateId, versionId }: { templateId: string; versionId: string }) =>
+      setCurrentPromptTemplateVersion(templateId, versionId),
+    onSuccess: () => {
+      invalidate()
+      toast.success('Template rolled back')
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to roll back template', { description: error.message })
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deletePromptTemplate,
+    onSuccess: () => {
+      invalidate()
+      toast.success('Prompt template deleted')
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to delete prompt template', { description: error.message })
+    },
+  })
+
+  const openNew = () => {
+    setForm(EMPTY_FORM)
+    setEditing('new')
+  }
+
+  const openEdit = (template: PromptTemplate) => {
+    setForm({
+      name: template.name,
+      description: template.description || '',
+      page_type: template.page_type,
+      body: template.current_version?.body || '',
+      notes: '',
+    })
+    setEditing(template)
+  }
+
+  const unknownVariables = findUnknownPromptVariables(form.body)
+  const canSave = form.body.trim() && (editing !== 'new' || form.name.trim())
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Prompt Templates</h3>
+        <Button size="sm" variant="outline" onClick={openNew}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Template
+        </Button>
+      </div>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3">
+        <p className="text-sm text-muted-foreground">
+          Choose the prompt used to write this project's pages. Each generated page records the template version that produced it.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Town Pages</p>
+          <PromptTemplateSelect
+            pageType="town"
+            value={townTemplateId}
+            onChange={(value) => onUpdate({ town_prompt_template_id: value })}
+            inheritLabel="Built-in prompt"
+          />
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-2">Suburb Pages</p>
+          <PromptTemplateSelect
+            pageType="suburb"
+            value={suburbTemplateId}
+            onChange={(value) => onUpdate({ suburb_prompt_template_id: value })}
+            inheritLabel="Built-in prompt"
+          />
+        </div>
+      </div>
+
+      {templates && templates.length > 0 && (
+        <div className="divide-y border rounded-md">
+          {templates.map((template) => (
+            <div key={template.id} className="flex items-center justify-between p-3">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{template.name}</span>
+                  <Badge variant="outline">{template.page_type === 'town' ? 'Town' : 'Suburb'}</Badge>
+                  {template.current_version && (
+                    <Badge variant="secondary">v{template.current_version.version_number}</Badge>
+                  )}
+                </div>
+                {template.description && (
+                  <p className="text-xs text-muted-foreground mt-1">{template.description}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" onClick={() => openEdit(template)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setHistoryFor(template)}>
+                  <History className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(template.id)}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New Prompt Template' : `Edit ${form.name}`}</DialogTitle>
+            <DialogDescription>
+              {editing === 'new'
+                ? 'Templates are shared across all of your projects.'
+                : 'Saving creates a new version. Older versions stay available for rollback.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {editing === 'new' && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="prompt-template-name">Name</Label>
+                  <Input
+                    id="prompt-template-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="e.g., Trades town page"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Page Type</Label>
+                  <Select
+                    value={form.page_type}
+                    onValueChange={(value) => setForm({ ...form, page_type: value as PromptPageType })}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="town">Town page</SelectItem>
+                      <SelectItem value="suburb">Suburb page</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="prompt-template-description">Description (optional)</Label>
+                  <Input
+                    id="prompt-template-description"
+                    value={form.description}
+                    onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="prompt-template-body">Prompt</Label>
+              <Textarea
+                id="prompt-template-body"
+                value={form.body}
+                onChange={(e) => setForm({ ...form, body: e.target.value })}
+                rows={16}
+                className="font-mono text-xs"
+                placeholder="Create a landing page for {{serviceName}} in {{location}}..."
+              />
+              <p className="text-xs text-muted-foreground">{PROMPT_TEMPLATE_SYNTAX_HELP}</p>
+              <p className="text-xs text-muted-foreground">
+                The prompt must ask for a JSON response with title, meta_title, meta_description and content.
+              </p>
+              {unknownVariables.length > 0 && (
+                <p className="text-xs text-red-600">
+                  Unknown variables: {unknownVariables.join(', ')}. These will render as blank.
+                </p>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {PROMPT_TEMPLATE_VARIABLES.map((variable) => (
+                <Badge key={variable.name} variant="outline" title={variable.description} className="font-mono">
+                  {`{{${variable.name}}}`}
+                </Badge>
+              ))}
+            </div>
+
+            {editing !== 'new' && (
+              <div className="space-y-2">
+                <Label htmlFor="prompt-template-notes">What changed? (optional)</Label>
+                <Input
+                  id="prompt-template-notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  placeholder="e.g., Softer CTA wording"
+                />
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!canSave || saveMutation.isPending}
+              style={{ backgroundColor: 'var(--brand-dark)' }}
+              className="hover:opacity-90 text-white"
+            >
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : editing === 'new' ? (
+                'Create Template'
+              ) : (
+                'Save New Version'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History Dialog */}
+      <Dialog open={historyFor !== null} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{historyFor?.name} History</DialogTitle>
+            <DialogDescription>
+              Roll back to an earlier version. Pages already generated keep the version that wrote them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {versionsLoading ? (
+            <p className="text-sm text-muted-foreground py-4">Loading...</p>
+          ) : (
+            <div className="divide-y border rounded-md">
+              {(versions || []).map((version) => {
+                const isCurrent = version.id === templates?.find(t => t.id === historyFor?.id)?.current_version_id
+                return (
+                  <div key={version.id} className="flex items-center justify-between p-3">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">v{version.version_number}</span>
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(version.created_at).toLocaleString()}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {version.notes || 'No notes'} · {version.page_count} page{version.page_count !== 1 ? 's' : ''} generated
+                      </p>
+                    </div>
+                    {!isCurrent && historyFor && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => rollbackMutation.mutate({ templateId: historyFor.id, versionId: version.id })}
+                        disabled={rollbackMutation.isPending}
+                      >
+                        Make Current
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
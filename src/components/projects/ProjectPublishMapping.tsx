@@ -0,0 +1,326 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Plus, Trash2 } from 'lucide-react'
+import { InlineEdit } from '@/components/InlineEdit'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  CUSTOM_FIELD_VARIABLES,
+  TERM_SOURCE_LABELS,
+  URL_STRUCTURE_OPTIONS,
+  fetchWordPressPublishOptions,
+  type CustomFieldMapping,
+  type TermMapping,
+  type TermSource,
+  type UrlStructure,
+} from '@/api/wordpress'
+
+interface ProjectPublishMappingProps {
+  projectId: string
+  wordpressUrl: string | null
+  apiKey: string | null
+  urlStructure: UrlStructure | null
+  postType: string | null
+  parentId: number | null
+  authorId: number | null
+  termMapping: TermMapping[] | null
+  customFields: CustomFieldMapping[] | null
+  onUpdate: (updates: {
+    wp_url_structure?: UrlStructure
+    wp_post_type?: string
+    wp_parent_id?: number | null
+    wp_author_id?: number | null
+    wp_term_mapping?: TermMapping[]
+    wp_custom_fields?: CustomFieldMapping[]
+  }) => Promise<void>
+}
+
+const DEFAULT_VALUE = 'default'
+
+/**
+ * Where pages go in WordPress: post type, parent page, URL structure, author,
+ * taxonomy terms and custom fields
+ */
+export function ProjectPublishMapping({
+  projectId,
+  wordpressUrl,
+  apiKey,
+  urlStructure,
+  postType,
+  parentId,
+  authorId,
+  termMapping,
+  customFields,
+  onUpdate,
+}: ProjectPublishMappingProps) {
+  const currentType = postType || 'page'
+  const structure = urlStructure || 'flat'
+  const terms = termMapping || []
+  const fields = customFields || []
+  const [newFieldKey, setNewFieldKey] = useState('')
+  const [newFieldValue, setNewFieldValue] = useState('')
+
+  const { data: options, isLoading, error } = useQuery({
+    queryKey: ['wordpressPublishOptions', projectId, currentType],
+    queryFn: () => fetchWordPressPublishOptions(wordpressUrl!, apiKey!, currentType),
+    enabled: !!wordpressUrl && !!apiKey,
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const postTypes = options?.postTypes || []
+  const selectedType = postTypes.find(t => t.name === currentType)
+  const taxonomies = selectedType?.taxonomies || []
+  const pluginSupportsMapping = postTypes.length > 0
+
+  const updateTerm = (index: number, change: Partial<TermMapping>) =>
+    onUpdate({ wp_term_mapping: terms.map((term, i) => (i === index ? { ...term, ...change } : term)) })
+
+  const addTerm = () => {
+    if (taxonomies.length === 0) return
+    onUpdate({ wp_term_mapping: [...terms, { taxonomy: taxonomies[0].name, source: 'region' }] })
+  }
+
+  const addField = async () => {
+    const key = newFieldKey.trim()
+    if (!key) return
+    await onUpdate({ wp_custom_fields: [...fields.filter(f => f.key !== key), { key, value: newFieldValue }] })
+    setNewFieldKey('')
+    setNewFieldValue('')
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-2">Publish Mapping</h3>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3 mb-4">
+        <p className="text-sm text-muted-foreground">
+          Publish pages as a custom post type, nest them under their service and town pages, and set taxonomy terms and
+          custom fields. Changes apply the next time each page is pushed.
+        </p>
+      </div>
+
+      {!wordpressUrl || !apiKey ? (
+        <p className="text-sm text-muted-foreground">Connect WordPress above to choose where pages are published.</p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading post types...</p>
+      ) : error ? (
+        <p className="text-sm text-destructive">
+          Couldn't load post types: {error instanceof Error ? error.message : 'Unknown error'}
+        </p>
+      ) : !pluginSupportsMapping ? (
+        <p className="text-sm text-muted-foreground">
+          Update the GeoScale plugin to 1.5.0 or later to publish to other post types. Pages are published as pages.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-6">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-2">Post type</p>
+              <Select
+                value={currentType}
+                // A parent only makes sense within the post type it was chosen for
+                onValueChange={(value) => onUpdate({ wp_post_type: value, wp_parent_id: null })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {postTypes.map((type) => (
+                    <SelectItem key={type.name} value={type.name}>
+                      {type.label} ({type.name})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-2">
+                {structure === 'hierarchical' ? 'Parent (towns without a service page)' : 'Parent'}
+              </p>
+              <Select
+                value={parentId ? String(parentId) : DEFAULT_VALUE}
+                onValueChange={(value) => onUpdate({ wp_parent_id: value === DEFAULT_VALUE ? null : Number(value) })}
+                disabled={!selectedType?.hierarchical}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>None (top level)</SelectItem>
+                  {options?.parents.map((parent) => (
+                    <SelectItem key={parent.id} value={String(parent.id)}>
+                      {parent.title || `#${parent.id}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {!selectedType?.hierarchical && (
+                <p className="text-xs text-muted-foreground mt-1">This post type has no parent pages</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-sm font-medium text-muted-foreground mb-2">Author</p>
+              <Select
+                value={authorId ? String(authorId) : DEFAULT_VALUE}
+                onValueChange={(value) => onUpdate({ wp_author_id: value === DEFAULT_VALUE ? null : Number(value) })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_VALUE}>Default (user 1)</SelectItem>
+                  {options?.authors.map((author) => (
+                    <SelectItem key={author.id} value={String(author.id)}>
+                      {author.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-muted-foreground mb-2">URL structure</p>
+            <Select value={structure} onValueChange={(value) => onUpdate({ wp_url_structure: value as UrlStructure })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {URL_STRUCTURE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} <span className="text-muted-foreground font-mono ml-2">{option.example}</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {structure === 'hierarchical' && (
+              <p className={`text-xs mt-1 ${selectedType?.hierarchical ? 'text-muted-foreground' : 'text-amber-600'}`}>
+                {selectedType?.hierarchical
+                  ? 'Town pages go under their service page URL and suburbs under their town, with slugs from the location name. A suburb published before its town moves under it once the town is live.'
+                  : `${selectedType?.label || currentType} has no parent pages, so pages stay flat. Choose a hierarchical post type such as Page.`}
+              </p>
+            )}
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <div>
+                <p className="text-sm font-medium">Taxonomy terms</p>
+                <p className="text-xs text-muted-foreground">Terms that don't exist in WordPress yet are created.</p>
+              </div>
+              <Button variant="outline" size="sm" onClick={addTerm} disabled={taxonomies.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Term
+              </Button>
+            </div>
+            {taxonomies.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{selectedType?.label || currentType} has no taxonomies.</p>
+            ) : terms.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No terms set.</p>
+            ) : (
+              <div className="space-y-2">
+                {terms.map((term, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+                    <Select value={term.taxonomy} onValueChange={(value) => updateTerm(index, { taxonomy: value })}>
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {taxonomies.map((taxonomy) => (
+                          <SelectItem key={taxonomy.name} value={taxonomy.name}>
+                            {taxonomy.label}
+                          </SelectItem>
+                        ))}
+                        {!taxonomies.some(t => t.name === term.taxonomy) && (
+                          <SelectItem value={term.taxonomy}>{term.taxonomy} (not on this post type)</SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={term.source}
+                      onValueChange={(value) => updateTerm(index, { source: value as TermSource, value: null })}
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(TERM_SOURCE_LABELS) as TermSource[]).map((source) => (
+                          <SelectItem key={source} value={source}>
+                            {TERM_SOURCE_LABELS[source]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {term.source === 'fixed' ? (
+                      <InlineEdit
+                        value={term.value || ''}
+                        onSave={(value) => updateTerm(index, { value: value.trim() })}
+                        placeholder="Term name"
+                      />
+                    ) : (
+                      <span />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onUpdate({ wp_term_mapping: terms.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium">Custom fields</p>
+            <p className="text-xs text-muted-foreground mb-2">
+              Values can use {CUSTOM_FIELD_VARIABLES.map(v => `{${v}}`).join(', ')}. ACF fields are saved through ACF.
+            </p>
+            <div className="space-y-2">
+              {fields.map((field, index) => (
+                <div key={field.key} className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+                  <p className="text-sm font-mono truncate" title={field.key}>{field.key}</p>
+                  <InlineEdit
+                    value={field.value}
+                    onSave={(value) =>
+                      onUpdate({ wp_custom_fields: fields.map((f, i) => (i === index ? { ...f, value } : f)) })
+                    }
+                    placeholder="Empty"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onUpdate({ wp_custom_fields: fields.filter((_, i) => i !== index) })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="grid grid-cols-[1fr_2fr_auto] gap-2 items-center">
+                <Input
+                  value={newFieldKey}
+                  onChange={(e) => setNewFieldKey(e.target.value)}
+                  placeholder="Field key"
+                  className="font-mono"
+                />
+                <Input
+                  value={newFieldValue}
+                  onChange={(e) => setNewFieldValue(e.target.value)}
+                  placeholder="e.g. {phone}"
+                  onKeyDown={(e) => e.key === 'Enter' && addField()}
+                />
+                <Button variant="outline" size="sm" onClick={addField} disabled={!newFieldKey.trim()}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+import { useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { CalendarX, ChevronLeft, ChevronRight, ExternalLink, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  cancelScheduledPublishing,
+  getPublishingSchedule,
+  rescheduleDripPublishing,
+  type ScheduledPublish,
+} from '@/api/drip-publishing'
+import { DEFAULT_DRIP_SETTINGS, DRIP_TIME_ZONES, localDateKey, zonedTime } from '@/lib/drip-schedule'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+interface ProjectPublishingCalendarProps {
+  projectId: string
+  enabled: boolean
+  pagesPerDay: number | null
+  windowStart: number | null
+  windowEnd: number | null
+  timeZone: string | null
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const STATUS_LABELS: Record<ScheduledPublish['status'], string> = {
+  queued: 'Scheduled',
+  processing: 'Publishing',
+  completed: 'Published',
+  failed: 'Failed',
+}
+
+function DayCounts({ publishes }: { publishes: ScheduledPublish[] }) {
+  const waiting = publishes.filter((p) => p.status === 'queued' || p.status === 'processing').length
+  const published = publishes.filter((p) => p.status === 'completed').length
+  const failed = publishes.filter((p) => p.status === 'failed').length
+
+  return (
+    <div className="mt-1 space-y-0.5 text-xs">
+      {waiting > 0 && <div className="text-[var(--brand-dark)]">{waiting} scheduled</div>}
+      {published > 0 && <div className="text-green-600">{published} published</div>}
+      {failed > 0 && <div className="text-red-600">{failed} failed</div>}
+    </div>
+  )
+}
+
+/**
+ * Month calendar of drip publishes: what went out on each day and what is
+ * scheduled next, in the project's publishing time zone
+ */
+export function ProjectPublishingCalendar({
+  projectId,
+  enabled,
+  pagesPerDay,
+  windowStart,
+  windowEnd,
+  timeZone,
+}: ProjectPublishingCalendarProps) {
+  const queryClient = useQueryClient()
+  const zone = timeZone || DEFAULT_DRIP_SETTINGS.timeZone
+  const todayKey = localDateKey(new Date(), zone)
+  const [month, setMonth] = useState(() => ({ year: Number(todayKey.slice(0, 4)), month: Number(todayKey.slice(5, 7)) }))
+  const [selectedDay, setSelectedDay] = useState(todayKey)
+  const [busy, setBusy] = useState<'reschedule' | 'cancel' | null>(null)
+
+  const { data: publishes = [], isLoading, error } = useQuery({
+    queryKey: ['publishingSchedule', projectId, zone, month.year, month.month],
+    queryFn: () => getPublishingSchedule(
+      projectId,
+      zonedTime(month.year, month.month, 1, 0, zone),
+      zonedTime(month.year, month.month + 1, 1, 0, zone)
+    ),
+    refetchInterval: 60000,
+  })
+
+  const byDay = useMemo(() => {
+    const days = new Map<string, ScheduledPublish[]>()
+    for (const publish of publishes) {
+      const key = localDateKey(new Date(publish.scheduled_for), zone)
+      days.set(key, [...(days.get(key) || []), publish])
+    }
+    return days
+  }, [publishes, zone])
+
+  // Leading blanks so the 1st falls on its weekday (Monday first)
+  const cells = useMemo(() => {
+    const first = new Date(Date.UTC(month.year, month.month - 1, 1))
+    const daysInMonth = new Date(Date.UTC(month.year, month.month, 0)).getUTCDate()
+    const blanks = (first.getUTCDay() + 6) % 7
+    return [
+      ...Array.from({ length: blanks }, () => null),
+      ...Array.from({ length: daysInMonth }, (_, i) =>
+        `${month.year}-${String(month.month).padStart(2, '0')}-${String(i + 1).padStart(2, '0')}`
+      ),
+    ]
+  }, [month])
+
+  const timeFormat = useMemo(
+    () => new Intl.DateTimeFormat(undefined, { timeZone: zone, hour: '2-digit', minute: '2-digit' }),
+    [zone]
+  )
+  const monthLabel = new Date(Date.UTC(month.year, month.month - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  })
+
+  const shiftMonth = (delta: number) => {
+    setMonth(({ year, month: current }) => {
+      const next = new Date(Date.UTC(year, current - 1 + delta, 1))
+      return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1 }
+    })
+  }
+
+  const handleReschedule = async () => {
+    setBusy('reschedule')
+    try {
+      const result = await rescheduleDripPublishing(projectId)
+      toast.success(result.scheduled > 0
+        ? `Rescheduled ${result.scheduled} page${result.scheduled !== 1 ? 's' : ''}`
+        : 'No pages are waiting to publish')
+      queryClient.invalidateQueries({ queryKey: ['publishingSchedule', projectId] })
+    } catch (error) {
+      toast.error('Error rescheduling pages', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!confirm('Remove every page that is still waiting to publish from the schedule?')) return
+
+    setBusy('cancel')
+    try {
+      const removed = await cancelScheduledPublishing(projectId)
+      toast.success(`Removed ${removed} page${removed !== 1 ? 's' : ''} from the schedule`, {
+        description: 'They stay generated and can be pushed again at any time',
+      })
+      queryClient.invalidateQueries({ queryKey: ['publishingSchedule', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['wpPushQueueStats', projectId] })
+    } catch (error) {
+      toast.error('Error cancelling scheduled pages', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const dayPublishes = byDay.get(selectedDay) || []
+  const start = windowStart ?? DEFAULT_DRIP_SETTINGS.windowStart
+  const end = windowEnd ?? DEFAULT_DRIP_SETTINGS.windowEnd
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Publishing Schedule</CardTitle>
+            <CardDescription>
+              {enabled ? 'Drip publishing is on: ' : 'Drip publishing is off (turn it on in Project Settings): '}
+              {pagesPerDay ?? DEFAULT_DRIP_SETTINGS.pagesPerDay} pages a day between {String(start).padStart(2, '0')}:00
+              and {String(end).padStart(2, '0')}:00 {DRIP_TIME_ZONES[zone] || zone} time
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReschedule} disabled={!!busy} className="gap-1">
+              {busy === 'reschedule' ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              Reschedule
+            </Button>
+            <Button variant="outline" onClick={handleCancel} disabled={!!busy} className="gap-1">
+              {busy === 'cancel' ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarX className="h-4 w-4" />}
+              Cancel Scheduled
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between">
+          <Button variant="ghost" size="icon" onClick={() => shiftMonth(-1)} title="Previous month">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <h3 className="text-sm font-medium">
+            {monthLabel}
+            {isLoading && <Loader2 className="ml-2 inline h-3 w-3 animate-spin" />}
+          </h3>
+          <Button variant="ghost" size="icon" onClick={() => shiftMonth(1)} title="Next month">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load the publishing schedule'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-7 gap-1">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="pb-1 text-center text-xs font-medium text-muted-foreground">{day}</div>
+            ))}
+            {cells.map((key, index) =>
+              key ? (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setSelectedDay(key)}
+                  className={`min-h-20 rounded-md border p-2 text-left transition-colors hover:bg-muted/50 ${
+                    key === selectedDay ? 'border-[var(--brand-dark)] bg-muted/50' : ''
+                  } ${key < todayKey ? 'text-muted-foreground' : ''}`}
+                >
+                  <div className={`text-sm ${key === todayKey ? 'font-bold' : ''}`}>{Number(key.slice(8))}</div>
+                  <DayCounts publishes={byDay.get(key) || []} />
+                </button>
+              ) : (
+                <div key={`blank-${index}`} />
+              )
+            )}
+          </div>
+        )}
+
+        <div>
+          <h3 className="mb-2 text-sm font-medium">
+            {new Date(`${selectedDay}T12:00:00Z`).toLocaleDateString(undefined, {
+              weekday: 'long',
+              day: 'numeric',
+              month: 'long',
+              timeZone: 'UTC',
+            })}
+          </h3>
+          {dayPublishes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing scheduled for this day.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dayPublishes.map((publish) => (
+                  <TableRow key={publish.id}>
+                    <TableCell className="whitespace-nowrap">{timeFormat.format(new Date(publish.scheduled_for))}</TableCell>
+                    <TableCell>
+                      <Link to={`/projects/${projectId}/content/${publish.location_keyword_id}`} className="hover:underline">
+                        {publish.phrase}
+                      </Link>
+                      {publish.status === 'completed' && publish.wp_page_url && (
+                        <a href={publish.wp_page_url} target="_blank" rel="noopener noreferrer" className="ml-2 inline-flex text-muted-foreground hover:text-foreground">
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </TableCell>
+                    <TableCell>{publish.is_suburb ? 'Suburb' : 'Town'}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={publish.status === 'failed' ? 'destructive' : publish.status === 'completed' ? 'secondary' : 'outline'}
+                        title={publish.error_message || undefined}
+                      >
+                        {STATUS_LABELS[publish.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,306 @@
+import { useState } from 'react'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  diffScoringRules,
+  getScoringProfiles,
+  updateAgencyScoringProfile,
+  updateProjectScoringProfile,
+} from '@/api/scoring-profiles'
+import { rescoreProjectPages } from '@/api/content-scores'
+import {
+  mergeScoringProfiles,
+  resolveScoringRuleset,
+  type RangeRule,
+  type ScoringPageType,
+  type ScoringProfile,
+  type ScoringRules,
+} from '@/lib/content-scoring'
+
+interface ProjectScoringProfileProps {
+  projectId: string
+}
+
+type ProfileScope = 'project' | 'agency'
+type RangeRuleKey = 'contentLength' | 'keywordFrequency' | 'locationFrequency' | 'keywordHeadings'
+type PresenceRuleKey = 'keywordInTitle' | 'locationInTitle' | 'keywordInFirstParagraph'
+
+const RANGE_RULES: Array<{ key: RangeRuleKey; label: string }> = [
+  { key: 'contentLength', label: 'Word count' },
+  { key: 'keywordFrequency', label: 'Keyword mentions' },
+  { key: 'locationFrequency', label: 'Location mentions' },
+  { key: 'keywordHeadings', label: 'Keyword headings' },
+]
+
+const PRESENCE_RULES: Array<{ key: PresenceRuleKey; label: string }> = [
+  { key: 'keywordInTitle', label: 'Keyword in title' },
+  { key: 'locationInTitle', label: 'Location in title' },
+  { key: 'keywordInFirstParagraph', label: 'Keyword in first paragraph' },
+]
+
+function parseNumber(value: string): number {
+  const parsed = parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
+}
+
+function parseLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(line => line.length > 0)
+}
+
+interface ScoringRulesEditorProps {
+  initialRules: ScoringRules
+  canReset: boolean
+  onSave: (rules: ScoringRules) => Promise<void>
+  onReset: () => Promise<void>
+}
+
+function ScoringRulesEditor({ initialRules, canReset, onSave, onReset }: ScoringRulesEditorProps) {
+  const [rules, setRules] = useState<ScoringRules>(initialRules)
+  const [salesTerms, setSalesTerms] = useState(initialRules.salesPressure.terms.join('\n'))
+  const [bannedPhrases, setBannedPhrases] = useState(initialRules.bannedPhrases.phrases.join('\n'))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const updateRule = <K extends keyof ScoringRules>(key: K, changes: Partial<ScoringRules[K]>) => {
+    setRules(current => ({ ...current, [key]: { ...current[key], ...changes } }))
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSave = () => run(() => onSave({
+    ...rules,
+    salesPressure: { ...rules.salesPressure, terms: parseLines(salesTerms) },
+    bannedPhrases: { ...rules.bannedPhrases, phrases: parseLines(bannedPhrases) },
+  }))
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Check</TableHead>
+            <TableHead className="w-[110px]">Weight</TableHead>
+            <TableHead className="w-[110px]">Min</TableHead>
+            <TableHead className="w-[110px]">Max</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {RANGE_RULES.map(({ key, label }) => {
+            const rule = rules[key] as RangeRule
+            return (
+              <TableRow key={key}>
+                <TableCell className="font-medium">{label}</TableCell>
+                <TableCell>
+                  <Input type="number" min={0} value={rule.weight} onChange={(e) => updateRule(key, { weight: parseNumber(e.target.value) })} />
+                </TableCell>
+                <TableCell>
+                  <Input type="number" min={0} value={rule.min} onChange={(e) => updateRule(key, { min: parseNumber(e.target.value) })} />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={rule.max ?? ''}
+                    placeholder="No limit"
+                    onChange={(e) => updateRule(key, { max: e.target.value.trim() ? parseNumber(e.target.value) : null })}
+                  />
+                </TableCell>
+              </TableRow>
+            )
+          })}
+          {PRESENCE_RULES.map(({ key, label }) => (
+            <TableRow key={key}>
+              <TableCell className="font-medium">{label}</TableCell>
+              <TableCell>
+                <Input type="number" min={0} value={rules[key].weight} onChange={(e) => updateRule(key, { weight: parseNumber(e.target.value) })} />
+              </TableCell>
+              <TableCell colSpan={2} className="text-xs text-muted-foreground">Pass / fail</TableCell>
+            </TableRow>
+          ))}
+          <TableRow>
+            <TableCell className="font-medium">Sales pressure</TableCell>
+            <TableCell>
+              <Input type="number" min={0} value={rules.salesPressure.weight} onChange={(e) => updateRule('salesPressure', { weight: parseNumber(e.target.value) })} />
+            </TableCell>
+            <TableCell colSpan={2} className="text-xs text-muted-foreground">
+              Fails above a pressure of {rules.salesPressure.maxPressure}
+            </TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell className="font-medium">Banned phrases</TableCell>
+            <TableCell>
+              <Input type="number" min={0} value={rules.bannedPhrases.weight} onChange={(e) => updateRule('bannedPhrases', { weight: parseNumber(e.target.value) })} />
+            </TableCell>
+            <TableCell colSpan={2} className="text-xs text-muted-foreground">Fails when any banned phrase is used</TableCell>
+          </TableRow>
+          <TableRow>
+            <TableCell className="font-medium">Required elements</TableCell>
+            <TableCell>
+              <Input type="number" min={0} value={rules.requiredElements.weight} onChange={(e) => updateRule('requiredElements', { weight: parseNumber(e.target.value) })} />
+            </TableCell>
+            <TableCell colSpan={2} className="text-xs text-muted-foreground">Points for each required element present</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Sales Terms</p>
+          <Textarea rows={6} value={salesTerms} onChange={(e) => setSalesTerms(e.target.value)} />
+          <p className="text-xs text-muted-foreground mt-1">One per line. Each one found adds to the sales pressure.</p>
+        </div>
+        <div>
+          <p className="text-sm font-medium text-muted-foreground mb-1">Banned Phrases</p>
+          <Textarea rows={6} value={bannedPhrases} onChange={(e) => setBannedPhrases(e.target.value)} placeholder="e.g. cheap and cheerful" />
+          <p className="text-xs text-muted-foreground mt-1">One per line. The optimiser rewrites pages that use them.</p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm font-medium text-muted-foreground">Required Elements</p>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="require-phone"
+            checked={rules.requiredElements.phone}
+            onCheckedChange={(checked) => updateRule('requiredElements', { phone: checked === true })}
+          />
+          <Label htmlFor="require-phone" className="text-sm">Phone number (the project's phone number, or a tel: link)</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="require-contact-link"
+            checked={rules.requiredElements.contactLink}
+            onCheckedChange={(checked) => updateRule('requiredElements', { contactLink: checked === true })}
+          />
+          <Label htmlFor="require-contact-link" className="text-sm">Contact link (the project's contact URL, or any contact page)</Label>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save & Rescore'}
+        </Button>
+        {canReset && (
+          <Button variant="outline" onClick={() => run(onReset)} disabled={isSaving}>
+            Reset to Defaults
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Scoring thresholds, weights, banned phrases and required elements for the
+ * project's pages. The agency default applies to every project in the agency;
+ * the project's own changes are applied over it.
+ */
+export function ProjectScoringProfile({ projectId }: ProjectScoringProfileProps) {
+  const queryClient = useQueryClient()
+  const [scope, setScope] = useState<ProfileScope>('project')
+  const [pageType, setPageType] = useState<ScoringPageType>('suburb')
+
+  const { data: profiles, isLoading } = useQuery({
+    queryKey: ['scoringProfiles', projectId],
+    queryFn: () => getScoringProfiles(projectId),
+  })
+
+  const activeScope: ProfileScope = scope === 'agency' && profiles?.agency_id ? 'agency' : 'project'
+  const inherited: ScoringProfile = activeScope === 'project' ? profiles?.agency || {} : {}
+  const own: ScoringProfile = profiles?.[activeScope] || {}
+  const rules = resolveScoringRuleset(pageType, mergeScoringProfiles(inherited, own)[pageType]).rules
+
+  const saveProfile = async (profile: ScoringProfile) => {
+    try {
+      if (activeScope === 'agency' && profiles?.agency_id) {
+        await updateAgencyScoringProfile(profiles.agency_id, profile)
+      } else {
+        await updateProjectScoringProfile(projectId, profile)
+      }
+      queryClient.invalidateQueries({ queryKey: ['scoringProfiles', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['scoringContext', projectId] })
+
+      const scored = await rescoreProjectPages(projectId)
+      queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+      toast.success('Scoring profile saved', {
+        description: `Rescored ${scored} page${scored !== 1 ? 's' : ''} in this project${activeScope === 'agency' ? '. Other agency projects pick it up on their next generation or rescan.' : ''}`,
+      })
+    } catch (error) {
+      toast.error('Failed to save scoring profile', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  const handleSave = (edited: ScoringRules) => {
+    const overrides = diffScoringRules(pageType, inherited[pageType], edited)
+    const profile: ScoringProfile = { ...own, [pageType]: overrides }
+    if (Object.keys(overrides).length === 0) delete profile[pageType]
+    return saveProfile(profile)
+  }
+
+  const handleReset = () => {
+    const profile: ScoringProfile = { ...own }
+    delete profile[pageType]
+    return saveProfile(profile)
+  }
+
+  return (
+    <div className="space-y-6 border rounded-lg p-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">Scoring Profile</h3>
+        {profiles?.agency_id && (
+          <Select value={activeScope} onValueChange={(value) => setScope(value as ProfileScope)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="project">This project</SelectItem>
+              <SelectItem value="agency">Agency default</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="bg-gray-100 dark:bg-gray-800 rounded-md p-3">
+        <p className="text-sm text-muted-foreground">
+          The rules behind the SEO Score (town pages) and Local Support Score (suburb pages). The score cards, the
+          combinations table and the auto-optimiser all use them. A check with weight 0 is ignored.
+          {profiles?.agency_id && ' Changes to the agency default apply to every project that has not changed that value itself.'}
+        </p>
+      </div>
+
+      <Tabs value={pageType} onValueChange={(value) => setPageType(value as ScoringPageType)}>
+        <TabsList>
+          <TabsTrigger value="suburb">Suburb Pages</TabsTrigger>
+          <TabsTrigger value="town">Town Pages</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading scoring profile...</p>
+      ) : (
+        <ScoringRulesEditor
+          key={`${activeScope}-${pageType}-${JSON.stringify(rules)}`}
+          initialRules={rules}
+          canReset={Object.keys(own[pageType] || {}).length > 0}
+          onSave={handleSave}
+          onReset={handleReset}
+        />
+      )}
+    </div>
+  )
+}
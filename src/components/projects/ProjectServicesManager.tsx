@@ -42,6 +42,7 @@ import {
 } from '@/api/services'
 import { getKeywordVariations } from '@/api/dataforseo'
 import { addServiceKeywords } from '@/api/services'
+import { PromptTemplateSelect } from '@/components/projects/PromptTemplateSelect'
 
 interface ProjectServicesManagerProps {
   projectId: string
@@ -153,7 +154,6 @@ export function ProjectServicesManager({ projectId, combinationLimit, wpUrl }: P
       const keywords = await getKeywordVariations({
         project_id: projectId,
         base_keyword: serviceName,
-        location: 'GB',
         limit: 20,
       })
       
@@ -276,7 +276,6 @@ export function ProjectServicesManager({ projectId, combinationLimit, wpUrl }: P
       const keywords = await getKeywordVariations({
         project_id: projectId,
         base_keyword: findKeywordsSearchTerm.trim(),
-        location: 'GB',
         limit: 20,
       })
       
@@ -1025,6 +1024,8 @@ function ServiceContentPanel({
   const [editName, setEditName] = useState(service.name)
   const [editDescription, setEditDescription] = useState(service.description || '')
   const [editServicePageUrl, setEditServicePageUrl] = useState(getDefaultServiceUrl())
+  const [editTownTemplateId, setEditTownTemplateId] = useState(service.town_prompt_template_id || null)
+  const [editSuburbTemplateId, setEditSuburbTemplateId] = useState(service.suburb_prompt_template_id || null)
   const [isSavingSettings, setIsSavingSettings] = useState(false)
 
   // Handle saving service settings
@@ -1040,6 +1041,8 @@ function ServiceContentPanel({
         name: editName.trim(),
         description: editDescription.trim() || undefined,
         service_page_url: editServicePageUrl.trim() || undefined,
+        town_prompt_template_id: editTownTemplateId,
+        suburb_prompt_template_id: editSuburbTemplateId,
       })
       toast.success('Service updated')
       queryClient.invalidateQueries({ queryKey: ['projectServices', projectId] })
@@ -1419,6 +1422,33 @@ function ServiceContentPanel({
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label>Prompt Templates (optional)</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Town pages</p>
+                  <PromptTemplateSelect
+                    pageType="town"
+                    value={editTownTemplateId}
+                    onChange={setEditTownTemplateId}
+                    inheritLabel="Project default"
+                  />
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Suburb pages</p>
+                  <PromptTemplateSelect
+                    pageType="suburb"
+                    value={editSuburbTemplateId}
+                    onChange={setEditSuburbTemplateId}
+                    inheritLabel="Project default"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Override the project's prompt templates for this service's pages.
+              </p>
+            </div>
+
             <div className="pt-2">
               <Button
                 onClick={handleSaveSettings}
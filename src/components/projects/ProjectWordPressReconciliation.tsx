@@ -0,0 +1,229 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { ExternalLink, Loader2, RefreshCw } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  getWordPressIssues,
+  reconcileWordPressPages,
+  repairWordPressPages,
+  WORDPRESS_ISSUE_LABELS,
+  WORDPRESS_REPAIR_ACTIONS,
+  type WordPressPageIssueRow,
+  type WordPressRepairAction,
+} from '@/api/wordpress-reconcile'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+
+interface ProjectWordPressReconciliationProps {
+  projectId: string
+  reconciledAt: string | null
+}
+
+const ACTION_LABELS: Record<WordPressRepairAction, string> = {
+  repush: 'Re-push',
+  relink: 'Relink',
+  reset: 'Reset',
+}
+
+const ACTION_DONE: Record<WordPressRepairAction, string> = {
+  repush: 'queued for publishing',
+  relink: 'relinked to their new URL',
+  reset: 'reset to generated',
+}
+
+/**
+ * Pushed pages that were deleted, trashed, unpublished or moved in WordPress,
+ * with a fix for each
+ */
+export function ProjectWordPressReconciliation({ projectId, reconciledAt }: ProjectWordPressReconciliationProps) {
+  const queryClient = useQueryClient()
+  const [isChecking, setIsChecking] = useState(false)
+  const [pending, setPending] = useState<string | null>(null) // `${action}:${id}`, or `${action}:all`
+
+  const { data: issues = [], isLoading, error } = useQuery({
+    queryKey: ['wordpressIssues', projectId],
+    queryFn: () => getWordPressIssues(projectId),
+  })
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['wordpressIssues', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+  }
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+    try {
+      const result = await reconcileWordPressPages(projectId)
+      if (!result.supported) {
+        toast.warning('Update the GeoScale Connector plugin', {
+          description: 'Checking for deleted and unpublished pages needs plugin version 1.2.0 or later',
+        })
+        return
+      }
+      const flagged = Object.values(result.issues).reduce((sum, count) => sum + count, 0)
+      toast.success(`${result.checked} page${result.checked !== 1 ? 's' : ''} checked`, {
+        description: flagged > 0
+          ? `${flagged} need${flagged === 1 ? 's' : ''} attention`
+          : 'Every pushed page is live in WordPress',
+      })
+    } catch (error) {
+      toast.error('Failed to check WordPress pages', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setIsChecking(false)
+      refresh()
+    }
+  }
+
+  const handleRepair = async (action: WordPressRepairAction, rows: WordPressPageIssueRow[], key: string) => {
+    setPending(key)
+    try {
+      const result = await repairWordPressPages(projectId, action, rows.map((row) => row.id))
+      const count = action === 'repush' ? result.queued : result.updated
+      toast.success(`${count} page${count !== 1 ? 's' : ''} ${ACTION_DONE[action]}`, {
+        description: result.neighboursQueued > 0
+          ? `${result.neighboursQueued} linking page${result.neighboursQueued !== 1 ? 's' : ''} queued to update their links`
+          : undefined,
+      })
+    } catch (error) {
+      toast.error(`Failed to ${ACTION_LABELS[action].toLowerCase()} pages`, {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
+    } finally {
+      setPending(null)
+      refresh()
+    }
+  }
+
+  const repushable = issues.filter((row) => WORDPRESS_REPAIR_ACTIONS[row.wp_issue].includes('repush'))
+  const relinkable = issues.filter((row) => row.wp_issue === 'url_changed')
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>WordPress Pages</CardTitle>
+            <CardDescription>
+              Pushed pages that were deleted, trashed, unpublished or moved in WordPress. Checked daily
+              {reconciledAt && `, last on ${new Date(reconciledAt).toLocaleString()}`}.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={handleCheck} disabled={isChecking} className="gap-1">
+            {isChecking ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Check WordPress
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="py-8 text-center text-muted-foreground">
+            <p>Loading...</p>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {error instanceof Error ? error.message : 'Failed to load WordPress issues'}
+          </p>
+        ) : issues.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Every pushed page is live in WordPress as GeoScale published it.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {repushable.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pending !== null}
+                  onClick={() => handleRepair('repush', repushable, 'repush:all')}
+                >
+                  {pending === 'repush:all' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Re-push All ({repushable.length})
+                </Button>
+              )}
+              {relinkable.length > 0 && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pending !== null}
+                  onClick={() => handleRepair('relink', relinkable, 'relink:all')}
+                >
+                  {pending === 'relink:all' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                  Relink All ({relinkable.length})
+                </Button>
+              )}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Page</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Found</TableHead>
+                  <TableHead>URL</TableHead>
+                  <TableHead className="text-right">Fix</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {issues.map((row) => {
+                  const url = row.wp_issue_url || row.wp_page_url
+                  return (
+                    <TableRow key={row.id}>
+                      <TableCell className="font-medium">
+                        <Link to={`/projects/${projectId}/content/${row.id}`} className="hover:underline">
+                          {row.phrase}
+                        </Link>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={row.wp_issue === 'url_changed' ? 'secondary' : 'destructive'}>
+                          {WORDPRESS_ISSUE_LABELS[row.wp_issue]}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {row.wp_issue_detected_at ? new Date(row.wp_issue_detected_at).toLocaleDateString() : '—'}
+                      </TableCell>
+                      <TableCell className="max-w-xs">
+                        {url ? (
+                          <a
+                            href={url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="inline-flex max-w-full items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                            title={url}
+                          >
+                            <span className="truncate">{url}</span>
+                            <ExternalLink className="h-3 w-3 shrink-0" />
+                          </a>
+                        ) : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          {WORDPRESS_REPAIR_ACTIONS[row.wp_issue].map((action) => (
+                            <Button
+                              key={action}
+                              size="sm"
+                              variant={action === 'reset' ? 'ghost' : 'outline'}
+                              disabled={pending !== null}
+                              onClick={() => handleRepair(action, [row], `${action}:${row.id}`)}
+                            >
+                              {pending === `${action}:${row.id}` && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                              {ACTION_LABELS[action]}
+                            </Button>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,50 @@
+import { useQuery } from '@tanstack/react-query'
+import { useAuth } from '@/hooks/useAuth'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getPromptTemplates, type PromptPageType } from '@/api/prompt-templates'
+
+interface PromptTemplateSelectProps {
+  pageType: PromptPageType
+  value: string | null | undefined
+  onChange: (templateId: string | null) => void
+  inheritLabel: string
+  disabled?: boolean
+}
+
+const INHERIT_VALUE = 'inherit'
+
+/**
+ * Picks one of the agency's prompt templates for a page type, or inherits
+ */
+export function PromptTemplateSelect({ pageType, value, onChange, inheritLabel, disabled }: PromptTemplateSelectProps) {
+  const { user } = useAuth()
+
+  const { data: templates } = useQuery({
+    queryKey: ['promptTemplates', user?.id],
+    queryFn: () => getPromptTemplates(user!.id),
+    enabled: !!user?.id,
+  })
+
+  const options = (templates || []).filter(t => t.page_type === pageType)
+
+  return (
+    <Select
+      value={value || INHERIT_VALUE}
+      onValueChange={(next) => onChange(next === INHERIT_VALUE ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder={inheritLabel} />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={INHERIT_VALUE}>{inheritLabel}</SelectItem>
+        {options.map((template) => (
+          <SelectItem key={template.id} value={template.id}>
+            {template.name}
+            {template.current_version ? ` (v${template.current_version.version_number})` : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -1,17 +1,79 @@
 import { useState, useEffect } from 'react'
-import { Loader2, Clock } from 'lucide-react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Loader2, Clock, AlertTriangle, RotateCcw, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
 import { supabase } from '@/lib/supabase'
 import { getGlobalQueueStats } from '@/api/content-queue'
+import {
+  discardFailedJobs,
+  getProjectDeadLetters,
+  QUEUE_LABELS,
+  retryFailedJobs,
+  type DeadLetterJob,
+  type DeadLetterRef,
+} from '@/api/queue-dead-letters'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 
 interface QueueStatusIndicatorProps {
   projectId: string
+  showQueueStats?: boolean
 }
 
-export function QueueStatusIndicator({ projectId }: QueueStatusIndicatorProps) {
+export function QueueStatusIndicator({ projectId, showQueueStats = true }: QueueStatusIndicatorProps) {
+  const queryClient = useQueryClient()
   const [queueStats, setQueueStats] = useState<{ queued: number; processing: number } | null>(null)
+  const [deadLettersOpen, setDeadLettersOpen] = useState(false)
+
+  const { data: deadLetters = [] } = useQuery({
+    queryKey: ['queueDeadLetters', projectId],
+    queryFn: () => getProjectDeadLetters(projectId),
+    refetchInterval: 15000,
+  })
+
+  const refreshAfterChange = () => {
+    queryClient.invalidateQueries({ queryKey: ['queueDeadLetters', projectId] })
+    queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+  }
+
+  const retryMutation = useMutation({
+    mutationFn: (jobs?: DeadLetterRef[]) => retryFailedJobs(projectId, jobs),
+    onSuccess: (retried) => {
+      refreshAfterChange()
+      toast.success(`Requeued ${retried} failed job${retried !== 1 ? 's' : ''}`)
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to retry jobs', { description: error.message })
+    },
+  })
+
+  const discardMutation = useMutation({
+    mutationFn: (jobs: DeadLetterRef[]) => discardFailedJobs(jobs),
+    onSuccess: (_, jobs) => {
+      refreshAfterChange()
+      toast.success(`Discarded ${jobs.length} failed job${jobs.length !== 1 ? 's' : ''}`)
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to discard jobs', { description: error.message })
+    },
+  })
+
+  const isBusy = retryMutation.isPending || discardMutation.isPending
 
   // Fetch queue stats and subscribe to real-time updates
   useEffect(() => {
+    if (!showQueueStats) {
+      setQueueStats(null)
+      return
+    }
+
     const fetchStats = async () => {
       try {
         const stats = await getGlobalQueueStats()
@@ -48,12 +110,95 @@ export function QueueStatusIndicator({ projectId }: QueueStatusIndicatorProps) {
       clearInterval(interval)
       supabase.removeChannel(channel)
     }
-  }, [projectId])
+  }, [projectId, showQueueStats])
+
+  const hasQueueStats = !!queueStats && (queueStats.queued > 0 || queueStats.processing > 0)
 
-  if (!queueStats || (queueStats.queued === 0 && queueStats.processing === 0)) {
+  if (!hasQueueStats && deadLetters.length === 0 && !deadLettersOpen) {
     return null
   }
 
+  return (
+    <div className="space-y-2">
+      {hasQueueStats && (
+        <QueueStats queued={queueStats.queued} processing={queueStats.processing} />
+      )}
+
+      {deadLetters.length > 0 && (
+        <div className="bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800 rounded-lg p-3 flex items-center gap-3">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4 text-red-600 dark:text-red-400" />
+            <span className="text-sm font-medium text-red-800 dark:text-red-200">
+              {deadLetters.length} failed job{deadLetters.length !== 1 ? 's' : ''}
+            </span>
+          </div>
+          <span className="text-xs text-red-700 dark:text-red-300">
+            Out of retries or failed with a permanent error
+          </span>
+          <div className="ml-auto flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDeadLettersOpen(true)}>
+              View
+            </Button>
+            <Button size="sm" onClick={() => retryMutation.mutate(undefined)} disabled={isBusy}>
+              {retryMutation.isPending ? (
+                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              ) : (
+                <RotateCcw className="h-3 w-3 mr-1" />
+              )}
+              Retry all failed
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Dialog open={deadLettersOpen} onOpenChange={setDeadLettersOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Failed Jobs</DialogTitle>
+            <DialogDescription>
+              Jobs that ran out of attempts or hit an error retrying can't fix. Retry them once the cause is
+              resolved, or discard them.
+            </DialogDescription>
+          </DialogHeader>
+
+          {deadLetters.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-6 text-center">No failed jobs</p>
+          ) : (
+            <div className="space-y-3">
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => discardMutation.mutate(deadLetters)}
+                  disabled={isBusy}
+                >
+                  <Trash2 className="h-3 w-3 mr-1" />
+                  Discard all
+                </Button>
+                <Button size="sm" onClick={() => retryMutation.mutate(undefined)} disabled={isBusy}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Retry all failed
+                </Button>
+              </div>
+
+              {deadLetters.map((job) => (
+                <DeadLetterRow
+                  key={`${job.queue}-${job.id}`}
+                  job={job}
+                  disabled={isBusy}
+                  onRetry={() => retryMutation.mutate([job])}
+                  onDiscard={() => discardMutation.mutate([job])}
+                />
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
+
+function QueueStats({ queued, processing }: { queued: number; processing: number }) {
   return (
     <div className="bg-blue-50 dark:bg-blue-950/30 border border-blue-200 dark:border-blue-800 rounded-lg p-3 flex items-center gap-3">
       <div className="flex items-center gap-2">
@@ -63,21 +208,74 @@ export function QueueStatusIndicator({ projectId }: QueueStatusIndicatorProps) {
         </span>
       </div>
       <div className="flex items-center gap-4 text-sm text-blue-700 dark:text-blue-300">
-        {queueStats.processing > 0 && (
+        {processing > 0 && (
           <span className="flex items-center gap-1">
-            <span className="font-semibold">{queueStats.processing}</span> processing
+            <span className="font-semibold">{processing}</span> processing
           </span>
         )}
-        {queueStats.queued > 0 && (
+        {queued > 0 && (
           <span className="flex items-center gap-1">
             <Clock className="h-3 w-3" />
-            <span className="font-semibold">{queueStats.queued}</span> waiting
+            <span className="font-semibold">{queued}</span> waiting
           </span>
         )}
         <span className="text-xs text-blue-600 dark:text-blue-400">
-          ~{Math.ceil((queueStats.queued * 12) / 60)} min remaining
+          ~{Math.ceil((queued * 12) / 60)} min remaining
         </span>
       </div>
     </div>
   )
 }
+
+interface DeadLetterRowProps {
+  job: DeadLetterJob
+  disabled: boolean
+  onRetry: () => void
+  onDiscard: () => void
+}
+
+function DeadLetterRow({ job, disabled, onRetry, onDiscard }: DeadLetterRowProps) {
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-start justify-between gap-3">
+        <div className="space-y-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{QUEUE_LABELS[job.queue]}</Badge>
+            <span className="font-medium truncate">{job.phrase || job.location_keyword_id}</span>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Failed {new Date(job.failed_at).toLocaleString()} after {job.attempts} of {job.max_attempts} attempts
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Button variant="ghost" size="sm" onClick={onDiscard} disabled={disabled}>
+            Discard
+          </Button>
+          <Button variant="outline" size="sm" onClick={onRetry} disabled={disabled}>
+            Retry
+          </Button>
+        </div>
+      </div>
+
+      {job.error_history.length > 0 ? (
+        <ol className="space-y-1 text-xs">
+          {job.error_history.map((entry, index) => (
+            <li key={index} className="flex gap-2">
+              <span className="text-muted-foreground shrink-0">
+                #{entry.attempt} · {new Date(entry.at).toLocaleTimeString()}
+              </span>
+              {entry.status_code !== null && (
+                <Badge variant={entry.retryable ? 'secondary' : 'destructive'} className="h-4 px-1 text-[10px]">
+                  {entry.status_code}
+                </Badge>
+              )}
+              <span className="text-red-700 dark:text-red-300 break-words">{entry.error}</span>
+            </li>
+          ))}
+        </ol>
+      ) : (
+        job.error_message && <p className="text-xs text-red-700 dark:text-red-300">{job.error_message}</p>
+      )}
+    </div>
+  )
+}
@@ -67,7 +67,6 @@ export function ResearchKeywordsDialog({
       const results = await getKeywordVariations({
         project_id: projectId,
         base_keyword: searchTerm.trim(),
-        location: 'GB',
         limit: 20,
       })
       setKeywordResults(results)
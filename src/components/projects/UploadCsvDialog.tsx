@@ -1,5 +1,5 @@
-import { useState } from 'react'
-import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import {
   Dialog,
   DialogContent,
@@ -10,9 +10,25 @@ import {
 } from '@/components/ui/dialog'
 import { Button } from '@/components/ui/button'
 import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { toast } from 'sonner'
-import { Upload, Download, FileText } from 'lucide-react'
-import { uploadCsvCombinations } from '@/api/combinations'
+import { Upload, Download, FileText, AlertCircle } from 'lucide-react'
+import {
+  CSV_IMPORT_FIELDS,
+  guessCsvColumnMapping,
+  uploadCsvCombinations,
+  validateCsvRows,
+  type CsvColumnMapping,
+  type CsvImportField,
+} from '@/api/combinations'
+import { geocodePendingLocations } from '@/api/google-places'
+import { getProjectServices } from '@/api/services'
+import { parseCsv, type CsvRecord } from '@/lib/csv'
+
+// Data rows shown in the preview
+const PREVIEW_ROWS = 5
+const NOT_MAPPED = 'none'
 
 interface UploadCsvDialogProps {
   projectId: string
@@ -24,17 +40,56 @@ export function UploadCsvDialog({ projectId, open, onOpenChange }: UploadCsvDial
   const queryClient = useQueryClient()
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [header, setHeader] = useState<string[]>([])
+  const [records, setRecords] = useState<CsvRecord[]>([])
+  const [mapping, setMapping] = useState<CsvColumnMapping>({})
+
+  const { data: services = [] } = useQuery({
+    queryKey: ['projectServices', projectId],
+    queryFn: () => getProjectServices(projectId),
+    enabled: open,
+  })
+
+  const validation = useMemo(
+    () => validateCsvRows(records, mapping, services.map(service => service.name)),
+    [records, mapping, services]
+  )
+
+  const missingRequired = CSV_IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === undefined)
 
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
-      return uploadCsvCombinations(projectId, file)
+    mutationFn: async () => {
+      return uploadCsvCombinations(projectId, validation.rows)
     },
     onSuccess: (data) => {
-      toast.success('CSV uploaded successfully!', {
-        description: `Created ${data.combinations_count} combinations from ${data.rows_processed} rows.`,
+      const skipped = validation.errors.length + data.errors.length
+      toast.success('CSV imported successfully!', {
+        description: `Created ${data.combinations_count} combinations from ${data.rows_processed} rows.${skipped > 0 ? ` ${skipped} row${skipped !== 1 ? 's' : ''} skipped.` : ''}`,
       })
+      if (data.errors.length > 0) {
+        toast.error(`${data.errors.length} row${data.errors.length !== 1 ? 's' : ''} could not be imported`, {
+          description: data.errors.slice(0, 3).map(error => `Line ${error.line}: ${error.message}`).join('\n'),
+        })
+      }
       queryClient.invalidateQueries({ queryKey: ['project', projectId] })
       queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+      queryClient.invalidateQueries({ queryKey: ['projectLocations', projectId] })
+
+      // Coordinates are looked up after the dialog closes
+      if (data.locations_to_geocode > 0) {
+        geocodePendingLocations(projectId)
+          .then((result) => {
+            queryClient.invalidateQueries({ queryKey: ['projectLocations', projectId] })
+            if (result.failed > 0 || result.remaining > 0) {
+              toast.warning(`Found coordinates for ${result.geocoded} of ${data.locations_to_geocode} new locations`, {
+                description: 'Check the spelling of the locations that could not be found',
+              })
+            }
+          })
+          .catch((error) => {
+            console.error('Failed to geocode imported locations:', error)
+          })
+      }
       handleClose()
     },
     onError: (error: Error) => {
@@ -44,31 +99,66 @@ export function UploadCsvDialog({ projectId, open, onOpenChange }: UploadCsvDial
     },
   })
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-        toast.error('Please select a CSV file')
+  const loadFile = async (file: File) => {
+    if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
+      toast.error('Please select a CSV file')
+      return
+    }
+
+    try {
+      const parsed = parseCsv(await file.text())
+      if (parsed.length < 2) {
+        toast.error('CSV file is empty or has no data rows')
         return
       }
       setSelectedFile(file)
+      setHeader(parsed[0].fields)
+      setRecords(parsed.slice(1))
+      setMapping(guessCsvColumnMapping(parsed[0].fields))
+    } catch (error) {
+      toast.error('Could not read the CSV file', {
+        description: error instanceof Error ? error.message : 'Unknown error',
+      })
     }
   }
 
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      loadFile(file)
+    }
+    e.target.value = ''
+  }
+
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
     
     const file = e.dataTransfer.files[0]
     if (file) {
-      if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-        toast.error('Please select a CSV file')
-        return
-      }
-      setSelectedFile(file)
+      loadFile(file)
     }
   }
 
+  const resetFile = () => {
+    setSelectedFile(null)
+    setHeader([])
+    setRecords([])
+    setMapping({})
+  }
+
+  const handleMappingChange = (field: CsvImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (value === NOT_MAPPED) {
+        delete next[field]
+      } else {
+        next[field] = Number(value)
+      }
+      return next
+    })
+  }
+
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(true)
@@ -84,36 +174,42 @@ export function UploadCsvDialog({ projectId, open, onOpenChange }: UploadCsvDial
       toast.error('Please select a CSV file')
       return
     }
-    uploadMutation.mutate(selectedFile)
+    if (missingRequired.length > 0) {
+      toast.error(`Choose a column for ${missingRequired.map(({ label }) => label.toLowerCase()).join(' and ')}`)
+      return
+    }
+    uploadMutation.mutate()
   }
 
   const handleClose = () => {
-    setSelectedFile(null)
+    resetFile()
     setIsDragging(false)
     onOpenChange(false)
   }
 
   const downloadTemplate = () => {
     // Create CSV template with comprehensive examples
-    const template = `location,keyword
-Doncaster,web design
-Doncaster,web design company
-Doncaster,web design agency
-Rotherham,web design
-Rotherham,website design
-Rotherham,web development
-Barnsley,web design
-Barnsley,web designers
-Barnsley,website developers
-Sheffield,web design
-Sheffield,web design services
-Sheffield,professional web design
-Wakefield,web design
-Wakefield,wordpress design
-Wakefield,custom web design
-Leeds,web design
-Leeds,web design company
-Leeds,website design agency`
+    const template = `location,keyword,parent_town
+Doncaster,web design,
+Doncaster,web design company,
+Doncaster,web design agency,
+Bessacarr,web design,Doncaster
+Bawtry,web design,Doncaster
+Rotherham,web design,
+Rotherham,website design,
+Rotherham,web development,
+Barnsley,web design,
+Barnsley,web designers,
+Barnsley,website developers,
+Sheffield,web design,
+Sheffield,web design services,
+Sheffield,professional web design,
+Wakefield,web design,
+Wakefield,wordpress design,
+Wakefield,custom web design,
+Leeds,web design,
+Leeds,web design company,
+Leeds,website design agency,`
 
     const blob = new Blob([template], { type: 'text/csv' })
     const url = window.URL.createObjectURL(blob)
@@ -130,11 +226,11 @@ Leeds,website design agency`
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent className="sm:max-w-[550px]">
+      <DialogContent className={selectedFile ? 'sm:max-w-[760px] max-h-[90vh] overflow-y-auto' : 'sm:max-w-[550px]'}>
         <DialogHeader>
           <DialogTitle>Upload CSV Combinations</DialogTitle>
           <DialogDescription>
-            Upload a CSV file with your specific location and keyword combinations. Download the template to see the required format.
+            Upload a CSV file with your specific location and keyword combinations. Download the template to see the format, then check how the columns are matched before importing.
           </DialogDescription>
         </DialogHeader>
 
@@ -189,7 +285,8 @@ Leeds,website design agency`
                       type="button"
                       variant="outline"
                       size="sm"
-                      onClick={() => setSelectedFile(null)}
+                      onClick={resetFile}
+                      disabled={uploadMutation.isPending}
                     >
                       Remove
                     </Button>
@@ -227,15 +324,117 @@ Leeds,website design agency`
               </div>
             </div>
 
-            {/* Format Info */}
-            <div className="text-xs text-muted-foreground space-y-2 bg-accent/30 p-4 rounded-lg">
-              <p className="font-medium">CSV Format:</p>
-              <ul className="list-disc list-inside space-y-1 ml-2">
-                <li><strong>location</strong> - Town or city name</li>
-                <li><strong>keyword</strong> - Service keyword</li>
-              </ul>
-              <p className="mt-2">Example: <code className="bg-background px-1 py-0.5 rounded">Doncaster,web design</code></p>
-            </div>
+            {selectedFile ? (
+              <>
+                {/* Column Mapping */}
+                <div>
+                  <Label className="text-sm text-muted-foreground font-normal block mb-3">
+                    Match Columns
+                  </Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {CSV_IMPORT_FIELDS.map(({ field, label, required }) => (
+                      <div key={field} className="flex items-center gap-2">
+                        <span className="w-28 shrink-0 text-sm">
+                          {label}
+                          {required && <span className="text-red-600"> *</span>}
+                        </span>
+                        <Select
+                          value={mapping[field] !== undefined ? String(mapping[field]) : NOT_MAPPED}
+                          onValueChange={(value) => handleMappingChange(field, value)}
+                          disabled={uploadMutation.isPending}
+                        >
+                          <SelectTrigger className="w-full">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NOT_MAPPED}>{required ? 'Choose a column' : 'Not in file'}</SelectItem>
+                            {header.map((column, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {column || `Column ${index + 1}`}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    Rows with a parent town become suburb pages under that town's page. Locations without a latitude and
+                    longitude are looked up after the import.
+                  </p>
+                </div>
+
+                {/* Preview */}
+                <div>
+                  <Label className="text-sm text-muted-foreground font-normal block mb-3">
+                    Preview ({records.length} row{records.length !== 1 ? 's' : ''})
+                  </Label>
+                  <div className="border rounded-lg overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Line</TableHead>
+                          {CSV_IMPORT_FIELDS.filter(({ field }) => mapping[field] !== undefined).map(({ field, label }) => (
+                            <TableHead key={field}>{label}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {records.slice(0, PREVIEW_ROWS).map((record) => (
+                          <TableRow key={record.line}>
+                            <TableCell className="text-muted-foreground">{record.line}</TableCell>
+                            {CSV_IMPORT_FIELDS.filter(({ field }) => mapping[field] !== undefined).map(({ field }) => (
+                              <TableCell key={field}>{record.fields[mapping[field]!]}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+
+                {/* Validation */}
+                {missingRequired.length === 0 && (
+                  <div className="text-sm space-y-2">
+                    <p>
+                      <strong>{validation.rows.length}</strong> row{validation.rows.length !== 1 ? 's' : ''} ready to import
+                      {validation.errors.length > 0 && (
+                        <>, <strong className="text-red-600">{validation.errors.length}</strong> will be skipped</>
+                      )}
+                    </p>
+                    {validation.errors.length > 0 && (
+                      <ul className="max-h-40 overflow-y-auto border rounded-lg p-3 space-y-1 text-xs">
+                        {validation.errors.map((error) => (
+                          <li key={error.line} className="flex items-start gap-2">
+                            <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0 text-red-600" />
+                            <span>
+                              <span className="font-medium">Line {error.line}:</span> {error.message}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </>
+            ) : (
+              /* Format Info */
+              <div className="text-xs text-muted-foreground space-y-2 bg-accent/30 p-4 rounded-lg">
+                <p className="font-medium">CSV Format:</p>
+                <ul className="list-disc list-inside space-y-1 ml-2">
+                  <li><strong>location</strong> - Town or city name</li>
+                  <li><strong>keyword</strong> - Service keyword</li>
+                  <li><strong>service</strong> (optional) - Name of one of the project's services</li>
+                  <li><strong>parent_town</strong> (optional) - Town the location is a suburb of</li>
+                  <li><strong>lat</strong>, <strong>lng</strong> (optional) - Coordinates; looked up when left out</li>
+                  <li><strong>search_volume</strong>, <strong>difficulty</strong> (optional) - Keyword metrics</li>
+                </ul>
+                <p className="mt-2">
+                  Example: <code className="bg-background px-1 py-0.5 rounded">"Richmond, North Yorkshire",web design</code>. Put
+                  values containing commas in double quotes.
+                </p>
+              </div>
+            )}
           </div>
 
           <DialogFooter>
@@ -251,9 +450,13 @@ Leeds,website design agency`
               type="submit"
               style={{ backgroundColor: 'var(--brand-dark)' }}
               className="hover:opacity-90 text-white"
-              disabled={!selectedFile || uploadMutation.isPending}
+              disabled={!selectedFile || missingRequired.length > 0 || validation.rows.length === 0 || uploadMutation.isPending}
             >
-              {uploadMutation.isPending ? 'Uploading...' : 'Upload & Create'}
+              {uploadMutation.isPending
+                ? 'Uploading...'
+                : selectedFile && missingRequired.length === 0
+                  ? `Import ${validation.rows.length} Row${validation.rows.length !== 1 ? 's' : ''}`
+                  : 'Upload & Create'}
             </Button>
           </DialogFooter>
         </form>
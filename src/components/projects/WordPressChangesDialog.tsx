@@ -0,0 +1,207 @@
+import { useMemo, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowDownToLine, ArrowUpToLine, ExternalLink, GitCompare, Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { getWordPressVersion, pullWordPressEdits } from '@/api/wordpress-sync'
+import { diffLines, htmlToLines, htmlToTextLines, summariseDiff } from '@/lib/text-diff'
+import { DiffCell } from '@/components/projects/PageRevisionHistory'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
+
+interface WordPressChangesDialogProps {
+  projectId: string
+  locationKeywordId: string
+  current: { title: string | null; content: string | null }
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onOverwrite: () => Promise<void>
+}
+
+type DiffMode = 'text' | 'html'
+
+/**
+ * Side-by-side diff of the GeoScale page against the version edited in
+ * WordPress, with the choice to keep either one
+ */
+export function WordPressChangesDialog({
+  projectId,
+  locationKeywordId,
+  current,
+  open,
+  onOpenChange,
+  onOverwrite,
+}: WordPressChangesDialogProps) {
+  const queryClient = useQueryClient()
+  const [mode, setMode] = useState<DiffMode>('text')
+  const [isOverwriting, setIsOverwriting] = useState(false)
+
+  const { data: version, isLoading, error } = useQuery({
+    queryKey: ['wordpressVersion', locationKeywordId],
+    queryFn: () => getWordPressVersion(projectId, locationKeywordId),
+    enabled: open,
+    staleTime: 0,
+  })
+
+  const rows = useMemo(() => {
+    if (!version) return []
+    const toLines = mode === 'html' ? htmlToLines : htmlToTextLines
+    return diffLines(toLines(current.content || ''), toLines(version.content || ''))
+  }, [current.content, version, mode])
+
+  const summary = summariseDiff(rows)
+  const titleChanged = !!version && (current.title || '') !== version.title
+
+  const pullMutation = useMutation({
+    mutationFn: async () => {
+      if (!version) throw new Error('The WordPress version is not loaded')
+      await pullWordPressEdits(version)
+    },
+    onSuccess: () => {
+      toast.success('WordPress edits pulled into GeoScale', {
+        description: 'The previous version is kept in the revision history',
+      })
+      onOpenChange(false)
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to pull WordPress edits', { description: error.message })
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
+      queryClient.invalidateQueries({ queryKey: ['wordpressChanges', locationKeywordId] })
+      queryClient.invalidateQueries({ queryKey: ['pageRevisions', locationKeywordId] })
+    },
+  })
+
+  const handleOverwrite = async () => {
+    setIsOverwriting(true)
+    try {
+      await onOverwrite()
+    } finally {
+      setIsOverwriting(false)
+    }
+  }
+
+  const busy = pullMutation.isPending || isOverwriting
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !busy && onOpenChange(next)}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Changed in WordPress
+          </DialogTitle>
+          <DialogDescription>
+            This page was edited in WordPress
+            {version?.modified_gmt && ` on ${new Date(version.modified_gmt).toLocaleString()}`} after GeoScale last
+            published it. Keep the WordPress version, or overwrite it with the GeoScale version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600 py-12 text-center">
+            {error instanceof Error ? error.message : 'Failed to load the WordPress version'}
+          </p>
+        ) : !version ? (
+          <p className="text-sm text-muted-foreground py-12 text-center">
+            WordPress no longer has this page. Publishing creates it again.
+          </p>
+        ) : (
+          <div className="flex flex-col min-h-0 flex-1 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <Tabs value={mode} onValueChange={(value) => setMode(value as DiffMode)}>
+                  <TabsList className="h-8">
+                    <TabsTrigger value="text" className="text-xs">Text</TabsTrigger>
+                    <TabsTrigger value="html" className="text-xs">HTML</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                {version.url && (
+                  <a
+                    href={version.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                    View in WordPress
+                  </a>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                <span className="text-green-600">+{summary.added}</span>{' '}
+                <span className="text-red-600">−{summary.removed}</span>{' '}
+                <span>~{summary.changed}</span> lines
+              </p>
+            </div>
+
+            <div className="overflow-y-auto border rounded-lg flex-1 min-h-0">
+              {titleChanged && (
+                <div className="border-b p-3">
+                  <div className="grid grid-cols-[120px_1fr_1fr] gap-2 text-xs">
+                    <span className="font-medium text-muted-foreground">Title</span>
+                    <span className="bg-red-50 dark:bg-red-950/40 px-2 py-1 rounded">{current.title || '—'}</span>
+                    <span className="bg-green-50 dark:bg-green-950/40 px-2 py-1 rounded">{version.title || '—'}</span>
+                  </div>
+                </div>
+              )}
+              <table className="w-full text-xs font-mono table-fixed">
+                <colgroup>
+                  <col className="w-8" />
+                  <col />
+                  <col className="w-8" />
+                  <col />
+                </colgroup>
+                <thead className="sticky top-0 bg-background border-b">
+                  <tr>
+                    <th colSpan={2} className="text-left p-2 font-sans font-medium">GeoScale</th>
+                    <th colSpan={2} className="text-left p-2 font-sans font-medium">WordPress</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => (
+                    <tr key={index} className="border-b border-border/40">
+                      <DiffCell line={row.left} />
+                      <DiffCell line={row.right} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={busy}>
+            Cancel
+          </Button>
+          <Button variant="outline" onClick={handleOverwrite} disabled={busy || isLoading}>
+            {isOverwriting ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <ArrowUpToLine className="mr-1 h-3 w-3" />}
+            Overwrite WordPress
+          </Button>
+          <Button
+            onClick={() => pullMutation.mutate()}
+            disabled={busy || !version}
+            style={{ backgroundColor: 'var(--brand-dark)' }}
+            className="hover:opacity-90 text-white"
+          >
+            {pullMutation.isPending ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <ArrowDownToLine className="mr-1 h-3 w-3" />}
+            Use WordPress Version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,5 @@
+/**
+ * The scoring rules live with the edge functions so the queue worker and the
+ * app can't drift apart; this re-export is the app's only way in.
+ */
+export * from '../../supabase/functions/_shared/content-scoring'
@@ -0,0 +1,98 @@
+/**
+ * CSV parsing (RFC 4180).
+ * Fields may be quoted; quoted fields can contain commas, line breaks and
+ * doubled quotes (""). Rows end with CRLF or LF, and blank lines are skipped.
+ */
+
+export class CsvParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`)
+    this.name = 'CsvParseError'
+  }
+}
+
+export interface CsvRecord {
+  line: number // line in the file where the record starts, from 1
+  fields: string[]
+}
+
+/**
+ * Parse CSV text into records, keeping the line each one starts on so errors
+ * can point at the right row
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = []
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text // Excel adds a BOM
+
+  let fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quotedField = false
+  let line = 1
+  let recordLine = 1
+
+  const endField = () => {
+    fields.push(quotedField ? field : field.trim())
+    field = ''
+    quotedField = false
+  }
+
+  const endRecord = () => {
+    endField()
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields })
+    }
+    fields = []
+    recordLine = line
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      if (field.trim() !== '') {
+        throw new CsvParseError('Unexpected quote inside an unquoted field', line)
+      }
+      field = ''
+      inQuotes = true
+      quotedField = true
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      line++
+      endRecord()
+    } else if (quotedField) {
+      // Only spaces may follow the closing quote
+      if (char.trim() !== '') {
+        throw new CsvParseError('Unexpected text after a closing quote', line)
+      }
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('Quoted field is never closed', recordLine)
+  }
+  if (field !== '' || fields.length > 0 || quotedField) {
+    endRecord()
+  }
+
+  return records
+}
@@ -0,0 +1,160 @@
+/**
+ * Drip publishing slots: spread pages over the days ahead, a fixed number per
+ * day, evenly across a daily window in the project's time zone.
+ */
+
+export interface DripSettings {
+  pagesPerDay: number
+  windowStart: number // hour of day, 0-23
+  windowEnd: number // hour of day, 1-24, after windowStart
+  timeZone: string // IANA name, e.g. Europe/London
+}
+
+export interface DripCandidate {
+  id: string
+  isSuburb: boolean
+  searchVolume: number | null
+  phrase: string
+}
+
+export const DEFAULT_DRIP_SETTINGS: DripSettings = {
+  pagesPerDay: 10,
+  windowStart: 9,
+  windowEnd: 17,
+  timeZone: 'Europe/London',
+}
+
+export const DRIP_TIME_ZONES: Record<string, string> = {
+  'Europe/London': 'London',
+  'Europe/Dublin': 'Dublin',
+  'Europe/Paris': 'Central Europe',
+  'America/New_York': 'US Eastern',
+  'America/Chicago': 'US Central',
+  'America/Denver': 'US Mountain',
+  'America/Los_Angeles': 'US Pacific',
+  'America/Toronto': 'Toronto',
+  'America/Vancouver': 'Vancouver',
+  'Australia/Sydney': 'Sydney / Melbourne',
+  'Australia/Brisbane': 'Brisbane',
+  'Australia/Adelaide': 'Adelaide',
+  'Australia/Perth': 'Perth',
+  'Pacific/Auckland': 'New Zealand',
+  'Africa/Johannesburg': 'South Africa',
+  'UTC': 'UTC',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date)
+
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+// How far the zone's wall clock is ahead of UTC at this instant
+function zoneOffsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone)
+  const wallClock = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return wallClock - (date.getTime() - date.getMilliseconds())
+}
+
+/**
+ * The instant a wall-clock time happens in a time zone. Minutes may run past
+ * midnight; times skipped by a DST change land an hour later.
+ */
+export function zonedTime(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes)
+  const first = wallClock - zoneOffsetMs(new Date(wallClock), timeZone)
+  const second = wallClock - zoneOffsetMs(new Date(first), timeZone)
+  return new Date(second)
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function localDateKey(date: Date, timeZone: string): string {
+  const p = zonedParts(date, timeZone)
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`
+}
+
+/**
+ * Midnight at the start of the instant's local day
+ */
+export function startOfLocalDay(date: Date, timeZone: string): Date {
+  const p = zonedParts(date, timeZone)
+  return zonedTime(p.year, p.month, p.day, 0, timeZone)
+}
+
+/**
+ * Towns before suburbs (a suburb links up to its town, so the town should be
+ * live first), then highest search volume, then alphabetical
+ */
+export function compareDripPriority(a: DripCandidate, b: DripCandidate): number {
+  if (a.isSuburb !== b.isSuburb) return a.isSuburb ? 1 : -1
+  const volumeA = a.searchVolume ?? -1
+  const volumeB = b.searchVolume ?? -1
+  if (volumeA !== volumeB) return volumeB - volumeA
+  return a.phrase.localeCompare(b.phrase)
+}
+
+/**
+ * The next `count` publish times after `now`. `releasedToday` pages already
+ * went out today and use up today's slots first.
+ */
+export function dripSlots(count: number, settings: DripSettings, now: Date, releasedToday = 0): Date[] {
+  const perDay = Math.max(1, Math.floor(settings.pagesPerDay))
+  const windowStart = Math.min(23, Math.max(0, settings.windowStart)) * 60
+  const windowEnd = Math.min(24, Math.max(settings.windowStart + 1, settings.windowEnd)) * 60
+  const spacing = (windowEnd - windowStart) / perDay
+
+  const today = zonedParts(now, settings.timeZone)
+  const todayUtc = Date.UTC(today.year, today.month - 1, today.day)
+  const slots: Date[] = []
+
+  for (let offset = 0; slots.length < count; offset++) {
+    const day = new Date(todayUtc + offset * DAY_MS)
+    for (let i = offset === 0 ? releasedToday : 0; i < perDay && slots.length < count; i++) {
+      const slot = zonedTime(
+        day.getUTCFullYear(),
+        day.getUTCMonth() + 1,
+        day.getUTCDate(),
+        windowStart + Math.floor(i * spacing),
+        settings.timeZone
+      )
+      if (slot > now) slots.push(slot)
+    }
+  }
+
+  return slots
+}
+
+/**
+ * Order the pages by priority and give each a publish time
+ */
+export function planDripSchedule(
+  candidates: DripCandidate[],
+  settings: DripSettings,
+  now: Date,
+  releasedToday = 0
+): Array<{ id: string; scheduledFor: Date }> {
+  const ordered = [...candidates].sort(compareDripPriority)
+  const slots = dripSlots(ordered.length, settings, now, releasedToday)
+  return ordered.map((candidate, i) => ({ id: candidate.id, scheduledFor: slots[i] }))
+}
@@ -0,0 +1,5 @@
+/**
+ * The link graph report comes from the edge functions' module, so the app
+ * reads the same node, edge and broken link shapes the link-graph function returns.
+ */
+export * from '../../supabase/functions/_shared/link-graph'
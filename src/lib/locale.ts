@@ -0,0 +1,5 @@
+/**
+ * Locale presets come from the edge functions' module, so the settings the
+ * app offers are the ones the workers and DataForSEO calls understand.
+ */
+export * from '../../supabase/functions/_shared/locale'
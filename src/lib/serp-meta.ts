@@ -0,0 +1,105 @@
+/**
+ * Meta titles and descriptions as they show in Google results. Google cuts
+ * titles and descriptions by pixel width rather than character count, so both
+ * are measured in the fonts its results use.
+ */
+
+export type MetaField = 'meta_title' | 'meta_description'
+
+export interface MetaLimits {
+  font: string
+  maxPixels: number
+  minChars: number
+  maxChars: number
+}
+
+export interface MetaMeasure {
+  chars: number
+  pixels: number
+  warnings: string[]
+}
+
+export const META_LIMITS: Record<MetaField, MetaLimits> = {
+  meta_title: { font: '20px Arial', maxPixels: 580, minChars: 30, maxChars: 60 },
+  meta_description: { font: '14px Arial', maxPixels: 920, minChars: 70, maxChars: 160 },
+}
+
+export const META_FIELD_LABELS: Record<MetaField, string> = {
+  meta_title: 'Meta title',
+  meta_description: 'Meta description',
+}
+
+export interface MetaPatternValues {
+  service: string
+  location: string
+  business: string
+  keyword: string
+  phrase: string
+}
+
+export const META_PATTERN_VARIABLES: Array<keyof MetaPatternValues> = ['service', 'location', 'business', 'keyword', 'phrase']
+
+let measureContext: CanvasRenderingContext2D | null | undefined
+
+// Average glyph width as a share of the font size, when there's no canvas
+const FALLBACK_CHAR_WIDTH = 0.55
+
+/**
+ * Width of the text in pixels when rendered in the given CSS font
+ */
+export function measureTextPixels(text: string, font: string): number {
+  if (measureContext === undefined) {
+    measureContext = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null
+  }
+  if (measureContext) {
+    measureContext.font = font
+    return Math.round(measureContext.measureText(text).width)
+  }
+  const size = parseInt(font, 10) || 16
+  return Math.round(text.length * size * FALLBACK_CHAR_WIDTH)
+}
+
+/**
+ * Length of a meta title or description, and what's wrong with it
+ */
+export function measureMeta(field: MetaField, value: string | null | undefined): MetaMeasure {
+  const text = (value || '').trim()
+  const limits = META_LIMITS[field]
+  const pixels = measureTextPixels(text, limits.font)
+  const warnings: string[] = []
+
+  if (!text) {
+    warnings.push('Empty')
+  } else {
+    if (pixels > limits.maxPixels) warnings.push(`Over ${limits.maxPixels}px, Google will cut it off`)
+    if (text.length > limits.maxChars) warnings.push(`Over ${limits.maxChars} characters`)
+    if (text.length < limits.minChars) warnings.push(`Under ${limits.minChars} characters`)
+  }
+
+  return { chars: text.length, pixels, warnings }
+}
+
+/**
+ * Fill a pattern such as "{service} in {location} | {business}". Unknown
+ * variables are left as typed; separators left dangling by empty values are
+ * dropped.
+ */
+export function renderMetaPattern(pattern: string, values: MetaPatternValues): string {
+  const filled = pattern.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? values[name as keyof MetaPatternValues] : match
+  )
+  return filled
+    .replace(/\s+/g, ' ')
+    .replace(/(\s*[|\-–—,:]\s*)+$/, '')
+    .replace(/^(\s*[|\-–—,:]\s*)+/, '')
+    .trim()
+}
+
+/**
+ * Replace every occurrence of find in text
+ */
+export function replaceText(text: string, find: string, replacement: string, caseSensitive = false): string {
+  if (!find) return text
+  const escaped = find.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return text.replace(new RegExp(escaped, caseSensitive ? 'g' : 'gi'), () => replacement)
+}
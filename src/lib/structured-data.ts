@@ -0,0 +1,5 @@
+/**
+ * JSON-LD is built with the edge functions' module, so pages rebuilt in the
+ * app match what the content worker stores.
+ */
+export * from '../../supabase/functions/_shared/structured-data'
@@ -0,0 +1,221 @@
+/**
+ * Side-by-side diffs for generated page content.
+ * Lines are matched with a longest-common-subsequence diff; lines that changed
+ * in place are paired up and diffed word by word so the edit is highlighted.
+ */
+
+export type DiffOp = 'equal' | 'added' | 'removed'
+
+export interface DiffPart {
+  op: DiffOp
+  value: string
+}
+
+export interface DiffLine {
+  number: number
+  parts: DiffPart[]
+}
+
+export interface DiffRow {
+  left: DiffLine | null
+  right: DiffLine | null
+  changed: boolean
+}
+
+export interface DiffSummary {
+  added: number
+  removed: number
+  changed: number
+}
+
+// Above this many LCS cells the changed middle is shown as a block replace
+const MAX_LCS_CELLS = 4_000_000
+
+const BLOCK_TAGS = 'h[1-6]|p|ul|ol|li|div|table|thead|tbody|tr|td|th|blockquote|section|article|figure|br'
+
+type Step<T> = { op: DiffOp; a?: T; b?: T }
+
+function diffSequences<T>(a: T[], b: T[]): Step<T>[] {
+  // Common prefix and suffix don't need the LCS table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const prefix: Step<T>[] = a.slice(0, start).map((value) => ({ op: 'equal', a: value, b: value }))
+  const suffix: Step<T>[] = a.slice(endA).map((value) => ({ op: 'equal', a: value, b: value }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...prefix,
+      ...midA.map((value): Step<T> => ({ op: 'removed', a: value })),
+      ...midB.map((value): Step<T> => ({ op: 'added', b: value })),
+      ...suffix,
+    ]
+  }
+
+  const n = midA.length
+  const m = midB.length
+  const table = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] = midA[i] === midB[j]
+        ? table[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1])
+    }
+  }
+
+  const middle: Step<T>[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (midA[i] === midB[j]) {
+      middle.push({ op: 'equal', a: midA[i], b: midB[j] })
+      i++
+      j++
+    } else if (table[(i + 1) * (m + 1) + j] >= table[i * (m + 1) + j + 1]) {
+      middle.push({ op: 'removed', a: midA[i++] })
+    } else {
+      middle.push({ op: 'added', b: midB[j++] })
+    }
+  }
+  while (i < n) middle.push({ op: 'removed', a: midA[i++] })
+  while (j < m) middle.push({ op: 'added', b: midB[j++] })
+
+  return [...prefix, ...middle, ...suffix]
+}
+
+function mergeParts(parts: DiffPart[]): DiffPart[] {
+  return parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1]
+    if (last && last.op === part.op) {
+      last.value += part.value
+    } else {
+      merged.push({ ...part })
+    }
+    return merged
+  }, [])
+}
+
+/**
+ * Word-level diff of two versions of the same line
+ */
+export function diffWords(oldLine: string, newLine: string): { left: DiffPart[]; right: DiffPart[] } {
+  const steps = diffSequences(oldLine.split(/(\s+)/), newLine.split(/(\s+)/))
+  const left: DiffPart[] = []
+  const right: DiffPart[] = []
+
+  for (const step of steps) {
+    if (step.op !== 'added') left.push({ op: step.op, value: step.a! })
+    if (step.op !== 'removed') right.push({ op: step.op, value: step.b! })
+  }
+
+  return { left: mergeParts(left), right: mergeParts(right) }
+}
+
+/**
+ * One line per block element of the HTML source
+ */
+export function htmlToLines(html: string): string[] {
+  return (html || '')
+    .replace(new RegExp(`\\s*(<(?:${BLOCK_TAGS})\\b[^>]*>)`, 'gi'), '\n$1')
+    .replace(new RegExp(`(</(?:${BLOCK_TAGS})>)\\s*`, 'gi'), '$1\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+/**
+ * One line of visible text per block element (tags stripped)
+ */
+export function htmlToTextLines(html: string): string[] {
+  return htmlToLines(html)
+    .map((line) =>
+      line
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter(Boolean)
+}
+
+/**
+ * Side-by-side rows for two versions. Runs of removed and added lines are
+ * paired so a line edited in place sits next to its new version.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffRow[] {
+  const steps = diffSequences(oldLines, newLines)
+  const rows: DiffRow[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let removed: string[] = []
+  let added: string[] = []
+
+  const flush = () => {
+    const count = Math.max(removed.length, added.length)
+    for (let k = 0; k < count; k++) {
+      const oldLine = removed[k]
+      const newLine = added[k]
+      if (oldLine !== undefined && newLine !== undefined) {
+        const words = diffWords(oldLine, newLine)
+        rows.push({
+          left: { number: ++leftNumber, parts: words.left },
+          right: { number: ++rightNumber, parts: words.right },
+          changed: true,
+        })
+      } else if (oldLine !== undefined) {
+        rows.push({ left: { number: ++leftNumber, parts: [{ op: 'removed', value: oldLine }] }, right: null, changed: true })
+      } else {
+        rows.push({ left: null, right: { number: ++rightNumber, parts: [{ op: 'added', value: newLine }] }, changed: true })
+      }
+    }
+    removed = []
+    added = []
+  }
+
+  for (const step of steps) {
+    if (step.op === 'removed') {
+      removed.push(step.a!)
+    } else if (step.op === 'added') {
+      added.push(step.b!)
+    } else {
+      flush()
+      rows.push({
+        left: { number: ++leftNumber, parts: [{ op: 'equal', value: step.a! }] },
+        right: { number: ++rightNumber, parts: [{ op: 'equal', value: step.b! }] },
+        changed: false,
+      })
+    }
+  }
+  flush()
+
+  return rows
+}
+
+/**
+ * Count added, removed and edited lines
+ */
+export function summariseDiff(rows: DiffRow[]): DiffSummary {
+  return rows.reduce<DiffSummary>(
+    (summary, row) => {
+      if (!row.changed) return summary
+      if (row.left && row.right) summary.changed++
+      else if (row.left) summary.removed++
+      else summary.added++
+      return summary
+    },
+    { added: 0, removed: 0, changed: 0 }
+  )
+}
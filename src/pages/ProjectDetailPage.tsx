@@ -10,12 +10,28 @@ import { AddLocationsDialog } from '@/components/projects/AddLocationsDialog'
 import { AddServiceDialog } from '@/components/projects/AddServiceDialog'
 import { ResearchKeywordsDialog } from '@/components/projects/ResearchKeywordsDialog'
 import { UploadCsvDialog } from '@/components/projects/UploadCsvDialog'
+import { ExportProjectDialog } from '@/components/projects/ExportProjectDialog'
+import { CloneProjectDialog } from '@/components/projects/CloneProjectDialog'
+import { ProjectDripSettings } from '@/components/projects/ProjectDripSettings'
+import { ProjectPublishMapping } from '@/components/projects/ProjectPublishMapping'
+import { ProjectPublishingCalendar } from '@/components/projects/ProjectPublishingCalendar'
+import { ProjectWordPressReconciliation } from '@/components/projects/ProjectWordPressReconciliation'
 import { CombinationsTable } from '@/components/projects/CombinationsTable'
 import { ProjectTestimonialsManager } from '@/components/projects/ProjectTestimonialsManager'
 import { ProjectTestimonialsAddButton } from '@/components/projects/ProjectTestimonialsAddButton'
 import { WordPressApiKeyDisplay } from '@/components/projects/WordPressApiKeyDisplay'
 import { ProjectServicesManager } from '@/components/projects/ProjectServicesManager'
 import { ProjectLocationsManager } from '@/components/projects/ProjectLocationsManager'
+import { ProjectLlmSettings } from '@/components/projects/ProjectLlmSettings'
+import { ProjectPromptTemplates } from '@/components/projects/ProjectPromptTemplates'
+import { ProjectCostBreakdown } from '@/components/projects/ProjectCostBreakdown'
+import { ProjectDuplicateSettings } from '@/components/projects/ProjectDuplicateSettings'
+import { ProjectScoringProfile } from '@/components/projects/ProjectScoringProfile'
+import { ProjectOptimiseSettings } from '@/components/projects/ProjectOptimiseSettings'
+import { ProjectLinkGraph } from '@/components/projects/ProjectLinkGraph'
+import { ProjectMetaEditor } from '@/components/projects/ProjectMetaEditor'
+import { ProjectLocaleSettings } from '@/components/projects/ProjectLocaleSettings'
+import { ProjectImageSettings } from '@/components/projects/ProjectImageSettings'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -30,7 +46,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog'
-import { ArrowLeft, Plus, Upload, AlertTriangle, Wand2, X, Loader2 } from 'lucide-react'
+import { ArrowLeft, Plus, Upload, Download, CopyPlus, AlertTriangle, Wand2, X, Loader2 } from 'lucide-react'
 import { getProject, updateProject } from '@/api/projects'
 import { getProjectCombinations, getTrackedCombinationsCount } from '@/api/combinations'
 import { generateCombinations } from '@/api/combination-generator'
@@ -41,13 +57,14 @@ import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
 import { generateWordPressApiKey } from '@/utils/api-key-generator'
 import { getCurrentUserPlan } from '@/lib/plan-service'
+import { resolveLocale } from '@/lib/locale'
 
 export function ProjectDetailPage() {
   const { projectId } = useParams<{ projectId: string }>()
   const navigate = useNavigate()
   const { user } = useAuth()
   const [searchParams, setSearchParams] = useSearchParams()
-  const currentView = (searchParams.get('view') as 'combinations' | 'services' | 'locations' | 'testimonials' | 'settings') || 'combinations'
+  const currentView = (searchParams.get('view') as 'combinations' | 'services' | 'locations' | 'testimonials' | 'links' | 'meta' | 'publishing' | 'settings') || 'combinations'
   const queryClient = useQueryClient()
   
   // Check if user is on individual plan (not agency)
@@ -63,6 +80,8 @@ export function ProjectDetailPage() {
   const [showAddServiceDialog, setShowAddServiceDialog] = useState(false)
   const [showResearchKeywordsDialog, setShowResearchKeywordsDialog] = useState(false)
   const [showUploadCsvDialog, setShowUploadCsvDialog] = useState(false)
+  const [showExportDialog, setShowExportDialog] = useState(false)
+  const [showCloneDialog, setShowCloneDialog] = useState(false)
   const [wpTemplates, setWpTemplates] = useState<Array<{ value: string; label: string }>>([])
   
   // Generate mode state (lifted from CombinationsTable for header buttons)
@@ -74,7 +93,7 @@ export function ProjectDetailPage() {
   const [isTestingConnection, setIsTestingConnection] = useState(false)
   const [isGeocodingTown, setIsGeocodingTown] = useState(false)
   
-  const setCurrentView = (view: 'combinations' | 'services' | 'locations' | 'testimonials' | 'settings') => {
+  const setCurrentView = (view: 'combinations' | 'services' | 'locations' | 'testimonials' | 'links' | 'meta' | 'publishing' | 'settings') => {
     setSearchParams({ view })
   }
 
@@ -254,7 +273,7 @@ export function ProjectDetailPage() {
     setIsGeocodingTown(true)
     try {
       const response = await fetch(
-        `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(townName + ', UK')}&key=${import.meta.env.VITE_GOOGLE_MAPS_API_KEY}`
+        `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(townName)}&components=country:${resolveLocale(project).country}&key=${import.meta.env.VITE_GOOGLE_MAPS_API_KEY}`
       )
       const data = await response.json()
 
@@ -282,6 +301,19 @@ export function ProjectDetailPage() {
     }
   }
 
+  const handleLlmSettingsUpdate = async (updates: Parameters<typeof updateProject>[1]) => {
+    try {
+      await updateProject(projectId, updates)
+      queryClient.invalidateQueries({ queryKey: ['project', projectId] })
+      toast.success('AI settings updated successfully')
+    } catch (error) {
+      toast.error('Error updating AI settings', {
+        description: error instanceof Error ? error.message : 'Failed to save',
+      })
+      throw error
+    }
+  }
+
   const handlePageTemplateUpdate = async (value: string) => {
     try {
       await updateProject(projectId, { wp_page_template: value })
@@ -304,7 +336,7 @@ export function ProjectDetailPage() {
       // Reset templates if WP settings are removed
       setWpTemplates([])
     }
-  }, [project?.blog_url, project?.wp_url, project?.wp_api_key])
+  }, [project?.blog_url, project?.wp_url, project?.wp_api_key, project?.wp_post_type])
 
   const loadWpTemplates = async () => {
     const wpUrl = project?.blog_url || project?.wp_url
@@ -312,7 +344,7 @@ export function ProjectDetailPage() {
     
     setLoadingTemplates(true)
     try {
-      const templates = await fetchWordPressTemplates(wpUrl, project.wp_api_key)
+      const templates = await fetchWordPressTemplates(wpUrl, project.wp_api_key, project.wp_post_type)
       setWpTemplates(templates)
       setWpConnectionVerified(true) // Successfully loaded templates = connection works
     } catch (error) {
@@ -385,32 +417,52 @@ export function ProjectDetailPage() {
                 </span>
               </p>
             </div>
-            {!isIndividualUser && (
-              <Button 
-                variant="outline" 
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
                 size="sm"
-                asChild
-                className="bg-transparent hover:bg-gray-100 text-black border-0 dark:bg-transparent dark:hover:bg-gray-700 dark:text-white dark:hover:text-white"
+                onClick={() => setShowExportDialog(true)}
               >
-                <Link to="/projects">
-                  <ArrowLeft className="mr-1 h-3 w-3" />
-                  Back to Projects
-                </Link>
+                <Download className="mr-1 h-3 w-3" />
+                Export
               </Button>
-            )}
-            {isIndividualUser && (
-              <Button 
-                variant="outline" 
-                size="sm"
-                asChild
-                className="bg-transparent hover:bg-gray-100 text-black border-0 dark:bg-transparent dark:hover:bg-gray-700 dark:text-white dark:hover:text-white"
-              >
-                <Link to="/dashboard">
-                  <ArrowLeft className="mr-1 h-3 w-3" />
-                  Back to Dashboard
-                </Link>
-              </Button>
-            )}
+              {!isIndividualUser && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowCloneDialog(true)}
+                >
+                  <CopyPlus className="mr-1 h-3 w-3" />
+                  Clone
+                </Button>
+              )}
+              {!isIndividualUser && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  asChild
+                  className="bg-transparent hover:bg-gray-100 text-black border-0 dark:bg-transparent dark:hover:bg-gray-700 dark:text-white dark:hover:text-white"
+                >
+                  <Link to="/projects">
+                    <ArrowLeft className="mr-1 h-3 w-3" />
+                    Back to Projects
+                  </Link>
+                </Button>
+              )}
+              {isIndividualUser && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  asChild
+                  className="bg-transparent hover:bg-gray-100 text-black border-0 dark:bg-transparent dark:hover:bg-gray-700 dark:text-white dark:hover:text-white"
+                >
+                  <Link to="/dashboard">
+                    <ArrowLeft className="mr-1 h-3 w-3" />
+                    Back to Dashboard
+                  </Link>
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* View switcher buttons */}
@@ -451,6 +503,33 @@ export function ProjectDetailPage() {
             >
               Testimonials
             </Button>
+            <Button
+              variant="outline"
+              onClick={() => setCurrentView('links')}
+              className={currentView === 'links' 
+                ? 'bg-white text-[#0b6074] font-bold border-gray-800 hover:bg-white hover:text-[#0b6074] dark:bg-white dark:text-[#0b6074] dark:font-bold dark:border-white dark:hover:bg-white dark:hover:text-[#0b6074]' 
+                : 'bg-white hover:bg-gray-50 text-gray-600 border-gray-300 dark:bg-[#3a3a3a] dark:text-white dark:border-[#3a3a3a] dark:hover:bg-[#4a4a4a]'}
+            >
+              Internal Links
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setCurrentView('meta')}
+              className={currentView === 'meta' 
+                ? 'bg-white text-[#0b6074] font-bold border-gray-800 hover:bg-white hover:text-[#0b6074] dark:bg-white dark:text-[#0b6074] dark:font-bold dark:border-white dark:hover:bg-white dark:hover:text-[#0b6074]' 
+                : 'bg-white hover:bg-gray-50 text-gray-600 border-gray-300 dark:bg-[#3a3a3a] dark:text-white dark:border-[#3a3a3a] dark:hover:bg-[#4a4a4a]'}
+            >
+              Meta Tags
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setCurrentView('publishing')}
+              className={currentView === 'publishing' 
+                ? 'bg-white text-[#0b6074] font-bold border-gray-800 hover:bg-white hover:text-[#0b6074] dark:bg-white dark:text-[#0b6074] dark:font-bold dark:border-white dark:hover:bg-white dark:hover:text-[#0b6074]' 
+                : 'bg-white hover:bg-gray-50 text-gray-600 border-gray-300 dark:bg-[#3a3a3a] dark:text-white dark:border-[#3a3a3a] dark:hover:bg-[#4a4a4a]'}
+            >
+              Publishing Schedule
+            </Button>
             <Button
               variant="outline"
               onClick={() => setCurrentView('settings')}
@@ -711,6 +790,8 @@ export function ProjectDetailPage() {
                       onSelectedIdsChange={setGenerateSelectedIds}
                       onGenerationTriggered={handleGenerationTriggered}
                       isGenerating={queueGenerationMutation.isPending}
+                      duplicateThreshold={project?.duplicate_similarity_threshold != null ? Number(project.duplicate_similarity_threshold) : undefined}
+                      dripPublishing={!!project?.drip_enabled}
                     />
                   </div>
                 )}
@@ -748,6 +829,27 @@ export function ProjectDetailPage() {
                   <ProjectTestimonialsManager projectId={projectId} />
                 </CardContent>
               </Card>
+            ) : currentView === 'links' ? (
+              <ProjectLinkGraph projectId={projectId} />
+            ) : currentView === 'meta' ? (
+              <ProjectMetaEditor projectId={projectId} />
+            ) : currentView === 'publishing' ? (
+              <div className="space-y-6">
+                <ProjectPublishingCalendar
+                  projectId={projectId}
+                  enabled={!!project?.drip_enabled}
+                  pagesPerDay={project?.drip_pages_per_day ?? null}
+                  windowStart={project?.drip_window_start ?? null}
+                  windowEnd={project?.drip_window_end ?? null}
+                  timeZone={project?.drip_timezone ?? null}
+                />
+                {project?.wp_api_key && (
+                  <ProjectWordPressReconciliation
+                    projectId={projectId}
+                    reconciledAt={project.wp_reconciled_at ?? null}
+                  />
+                )}
+              </div>
             ) : currentView === 'settings' ? (
             <Card>
               <CardHeader>
@@ -1024,6 +1126,98 @@ export function ProjectDetailPage() {
                       </div>
                 </div>
                 </div>
+
+                  <div className="mt-6">
+                    <ProjectPublishMapping
+                      projectId={projectId}
+                      wordpressUrl={project.blog_url || project.wp_url || null}
+                      apiKey={project.wp_api_key || null}
+                      urlStructure={project.wp_url_structure ?? null}
+                      postType={project.wp_post_type ?? null}
+                      parentId={project.wp_parent_id ?? null}
+                      authorId={project.wp_author_id ?? null}
+                      termMapping={project.wp_term_mapping ?? null}
+                      customFields={project.wp_custom_fields ?? null}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectDripSettings
+                      projectId={projectId}
+                      enabled={!!project.drip_enabled}
+                      pagesPerDay={project.drip_pages_per_day ?? null}
+                      windowStart={project.drip_window_start ?? null}
+                      windowEnd={project.drip_window_end ?? null}
+                      timeZone={project.drip_timezone ?? null}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectLocaleSettings
+                      country={project.locale_country ?? null}
+                      language={project.locale_language ?? null}
+                      spelling={project.locale_spelling ?? null}
+                      currency={project.locale_currency ?? null}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectImageSettings
+                      projectId={projectId}
+                      provider={project.image_provider ?? null}
+                      contentImagesPerPage={project.content_images_per_page ?? null}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectLlmSettings
+                      provider={project.llm_provider}
+                      model={project.llm_model}
+                      temperature={project.llm_temperature !== null && project.llm_temperature !== undefined ? Number(project.llm_temperature) : null}
+                      maxTokens={project.llm_max_tokens}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  {user && (
+                    <div className="mt-6">
+                      <ProjectPromptTemplates
+                        userId={user.id}
+                        townTemplateId={project.town_prompt_template_id}
+                        suburbTemplateId={project.suburb_prompt_template_id}
+                        onUpdate={handleLlmSettingsUpdate}
+                      />
+                    </div>
+                  )}
+
+                  <div className="mt-6">
+                    <ProjectDuplicateSettings
+                      threshold={project.duplicate_similarity_threshold !== null && project.duplicate_similarity_threshold !== undefined ? Number(project.duplicate_similarity_threshold) : null}
+                      autoRegenerate={!!project.auto_regenerate_duplicates}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectScoringProfile projectId={projectId} />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectOptimiseSettings
+                      projectId={projectId}
+                      targetScore={project.optimise_target_score ?? null}
+                      maxIterations={project.optimise_max_iterations ?? null}
+                      onUpdate={handleLlmSettingsUpdate}
+                    />
+                  </div>
+
+                  <div className="mt-6">
+                    <ProjectCostBreakdown projectId={projectId} onUpdate={handleLlmSettingsUpdate} />
+                  </div>
               </CardContent>
             </Card>
             ) : null}
@@ -1074,6 +1268,23 @@ export function ProjectDetailPage() {
         onOpenChange={setShowUploadCsvDialog}
       />
 
+      <ExportProjectDialog
+        projectId={projectId}
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+      />
+
+      {user && project && (
+        <CloneProjectDialog
+          key={projectId}
+          projectId={projectId}
+          projectName={project.company_name || project.project_name}
+          userId={user.id}
+          open={showCloneDialog}
+          onOpenChange={setShowCloneDialog}
+        />
+      )}
+
       {/* Status Change Confirmation Modal */}
       <Dialog open={showStatusModal} onOpenChange={setShowStatusModal}>
         <DialogContent>
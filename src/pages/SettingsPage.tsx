@@ -4,6 +4,7 @@ import { Navigation } from '@/components/Navigation'
 import { CompanySettingsForm } from '@/components/settings/CompanySettingsForm'
 import { TestimonialsManager } from '@/components/settings/TestimonialsManager'
 import { CreateClientDialog } from '@/components/agency/CreateClientDialog'
+import { RestoreProjectDialog } from '@/components/agency/RestoreProjectDialog'
 import { ProjectsList } from '@/components/agency/ProjectsList'
 import { getAgencyProjects } from '@/api/projects'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
@@ -26,9 +27,12 @@ function AgencyProjectsView({ userId }: { userId: string }) {
             Create and manage client projects as an Agency
           </p>
         </div>
-        {hasProjects && (
-          <CreateClientDialog userId={userId} />
-        )}
+        <div className="flex items-center gap-2">
+          <RestoreProjectDialog userId={userId} />
+          {hasProjects && (
+            <CreateClientDialog userId={userId} />
+          )}
+        </div>
       </div>
 
       {!hasProjects && (
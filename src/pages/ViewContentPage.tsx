@@ -6,11 +6,17 @@ import { InlineEdit } from '@/components/InlineEdit'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Progress } from '@/components/ui/progress'
-import { ArrowLeft, Loader2, RefreshCw, ArrowUpToLine, Sparkles, CheckCircle2, AlertCircle, ChevronLeft, ChevronRight, Map, TrendingUp } from 'lucide-react'
+import { ArrowLeft, Loader2, RefreshCw, ArrowUpToLine, Sparkles, CheckCircle2, AlertCircle, ChevronLeft, ChevronRight, Map, TrendingUp, History, Braces, AlertTriangle } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { generateContent, publishGeneratedPageToWordPress } from '@/api/content-generator'
 import { getCurrentUserPlan } from '@/lib/plan-service'
 import { useAuth } from '@/hooks/useAuth'
+import { PageRevisionHistory } from '@/components/projects/PageRevisionHistory'
+import { PageStructuredData } from '@/components/projects/PageStructuredData'
+import { WordPressChangesDialog } from '@/components/projects/WordPressChangesDialog'
+import { checkWordPressChanges } from '@/api/wordpress-sync'
+import { DEFAULT_TARGET_SCORE, getScoringContext, rescorePage, scorePage } from '@/api/content-scores'
+import { extractKeywordPart, optimisableChecks, type ScoreCheck } from '@/lib/content-scoring'
 import { toast } from 'sonner'
 
 export function ViewContentPage() {
@@ -28,6 +34,9 @@ export function ViewContentPage() {
   const [isRegenerating, setIsRegenerating] = useState(false)
   const [regenerateProgress, setRegenerateProgress] = useState(0)
   const [isPublishing, setIsPublishing] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showStructuredData, setShowStructuredData] = useState(false)
+  const [showWordPressChanges, setShowWordPressChanges] = useState(false)
 
   // Get user's plan to check if they can regenerate content
   const { data: userPlan } = useQuery({
@@ -42,6 +51,14 @@ export function ViewContentPage() {
   // Function to highlight keyword phrase and location in text
   const highlightText = (text: string, phrase: string | undefined, location: string | undefined): string => {
     if (!text) return text
+    // Only highlight text between tags, so attributes such as image alt text stay intact
+    return text
+      .split(/(<[^>]+>)/)
+      .map((part) => (part.startsWith('<') ? part : highlightTextSegment(part, phrase, location)))
+      .join('')
+  }
+
+  const highlightTextSegment = (text: string, phrase: string | undefined, location: string | undefined): string => {
     let result = text
     
     // Highlight location first (so phrase highlighting doesn't break location spans)
@@ -91,292 +108,6 @@ export function ViewContentPage() {
     return { keywordCount, locationCount }
   }
 
-  // SEO Score calculation
-  interface SEOScore {
-    score: number
-    grade: 'excellent' | 'good' | 'needs-work' | 'poor'
-    checks: {
-      name: string
-      passed: boolean
-      message: string
-      points: number
-    }[]
-  }
-
-  const calculateSEOScore = (
-    content: string,
-    title: string,
-    phrase: string | undefined,
-    location: string | undefined
-  ): SEOScore => {
-    const checks: SEOScore['checks'] = []
-    const plainText = content.replace(/<[^>]*>/g, ' ')
-    const wordCount = plainText.split(/\s+/).filter(w => w.length > 0).length
-    
-    // Extract keyword part
-    const keywordPart = location && phrase 
-      ? phrase.replace(new RegExp(`\\s*(in|for|near|around)\\s+${location.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gi'), '').trim() 
-      : phrase || ''
-
-    // 1. Content length (max 15 points)
-    const lengthPoints = wordCount >= 800 ? 15 : wordCount >= 500 ? 10 : wordCount >= 300 ? 5 : 0
-    checks.push({
-      name: 'Content Length',
-      passed: wordCount >= 500,
-      message: `${wordCount} words (${wordCount >= 800 ? 'excellent' : wordCount >= 500 ? 'good' : 'could be longer'})`,
-      points: lengthPoints
-    })
-
-    // 2. Keyword in title (max 15 points)
-    const keywordInTitle = keywordPart && title.toLowerCase().includes(keywordPart.toLowerCase())
-    checks.push({
-      name: 'Keyword in Title',
-      passed: !!keywordInTitle,
-      message: keywordInTitle ? 'Keyword found in title' : 'Keyword missing from title',
-      points: keywordInTitle ? 15 : 0
-    })
-
-    // 3. Location in title (max 10 points)
-    const locationInTitle = location && title.toLowerCase().includes(location.toLowerCase())
-    checks.push({
-      name: 'Location in Title',
-      passed: !!locationInTitle,
-      message: locationInTitle ? 'Location found in title' : 'Location missing from title',
-      points: locationInTitle ? 10 : 0
-    })
-
-    // 4. Keyword density (max 20 points) - aim for 3-6 mentions
-    const keywordCount = keywordPart ? (plainText.toLowerCase().match(new RegExp(keywordPart.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length : 0
-    const keywordDensityPoints = keywordCount >= 5 ? 20 : keywordCount >= 3 ? 15 : keywordCount >= 1 ? 5 : 0
-    checks.push({
-      name: 'Keyword Frequency',
-      passed: keywordCount >= 3,
-      message: `Keyword appears ${keywordCount} times (aim for 3-6)`,
-      points: keywordDensityPoints
-    })
-
-    // 5. Location density (max 15 points) - aim for 4-8 mentions
-    const locationCount = location ? (plainText.toLowerCase().match(new RegExp(location.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length : 0
-    const locationDensityPoints = locationCount >= 6 ? 15 : locationCount >= 4 ? 12 : locationCount >= 2 ? 6 : 0
-    checks.push({
-      name: 'Location Frequency',
-      passed: locationCount >= 4,
-      message: `Location appears ${locationCount} times (aim for 4-8)`,
-      points: locationDensityPoints
-    })
-
-    // 6. Keyword in first paragraph (max 10 points)
-    const firstPara = content.match(/<p[^>]*>(.*?)<\/p>/i)?.[1] || ''
-    const keywordInFirstPara = keywordPart && firstPara.toLowerCase().includes(keywordPart.toLowerCase())
-    checks.push({
-      name: 'Keyword in First Paragraph',
-      passed: !!keywordInFirstPara,
-      message: keywordInFirstPara ? 'Keyword in opening paragraph' : 'Add keyword to first paragraph',
-      points: keywordInFirstPara ? 10 : 0
-    })
-
-    // 7. Keyword in headings (max 15 points)
-    const headings = content.match(/<h[2-3][^>]*>(.*?)<\/h[2-3]>/gi) || []
-    const headingsWithKeyword = headings.filter(h => keywordPart && h.toLowerCase().includes(keywordPart.toLowerCase())).length
-    const headingPoints = headingsWithKeyword >= 2 ? 15 : headingsWithKeyword >= 1 ? 10 : 0
-    checks.push({
-      name: 'Keyword in Headings',
-      passed: headingsWithKeyword >= 1,
-      message: `${headingsWithKeyword} heading(s) contain keyword`,
-      points: headingPoints
-    })
-
-    const totalScore = checks.reduce((sum, check) => sum + check.points, 0)
-    const grade: SEOScore['grade'] = 
-      totalScore >= 80 ? 'excellent' : 
-      totalScore >= 60 ? 'good' : 
-      totalScore >= 40 ? 'needs-work' : 'poor'
-
-    return { score: totalScore, grade, checks }
-  }
-
-  // Suburb-specific Local Support Score calculation
-  interface LocalSupportScore {
-    score: number
-    grade: 'excellent' | 'good' | 'needs-work' | 'poor'
-    checks: {
-      name: string
-      passed: boolean
-      message: string
-      points: number
-      tooltip?: string
-    }[]
-  }
-
-  const calculateLocalSupportScore = (
-    content: string,
-    title: string,
-    phrase: string | undefined,
-    location: string | undefined
-  ): LocalSupportScore => {
-    const checks: LocalSupportScore['checks'] = []
-    const plainText = content.replace(/<[^>]*>/g, ' ')
-    const lowerPlainText = plainText.toLowerCase()
-    const wordCount = plainText.split(/\s+/).filter(w => w.length > 0).length
-    
-    // Extract keyword part
-    const keywordPart = location && phrase 
-      ? phrase.replace(new RegExp(`\\s*(in|for|near|around)\\s+${location.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gi'), '').trim() 
-      : phrase || ''
-
-    // 1. Content length - INVERTED: shorter is better for suburb pages (max 20 points)
-    // Ideal: 400-650 words, Green: 300-700, Amber: <300, Red: >800
-    let lengthPoints = 0
-    let lengthMessage = ''
-    if (wordCount >= 300 && wordCount <= 700) {
-      lengthPoints = 20
-      lengthMessage = `${wordCount} words (ideal for suburb support)`
-    } else if (wordCount < 300) {
-      lengthPoints = 10
-      lengthMessage = `${wordCount} words (could be slightly longer)`
-    } else if (wordCount <= 800) {
-      lengthPoints = 10
-      lengthMessage = `${wordCount} words (slightly long for suburb page)`
-    } else {
-      lengthPoints = 0
-      lengthMessage = `${wordCount} words (too long - risk of competing with town page)`
-    }
-    checks.push({
-      name: 'Content Length',
-      passed: wordCount >= 300 && wordCount <= 700,
-      message: lengthMessage,
-      points: lengthPoints,
-      tooltip: 'Suburb pages should be 300-700 words. Shorter content avoids competing with the main town page.'
-    })
-
-    // 2. Keyword in title (max 10 points)
-    const keywordInTitle = keywordPart && title.toLowerCase().includes(keywordPart.toLowerCase())
-    checks.push({
-      name: 'Keyword in Title',
-      passed: !!keywordInTitle,
-      message: keywordInTitle ? 'Keyword found in title' : 'Keyword missing from title',
-      points: keywordInTitle ? 10 : 0
-    })
-
-    // 3. Location in title (max 10 points)
-    const locationInTitle = location && title.toLowerCase().includes(location.toLowerCase())
-    checks.push({
-      name: 'Location in Title',
-      passed: !!locationInTitle,
-      message: locationInTitle ? 'Location found in title' : 'Location missing from title',
-      points: locationInTitle ? 10 : 0
-    })
-
-    // 4. Keyword frequency - CAPPED: 2-5 is ideal, penalty above 6 (max 15 points)
-    const keywordCount = keywordPart ? (lowerPlainText.match(new RegExp(keywordPart.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length : 0
-    let keywordPoints = 0
-    let keywordMessage = ''
-    if (keywordCount >= 2 && keywordCount <= 5) {
-      keywordPoints = 15
-      keywordMessage = `Keyword appears ${keywordCount} times (safe)`
-    } else if (keywordCount < 2) {
-      keywordPoints = 5
-      keywordMessage = `Keyword appears ${keywordCount} times (could add 1-2 more)`
-    } else if (keywordCount <= 6) {
-      keywordPoints = 10
-      keywordMessage = `Keyword appears ${keywordCount} times (slightly high)`
-    } else {
-      keywordPoints = 0
-      keywordMessage = `Keyword appears ${keywordCount} times (over-optimised)`
-    }
-    checks.push({
-      name: 'Keyword Frequency',
-      passed: keywordCount >= 2 && keywordCount <= 6,
-      message: keywordMessage,
-      points: keywordPoints,
-      tooltip: 'Suburb pages should have 2-5 keyword mentions. More than 6 risks over-optimisation.'
-    })
-
-    // 5. Location frequency - TIGHTER: 3-6 is ideal (max 15 points)
-    const locationCount = location ? (lowerPlainText.match(new RegExp(location.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')) || []).length : 0
-    let locationPoints = 0
-    let locationMessage = ''
-    if (locationCount >= 3 && locationCount <= 6) {
-      locationPoints = 15
-      locationMessage = `Location appears ${locationCount} times (safe)`
-    } else if (locationCount < 3) {
-      locationPoints = 8
-      locationMessage = `Location appears ${locationCount} times (could add 1-2 more)`
-    } else if (locationCount <= 8) {
-      locationPoints = 8
-      locationMessage = `Location appears ${locationCount} times (slightly high)`
-    } else {
-      locationPoints = 0
-      locationMessage = `Location appears ${locationCount} times (over-optimised)`
-    }
-    checks.push({
-      name: 'Location Frequency',
-      passed: locationCount >= 3 && locationCount <= 8,
-      message: locationMessage,
-      points: locationPoints,
-      tooltip: 'Suburb pages should have 3-6 location mentions. Once relevance is established, repetition is unnecessary.'
-    })
-
-    // 6. Heading usage - LIMIT: max 1 keyword heading is ideal (max 15 points)
-    const headings = content.match(/<h[2-3][^>]*>(.*?)<\/h[2-3]>/gi) || []
-    const headingsWithKeyword = headings.filter(h => keywordPart && h.toLowerCase().includes(keywordPart.toLowerCase())).length
-    let headingPoints = 0
-    let headingMessage = ''
-    if (headingsWithKeyword === 0) {
-      headingPoints = 15
-      headingMessage = 'No keyword headings (reduces footprint)'
-    } else if (headingsWithKeyword === 1) {
-      headingPoints = 15
-      headingMessage = '1 keyword heading (safe)'
-    } else {
-      headingPoints = 5
-      headingMessage = `${headingsWithKeyword} keyword headings (too many - footprint risk)`
-    }
-    checks.push({
-      name: 'Heading Usage',
-      passed: headingsWithKeyword <= 1,
-      message: headingMessage,
-      points: headingPoints,
-      tooltip: 'Suburb pages should have 0-1 keyword headings. More creates a footprint pattern at scale.'
-    })
-
-    // 7. Sales pressure detection - NEGATIVE: penalise aggressive language (max 15 points)
-    const salesTerms = ['best', 'leading', 'top', 'award-winning', 'premier', 'number one', '#1', 'guaranteed', 'unbeatable', 'cheapest', 'lowest price']
-    const foundSalesTerms = salesTerms.filter(term => lowerPlainText.includes(term))
-    const hasPricing = /\$|£|€|price|pricing|cost|quote|fee/i.test(plainText)
-    const hasTestimonial = /<blockquote|class="testimonial"|"testimonial/i.test(content)
-    
-    let salesPressure = 0
-    if (foundSalesTerms.length > 0) salesPressure += foundSalesTerms.length * 2
-    if (hasPricing) salesPressure += 3
-    if (hasTestimonial) salesPressure += 3
-    
-    let salesPoints = Math.max(0, 15 - salesPressure * 2)
-    let salesMessage = ''
-    if (salesPressure === 0) {
-      salesMessage = 'No aggressive sales language (ideal)'
-    } else if (salesPressure <= 3) {
-      salesMessage = 'Low sales pressure detected'
-    } else {
-      salesMessage = 'High sales pressure (reduce for suburb page)'
-    }
-    checks.push({
-      name: 'Sales Pressure',
-      passed: salesPressure <= 3,
-      message: salesMessage,
-      points: salesPoints,
-      tooltip: 'Suburb pages should avoid aggressive sales language, pricing, and full testimonials.'
-    })
-
-    const totalScore = checks.reduce((sum, check) => sum + check.points, 0)
-    const grade: LocalSupportScore['grade'] = 
-      totalScore >= 80 ? 'excellent' : 
-      totalScore >= 60 ? 'good' : 
-      totalScore >= 40 ? 'needs-work' : 'poor'
-
-    return { score: totalScore, grade, checks }
-  }
-
   // State for enhancing content
   const [isEnhancing, setIsEnhancing] = useState(false)
   
@@ -458,6 +189,7 @@ export function ViewContentPage() {
             phrase,
             status,
             parent_location_id,
+            wp_page_id,
             location:project_locations!location_id(name),
             keyword:keyword_variations!keyword_id(keyword)
           )
@@ -471,6 +203,24 @@ export function ViewContentPage() {
     enabled: !!locationKeywordId,
   })
 
+  // Edits made to the published page in WordPress since it was last pushed
+  const { data: wordpressChanges } = useQuery({
+    queryKey: ['wordpressChanges', locationKeywordId],
+    queryFn: () => checkWordPressChanges(projectId, [locationKeywordId]),
+    enabled: hasWordPressConnection && !!content?.location_keyword?.wp_page_id,
+    staleTime: 60000,
+    retry: false,
+  })
+
+  const wordpressChange = wordpressChanges?.changed.find(change => change.location_keyword_id === locationKeywordId)
+
+  // Scoring profile and contact details the score cards are calculated with
+  const { data: scoringContext } = useQuery({
+    queryKey: ['scoringContext', projectId],
+    queryFn: () => getScoringContext(projectId),
+    enabled: !!projectId,
+  })
+
   // Subscribe to real-time updates for location_keywords status changes
   useEffect(() => {
     if (!locationKeywordId || !isRegenerating) return
@@ -521,10 +271,13 @@ export function ViewContentPage() {
     mutationFn: async ({ field, value }: { field: string; value: string }) => {
       const { error } = await supabase
         .from('generated_pages')
-        .update({ [field]: value, updated_at: new Date().toISOString() })
+        .update({ [field]: value, content_source: 'manual_edit', updated_at: new Date().toISOString() })
         .eq('location_keyword_id', locationKeywordId)
 
       if (error) throw error
+      if (field === 'content' || field === 'title') {
+        await rescorePage(locationKeywordId)
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
@@ -627,19 +380,33 @@ export function ViewContentPage() {
     navigate(`/projects/${projectId}?view=combinations`)
   }
 
-  const handlePublishToWordPress = async () => {
+  // Ask before overwriting edits made in WordPress; force skips the question
+  const handlePublishToWordPress = async (force = false) => {
+    if (wordpressChange && !force) {
+      setShowWordPressChanges(true)
+      return
+    }
+
     setIsPublishing(true)
     toast.info('Publishing to WordPress...')
     
     try {
-      const result = await publishGeneratedPageToWordPress(locationKeywordId, projectId)
+      const result = await publishGeneratedPageToWordPress(locationKeywordId, projectId, { force })
       
       if (result.success) {
         toast.success('Successfully published to WordPress!', {
           description: result.page_url ? `View page: ${result.page_url}` : undefined,
         })
+        setShowWordPressChanges(false)
         queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
         queryClient.invalidateQueries({ queryKey: ['projectCombinations', projectId] })
+        queryClient.invalidateQueries({ queryKey: ['wordpressChanges', locationKeywordId] })
+      } else if (result.conflict) {
+        toast.warning('This page was edited in WordPress', {
+          description: 'Review the changes before overwriting them',
+        })
+        queryClient.invalidateQueries({ queryKey: ['wordpressChanges', locationKeywordId] })
+        setShowWordPressChanges(true)
       } else {
         toast.error('Failed to publish to WordPress', {
           description: result.error,
@@ -699,11 +466,13 @@ export function ViewContentPage() {
           .from('generated_pages')
           .update({ 
             content: result.enhancedContent, 
+            content_source: 'enhance',
             updated_at: new Date().toISOString() 
           })
           .eq('location_keyword_id', locationKeywordId)
 
         if (error) throw error
+        await rescorePage(locationKeywordId)
 
         queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
         toast.success('Content enhanced with more keywords!')
@@ -719,51 +488,15 @@ export function ViewContentPage() {
   }
 
   // Handle optimise suburb content - fixes failed Local Support Score checks
-  const handleOptimiseSuburb = async (failedChecks: { name: string; message: string; points: number }[]) => {
+  const handleOptimiseSuburb = async (failedChecks: ScoreCheck[]) => {
     if (!content) return
     
     setIsOptimising(true)
     toast.info('Optimising suburb content...')
     
     try {
-      const phrase = content.location_keyword?.phrase
       const location = content.location_keyword?.location?.name
-      const keywordPart = location && phrase 
-        ? phrase.replace(new RegExp(`\\s*(in|for|near|around)\\s+${location.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gi'), '').trim() 
-        : phrase || ''
-
-      const { keywordCount, locationCount } = countOccurrences(content.content, phrase, location)
-      const plainText = content.content.replace(/<[^>]*>/g, ' ')
-      const wordCount = plainText.split(/\s+/).filter((w: string) => w.length > 0).length
-      
-      // Count keyword headings
-      const headings = content.content.match(/<h[2-3][^>]*>(.*?)<\/h[2-3]>/gi) || []
-      const headingsWithKeyword = headings.filter((h: string) => keywordPart && h.toLowerCase().includes(keywordPart.toLowerCase())).length
-
-      // Build failed checks with current values for the AI
-      const checksWithValues = failedChecks.map(check => {
-        const result: { name: string; message: string; currentValue?: number; targetValue?: number } = {
-          name: check.name,
-          message: check.message
-        }
-        
-        switch (check.name) {
-          case 'Content Length':
-            result.currentValue = wordCount
-            break
-          case 'Keyword Frequency':
-            result.currentValue = keywordCount
-            break
-          case 'Location Frequency':
-            result.currentValue = locationCount
-            break
-          case 'Heading Usage':
-            result.currentValue = headingsWithKeyword
-            break
-        }
-        
-        return result
-      })
+      const keywordPart = extractKeywordPart(content.location_keyword?.phrase, location)
 
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/optimise-suburb-content`, {
         method: 'POST',
@@ -772,10 +505,13 @@ export function ViewContentPage() {
           'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`,
         },
         body: JSON.stringify({
+          projectId,
+          locationKeywordId,
           content: content.content,
           keyword: keywordPart,
           location: location,
-          failedChecks: checksWithValues,
+          pageType: 'suburb',
+          failedChecks,
         }),
       })
 
@@ -792,11 +528,13 @@ export function ViewContentPage() {
           .from('generated_pages')
           .update({ 
             content: result.optimisedContent, 
+            content_source: 'ai_optimise',
             updated_at: new Date().toISOString() 
           })
           .eq('location_keyword_id', locationKeywordId)
 
         if (error) throw error
+        await rescorePage(locationKeywordId)
 
         queryClient.invalidateQueries({ queryKey: ['generatedContent', locationKeywordId] })
         toast.success(`Content optimised! ${result.message || ''}`)
@@ -924,6 +662,26 @@ export function ViewContentPage() {
         </Card>
       )}
 
+      {/* Edited in WordPress since the last push */}
+      {wordpressChange && (
+        <div className="flex items-center justify-between gap-4 rounded-lg border border-amber-300 bg-amber-50 dark:border-amber-800 dark:bg-amber-900/30 p-4">
+          <div className="flex items-start gap-3">
+            <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium">Changed in WordPress</p>
+              <p className="text-sm text-muted-foreground">
+                This page was edited in WordPress
+                {wordpressChange.modified_gmt && ` on ${new Date(wordpressChange.modified_gmt).toLocaleString('en-GB')}`}.
+                Republishing would overwrite those edits.
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowWordPressChanges(true)}>
+            Review Changes
+          </Button>
+        </div>
+      )}
+
       {/* Main Two-Column Layout */}
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Left Column - H1 Title + Content (wider) */}
@@ -1144,6 +902,14 @@ export function ViewContentPage() {
                   font-weight: inherit;
                 }
               `}</style>
+              {content.featured_image_url && (
+                <img
+                  src={content.featured_image_url}
+                  alt={content.featured_image_alt || ''}
+                  title={content.featured_image_alt || undefined}
+                  className="w-full max-h-72 object-cover rounded-md mb-6"
+                />
+              )}
               <div 
                 className="content-preview"
                 dangerouslySetInnerHTML={{ 
@@ -1181,7 +947,7 @@ export function ViewContentPage() {
             <CardContent className="space-y-3">
               <div className="grid grid-cols-2 gap-2">
                 <Button
-                  onClick={handlePublishToWordPress}
+                  onClick={() => handlePublishToWordPress()}
                   disabled={isPublishing || isRegenerating || !hasWordPressConnection}
                   variant="outline"
                   size="sm"
@@ -1243,6 +1009,24 @@ export function ViewContentPage() {
                   Map Pack
                 </Button>
               </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowHistory(true)}
+                className="w-full gap-1 text-xs"
+              >
+                <History className="h-3 w-3" />
+                Revision History
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowStructuredData(true)}
+                className="w-full gap-1 text-xs"
+              >
+                <Braces className="h-3 w-3" />
+                Structured Data
+              </Button>
               {!hasWordPressConnection && (
                 <p className="text-xs text-gray-400 text-center">
                   <button onClick={() => navigate(`/projects/${projectId}?view=settings`)} className="underline hover:text-[var(--brand-dark)]">Connect WordPress</button>
@@ -1257,12 +1041,7 @@ export function ViewContentPage() {
             
             if (isSuburbPage) {
               // Local Support Score for suburb pages
-              const localScore = calculateLocalSupportScore(
-                content.content,
-                content.title,
-                content.location_keyword?.phrase,
-                content.location_keyword?.location?.name
-              )
+              const localScore = scorePage(content, scoringContext)
               
               const getScoreColor = (score: number) => {
                 if (score >= 70) return '#22c55e'
@@ -1319,9 +1098,15 @@ export function ViewContentPage() {
                       </div>
                     </div>
                     
+                    {content.pre_optimise_score !== null && content.pre_optimise_score !== undefined && (
+                      <p className="text-xs text-center text-muted-foreground">
+                        Auto-optimised from {content.pre_optimise_score} in {content.optimise_iterations} pass{content.optimise_iterations !== 1 ? 'es' : ''} when generated
+                      </p>
+                    )}
+
                     {/* Optimise Button - only show if there are failed checks */}
                     {(() => {
-                      const failedChecks = localScore.checks.filter(c => !c.passed)
+                      const failedChecks = optimisableChecks(localScore)
                       if (failedChecks.length > 0) {
                         return (
                           <Button
@@ -1375,12 +1160,7 @@ export function ViewContentPage() {
               )
             } else {
               // Standard SEO Score for town/main pages
-              const seoScore = calculateSEOScore(
-                content.content,
-                content.title,
-                content.location_keyword?.phrase,
-                content.location_keyword?.location?.name
-              )
+              const seoScore = scorePage(content, scoringContext)
               
               const getScoreColor = (score: number) => {
                 if (score >= 70) return '#22c55e'
@@ -1431,8 +1211,14 @@ export function ViewContentPage() {
                       </div>
                     </div>
 
-                    {/* Enhance Button */}
-                    {seoScore.score < 70 && (
+                    {content.pre_optimise_score !== null && content.pre_optimise_score !== undefined && (
+                      <p className="text-xs text-center text-muted-foreground">
+                        Auto-optimised from {content.pre_optimise_score} in {content.optimise_iterations} pass{content.optimise_iterations !== 1 ? 'es' : ''} when generated
+                      </p>
+                    )}
+
+                    {/* Enhance Button - below the project's optimise target */}
+                    {seoScore.score < (scoringContext?.targetScore ?? DEFAULT_TARGET_SCORE) && (
                       <Button
                         onClick={handleEnhanceKeywords}
                         disabled={isEnhancing}
@@ -1558,6 +1344,31 @@ export function ViewContentPage() {
         </div>
       </div>
       </div>
+
+      <PageRevisionHistory
+        projectId={projectId}
+        locationKeywordId={locationKeywordId}
+        current={content}
+        canRepush={hasWordPressConnection && content.location_keyword?.status === 'pushed'}
+        open={showHistory}
+        onOpenChange={setShowHistory}
+      />
+
+      <PageStructuredData
+        locationKeywordId={locationKeywordId}
+        page={content}
+        open={showStructuredData}
+        onOpenChange={setShowStructuredData}
+      />
+
+      <WordPressChangesDialog
+        projectId={projectId}
+        locationKeywordId={locationKeywordId}
+        current={content}
+        open={showWordPressChanges}
+        onOpenChange={setShowWordPressChanges}
+        onOverwrite={() => handlePublishToWordPress(true)}
+      />
     </div>
   )
 }
@@ -0,0 +1,209 @@
+/**
+ * Rewrites a generated page to fix the checks it failed in content-scoring.ts,
+ * loads a project's scoring profile and maps a score onto the generated_pages
+ * columns.
+ *
+ * optimiseToTarget loops score -> fix -> re-score until the page reaches the
+ * project's target score, nothing fixable is left, a pass makes the page worse
+ * (that rewrite is thrown away) or the pass limit is hit.
+ */
+
+import type { LlmProvider } from "./llm-providers.ts";
+import {
+  buildOptimiseInstructions,
+  buildOptimisePrompt,
+  mergeScoringProfiles,
+  optimisableChecks,
+  scoreContent,
+  type ContentScore,
+  type ScoringInput,
+  type ScoringPageType,
+  type ScoringProfile,
+  type ScoringRuleset,
+} from "./content-scoring.ts";
+
+export const DEFAULT_OPTIMISE_TARGET_SCORE = 80;
+export const DEFAULT_OPTIMISE_MAX_ITERATIONS = 2;
+
+export interface OptimiseContext {
+  keyword: string;
+  location: string;
+  pageType: ScoringPageType;
+  phoneNumber?: string | null;
+  contactUrl?: string | null;
+}
+
+export interface OptimiseSettings {
+  targetScore: number;
+  maxIterations: number; // 0 turns auto-optimising off
+}
+
+export interface OptimiseIteration {
+  iteration: number;
+  scoreBefore: number;
+  scoreAfter: number;
+  fixed: string[]; // Names of the checks the pass was asked to fix
+  kept: boolean; // false when the rewrite scored lower and was discarded
+}
+
+export interface OptimiseResult {
+  content: string;
+  initialScore: ContentScore;
+  score: ContentScore;
+  iterations: OptimiseIteration[];
+}
+
+export interface PageScoreFields {
+  score: number;
+  score_grade: string;
+  score_ruleset: string;
+  score_checks: ContentScore["checks"];
+  scored_at: string;
+  pre_optimise_score?: number | null;
+  optimise_iterations?: number;
+}
+
+/**
+ * The project's scoring profile applied over its agency's. Falls back to the
+ * built-in rules (an empty profile) when the profiles can't be read.
+ */
+export async function loadScoringProfile(supabase: any, projectId: string): Promise<ScoringProfile> {
+  const { data, error } = await supabase.rpc("get_scoring_profiles", { p_project_id: projectId });
+
+  if (error) {
+    console.error("Failed to load scoring profile, using the built-in rules:", error);
+    return {};
+  }
+  return mergeScoringProfiles(data?.agency, data?.project);
+}
+
+/**
+ * generated_pages columns for a score, and for the optimisation run that produced it
+ */
+export function pageScoreFields(score: ContentScore, optimisation?: OptimiseResult): PageScoreFields {
+  const fields: PageScoreFields = {
+    score: score.score,
+    score_grade: score.grade,
+    score_ruleset: score.ruleset,
+    score_checks: score.checks,
+    scored_at: new Date().toISOString(),
+  };
+
+  if (optimisation) {
+    const optimised = optimisation.iterations.some((iteration) => iteration.kept);
+    fields.pre_optimise_score = optimised ? optimisation.initialScore.score : null;
+    fields.optimise_iterations = optimisation.iterations.length;
+  }
+  return fields;
+}
+
+/**
+ * Ask the model to fix the page's failed checks. Returns the original content
+ * when nothing can be fixed or the model call fails.
+ */
+export async function optimiseContent(
+  llm: LlmProvider,
+  content: string,
+  score: ContentScore,
+  context: OptimiseContext,
+  logPrefix = ""
+): Promise<string> {
+  const instructions = buildOptimiseInstructions(optimisableChecks(score), context);
+  if (instructions.length === 0) return content;
+
+  try {
+    const result = await llm.complete([{ role: "user", content: buildOptimisePrompt(content, instructions, context.pageType) }], {
+      max_tokens: 4000,
+      temperature: 0.3,
+      title: "GeoScale Auto-Optimiser",
+      operation: "optimise",
+    });
+
+    if (result.text) {
+      console.log(`✨ ${logPrefix}Auto-optimised ${context.pageType} content: applied ${instructions.length} fix(es)`);
+      return result.text;
+    }
+  } catch (error) {
+    console.error(`${logPrefix}Auto-optimise error:`, error);
+  }
+
+  return content;
+}
+
+/**
+ * The project's auto-optimise target and pass limit
+ */
+export function optimiseSettings(project: { optimise_target_score?: number | null; optimise_max_iterations?: number | null } | null | undefined): OptimiseSettings {
+  return {
+    targetScore: project?.optimise_target_score ?? DEFAULT_OPTIMISE_TARGET_SCORE,
+    maxIterations: project?.optimise_max_iterations ?? DEFAULT_OPTIMISE_MAX_ITERATIONS,
+  };
+}
+
+/**
+ * Score the page, then rewrite and re-score it until it reaches the target.
+ * Returns the best version found with its score and a record of every pass.
+ */
+export async function optimiseToTarget(
+  llm: LlmProvider,
+  input: ScoringInput,
+  ruleset: ScoringRuleset,
+  context: OptimiseContext,
+  settings: OptimiseSettings,
+  logPrefix = ""
+): Promise<OptimiseResult> {
+  const initialScore = scoreContent(input, ruleset);
+  const iterations: OptimiseIteration[] = [];
+  let content = input.content;
+  let score = initialScore;
+  console.log(`📊 ${logPrefix}${ruleset.label}: ${score.score}/100 (target ${settings.targetScore})`);
+
+  for (let iteration = 1; iteration <= settings.maxIterations; iteration++) {
+    const fixable = optimisableChecks(score);
+    if (score.score >= settings.targetScore || fixable.length === 0) break;
+
+    const rewritten = await optimiseContent(llm, content, score, context, logPrefix);
+    if (rewritten === content) break; // The model call failed
+
+    const rescored = scoreContent({ ...input, content: rewritten }, ruleset);
+    const kept = rescored.score >= score.score;
+    iterations.push({
+      iteration,
+      scoreBefore: score.score,
+      scoreAfter: rescored.score,
+      fixed: fixable.map((check) => check.name),
+      kept,
+    });
+    console.log(`📊 ${logPrefix}Optimise pass ${iteration}/${settings.maxIterations}: ${score.score} -> ${rescored.score}${kept ? "" : " (worse, discarded)"}`);
+
+    if (!kept) break;
+    content = rewritten;
+    score = rescored;
+  }
+
+  return { content, initialScore, score, iterations };
+}
+
+/**
+ * Keep a record of an optimisation run so its effect can be measured.
+ * Failures are logged, never thrown: the page itself is already saved.
+ */
+export async function recordOptimisationRun(
+  supabase: any,
+  run: { projectId: string; locationKeywordId: string; pageType: ScoringPageType; targetScore: number; result: OptimiseResult }
+): Promise<void> {
+  const { error } = await supabase.from("content_optimisation_runs").insert({
+    project_id: run.projectId,
+    location_keyword_id: run.locationKeywordId,
+    page_type: run.pageType,
+    ruleset: run.result.score.ruleset,
+    target_score: run.targetScore,
+    initial_score: run.result.initialScore.score,
+    final_score: run.result.score.score,
+    iterations: run.result.iterations,
+  });
+
+  if (error) {
+    console.error("Failed to record optimisation run:", error);
+  }
+}
@@ -0,0 +1,599 @@
+/**
+ * Content scoring shared by the queue worker, generate-content, the
+ * optimiser and the app (through src/lib/content-scoring.ts).
+ *
+ * A ruleset is plain data: a weight and target range per check. Town pages
+ * are scored for SEO (more keyword coverage is better), suburb pages for
+ * "local support" (lighter, capped frequencies, no sales pressure). A custom
+ * ruleset is one of those with some rules overridden. A check with weight 0
+ * (or nothing to look for) is skipped, and the total is always scaled to 0-100.
+ *
+ * Projects and agencies keep their overrides in a scoring profile, one set
+ * per page type. The project's profile is applied over the agency's.
+ *
+ * This file must stay free of imports and runtime-specific APIs so that both
+ * Deno and Vite can load it.
+ */
+
+export type ScoringRulesetName = "town" | "suburb" | "custom";
+export type ScoringPageType = "town" | "suburb";
+export type ScoreGrade = "excellent" | "good" | "needs-work" | "poor";
+
+export type ScoreCheckId =
+  | "content_length"
+  | "keyword_in_title"
+  | "location_in_title"
+  | "keyword_frequency"
+  | "location_frequency"
+  | "keyword_in_first_paragraph"
+  | "keyword_headings"
+  | "sales_pressure"
+  | "banned_phrases"
+  | "required_elements";
+
+// low / high say which way the optimiser has to move the value
+export type ScoreCheckState = "ok" | "low" | "slightly_high" | "high";
+
+export interface RangeRule {
+  weight: number;
+  min: number;
+  max: number | null; // NULL = no upper limit
+}
+
+export interface PresenceRule {
+  weight: number;
+}
+
+export interface SalesPressureRule {
+  weight: number;
+  terms: string[];
+  penalisePricing: boolean;
+  penaliseTestimonials: boolean;
+  maxPressure: number; // Highest pressure that still passes
+}
+
+export interface PhraseListRule {
+  weight: number;
+  phrases: string[];
+}
+
+export interface RequiredElementsRule {
+  weight: number;
+  phone: boolean;
+  contactLink: boolean;
+}
+
+export interface ScoringRules {
+  contentLength: RangeRule;
+  keywordInTitle: PresenceRule;
+  locationInTitle: PresenceRule;
+  keywordFrequency: RangeRule;
+  locationFrequency: RangeRule;
+  keywordInFirstParagraph: PresenceRule;
+  keywordHeadings: RangeRule;
+  salesPressure: SalesPressureRule;
+  bannedPhrases: PhraseListRule;
+  requiredElements: RequiredElementsRule;
+}
+
+export type ScoringRuleOverrides = { [K in keyof ScoringRules]?: Partial<ScoringRules[K]> };
+
+export type ScoringProfile = { [P in ScoringPageType]?: ScoringRuleOverrides };
+
+export interface ScoringRuleset {
+  name: ScoringRulesetName;
+  label: string;
+  pageType: ScoringPageType;
+  rules: ScoringRules;
+}
+
+export interface ScoreCheck {
+  id: ScoreCheckId;
+  name: string;
+  passed: boolean;
+  state: ScoreCheckState;
+  points: number;
+  maxPoints: number;
+  message: string;
+  tooltip?: string;
+  currentValue?: number;
+  target?: { min: number; max: number | null };
+  found?: string[]; // Sales terms or banned phrases that were found, or required elements that are missing
+}
+
+export interface ContentScore {
+  ruleset: ScoringRulesetName;
+  score: number; // 0-100
+  grade: ScoreGrade;
+  checks: ScoreCheck[];
+}
+
+export interface ScoringInput {
+  content: string;
+  title: string;
+  phrase?: string | null;
+  location?: string | null;
+  phoneNumber?: string | null;
+  contactUrl?: string | null;
+}
+
+export const DEFAULT_SALES_TERMS = [
+  "best",
+  "leading",
+  "top",
+  "award-winning",
+  "premier",
+  "number one",
+  "#1",
+  "guaranteed",
+  "unbeatable",
+  "cheapest",
+  "lowest price",
+];
+
+export const TOWN_RULESET: ScoringRuleset = {
+  name: "town",
+  label: "SEO Score",
+  pageType: "town",
+  rules: {
+    contentLength: { weight: 15, min: 800, max: null },
+    keywordInTitle: { weight: 15 },
+    locationInTitle: { weight: 10 },
+    keywordFrequency: { weight: 20, min: 3, max: null },
+    locationFrequency: { weight: 15, min: 4, max: null },
+    keywordInFirstParagraph: { weight: 10 },
+    keywordHeadings: { weight: 15, min: 1, max: null },
+    salesPressure: { weight: 0, terms: DEFAULT_SALES_TERMS, penalisePricing: false, penaliseTestimonials: false, maxPressure: 3 },
+    bannedPhrases: { weight: 10, phrases: [] },
+    requiredElements: { weight: 10, phone: false, contactLink: false },
+  },
+};
+
+export const SUBURB_RULESET: ScoringRuleset = {
+  name: "suburb",
+  label: "Local Support Score",
+  pageType: "suburb",
+  rules: {
+    contentLength: { weight: 20, min: 300, max: 700 },
+    keywordInTitle: { weight: 10 },
+    locationInTitle: { weight: 10 },
+    keywordFrequency: { weight: 15, min: 2, max: 5 },
+    locationFrequency: { weight: 15, min: 3, max: 6 },
+    keywordInFirstParagraph: { weight: 0 },
+    keywordHeadings: { weight: 15, min: 0, max: 1 },
+    salesPressure: { weight: 15, terms: DEFAULT_SALES_TERMS, penalisePricing: true, penaliseTestimonials: true, maxPressure: 3 },
+    bannedPhrases: { weight: 10, phrases: [] },
+    requiredElements: { weight: 10, phone: false, contactLink: false },
+  },
+};
+
+const CHECK_NAMES: Record<ScoreCheckId, string> = {
+  content_length: "Content Length",
+  keyword_in_title: "Keyword in Title",
+  location_in_title: "Location in Title",
+  keyword_frequency: "Keyword Frequency",
+  location_frequency: "Location Frequency",
+  keyword_in_first_paragraph: "Keyword in First Paragraph",
+  keyword_headings: "Keyword in Headings",
+  sales_pressure: "Sales Pressure",
+  banned_phrases: "Banned Phrases",
+  required_elements: "Required Elements",
+};
+
+// Checks the content optimiser can fix (it rewrites the HTML body, not the title)
+const OPTIMISABLE_CHECKS: ScoreCheckId[] = [
+  "content_length",
+  "keyword_frequency",
+  "location_frequency",
+  "keyword_in_first_paragraph",
+  "keyword_headings",
+  "sales_pressure",
+  "banned_phrases",
+  "required_elements",
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function countMatches(text: string, term: string): number {
+  if (!term) return 0;
+  return (text.match(new RegExp(escapeRegExp(term.toLowerCase()), "g")) || []).length;
+}
+
+// Whole-word (or whole-phrase) match in lowercased text
+function containsTerm(lowerText: string, term: string): boolean {
+  const lowerTerm = term.trim().toLowerCase();
+  if (!lowerTerm) return false;
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(lowerTerm)}($|[^\\p{L}\\p{N}])`, "u").test(lowerText);
+}
+
+function hasPhoneNumber(content: string, plainText: string, phoneNumber: string): boolean {
+  if (/href=["']tel:/i.test(content)) return true;
+  const digits = phoneNumber.replace(/\D/g, "");
+  // The project's own number in any formatting, else anything that looks like a phone number
+  return digits.length >= 6
+    ? new RegExp(digits.split("").join("[\\s().+-]*")).test(plainText)
+    : /\+?\d[\d\s().-]{6,}\d/.test(plainText);
+}
+
+function hasContactLink(content: string, contactUrl: string): boolean {
+  const normalise = (url: string) => url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/\/+$/, "");
+  const target = normalise(contactUrl);
+  const hrefs = [...content.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi)].map((match) => normalise(match[1]));
+  return hrefs.some((href) => (target && href === target) || /contact|^mailto:|^tel:/.test(href));
+}
+
+function formatRange(min: number, max: number | null): string {
+  return max === null ? `${min}+` : min === max ? `${min}` : `${min}-${max}`;
+}
+
+/**
+ * The keyword part of a phrase: "plumber in Bondi" -> "plumber"
+ */
+export function extractKeywordPart(phrase: string | null | undefined, location: string | null | undefined): string {
+  if (!phrase) return "";
+  if (!location) return phrase;
+  return phrase.replace(new RegExp(`\\s*(in|for|near|around)\\s+${escapeRegExp(location)}`, "gi"), "").trim();
+}
+
+export function stripHtml(html: string): string {
+  return (html || "").replace(/<[^>]*>/g, " ");
+}
+
+export function countWords(html: string): number {
+  return stripHtml(html).split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+/**
+ * A built-in ruleset with some rules overridden. Returns the base ruleset
+ * unchanged when there is nothing to override.
+ */
+export function customiseRuleset(base: ScoringRuleset, overrides?: ScoringRuleOverrides | null): ScoringRuleset {
+  if (!overrides || Object.keys(overrides).length === 0) return base;
+
+  const rules = { ...base.rules } as Record<keyof ScoringRules, unknown>;
+  for (const key of Object.keys(overrides) as Array<keyof ScoringRules>) {
+    rules[key] = { ...base.rules[key], ...overrides[key] };
+  }
+  return { ...base, name: "custom", rules: rules as unknown as ScoringRules };
+}
+
+/**
+ * Apply scoring profiles in order, later profiles winning rule by rule and field by field
+ */
+export function mergeScoringProfiles(...profiles: Array<ScoringProfile | null | undefined>): ScoringProfile {
+  const merged: ScoringProfile = {};
+
+  for (const profile of profiles) {
+    if (!profile) continue;
+    for (const pageType of ["town", "suburb"] as ScoringPageType[]) {
+      const overrides = profile[pageType];
+      if (!overrides) continue;
+      const target = { ...merged[pageType] } as Record<string, object>;
+      for (const [key, value] of Object.entries(overrides)) {
+        target[key] = { ...target[key], ...value };
+      }
+      merged[pageType] = target as ScoringRuleOverrides;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Ruleset for a page: town or suburb, optionally customised
+ */
+export function resolveScoringRuleset(pageType: ScoringPageType, overrides?: ScoringRuleOverrides | null): ScoringRuleset {
+  return customiseRuleset(pageType === "suburb" ? SUBURB_RULESET : TOWN_RULESET, overrides);
+}
+
+export function scoreGrade(score: number): ScoreGrade {
+  return score >= 80 ? "excellent" : score >= 60 ? "good" : score >= 40 ? "needs-work" : "poor";
+}
+
+function rangeCheck(
+  id: ScoreCheckId,
+  rule: RangeRule,
+  value: number,
+  describe: (value: number) => string,
+  labels: Record<ScoreCheckState, string>,
+  tooltip: string
+): ScoreCheck {
+  let state: ScoreCheckState = "ok";
+  let points = rule.weight;
+
+  if (value < rule.min) {
+    state = "low";
+    points = rule.min > 0 ? (rule.weight * value) / rule.min : 0;
+  } else if (rule.max !== null && value > rule.max) {
+    const tolerance = Math.max(1, Math.round(rule.max * 0.25));
+    state = value <= rule.max + tolerance ? "slightly_high" : "high";
+    points = state === "slightly_high" ? rule.weight / 2 : 0;
+  }
+
+  return {
+    id,
+    name: CHECK_NAMES[id],
+    passed: state === "ok",
+    state,
+    points: Math.round(points),
+    maxPoints: rule.weight,
+    message: `${describe(value)} (${labels[state]})`,
+    tooltip,
+    currentValue: value,
+    target: { min: rule.min, max: rule.max },
+  };
+}
+
+function presenceCheck(id: ScoreCheckId, rule: PresenceRule, present: boolean, found: string, missing: string): ScoreCheck {
+  return {
+    id,
+    name: CHECK_NAMES[id],
+    passed: present,
+    state: present ? "ok" : "low",
+    points: present ? rule.weight : 0,
+    maxPoints: rule.weight,
+    message: present ? found : missing,
+  };
+}
+
+/**
+ * Score a page against a ruleset
+ */
+export function scoreContent(input: ScoringInput, ruleset: ScoringRuleset): ContentScore {
+  const { rules } = ruleset;
+  const content = input.content || "";
+  const title = (input.title || "").toLowerCase();
+  const location = (input.location || "").trim();
+  const keyword = extractKeywordPart(input.phrase, location);
+  const lowerKeyword = keyword.toLowerCase();
+  const lowerLocation = location.toLowerCase();
+  const plainText = stripHtml(content);
+  const lowerPlainText = plainText.toLowerCase();
+  const isSuburb = ruleset.pageType === "suburb";
+  const checks: ScoreCheck[] = [];
+
+  if (rules.contentLength.weight > 0) {
+    const { min, max } = rules.contentLength;
+    checks.push(rangeCheck(
+      "content_length",
+      rules.contentLength,
+      countWords(content),
+      (words) => `${words} words`,
+      {
+        ok: isSuburb ? "ideal for suburb support" : "good length",
+        low: "could be longer",
+        slightly_high: isSuburb ? "slightly long for suburb page" : "slightly long",
+        high: isSuburb ? "too long - risk of competing with town page" : "too long",
+      },
+      `Aim for ${formatRange(min, max)} words.${isSuburb ? " Shorter content avoids competing with the main town page." : ""}`
+    ));
+  }
+
+  if (rules.keywordInTitle.weight > 0) {
+    const present = !!lowerKeyword && title.includes(lowerKeyword);
+    checks.push(presenceCheck("keyword_in_title", rules.keywordInTitle, present, "Keyword found in title", "Keyword missing from title"));
+  }
+
+  if (rules.locationInTitle.weight > 0) {
+    const present = !!lowerLocation && title.includes(lowerLocation);
+    checks.push(presenceCheck("location_in_title", rules.locationInTitle, present, "Location found in title", "Location missing from title"));
+  }
+
+  if (rules.keywordFrequency.weight > 0) {
+    const { min, max } = rules.keywordFrequency;
+    checks.push(rangeCheck(
+      "keyword_frequency",
+      rules.keywordFrequency,
+      countMatches(lowerPlainText, lowerKeyword),
+      (count) => `Keyword appears ${count} times`,
+      { ok: `aim for ${formatRange(min, max)}`, low: "could add more", slightly_high: "slightly high", high: "over-optimised" },
+      `Aim for ${formatRange(min, max)} keyword mentions.${max !== null ? " More risks over-optimisation." : ""}`
+    ));
+  }
+
+  if (rules.locationFrequency.weight > 0) {
+    const { min, max } = rules.locationFrequency;
+    checks.push(rangeCheck(
+      "location_frequency",
+      rules.locationFrequency,
+      countMatches(lowerPlainText, lowerLocation),
+      (count) => `Location appears ${count} times`,
+      { ok: `aim for ${formatRange(min, max)}`, low: "could add more", slightly_high: "slightly high", high: "over-optimised" },
+      `Aim for ${formatRange(min, max)} location mentions.${max !== null ? " Once relevance is established, repetition is unnecessary." : ""}`
+    ));
+  }
+
+  if (rules.keywordInFirstParagraph.weight > 0) {
+    const firstParagraph = (content.match(/<p[^>]*>([\s\S]*?)<\/p>/i)?.[1] || "").toLowerCase();
+    const present = !!lowerKeyword && firstParagraph.includes(lowerKeyword);
+    checks.push(presenceCheck(
+      "keyword_in_first_paragraph",
+      rules.keywordInFirstParagraph,
+      present,
+      "Keyword in opening paragraph",
+      "Add keyword to first paragraph"
+    ));
+  }
+
+  if (rules.keywordHeadings.weight > 0) {
+    const { min, max } = rules.keywordHeadings;
+    const headings = content.match(/<h[2-3][^>]*>([\s\S]*?)<\/h[2-3]>/gi) || [];
+    checks.push(rangeCheck(
+      "keyword_headings",
+      rules.keywordHeadings,
+      headings.filter((heading) => !!lowerKeyword && heading.toLowerCase().includes(lowerKeyword)).length,
+      (count) => `${count} keyword heading${count !== 1 ? "s" : ""}`,
+      { ok: `aim for ${formatRange(min, max)}`, low: "add the keyword to a heading", slightly_high: "too many - footprint risk", high: "too many - footprint risk" },
+      `Aim for ${formatRange(min, max)} H2/H3 headings containing the keyword.${max !== null ? " More creates a footprint pattern at scale." : ""}`
+    ));
+  }
+
+  if (rules.salesPressure.weight > 0) {
+    const rule = rules.salesPressure;
+    const found = rule.terms.filter((term) => containsTerm(lowerPlainText, term));
+    const hasPricing = rule.penalisePricing && /\$|£|€|price|pricing|cost|quote|fee/i.test(plainText);
+    const hasTestimonial = rule.penaliseTestimonials && /<blockquote|class="testimonial"|"testimonial/i.test(content);
+    const pressure = found.length * 2 + (hasPricing ? 3 : 0) + (hasTestimonial ? 3 : 0);
+    const passed = pressure <= rule.maxPressure;
+
+    checks.push({
+      id: "sales_pressure",
+      name: CHECK_NAMES.sales_pressure,
+      passed,
+      state: passed ? "ok" : "high",
+      points: Math.max(0, rule.weight - pressure * 2),
+      maxPoints: rule.weight,
+      message: pressure === 0
+        ? "No aggressive sales language (ideal)"
+        : passed
+          ? "Low sales pressure detected"
+          : `High sales pressure${found.length > 0 ? ` (${found.join(", ")})` : ""}`,
+      tooltip: "Avoid aggressive sales language, pricing and full testimonials.",
+      currentValue: pressure,
+      found,
+    });
+  }
+
+  if (rules.bannedPhrases.weight > 0 && rules.bannedPhrases.phrases.length > 0) {
+    const rule = rules.bannedPhrases;
+    const found = rule.phrases.filter((phrase) => containsTerm(lowerPlainText, phrase));
+    const passed = found.length === 0;
+
+    checks.push({
+      id: "banned_phrases",
+      name: CHECK_NAMES.banned_phrases,
+      passed,
+      state: passed ? "ok" : "high",
+      points: passed ? rule.weight : 0,
+      maxPoints: rule.weight,
+      message: passed ? "No banned phrases" : `Banned phrases used (${found.join(", ")})`,
+      tooltip: "Phrases the scoring profile does not allow on this page.",
+      currentValue: found.length,
+      found,
+    });
+  }
+
+  if (rules.requiredElements.weight > 0 && (rules.requiredElements.phone || rules.requiredElements.contactLink)) {
+    const rule = rules.requiredElements;
+    const missing: string[] = [];
+    if (rule.phone && !hasPhoneNumber(content, plainText, input.phoneNumber || "")) missing.push("phone number");
+    if (rule.contactLink && !hasContactLink(content, input.contactUrl || "")) missing.push("contact link");
+    const required = (rule.phone ? 1 : 0) + (rule.contactLink ? 1 : 0);
+
+    checks.push({
+      id: "required_elements",
+      name: CHECK_NAMES.required_elements,
+      passed: missing.length === 0,
+      state: missing.length === 0 ? "ok" : "low",
+      points: Math.round((rule.weight * (required - missing.length)) / required),
+      maxPoints: rule.weight,
+      message: missing.length === 0 ? "All required elements present" : `Missing ${missing.join(" and ")}`,
+      tooltip: `The scoring profile requires a ${[rule.phone && "phone number", rule.contactLink && "contact link"].filter(Boolean).join(" and ")} on this page.`,
+      currentValue: required - missing.length,
+      found: missing,
+    });
+  }
+
+  const maxPoints = checks.reduce((sum, check) => sum + check.maxPoints, 0);
+  const points = checks.reduce((sum, check) => sum + check.points, 0);
+  const score = maxPoints > 0 ? Math.round((points / maxPoints) * 100) : 0;
+
+  return { ruleset: ruleset.name, score, grade: scoreGrade(score), checks };
+}
+
+/**
+ * Failed checks that rewriting the page body can fix
+ */
+export function optimisableChecks(score: ContentScore): ScoreCheck[] {
+  return score.checks.filter((check) => !check.passed && OPTIMISABLE_CHECKS.includes(check.id));
+}
+
+/**
+ * One instruction per failed check for the optimiser prompt
+ */
+export function buildOptimiseInstructions(
+  checks: ScoreCheck[],
+  context: { keyword: string; location: string; phoneNumber?: string | null; contactUrl?: string | null }
+): string[] {
+  const instructions: string[] = [];
+  const { keyword, location, phoneNumber, contactUrl } = context;
+
+  for (const check of checks) {
+    if (check.passed) continue;
+    const target = check.target ? formatRange(check.target.min, check.target.max) : "";
+    const tooHigh = check.state === "slightly_high" || check.state === "high";
+
+    switch (check.id) {
+      case "content_length":
+        instructions.push(tooHigh
+          ? `REDUCE content length. Current: ~${check.currentValue} words. Target: ${target} words. Remove redundant sentences, combine paragraphs, and trim verbose sections.`
+          : `EXPAND content. Current: ~${check.currentValue} words. Target: ${target} words. Add relevant local context, not filler.`);
+        break;
+      case "keyword_frequency":
+        instructions.push(tooHigh
+          ? `REDUCE keyword "${keyword}" mentions. Current: ${check.currentValue} times. Target: ${target} times. Replace some instances with pronouns ("we", "our service") or related terms.`
+          : `ADD natural mentions of "${keyword}". Current: ${check.currentValue} times. Target: ${target} times. Insert naturally into existing sentences.`);
+        break;
+      case "location_frequency":
+        instructions.push(tooHigh
+          ? `REDUCE location "${location}" mentions. Current: ${check.currentValue} times. Target: ${target} times. Replace some with "the area", "locally", "nearby" or remove redundant mentions.`
+          : `ADD natural mentions of "${location}". Current: ${check.currentValue} times. Target: ${target} times.`);
+        break;
+      case "keyword_in_first_paragraph":
+        instructions.push(`ADD the keyword "${keyword}" naturally to the first paragraph.`);
+        break;
+      case "keyword_headings":
+        instructions.push(tooHigh
+          ? `REDUCE keyword in headings. Current: ${check.currentValue} H2/H3 headings contain the keyword. Target: ${target}. Rewrite headings to be more generic or use related terms.`
+          : `ADD the keyword "${keyword}" to ${check.target?.min || 1} H2/H3 heading(s). Current: ${check.currentValue}.`);
+        break;
+      case "sales_pressure":
+        instructions.push(`REMOVE aggressive sales language${check.found && check.found.length > 0 ? ` (${check.found.map((term) => `"${term}"`).join(", ")})` : ""} and replace it with softer alternatives. Remove or soften any pricing mentions. Convert hard sells to helpful information.`);
+        break;
+      case "banned_phrases":
+        instructions.push(`REMOVE these banned phrases: ${(check.found || []).map((phrase) => `"${phrase}"`).join(", ")}. Reword the sentences so none of them appear.`);
+        break;
+      case "required_elements":
+        if (check.found?.includes("phone number")) {
+          instructions.push(`ADD the phone number${phoneNumber ? ` ${phoneNumber}` : ""} once, in a natural closing sentence.`);
+        }
+        if (check.found?.includes("contact link")) {
+          instructions.push(contactUrl
+            ? `ADD one link to the contact page: <a href="${contactUrl}">...</a> with natural anchor text.`
+            : "ADD one link to the contact page with natural anchor text.");
+        }
+        break;
+    }
+  }
+
+  return instructions;
+}
+
+/**
+ * Prompt asking the model to apply the instructions to the page HTML
+ */
+export function buildOptimisePrompt(content: string, instructions: string[], pageType: ScoringPageType): string {
+  const intro = pageType === "suburb"
+    ? "You are an SEO content optimiser for LOCAL SUBURB SUPPORT PAGES. These pages should be LIGHTER and LESS optimised than main town pages to avoid footprint patterns at scale."
+    : "You are an SEO content optimiser for LOCAL SERVICE LANDING PAGES.";
+
+  return `${intro}
+
+CURRENT CONTENT:
+${content}
+
+REQUIRED CHANGES (apply ALL of these):
+${instructions.map((instruction, i) => `${i + 1}. ${instruction}`).join("\n")}
+
+RULES:
+- Make ONLY the changes listed above
+- Preserve the HTML structure (h2, h3, p tags)
+- Keep the same general flow and sections
+- Keep the page's language and spelling (e.g. British or American English) as they are
+- Do NOT add new sections or testimonials${pageType === "suburb" ? "\n- Do NOT add pricing or aggressive CTAs\n- Maintain a helpful, supportive tone (not salesy)" : ""}
+- Output ONLY the optimised HTML content, no explanations
+
+OUTPUT THE OPTIMISED HTML:`;
+}
@@ -0,0 +1,440 @@
+/**
+ * Image providers for generated pages.
+ *
+ * Each page gets a featured image plus the project's content_images_per_page
+ * in-content images, all with alt text naming the service and location. The
+ * provider is chosen per project (projects.image_provider); NULL means the
+ * page gets no images. Set GEOSCALE_IMAGE_PROVIDER=placeholder to force every
+ * page onto the offline placeholder provider (used in CI).
+ *
+ * - media_library: the project's uploaded images, preferring ones tagged with
+ *   the page's service or location
+ * - unsplash: stock photos searched by service and location
+ * - openai: generated images, saved to the project's media library
+ * - placeholder: a plain gradient PNG built locally, never calls the network
+ */
+
+export type ImageProviderName = "media_library" | "unsplash" | "openai" | "placeholder";
+
+export const IMAGE_PROVIDERS: ImageProviderName[] = ["media_library", "unsplash", "openai", "placeholder"];
+
+export const MAX_CONTENT_IMAGES = 3;
+
+// Marks in-content images so they can be replaced on regeneration and
+// sideloaded into the WordPress media library on publish
+export const CONTENT_IMAGE_CLASS = "geoscale-image";
+
+export const MEDIA_BUCKET = "project-media";
+
+export interface ImageSubject {
+  projectId: string;
+  serviceId: string | null;
+  locationId: string | null;
+  service: string;
+  location: string;
+  business: string;
+  phrase: string;
+}
+
+export interface ProviderImage {
+  url: string;
+  credit?: string | null; // attribution the provider asks for
+}
+
+export interface PageImage extends ProviderImage {
+  alt: string;
+  source: ImageProviderName;
+}
+
+export interface ImageProvider {
+  name: ImageProviderName;
+  findImages(subject: ImageSubject, count: number): Promise<ProviderImage[]>;
+}
+
+export class ImageProviderError extends Error {
+  provider: ImageProviderName;
+  status: number;
+
+  constructor(provider: ImageProviderName, status: number, message: string) {
+    super(message);
+    this.name = "ImageProviderError";
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+interface ImageSettingsSource {
+  image_provider?: string | null;
+  content_images_per_page?: number | null;
+}
+
+function isProviderName(value: unknown): value is ImageProviderName {
+  return typeof value === "string" && (IMAGE_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * The project's image provider and how many images a page gets (featured
+ * image first). GEOSCALE_IMAGE_PROVIDER overrides the project.
+ */
+export function resolveImageSettings(project?: ImageSettingsSource | null): { provider: ImageProviderName | null; count: number } {
+  const envProvider = Deno.env.get("GEOSCALE_IMAGE_PROVIDER");
+  const provider = isProviderName(envProvider)
+    ? envProvider
+    : isProviderName(project?.image_provider)
+    ? project!.image_provider as ImageProviderName
+    : null;
+  const contentImages = Math.min(MAX_CONTENT_IMAGES, Math.max(0, Number(project?.content_images_per_page) || 0));
+  return { provider, count: provider ? 1 + contentImages : 0 };
+}
+
+// FNV-1a, so each page picks its images the same way every time
+function stableHash(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function rotate<T>(items: T[], by: number): T[] {
+  if (items.length === 0) return items;
+  const offset = by % items.length;
+  return [...items.slice(offset), ...items.slice(0, offset)];
+}
+
+/**
+ * Alt text for the page's images. Every variant names the service and the
+ * location; the featured image gets the plainest one.
+ */
+export function imageAltText(subject: Pick<ImageSubject, "service" | "location" | "business">, index: number): string {
+  const { service, location, business } = subject;
+  const variants = [
+    `${service} in ${location}`,
+    `${business} providing ${service.toLowerCase()} in ${location}`,
+    `${service} job completed in ${location}`,
+    `Local ${service.toLowerCase()} specialists serving ${location}`,
+  ];
+  const alt = variants[index % variants.length];
+  return alt.charAt(0).toUpperCase() + alt.slice(1);
+}
+
+function createMediaLibraryProvider(supabase: any): ImageProvider {
+  return {
+    name: "media_library",
+    async findImages(subject, count) {
+      const { data, error } = await supabase
+        .from("project_media")
+        .select("id, url, service_id, location_id")
+        .eq("project_id", subject.projectId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw new ImageProviderError("media_library", 500, error.message);
+      if (!data || data.length === 0) return [];
+
+      // Images tagged with the page's service and location first, then the
+      // ones tagged with either, then untagged ones. Images tagged for a
+      // different service or location are left out.
+      const tiers = new Map<number, any[]>();
+      for (const media of data) {
+        if (media.service_id && media.service_id !== subject.serviceId) continue;
+        if (media.location_id && media.location_id !== subject.locationId) continue;
+        const score = (media.service_id ? 2 : 0) + (media.location_id ? 1 : 0);
+        tiers.set(score, [...(tiers.get(score) || []), media]);
+      }
+
+      // Rotate within each tier so pages sharing a library don't all get the same image
+      const offset = stableHash(subject.phrase);
+      return [...tiers.keys()]
+        .sort((a, b) => b - a)
+        .flatMap((score) => rotate(tiers.get(score)!, offset))
+        .slice(0, count)
+        .map((media) => ({ url: media.url }));
+    },
+  };
+}
+
+function createUnsplashProvider(): ImageProvider {
+  const accessKey = Deno.env.get("UNSPLASH_ACCESS_KEY");
+
+  const search = async (query: string) => {
+    const url = `https://api.unsplash.com/search/photos?query=${encodeURIComponent(query)}&per_page=20&orientation=landscape&content_filter=high`;
+    const response = await fetch(url, {
+      headers: { Authorization: `Client-ID ${accessKey}`, "Accept-Version": "v1" },
+    });
+    if (!response.ok) {
+      throw new ImageProviderError("unsplash", response.status, `Unsplash search failed (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    return (data.results || []) as any[];
+  };
+
+  return {
+    name: "unsplash",
+    async findImages(subject, count) {
+      if (!accessKey) {
+        throw new ImageProviderError("unsplash", 500, "UNSPLASH_ACCESS_KEY not configured");
+      }
+
+      // Photos of the place are rare, so fall back to the service on its own
+      let photos = await search(`${subject.service} ${subject.location}`);
+      if (photos.length < count) {
+        photos = [...photos, ...(await search(subject.service))];
+      }
+
+      const seen = new Set<string>();
+      const picked = rotate(photos, stableHash(subject.phrase))
+        .filter((photo) => !seen.has(photo.id) && seen.add(photo.id))
+        .slice(0, count);
+
+      // Unsplash asks for a download event whenever a photo is used
+      for (const photo of picked) {
+        if (photo.links?.download_location) {
+          fetch(photo.links.download_location, { headers: { Authorization: `Client-ID ${accessKey}` } })
+            .then((response) => response.body?.cancel())
+            .catch(() => {});
+        }
+      }
+
+      return picked.map((photo) => ({
+        url: photo.urls.regular,
+        credit: `Photo by ${photo.user?.name || "Unknown"} on Unsplash`,
+      }));
+    },
+  };
+}
+
+function createOpenAiImageProvider(supabase: any): ImageProvider {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  const baseUrl = (Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1").replace(/\/$/, "");
+  const model = Deno.env.get("OPENAI_IMAGE_MODEL") || "gpt-image-1";
+
+  return {
+    name: "openai",
+    async findImages(subject, count) {
+      if (!apiKey) {
+        throw new ImageProviderError("openai", 500, "OPENAI_API_KEY not configured");
+      }
+
+      const images: ProviderImage[] = [];
+      for (let i = 0; i < count; i++) {
+        const prompt = i === 0
+          ? `A realistic, professional photograph of ${subject.service.toLowerCase()} work for a home or business in ${subject.location}. Natural light, no text, no logos.`
+          : `A realistic photograph of a tradesperson doing ${subject.service.toLowerCase()} in ${subject.location}, a different scene from a typical stock photo (view ${i + 1}). No text, no logos.`;
+
+        const response = await fetch(`${baseUrl}/images/generations`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+          body: JSON.stringify({ model, prompt, size: "1536x1024", n: 1 }),
+        });
+        if (!response.ok) {
+          throw new ImageProviderError("openai", response.status, `OpenAI image generation failed (${response.status}): ${await response.text()}`);
+        }
+
+        const data = await response.json();
+        const base64 = data.data?.[0]?.b64_json;
+        if (!base64) {
+          throw new ImageProviderError("openai", 502, "OpenAI returned no image");
+        }
+
+        // Generated images join the project's media library so they can be reused
+        const bytes = Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+        const path = `${subject.projectId}/generated/${crypto.randomUUID()}.png`;
+        const { error: uploadError } = await supabase.storage
+          .from(MEDIA_BUCKET)
+          .upload(path, bytes, { contentType: "image/png" });
+        if (uploadError) throw new ImageProviderError("openai", 500, `Failed to store generated image: ${uploadError.message}`);
+
+        const { data: { publicUrl } } = supabase.storage.from(MEDIA_BUCKET).getPublicUrl(path);
+        await supabase.from("project_media").insert({
+          project_id: subject.projectId,
+          storage_path: path,
+          url: publicUrl,
+          filename: `${subject.phrase}.png`,
+          service_id: subject.serviceId,
+          location_id: subject.locationId,
+          source: "openai",
+        });
+
+        images.push({ url: publicUrl });
+      }
+      return images;
+    },
+  };
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes.buffer as ArrayBuffer]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * A vertical gradient PNG, coloured from the seed, as a data URI
+ */
+async function placeholderPng(seed: number, width = 1200, height = 630): Promise<string> {
+  const hue = seed % 360;
+  const rgb = (lightness: number) => {
+    // HSL to RGB at 55% saturation
+    const s = 0.55;
+    const a = s * Math.min(lightness, 1 - lightness);
+    const f = (n: number) => {
+      const k = (n + hue / 30) % 12;
+      return Math.round(255 * (lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+    };
+    return [f(0), f(8), f(4)];
+  };
+  const top = rgb(0.62);
+  const bottom = rgb(0.38);
+
+  const rowLength = 1 + width * 3;
+  const raw = new Uint8Array(rowLength * height);
+  for (let y = 0; y < height; y++) {
+    const t = y / (height - 1);
+    const pixel = top.map((channel, i) => Math.round(channel + (bottom[i] - channel) * t));
+    const row = y * rowLength; // filter byte 0 (none)
+    for (let x = 0; x < width; x++) {
+      raw.set(pixel, row + 1 + x * 3);
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", await deflate(raw)),
+    pngChunk("IEND", new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+
+  let binary = "";
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+/**
+ * Offline provider for tests and CI: plain gradient PNGs as data URIs, which
+ * the plugin uploads like any other image
+ */
+function createPlaceholderProvider(): ImageProvider {
+  return {
+    name: "placeholder",
+    async findImages(subject, count) {
+      const seed = stableHash(`${subject.service}|${subject.location}`);
+      return Promise.all(
+        Array.from({ length: count }, async (_, i) => ({ url: await placeholderPng(seed + i * 47) }))
+      );
+    },
+  };
+}
+
+/**
+ * Create a provider by name
+ */
+export function createImageProvider(name: ImageProviderName, supabase: any): ImageProvider {
+  switch (name) {
+    case "unsplash":
+      return createUnsplashProvider();
+    case "openai":
+      return createOpenAiImageProvider(supabase);
+    case "placeholder":
+      return createPlaceholderProvider();
+    case "media_library":
+    default:
+      return createMediaLibraryProvider(supabase);
+  }
+}
+
+/**
+ * Images for a page from the project's provider, each with its alt text. The
+ * first is the featured image. Empty when the project has no provider.
+ */
+export async function findPageImages(supabase: any, project: ImageSettingsSource | null, subject: ImageSubject): Promise<PageImage[]> {
+  const { provider: providerName, count } = resolveImageSettings(project);
+  if (!providerName || count === 0) return [];
+
+  const provider = createImageProvider(providerName, supabase);
+  const images = await provider.findImages(subject, count);
+  return images.map((image, index) => ({ ...image, alt: imageAltText(subject, index), source: provider.name }));
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Remove in-content images placed by placeContentImages
+ */
+export function stripContentImages(html: string): string {
+  return html.replace(new RegExp(`<figure class="${CONTENT_IMAGE_CLASS}">[\\s\\S]*?</figure>\\n?`, "g"), "");
+}
+
+/**
+ * Place images in the page body, one before each <h2> after the first so they
+ * sit between sections. Images beyond the available sections are dropped.
+ */
+export function placeContentImages(html: string, images: PageImage[]): string {
+  const content = stripContentImages(html);
+  if (images.length === 0) return content;
+
+  let headingIndex = 0;
+  let imageIndex = 0;
+  return content.replace(/<h2[\s>]/gi, (match) => {
+    headingIndex++;
+    if (headingIndex < 2 || imageIndex >= images.length) return match;
+    const image = images[imageIndex++];
+    const caption = image.credit ? `<figcaption>${escapeAttribute(image.credit)}</figcaption>` : "";
+    return `<figure class="${CONTENT_IMAGE_CLASS}"><img src="${escapeAttribute(image.url)}" alt="${escapeAttribute(image.alt)}" loading="lazy" data-geoscale-image="1" />${caption}</figure>\n${match}`;
+  });
+}
+
+/**
+ * generated_pages columns for a page's images: the featured image, and the
+ * content with the rest placed in it
+ */
+export function pageImageFields(content: string, images: PageImage[]) {
+  const [featured, ...inContent] = images;
+  return {
+    content: placeContentImages(content, inContent),
+    featured_image_url: featured?.url || null,
+    featured_image_alt: featured?.alt || null,
+    image_source: featured?.source || null,
+  };
+}
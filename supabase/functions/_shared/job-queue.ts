@@ -0,0 +1,268 @@
+/**
+ * Job claiming, leases, heartbeats and retries shared by the queue workers.
+ *
+ * Jobs are claimed through the claim_queue_jobs() Postgres function, which
+ * uses FOR UPDATE SKIP LOCKED so overlapping cron runs never pick up the same
+ * job. A claimed job is held under a lease that the worker renews with a
+ * heartbeat while it works. If the worker dies, the lease runs out and
+ * reset_expired_queue_jobs() puts the job back in the queue on the next run.
+ *
+ * Failed jobs are retried with exponential backoff and jitter via
+ * next_attempt_at. Rate limits (429) back off longer than server errors;
+ * other 4xx responses are permanent and go straight to the dead-letter view.
+ */
+
+export type QueueTable = "content_generation_jobs" | "wordpress_push_jobs";
+
+export const DEFAULT_LEASE_SECONDS = 120;
+
+export interface QueueJob {
+  id: string;
+  user_id: string;
+  project_id: string;
+  location_keyword_id: string;
+  status: string;
+  priority: number;
+  attempts: number; // Already includes the attempt that claimed the job
+  max_attempts: number;
+  locked_by: string;
+  error_history: JobErrorHistoryEntry[] | null;
+  created_at: string;
+  [key: string]: any;
+}
+
+export interface JobErrorHistoryEntry {
+  attempt: number;
+  at: string;
+  error: string;
+  status_code: number | null;
+  retryable: boolean;
+}
+
+export interface JobHeartbeat {
+  stop(): void;
+  lost(): boolean; // TRUE once a heartbeat finds the lease has been taken away
+  assertHeld(): Promise<void>; // Renews the lease now, throwing LeaseLostError if it has been taken away
+}
+
+/**
+ * Thrown when a worker finds another run has taken over its job. The job and
+ * its page belong to the new run, so nothing more is written for it.
+ */
+export class LeaseLostError extends Error {
+  jobId: string;
+
+  constructor(jobId: string) {
+    super(`Lost lease on job ${jobId} - another run has taken it over`);
+    this.name = "LeaseLostError";
+    this.jobId = jobId;
+  }
+}
+
+/**
+ * Unique id for one worker run, stored in locked_by
+ */
+export function createWorkerId(name: string): string {
+  return `${name}-${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Requeue (or fail) jobs whose lease has expired. Returns how many were reset.
+ */
+export async function resetExpiredJobs(supabase: any, queue: QueueTable): Promise<number> {
+  const { data, error } = await supabase.rpc("reset_expired_queue_jobs", { p_queue: queue });
+  if (error) throw error;
+  return data || 0;
+}
+
+/**
+ * Atomically claim up to batchSize queued jobs, highest priority first
+ */
+export async function claimJobs(
+  supabase: any,
+  queue: QueueTable,
+  workerId: string,
+  batchSize = 1,
+  leaseSeconds = DEFAULT_LEASE_SECONDS
+): Promise<QueueJob[]> {
+  const { data, error } = await supabase.rpc("claim_queue_jobs", {
+    p_queue: queue,
+    p_worker_id: workerId,
+    p_batch_size: batchSize,
+    p_lease_seconds: leaseSeconds,
+  });
+  if (error) throw error;
+
+  // UPDATE ... RETURNING has no guaranteed order
+  return ((data || []) as QueueJob[]).sort((a, b) =>
+    b.priority - a.priority || a.created_at.localeCompare(b.created_at)
+  );
+}
+
+/**
+ * Renew the job's lease every third of the lease period until stopped
+ */
+export function startHeartbeat(
+  supabase: any,
+  queue: QueueTable,
+  job: QueueJob,
+  leaseSeconds = DEFAULT_LEASE_SECONDS
+): JobHeartbeat {
+  let lost = false;
+
+  // Returns whether the lease is still ours, renewing it if so
+  const renew = async (): Promise<boolean> => {
+    if (lost) return false;
+
+    const { data: held, error } = await supabase.rpc("heartbeat_queue_job", {
+      p_queue: queue,
+      p_job_id: job.id,
+      p_worker_id: job.locked_by,
+      p_lease_seconds: leaseSeconds,
+    });
+    if (error) throw error;
+
+    if (!held) {
+      console.warn(`⚠️ Lost lease on job ${job.id} - another run has taken it over`);
+      lost = true;
+      clearInterval(timer);
+    }
+    return !lost;
+  };
+
+  const timer = setInterval(() => {
+    renew().catch((error) => console.error(`Heartbeat failed for job ${job.id}:`, error));
+  }, Math.max(5, Math.floor(leaseSeconds / 3)) * 1000);
+
+  return {
+    stop: () => clearInterval(timer),
+    lost: () => lost,
+    // Checked against the database right before each write, not just the last tick
+    assertHeld: async () => {
+      if (!(await renew())) throw new LeaseLostError(job.id);
+    },
+  };
+}
+
+/**
+ * Columns to clear when a job leaves the processing state
+ */
+export const RELEASED_LEASE = {
+  locked_by: null,
+  lease_expires_at: null,
+};
+
+/**
+ * Error with the HTTP status (and Retry-After) of the call that failed a job.
+ * Use retryable: false for problems retrying can't fix, e.g. missing settings.
+ */
+export class QueueJobError extends Error {
+  status: number | null;
+  retryAfterSeconds: number | null;
+  retryable: boolean | null;
+
+  constructor(
+    message: string,
+    options: { status?: number | null; retryAfterSeconds?: number | null; retryable?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "QueueJobError";
+    this.status = options.status ?? null;
+    this.retryAfterSeconds = options.retryAfterSeconds ?? null;
+    this.retryable = options.retryable ?? null;
+  }
+}
+
+export interface JobFailure {
+  message: string;
+  statusCode: number | null;
+  retryable: boolean;
+  rateLimited: boolean;
+  retryAfterSeconds: number | null;
+}
+
+// 4xx statuses that are worth retrying
+const RETRYABLE_CLIENT_STATUSES = [408, 409, 425, 429];
+
+/**
+ * Decide whether a job error is worth retrying. Errors without a status
+ * (network failures, timeouts, invalid model output) are retried.
+ */
+export function classifyJobError(error: any): JobFailure {
+  const statusCode = typeof error?.status === "number" ? error.status : null;
+  const explicit = typeof error?.retryable === "boolean" ? error.retryable : null;
+  const retryable = explicit ?? (
+    statusCode === null || statusCode >= 500 || RETRYABLE_CLIENT_STATUSES.includes(statusCode)
+  );
+
+  return {
+    message: error?.message || String(error),
+    statusCode,
+    retryable,
+    rateLimited: statusCode === 429,
+    retryAfterSeconds: typeof error?.retryAfterSeconds === "number" ? error.retryAfterSeconds : null,
+  };
+}
+
+const BACKOFF_BASE_SECONDS = 30;
+const RATE_LIMIT_BASE_SECONDS = 120;
+const BACKOFF_MAX_SECONDS = 30 * 60;
+
+/**
+ * Delay before the next attempt: base * 2^(attempt - 1), capped, with the
+ * top half randomised so jobs that failed together don't retry together.
+ * A longer Retry-After from the server always wins.
+ */
+export function retryDelaySeconds(attempt: number, failure: JobFailure): number {
+  const base = failure.rateLimited ? RATE_LIMIT_BASE_SECONDS : BACKOFF_BASE_SECONDS;
+  const exponential = Math.min(BACKOFF_MAX_SECONDS, base * Math.pow(2, Math.max(attempt - 1, 0)));
+  const jittered = Math.round(exponential / 2 + Math.random() * (exponential / 2));
+  return Math.max(jittered, failure.retryAfterSeconds ?? 0);
+}
+
+/**
+ * Job update for a failed attempt: requeue with backoff, or fail for good
+ * (dead letter) when the error is permanent or attempts are used up
+ */
+export function buildFailureUpdate(job: QueueJob, error: any) {
+  const failure = classifyJobError(error);
+  const willRetry = failure.retryable && job.attempts < job.max_attempts;
+  const delaySeconds = willRetry ? retryDelaySeconds(job.attempts, failure) : null;
+
+  const historyEntry: JobErrorHistoryEntry = {
+    attempt: job.attempts,
+    at: new Date().toISOString(),
+    error: failure.message,
+    status_code: failure.statusCode,
+    retryable: failure.retryable,
+  };
+
+  return {
+    failure,
+    willRetry,
+    delaySeconds,
+    update: {
+      status: willRetry ? "queued" : "failed",
+      error_message: failure.message,
+      error_history: [...(job.error_history || []), historyEntry],
+      next_attempt_at: delaySeconds !== null ? new Date(Date.now() + delaySeconds * 1000).toISOString() : null,
+      updated_at: new Date().toISOString(),
+      ...RELEASED_LEASE,
+    },
+  };
+}
+
+/**
+ * Job update that puts a claimed job back without using up an attempt,
+ * e.g. when its project is paused. It won't be claimed for delaySeconds.
+ */
+export function buildDeferUpdate(job: QueueJob, delaySeconds: number, reason: string) {
+  return {
+    status: "queued",
+    attempts: Math.max(job.attempts - 1, 0),
+    error_message: reason,
+    next_attempt_at: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+    updated_at: new Date().toISOString(),
+    ...RELEASED_LEASE,
+  };
+}
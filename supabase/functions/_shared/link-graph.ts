@@ -0,0 +1,472 @@
+/**
+ * Internal link mesh between a project's town and suburb pages.
+ *
+ * Town pages link to their suburbs, and suburbs link to their parent town and
+ * to a handful of sibling suburbs. Each suburb links to the siblings after it
+ * in name order, so no suburb is left out. Links are only made to pages with
+ * a WordPress URL. They live in one block at the end of the content, between
+ * LINK_MESH_START and LINK_MESH_END. That block is rewritten whenever a
+ * neighbour is published, so pages generated before their neighbours were
+ * live pick up the missing links later.
+ *
+ * analyseLinkGraph reads every link in the stored content and reports the
+ * project's orphan pages (nothing links to them) and broken links.
+ */
+
+export const LINK_MESH_START = "<!-- geoscale:links -->";
+export const LINK_MESH_END = "<!-- /geoscale:links -->";
+export const MAX_SIBLING_LINKS = 6;
+
+export interface LinkGraphPage {
+  id: string; // location_keywords.id
+  phrase: string;
+  locationName: string;
+  parentId: string | null;
+  url: string | null;
+  status: string;
+  hasPage: boolean;
+  content?: string | null;
+}
+
+export interface MeshLink {
+  targetId: string;
+  url: string;
+  anchor: string;
+  kind: "parent" | "child" | "sibling";
+}
+
+export interface LinkGraphEdge {
+  sourceId: string;
+  targetId: string;
+  href: string;
+  anchor: string;
+}
+
+export interface BrokenLink {
+  sourceId: string;
+  href: string;
+  anchor: string;
+  reason: "placeholder" | "unknown_page";
+}
+
+export interface LinkGraphNode {
+  id: string;
+  phrase: string;
+  pageType: "town" | "suburb";
+  parentId: string | null;
+  url: string | null;
+  status: string;
+  hasPage: boolean;
+  inbound: number;
+  outbound: number;
+  missingMeshLinks: number;
+}
+
+export interface LinkGraphReport {
+  nodes: LinkGraphNode[];
+  edges: LinkGraphEdge[];
+  orphans: string[];
+  broken: BrokenLink[];
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Link text for a page: the phrase with the location name back in its own
+ * case ("plumber in richmond" -> "Plumber in Richmond")
+ */
+export function pageAnchorText(page: Pick<LinkGraphPage, "phrase" | "locationName">): string {
+  let text = page.phrase;
+  if (page.locationName) {
+    text = text.replace(new RegExp(escapeRegExp(page.locationName), "i"), page.locationName);
+  }
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * The links a page's mesh block should hold, given everything in the project
+ */
+export function planMeshLinks(pageId: string, pages: LinkGraphPage[]): MeshLink[] {
+  const page = pages.find((p) => p.id === pageId);
+  if (!page) return [];
+
+  const link = (target: LinkGraphPage, kind: MeshLink["kind"]): MeshLink => ({
+    targetId: target.id,
+    url: target.url as string,
+    anchor: pageAnchorText(target),
+    kind,
+  });
+  const byName = (a: LinkGraphPage, b: LinkGraphPage) => a.locationName.localeCompare(b.locationName);
+
+  if (!page.parentId) {
+    return pages
+      .filter((p) => p.parentId === page.id && p.url)
+      .sort(byName)
+      .map((child) => link(child, "child"));
+  }
+
+  const links: MeshLink[] = [];
+  const parent = pages.find((p) => p.id === page.parentId);
+  if (parent?.url) links.push(link(parent, "parent"));
+
+  // Start after this page in the sibling order and wrap round
+  const siblings = pages.filter((p) => p.parentId === page.parentId).sort(byName);
+  const position = siblings.findIndex((p) => p.id === page.id);
+  const rotated = [...siblings.slice(position + 1), ...siblings.slice(0, position)];
+  rotated
+    .filter((p) => p.url)
+    .slice(0, MAX_SIBLING_LINKS)
+    .forEach((sibling) => links.push(link(sibling, "sibling")));
+
+  return links;
+}
+
+/**
+ * Pages whose mesh block can link to this page, so they need rewriting when it is published
+ */
+export function meshNeighbourIds(pageId: string, pages: LinkGraphPage[]): string[] {
+  const page = pages.find((p) => p.id === pageId);
+  if (!page) return [];
+
+  return pages
+    .filter((p) => p.id !== pageId && (
+      p.id === page.parentId ||
+      p.parentId === page.id ||
+      (page.parentId !== null && p.parentId === page.parentId)
+    ))
+    .map((p) => p.id);
+}
+
+/**
+ * HTML for a page's mesh block, or an empty string when there is nothing to link to
+ */
+export function renderLinkMesh(page: LinkGraphPage, links: MeshLink[]): string {
+  if (links.length === 0) return "";
+
+  const item = (l: MeshLink) => `<li><a href="${escapeHtml(l.url)}">${escapeHtml(l.anchor)}</a></li>`;
+  const parent = links.find((l) => l.kind === "parent");
+  const others = links.filter((l) => l.kind !== "parent");
+  const parts: string[] = [];
+
+  if (parent) {
+    parts.push(`<p>Part of our <a href="${escapeHtml(parent.url)}">${escapeHtml(parent.anchor)}</a> coverage.</p>`);
+  }
+  if (others.length > 0) {
+    const heading = page.parentId ? "Nearby areas we cover" : `Areas we cover around ${page.locationName}`;
+    parts.push(`<h3>${escapeHtml(heading)}</h3>`, `<ul>${others.map(item).join("")}</ul>`);
+  }
+
+  return `${LINK_MESH_START}\n<div class="geoscale-links">\n${parts.join("\n")}\n</div>\n${LINK_MESH_END}`;
+}
+
+/**
+ * Content without its mesh block
+ */
+export function stripLinkMesh(content: string): string {
+  const pattern = new RegExp(`\\s*${escapeRegExp(LINK_MESH_START)}[\\s\\S]*?${escapeRegExp(LINK_MESH_END)}`, "g");
+  return content.replace(pattern, "");
+}
+
+/**
+ * Replace (or add, or remove) the mesh block at the end of the content
+ */
+export function applyLinkMesh(content: string, block: string): string {
+  const body = stripLinkMesh(content).trimEnd();
+  return block ? `${body}\n\n${block}` : body;
+}
+
+/**
+ * Content with an up-to-date mesh block for the page
+ */
+export function withLinkMesh(content: string, pageId: string, pages: LinkGraphPage[]): string {
+  const page = pages.find((p) => p.id === pageId);
+  if (!page) return content;
+  return applyLinkMesh(content, renderLinkMesh(page, planMeshLinks(pageId, pages)));
+}
+
+/**
+ * Every <a href> in a piece of HTML
+ */
+export function extractLinks(html: string): Array<{ href: string; anchor: string }> {
+  const links: Array<{ href: string; anchor: string }> = [];
+  const pattern = /<a\b[^>]*?\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))[^>]*>([\s\S]*?)<\/a>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    links.push({
+      href: (match[1] ?? match[2] ?? match[3] ?? "").trim(),
+      anchor: match[4].replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim(),
+    });
+  }
+  return links;
+}
+
+/**
+ * Comparable form of a URL: no scheme, www, query, fragment or trailing slash.
+ * Relative links are resolved against the site URL.
+ */
+export function normaliseLinkUrl(href: string, siteUrl?: string | null): string | null {
+  try {
+    const base = siteUrl ? (/^https?:\/\//i.test(siteUrl) ? siteUrl : `https://${siteUrl}`) : undefined;
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    const path = decodeURI(url.pathname).replace(/\/+$/, "").toLowerCase();
+    return `${host}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+function isPlaceholderHref(href: string): boolean {
+  return !href || href === "#" || /^(not yet published|undefined|null|none|n\/a)$/i.test(href) || /\s/.test(href);
+}
+
+/**
+ * Orphans, broken links and the link edges between a project's pages.
+ * knownUrls are other pages on the site that links may point at (service
+ * pages, home, blog, contact); siteUrls decide which links are internal.
+ */
+export function analyseLinkGraph(
+  pages: LinkGraphPage[],
+  options: { siteUrls: string[]; knownUrls: string[] }
+): LinkGraphReport {
+  const siteUrl = options.siteUrls.find(Boolean) || null;
+  const siteHosts = new Set(
+    options.siteUrls
+      .map((url) => normaliseLinkUrl(url, siteUrl))
+      .filter((url): url is string => !!url)
+      .map((url) => url.split("/")[0])
+  );
+  const pageByUrl = new Map<string, LinkGraphPage>();
+  for (const page of pages) {
+    const key = page.url ? normaliseLinkUrl(page.url, siteUrl) : null;
+    if (key) pageByUrl.set(key, page);
+  }
+  const known = new Set(
+    [...options.knownUrls, ...options.siteUrls]
+      .map((url) => normaliseLinkUrl(url, siteUrl))
+      .filter((url): url is string => !!url)
+  );
+
+  const edges: LinkGraphEdge[] = [];
+  const broken: BrokenLink[] = [];
+
+  for (const page of pages) {
+    if (!page.content) continue;
+
+    for (const link of extractLinks(page.content)) {
+      if (/^(mailto|tel|sms|javascript):/i.test(link.href) || (link.href.startsWith("#") && link.href.length > 1)) continue;
+
+      if (isPlaceholderHref(link.href)) {
+        broken.push({ sourceId: page.id, href: link.href, anchor: link.anchor, reason: "placeholder" });
+        continue;
+      }
+
+      const key = normaliseLinkUrl(link.href, siteUrl);
+      if (!key || !siteHosts.has(key.split("/")[0])) continue;
+
+      const target = pageByUrl.get(key);
+      if (target) {
+        if (target.id !== page.id) edges.push({ sourceId: page.id, targetId: target.id, href: link.href, anchor: link.anchor });
+      } else if (!known.has(key)) {
+        broken.push({ sourceId: page.id, href: link.href, anchor: link.anchor, reason: "unknown_page" });
+      }
+    }
+  }
+
+  const nodes: LinkGraphNode[] = pages.map((page) => {
+    const outgoing = edges.filter((e) => e.sourceId === page.id);
+    const linkedTo = new Set(outgoing.map((e) => e.targetId));
+    return {
+      id: page.id,
+      phrase: page.phrase,
+      pageType: page.parentId ? "suburb" : "town",
+      parentId: page.parentId,
+      url: page.url,
+      status: page.status,
+      hasPage: page.hasPage,
+      inbound: new Set(edges.filter((e) => e.targetId === page.id).map((e) => e.sourceId)).size,
+      outbound: linkedTo.size,
+      missingMeshLinks: page.hasPage ? planMeshLinks(page.id, pages).filter((l) => !linkedTo.has(l.targetId)).length : 0,
+    };
+  });
+
+  return {
+    nodes,
+    edges,
+    orphans: nodes.filter((node) => node.hasPage && node.inbound === 0).map((node) => node.id),
+    broken,
+  };
+}
+
+/**
+ * The project's location keywords as link graph pages. Content is only
+ * loaded when asked for, since the worker just needs the URLs.
+ */
+export async function loadLinkGraphPages(
+  supabase: any,
+  projectId: string,
+  options: { withContent?: boolean } = {}
+): Promise<LinkGraphPage[]> {
+  const { data, error } = await supabase
+    .from("location_keywords")
+    .select(`
+      id,
+      phrase,
+      status,
+      parent_location_id,
+      wp_page_url,
+      location:project_locations!location_id(name),
+      generated_page:generated_pages(${options.withContent ? "id, content" : "id"})
+    `)
+    .eq("project_id", projectId);
+
+  if (error) throw error;
+
+  return (data || []).map((row: any) => {
+    const location = Array.isArray(row.location) ? row.location[0] : row.location;
+    const generatedPage = Array.isArray(row.generated_page) ? row.generated_page[0] : row.generated_page;
+    return {
+      id: row.id,
+      phrase: row.phrase || "",
+      locationName: location?.name || "",
+      parentId: row.parent_location_id,
+      url: row.wp_page_url || null,
+      status: row.status,
+      hasPage: !!generatedPage,
+      content: options.withContent ? generatedPage?.content ?? null : undefined,
+    };
+  });
+}
+
+async function rewriteLinkMesh(supabase: any, pages: LinkGraphPage[], locationKeywordIds?: string[]): Promise<string[]> {
+  const targets = pages.filter((p) => p.hasPage && (!locationKeywordIds || locationKeywordIds.includes(p.id)));
+  if (targets.length === 0) return [];
+
+  const { data: stored, error } = await supabase
+    .from("generated_pages")
+    .select("location_keyword_id, content")
+    .in("location_keyword_id", targets.map((p) => p.id));
+
+  if (error) throw error;
+
+  const updated: string[] = [];
+  for (const row of stored || []) {
+    const content = row.content || "";
+    const next = withLinkMesh(content, row.location_keyword_id, pages);
+    if (next === content) continue;
+
+    const { error: updateError } = await supabase
+      .from("generated_pages")
+      .update({ content: next, content_source: "link_mesh", updated_at: new Date().toISOString() })
+      .eq("location_keyword_id", row.location_keyword_id);
+
+    if (updateError) throw updateError;
+    updated.push(row.location_keyword_id);
+  }
+
+  return updated;
+}
+
+/**
+ * Rewrite the mesh block of the given pages (every page when no ids are
+ * given). Returns the ids whose content changed.
+ */
+export async function refreshLinkMesh(
+  supabase: any,
+  projectId: string,
+  locationKeywordIds?: string[]
+): Promise<string[]> {
+  return rewriteLinkMesh(supabase, await loadLinkGraphPages(supabase, projectId), locationKeywordIds);
+}
+
+/**
+ * Rewrite the mesh blocks that can link to a page once it has a WordPress URL,
+ * and queue a WordPress push for the rewritten pages that are already live
+ */
+export async function refreshMeshNeighbours(
+  supabase: any,
+  params: { projectId: string; locationKeywordId: string; userId: string }
+): Promise<{ relinked: string[]; queued: string[] }> {
+  const pages = await loadLinkGraphPages(supabase, params.projectId);
+  const relinked = await rewriteLinkMesh(supabase, pages, meshNeighbourIds(params.locationKeywordId, pages));
+
+  const live = pages.filter((p) => relinked.includes(p.id) && p.status === "pushed").map((p) => p.id);
+  const queued = await queueRepush(supabase, {
+    projectId: params.projectId,
+    userId: params.userId,
+    locationKeywordIds: live,
+  });
+  return { relinked, queued };
+}
+
+/**
+ * Queue a WordPress push for pages already live, e.g. after their links were
+ * rewritten. Pages with a push already waiting are not queued twice. Returns
+ * the ids queued.
+ */
+export async function queueRepush(
+  supabase: any,
+  params: { projectId: string; userId: string; locationKeywordIds: string[] }
+): Promise<string[]> {
+  if (params.locationKeywordIds.length === 0) return [];
+
+  const { data: waiting, error: waitingError } = await supabase
+    .from("wordpress_push_jobs")
+    .select("location_keyword_id")
+    .in("location_keyword_id", params.locationKeywordIds)
+    .in("status", ["queued", "processing"]);
+
+  if (waitingError) throw waitingError;
+
+  const alreadyQueued = new Set((waiting || []).map((job: any) => job.location_keyword_id));
+  const queued = params.locationKeywordIds.filter((id) => !alreadyQueued.has(id));
+  if (queued.length === 0) return queued;
+
+  const { error: queueError } = await supabase
+    .from("wordpress_push_jobs")
+    .insert(queued.map((locationKeywordId) => ({
+      user_id: params.userId,
+      project_id: params.projectId,
+      location_keyword_id: locationKeywordId,
+      status: "queued",
+      priority: 0,
+      attempts: 0,
+      max_attempts: 3,
+    })));
+
+  if (queueError) throw queueError;
+  return queued;
+}
+
+/**
+ * Once a town page has its WordPress URL, add the link to it on every suburb
+ * under it, and queue a WordPress push for the suburbs that are already live.
+ * Suburbs with a push already waiting are not queued twice.
+ */
+export async function backfillParentLinks(
+  supabase: any,
+  params: { projectId: string; townId: string; userId: string }
+): Promise<{ patched: string[]; queued: string[] }> {
+  const pages = await loadLinkGraphPages(supabase, params.projectId);
+  const suburbs = pages.filter((p) => p.parentId === params.townId);
+  const patched = await rewriteLinkMesh(supabase, pages, suburbs.map((p) => p.id));
+
+  const live = suburbs.filter((p) => patched.includes(p.id) && p.status === "pushed").map((p) => p.id);
+  const queued = await queueRepush(supabase, {
+    projectId: params.projectId,
+    userId: params.userId,
+    locationKeywordIds: live,
+  });
+  return { patched, queued };
+}
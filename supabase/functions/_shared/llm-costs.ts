@@ -0,0 +1,150 @@
+/**
+ * Token and cost accounting for LLM calls, and the monthly spend caps.
+ *
+ * Every completion made through withUsageLogging() is written to api_logs with
+ * its token counts and cost, tagged with the project, location keyword,
+ * service and page type so spend can be broken down per page. The cost is
+ * what the provider reported (OpenRouter) or an estimate from MODEL_PRICES.
+ *
+ * Projects and agencies can set a monthly budget. Once this calendar month's
+ * spend (UTC) reaches either cap, getBudgetStatus() reports the project as
+ * paused and the workers stop generating for it.
+ */
+
+import { llmEndpoint, type LlmCompletion, type LlmProvider, type LlmUsage } from "./llm-providers.ts";
+import type { PromptPageType } from "./prompt-templates.ts";
+
+// USD per million tokens. Models are matched by prefix, ignoring any "vendor/" prefix.
+const MODEL_PRICES: Array<{ model: string; input: number; output: number }> = [
+  { model: "grok-4.1-fast", input: 0.2, output: 0.5 },
+  { model: "grok-4-fast", input: 0.2, output: 0.5 },
+  { model: "gpt-4o-mini", input: 0.15, output: 0.6 },
+  { model: "gpt-4o", input: 2.5, output: 10 },
+  { model: "gpt-4.1-mini", input: 0.4, output: 1.6 },
+  { model: "gpt-4.1", input: 2, output: 8 },
+  { model: "claude-haiku-4-5", input: 1, output: 5 },
+  { model: "claude-3-5-haiku", input: 0.8, output: 4 },
+  { model: "claude-sonnet-4", input: 3, output: 15 },
+  { model: "mock", input: 0, output: 0 },
+];
+
+export interface LlmCallContext {
+  userId: string | null;
+  projectId: string | null;
+  locationKeywordId?: string | null;
+  serviceId?: string | null;
+  pageType?: PromptPageType | null;
+  jobId?: string | null;
+}
+
+export interface LlmBudgetStatus {
+  month_start: string;
+  project_spend_usd: number;
+  project_budget_usd: number | null;
+  agency_id: string | null;
+  agency_spend_usd: number;
+  agency_budget_usd: number | null;
+  paused: boolean;
+  paused_reason: string | null;
+}
+
+export class BudgetExceededError extends Error {
+  status: LlmBudgetStatus;
+
+  constructor(status: LlmBudgetStatus) {
+    super(status.paused_reason || "Monthly AI budget reached");
+    this.name = "BudgetExceededError";
+    this.status = status;
+  }
+}
+
+/**
+ * Cost of a call in USD: the provider's own figure if it reported one,
+ * otherwise an estimate from MODEL_PRICES. NULL when the model is unknown.
+ */
+export function calculateCostUsd(model: string, usage: LlmUsage | null): number | null {
+  if (!usage) return null;
+  if (typeof usage.cost_usd === "number") return usage.cost_usd;
+
+  const name = model.toLowerCase().split("/").pop() || "";
+  const price = MODEL_PRICES.find((p) => name.startsWith(p.model));
+  if (!price) return null;
+
+  return (usage.prompt_tokens * price.input + usage.completion_tokens * price.output) / 1_000_000;
+}
+
+/**
+ * Wrap a provider so every successful completion is logged to api_logs with
+ * its tokens and cost. Failed calls are logged by the caller as before.
+ */
+export function withUsageLogging(supabase: any, llm: LlmProvider, context: LlmCallContext): LlmProvider {
+  return {
+    name: llm.name,
+    model: llm.model,
+    async complete(messages, options) {
+      const completion = await llm.complete(messages, options);
+      await logLlmUsage(supabase, llm, completion, context, {
+        operation: options?.operation || "generate",
+        promptLength: messages.reduce((length, message) => length + message.content.length, 0),
+      });
+      return completion;
+    },
+  };
+}
+
+async function logLlmUsage(
+  supabase: any,
+  llm: LlmProvider,
+  completion: LlmCompletion,
+  context: LlmCallContext,
+  call: { operation: string; promptLength: number }
+) {
+  const costUsd = calculateCostUsd(completion.model, completion.usage);
+  if (completion.usage && costUsd === null) {
+    console.warn(`⚠️ No price known for model ${completion.model} - cost not recorded`);
+  }
+
+  const { error } = await supabase.from("api_logs").insert({
+    user_id: context.userId,
+    project_id: context.projectId,
+    api_type: llm.name,
+    endpoint: llmEndpoint(llm.name),
+    method: "POST",
+    status_code: 200,
+    operation: call.operation,
+    model: completion.model,
+    prompt_tokens: completion.usage?.prompt_tokens ?? null,
+    completion_tokens: completion.usage?.completion_tokens ?? null,
+    total_tokens: completion.usage?.total_tokens ?? null,
+    cost_usd: costUsd,
+    location_keyword_id: context.locationKeywordId || null,
+    service_id: context.serviceId || null,
+    page_type: context.pageType || null,
+    request_body: { provider: llm.name, model: llm.model, prompt_length: call.promptLength, job_id: context.jobId },
+    response_body: { usage: completion.usage },
+  });
+
+  // Accounting must never fail the generation itself
+  if (error) {
+    console.error("Failed to log LLM usage:", error);
+  }
+}
+
+/**
+ * This month's spend against the project and agency budgets
+ */
+export async function getBudgetStatus(supabase: any, projectId: string): Promise<LlmBudgetStatus> {
+  const { data, error } = await supabase.rpc("get_llm_budget_status", { p_project_id: projectId });
+  if (error) throw error;
+  return data as LlmBudgetStatus;
+}
+
+/**
+ * Throw BudgetExceededError if the project or its agency is over budget
+ */
+export async function assertWithinBudget(supabase: any, projectId: string): Promise<void> {
+  const status = await getBudgetStatus(supabase, projectId);
+  if (status.paused) {
+    throw new BudgetExceededError(status);
+  }
+}
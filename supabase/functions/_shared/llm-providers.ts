@@ -0,0 +1,393 @@
+/**
+ * LLM provider layer shared by the content edge functions.
+ *
+ * Each provider turns a list of chat messages into a completion. The provider,
+ * model, temperature and max_tokens are resolved per project (falling back to
+ * the owner's plan, then to DEFAULT_LLM_SETTINGS) so models can be A/B tested
+ * without code changes. Set GEOSCALE_LLM_PROVIDER=mock to force every call
+ * through the offline mock provider (used in CI).
+ */
+
+export type LlmProviderName = "openrouter" | "openai" | "anthropic" | "mock";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  temperature: number | null;
+  max_tokens: number | null;
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd?: number | null; // Cost reported by the provider (OpenRouter), if any
+}
+
+// What an LLM call was for, recorded against its cost in api_logs
+export type LlmOperation = "generate" | "repair" | "optimise";
+
+export interface LlmCompletion {
+  text: string;
+  model: string;
+  usage: LlmUsage | null;
+  raw: any;
+}
+
+export interface LlmCompletionOptions {
+  temperature?: number | null;
+  max_tokens?: number | null;
+  title?: string; // Sent as X-Title to OpenRouter for request attribution
+  operation?: LlmOperation; // Defaults to "generate"
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(messages: LlmMessage[], options?: LlmCompletionOptions): Promise<LlmCompletion>;
+}
+
+/**
+ * API path a provider's completions are sent to, as recorded in api_logs
+ */
+export function llmEndpoint(name: LlmProviderName): string {
+  return name === "anthropic" ? "/v1/messages" : "/v1/chat/completions";
+}
+
+export class LlmProviderError extends Error {
+  status: number;
+  provider: LlmProviderName;
+  retryAfterSeconds: number | null;
+
+  constructor(provider: LlmProviderName, status: number, message: string, retryAfterSeconds: number | null = null) {
+    super(message);
+    this.name = "LlmProviderError";
+    this.provider = provider;
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/**
+ * Seconds from a Retry-After header (delta-seconds or HTTP date)
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+export const LLM_PROVIDERS: LlmProviderName[] = ["openrouter", "openai", "anthropic", "mock"];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: "openrouter",
+  model: "x-ai/grok-4.1-fast",
+  temperature: null,
+  max_tokens: null,
+};
+
+// Default model per provider, used when a project switches provider but leaves the model blank
+const DEFAULT_MODELS: Record<LlmProviderName, string> = {
+  openrouter: "x-ai/grok-4.1-fast",
+  openai: "gpt-4o-mini",
+  anthropic: "claude-sonnet-4-5",
+  mock: "mock-echo",
+};
+
+interface LlmSettingsSource {
+  llm_provider?: string | null;
+  llm_model?: string | null;
+  llm_temperature?: number | string | null;
+  llm_max_tokens?: number | string | null;
+}
+
+function toNumberOrNull(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isProviderName(value: unknown): value is LlmProviderName {
+  return typeof value === "string" && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+/**
+ * Resolve LLM settings for a project. Project columns win over plan columns,
+ * which win over DEFAULT_LLM_SETTINGS. GEOSCALE_LLM_PROVIDER overrides everything.
+ */
+export function resolveLlmSettings(
+  project?: LlmSettingsSource | null,
+  plan?: LlmSettingsSource | null
+): LlmSettings {
+  const envProvider = Deno.env.get("GEOSCALE_LLM_PROVIDER");
+
+  const provider: LlmProviderName = isProviderName(envProvider)
+    ? envProvider
+    : isProviderName(project?.llm_provider)
+    ? project!.llm_provider as LlmProviderName
+    : isProviderName(plan?.llm_provider)
+    ? plan!.llm_provider as LlmProviderName
+    : DEFAULT_LLM_SETTINGS.provider;
+
+  // Only inherit a model from a source that uses the same provider
+  const modelFrom = (source?: LlmSettingsSource | null) =>
+    source?.llm_model && (!source.llm_provider || source.llm_provider === provider) ? source.llm_model : null;
+
+  return {
+    provider,
+    model: modelFrom(project) || modelFrom(plan) || DEFAULT_MODELS[provider],
+    temperature: toNumberOrNull(project?.llm_temperature) ?? toNumberOrNull(plan?.llm_temperature) ?? DEFAULT_LLM_SETTINGS.temperature,
+    max_tokens: toNumberOrNull(project?.llm_max_tokens) ?? toNumberOrNull(plan?.llm_max_tokens) ?? DEFAULT_LLM_SETTINGS.max_tokens,
+  };
+}
+
+/**
+ * Load the LLM settings for a project, including the owner's plan defaults
+ */
+export async function loadProjectLlmSettings(supabase: any, projectId: string): Promise<LlmSettings> {
+  const { data: project } = await supabase
+    .from("projects")
+    .select("user_id, llm_provider, llm_model, llm_temperature, llm_max_tokens")
+    .eq("id", projectId)
+    .single();
+
+  let plan: LlmSettingsSource | null = null;
+  if (project?.user_id) {
+    const { data: user } = await supabase
+      .from("users")
+      .select("plan_id")
+      .eq("id", project.user_id)
+      .single();
+
+    if (user?.plan_id) {
+      const { data: planData } = await supabase
+        .from("plans")
+        .select("llm_provider, llm_model, llm_temperature, llm_max_tokens")
+        .eq("id", user.plan_id)
+        .single();
+      plan = planData;
+    }
+  }
+
+  return resolveLlmSettings(project, plan);
+}
+
+function buildBody(model: string, messages: LlmMessage[], settings: LlmSettings, options?: LlmCompletionOptions) {
+  const body: Record<string, unknown> = { model, messages };
+  const temperature = options?.temperature ?? settings.temperature;
+  const maxTokens = options?.max_tokens ?? settings.max_tokens;
+  if (temperature !== null && temperature !== undefined) body.temperature = temperature;
+  if (maxTokens !== null && maxTokens !== undefined) body.max_tokens = maxTokens;
+  return body;
+}
+
+function parseOpenAiUsage(usage: any): LlmUsage | null {
+  if (!usage) return null;
+  return {
+    prompt_tokens: usage.prompt_tokens ?? 0,
+    completion_tokens: usage.completion_tokens ?? 0,
+    total_tokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+    cost_usd: typeof usage.cost === "number" ? usage.cost : null,
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions (OpenRouter, OpenAI, or any server that
+ * speaks the same protocol via OPENAI_BASE_URL)
+ */
+function createOpenAiCompatibleProvider(
+  name: "openrouter" | "openai",
+  settings: LlmSettings
+): LlmProvider {
+  const apiKey = name === "openrouter" ? Deno.env.get("OPENROUTER_API_KEY") : Deno.env.get("OPENAI_API_KEY");
+  const baseUrl = name === "openrouter"
+    ? "https://openrouter.ai/api/v1"
+    : (Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1").replace(/\/$/, "");
+
+  return {
+    name,
+    model: settings.model,
+    async complete(messages, options) {
+      if (!apiKey) {
+        throw new LlmProviderError(name, 500, `${name === "openrouter" ? "OPENROUTER_API_KEY" : "OPENAI_API_KEY"} is not set`);
+      }
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      };
+      if (name === "openrouter") {
+        headers["HTTP-Referer"] = Deno.env.get("SUPABASE_URL") || "";
+        headers["X-Title"] = options?.title || "GeoScale";
+      }
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          ...buildBody(settings.model, messages, settings, options),
+          // Ask OpenRouter to include the call's cost in the usage block
+          ...(name === "openrouter" ? { usage: { include: true } } : {}),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new LlmProviderError(
+          name,
+          response.status,
+          `${name === "openrouter" ? "OpenRouter" : "OpenAI"} API error: ${response.status} - ${errorText}`,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      const data = await response.json();
+      return {
+        text: data.choices?.[0]?.message?.content?.trim() || "",
+        model: data.model || settings.model,
+        usage: parseOpenAiUsage(data.usage),
+        raw: data,
+      };
+    },
+  };
+}
+
+/**
+ * Anthropic Messages API
+ */
+function createAnthropicProvider(settings: LlmSettings): LlmProvider {
+  const apiKey = Deno.env.get("ANTHROPIC_API_KEY");
+  const baseUrl = (Deno.env.get("ANTHROPIC_BASE_URL") || "https://api.anthropic.com/v1").replace(/\/$/, "");
+
+  return {
+    name: "anthropic",
+    model: settings.model,
+    async complete(messages, options) {
+      if (!apiKey) {
+        throw new LlmProviderError("anthropic", 500, "ANTHROPIC_API_KEY is not set");
+      }
+
+      // Anthropic takes the system prompt separately from the conversation
+      const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n\n");
+      const conversation = messages.filter((m) => m.role !== "system");
+
+      const body = buildBody(settings.model, conversation, settings, options);
+      if (!body.max_tokens) body.max_tokens = 8000; // Required by the Messages API
+      if (system) body.system = system;
+
+      const response = await fetch(`${baseUrl}/messages`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": "2023-06-01",
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new LlmProviderError(
+          "anthropic",
+          response.status,
+          `Anthropic API error: ${response.status} - ${errorText}`,
+          parseRetryAfter(response.headers.get("retry-after"))
+        );
+      }
+
+      const data = await response.json();
+      const text = (data.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join("")
+        .trim();
+
+      return {
+        text,
+        model: data.model || settings.model,
+        usage: data.usage
+          ? {
+            prompt_tokens: data.usage.input_tokens ?? 0,
+            completion_tokens: data.usage.output_tokens ?? 0,
+            total_tokens: (data.usage.input_tokens ?? 0) + (data.usage.output_tokens ?? 0),
+          }
+          : null,
+        raw: data,
+      };
+    },
+  };
+}
+
+/**
+ * Offline provider for tests and CI. Never calls the network.
+ * - Prompts that ask for a JSON page get a small, well-formed page back
+ * - Prompts with a "CURRENT CONTENT:" block get that content echoed back
+ * - Anything else is echoed verbatim
+ */
+function createMockProvider(settings: LlmSettings): LlmProvider {
+  const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+  return {
+    name: "mock",
+    model: settings.model,
+    async complete(messages) {
+      const prompt = messages.map((m) => m.content).join("\n\n");
+      const field = (label: string) => prompt.match(new RegExp(`^${label}:\\s*(.+)$`, "m"))?.[1]?.trim() || "";
+
+      let text: string;
+      if (/Format your response as JSON/i.test(prompt)) {
+        const service = field("Service") || "Service";
+        const location = field("Suburb Location") || field("Location") || "Location";
+        const business = field("Business name") || "GeoScale";
+        text = JSON.stringify({
+          title: `${service} in ${location}`,
+          meta_title: `${service} in ${location} | ${business}`,
+          meta_description: `${service} in ${location} from ${business}.`,
+          content: [
+            `<h2>${service} in ${location}</h2>`,
+            `<p>${business} provides ${service.toLowerCase()} for homes and businesses across ${location}.</p>`,
+            `<p>Whether you need a one-off job or ongoing support, our team is available throughout ${location} and the surrounding area.</p>`,
+            `<h2>Get in touch</h2>`,
+            `<p>Contact ${business} today to talk about ${service.toLowerCase()} in ${location}.</p>`,
+          ].join(""),
+        });
+      } else {
+        const current = prompt.match(/CURRENT CONTENT:\n([\s\S]*?)\n\n[A-Z][A-Z ]+:/);
+        text = current ? current[1].trim() : prompt;
+      }
+
+      const promptTokens = estimateTokens(prompt);
+      const completionTokens = estimateTokens(text);
+      return {
+        text,
+        model: settings.model,
+        usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens, cost_usd: 0 },
+        raw: { mock: true },
+      };
+    },
+  };
+}
+
+/**
+ * Create a provider for the given settings
+ */
+export function createLlmProvider(settings: LlmSettings = DEFAULT_LLM_SETTINGS): LlmProvider {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAiCompatibleProvider("openai", settings);
+    case "anthropic":
+      return createAnthropicProvider(settings);
+    case "mock":
+      return createMockProvider(settings);
+    case "openrouter":
+    default:
+      return createOpenAiCompatibleProvider("openrouter", settings);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Project locale: the country pages target, the language and spelling they
+ * are written in, and the currency prices are given in. Shared by the content
+ * workers, the DataForSEO and Places functions, and the app (through
+ * src/lib/locale.ts).
+ *
+ * The country decides the DataForSEO location code and where Places searches
+ * are biased. The language decides the DataForSEO language code. All four
+ * settings go into the prompts through {{localeInstructions}}.
+ *
+ * Like content-scoring.ts this file has no imports, so Deno and Vite can both
+ * load it.
+ */
+
+export interface ProjectLocale {
+  country: string; // ISO 3166-1 alpha-2, e.g. "GB"
+  language: string; // ISO 639-1, e.g. "en"
+  spelling: string; // BCP 47 variant, e.g. "en-GB"
+  currency: string; // ISO 4217, e.g. "GBP"
+}
+
+export interface LocaleCountry {
+  name: string;
+  dataForSeoLocationCode: number;
+  placesCentre: { latitude: number; longitude: number };
+  defaults: Omit<ProjectLocale, "country">;
+}
+
+export const LOCALE_COUNTRIES: Record<string, LocaleCountry> = {
+  GB: {
+    name: "United Kingdom",
+    dataForSeoLocationCode: 2826,
+    placesCentre: { latitude: 54.0, longitude: -2.0 },
+    defaults: { language: "en", spelling: "en-GB", currency: "GBP" },
+  },
+  IE: {
+    name: "Ireland",
+    dataForSeoLocationCode: 2372,
+    placesCentre: { latitude: 53.4, longitude: -8.0 },
+    defaults: { language: "en", spelling: "en-IE", currency: "EUR" },
+  },
+  AU: {
+    name: "Australia",
+    dataForSeoLocationCode: 2036,
+    placesCentre: { latitude: -25.3, longitude: 133.8 },
+    defaults: { language: "en", spelling: "en-AU", currency: "AUD" },
+  },
+  NZ: {
+    name: "New Zealand",
+    dataForSeoLocationCode: 2554,
+    placesCentre: { latitude: -41.0, longitude: 174.0 },
+    defaults: { language: "en", spelling: "en-NZ", currency: "NZD" },
+  },
+  US: {
+    name: "United States",
+    dataForSeoLocationCode: 2840,
+    placesCentre: { latitude: 39.8, longitude: -98.6 },
+    defaults: { language: "en", spelling: "en-US", currency: "USD" },
+  },
+  CA: {
+    name: "Canada",
+    dataForSeoLocationCode: 2124,
+    placesCentre: { latitude: 56.1, longitude: -106.3 },
+    defaults: { language: "en", spelling: "en-CA", currency: "CAD" },
+  },
+};
+
+export const LOCALE_LANGUAGES: Record<string, string> = {
+  en: "English",
+  fr: "French",
+  es: "Spanish",
+  de: "German",
+};
+
+// Spelling variants only apply to English
+export const SPELLING_VARIANTS: Record<string, { name: string; example: string }> = {
+  "en-GB": { name: "British English", example: "colour, organise, centre" },
+  "en-IE": { name: "Irish English", example: "colour, organise, centre" },
+  "en-AU": { name: "Australian English", example: "colour, organise, centre" },
+  "en-NZ": { name: "New Zealand English", example: "colour, organise, centre" },
+  "en-US": { name: "American English", example: "color, organize, center" },
+  "en-CA": { name: "Canadian English", example: "colour, organize, centre" },
+};
+
+export const LOCALE_CURRENCIES: Record<string, { name: string; symbol: string }> = {
+  GBP: { name: "Pound sterling", symbol: "£" },
+  EUR: { name: "Euro", symbol: "€" },
+  AUD: { name: "Australian dollar", symbol: "A$" },
+  NZD: { name: "New Zealand dollar", symbol: "NZ$" },
+  USD: { name: "US dollar", symbol: "$" },
+  CAD: { name: "Canadian dollar", symbol: "C$" },
+};
+
+export const DEFAULT_LOCALE: ProjectLocale = { country: "GB", ...LOCALE_COUNTRIES.GB.defaults };
+
+/**
+ * The project's locale, with anything unset or unknown taken from its country
+ */
+export function resolveLocale(
+  project: { locale_country?: string | null; locale_language?: string | null; locale_spelling?: string | null; locale_currency?: string | null } | null | undefined
+): ProjectLocale {
+  const country = project?.locale_country && LOCALE_COUNTRIES[project.locale_country] ? project.locale_country : DEFAULT_LOCALE.country;
+  const defaults = LOCALE_COUNTRIES[country].defaults;
+  const language = project?.locale_language && LOCALE_LANGUAGES[project.locale_language] ? project.locale_language : defaults.language;
+
+  return {
+    country,
+    language,
+    spelling: project?.locale_spelling && SPELLING_VARIANTS[project.locale_spelling] ? project.locale_spelling : defaults.spelling,
+    currency: project?.locale_currency && LOCALE_CURRENCIES[project.locale_currency] ? project.locale_currency : defaults.currency,
+  };
+}
+
+/**
+ * location_code and language_code for DataForSEO requests
+ */
+export function dataForSeoLocale(locale: ProjectLocale): { location_code: number; language_code: string } {
+  return {
+    location_code: LOCALE_COUNTRIES[locale.country].dataForSeoLocationCode,
+    language_code: locale.language,
+  };
+}
+
+/**
+ * Prompt lines telling the model which language, spelling, currency and country to write for
+ */
+export function localeInstructions(locale: ProjectLocale): string {
+  const country = LOCALE_COUNTRIES[locale.country].name;
+  const currency = LOCALE_CURRENCIES[locale.currency];
+  const lines = [`- Write for readers in ${country}, using local terms and conventions`];
+
+  if (locale.language === "en") {
+    const spelling = SPELLING_VARIANTS[locale.spelling];
+    lines.unshift(`- Write in ${spelling.name} and use its spelling throughout (e.g. ${spelling.example})`);
+  } else {
+    lines.unshift(`- Write the whole page, including title and meta fields, in ${LOCALE_LANGUAGES[locale.language]}`);
+  }
+
+  lines.push(`- Give any prices in ${currency.name} (${currency.symbol})`);
+  return lines.join("\n");
+}
+
+/**
+ * The locale's prompt template variables
+ */
+export function localePromptVariables(locale: ProjectLocale): Record<string, string> {
+  const currency = LOCALE_CURRENCIES[locale.currency];
+  return {
+    localeInstructions: localeInstructions(locale),
+    language: LOCALE_LANGUAGES[locale.language],
+    spellingVariant: locale.language === "en" ? SPELLING_VARIANTS[locale.spelling].name : "",
+    country: LOCALE_COUNTRIES[locale.country].name,
+    currency: `${locale.currency} (${currency.symbol})`,
+  };
+}
+
+/**
+ * A project's locale, or the default when it can't be loaded
+ */
+export async function loadProjectLocale(supabase: any, projectId: string): Promise<ProjectLocale> {
+  const { data, error } = await supabase
+    .from("projects")
+    .select("locale_country, locale_language, locale_spelling, locale_currency")
+    .eq("id", projectId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load project locale, using the default:", error);
+  }
+  return resolveLocale(data);
+}
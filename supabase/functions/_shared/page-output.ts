@@ -0,0 +1,248 @@
+/**
+ * Parsing, validation and repair of the JSON page the content prompts ask for.
+ *
+ * The model is asked for { title, meta_title, meta_description, content }.
+ * Responses are cleaned up locally first (code fences, trailing commas, raw
+ * newlines inside strings, stray <h1> tags). If the result still doesn't
+ * parse or validate, the model gets one follow-up turn to fix it. Anything
+ * still wrong after that throws a PageOutputValidationError listing each
+ * failed check, which the worker stores in content_generation_jobs.error_message.
+ */
+
+import type { LlmProvider } from "./llm-providers.ts";
+
+export interface GeneratedPageOutput {
+  title: string;
+  meta_title: string;
+  meta_description: string;
+  content: string;
+}
+
+export const PAGE_OUTPUT_LIMITS = {
+  title: 100,
+  meta_title: 70,
+  meta_description: 160,
+  minContentLength: 200,
+};
+
+export class PageOutputValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[], repaired: boolean) {
+    super(`Generated page failed validation${repaired ? " after repair" : ""}: ${issues.join("; ")}`);
+    this.name = "PageOutputValidationError";
+    this.issues = issues;
+  }
+}
+
+type ParseResult =
+  | { ok: true; value: GeneratedPageOutput; repairs: string[] }
+  | { ok: false; issues: string[]; repairs: string[]; candidate: string };
+
+/**
+ * Strip markdown code fences and anything outside the outermost braces
+ */
+function extractJsonCandidate(text: string, repairs: string[]): string {
+  let candidate = text.trim();
+
+  const fenced = candidate.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    candidate = fenced[1].trim();
+    repairs.push("stripped code fences");
+  }
+
+  const start = candidate.indexOf("{");
+  const end = candidate.lastIndexOf("}");
+  if (start !== -1 && end > start && (start > 0 || end < candidate.length - 1)) {
+    candidate = candidate.slice(start, end + 1);
+    repairs.push("trimmed text around JSON");
+  }
+
+  return candidate;
+}
+
+/**
+ * Fix the JSON mistakes models make most often: trailing commas and raw
+ * newlines/tabs inside string values (common in long HTML content)
+ */
+function repairJsonText(json: string, repairs: string[]): string {
+  let output = "";
+  let inString = false;
+  let escaped = false;
+  let escapedControls = false;
+
+  for (const char of json) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === "\"") {
+        inString = false;
+      } else if (char === "\n" || char === "\r" || char === "\t") {
+        output += char === "\n" ? "\\n" : char === "\r" ? "\\r" : "\\t";
+        escapedControls = true;
+        continue;
+      }
+    } else if (char === "\"") {
+      inString = true;
+    }
+    output += char;
+  }
+
+  if (escapedControls) {
+    repairs.push("escaped raw newlines in strings");
+  }
+
+  const withoutTrailingCommas = output.replace(/,(\s*[}\]])/g, "$1");
+  if (withoutTrailingCommas !== output) {
+    repairs.push("removed trailing commas");
+  }
+
+  return withoutTrailingCommas;
+}
+
+/**
+ * Check a parsed object against the page schema. Returns the failed checks.
+ */
+export function validatePageOutput(value: any): string[] {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["response is not a JSON object"];
+  }
+
+  const issues: string[] = [];
+
+  for (const field of ["title", "meta_title", "meta_description", "content"] as const) {
+    if (typeof value[field] !== "string" || !value[field].trim()) {
+      issues.push(`${field} is missing or empty`);
+    }
+  }
+
+  const checkLength = (field: "title" | "meta_title" | "meta_description", max: number) => {
+    if (typeof value[field] === "string" && value[field].trim().length > max) {
+      issues.push(`${field} is ${value[field].trim().length} characters (max ${max})`);
+    }
+  };
+  checkLength("title", PAGE_OUTPUT_LIMITS.title);
+  checkLength("meta_title", PAGE_OUTPUT_LIMITS.meta_title);
+  checkLength("meta_description", PAGE_OUTPUT_LIMITS.meta_description);
+
+  if (typeof value.content === "string" && value.content.trim()) {
+    const content = value.content;
+    if (!/<(p|h2|h3|ul|ol|div|table)\b/i.test(content)) {
+      issues.push("content is not HTML (no <p>, <h2>, <h3>, <ul>, <ol>, <div> or <table> tags)");
+    }
+    if (/<h1\b/i.test(content)) {
+      issues.push("content contains an <h1> tag");
+    }
+    if (content.replace(/<[^>]+>/g, "").trim().length < PAGE_OUTPUT_LIMITS.minContentLength) {
+      issues.push(`content has less than ${PAGE_OUTPUT_LIMITS.minContentLength} characters of text`);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Parse and validate a model response without calling the model again
+ */
+export function parsePageOutput(text: string): ParseResult {
+  const repairs: string[] = [];
+  const candidate = extractJsonCandidate(text, repairs);
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(candidate);
+  } catch {
+    try {
+      parsed = JSON.parse(repairJsonText(candidate, repairs));
+    } catch (error: any) {
+      return { ok: false, issues: [`response is not valid JSON (${error.message})`], repairs, candidate };
+    }
+  }
+
+  if (parsed && typeof parsed === "object") {
+    // meta_title has always been optional in practice - fall back to the title
+    if ((typeof parsed.meta_title !== "string" || !parsed.meta_title.trim()) && typeof parsed.title === "string") {
+      parsed.meta_title = parsed.title;
+      repairs.push("used title as meta_title");
+    }
+
+    // WordPress renders the page title as the H1, so demote any H1 in the body
+    if (typeof parsed.content === "string" && /<h1\b/i.test(parsed.content)) {
+      parsed.content = parsed.content.replace(/<h1\b/gi, "<h2").replace(/<\/h1>/gi, "</h2>");
+      repairs.push("demoted <h1> to <h2>");
+    }
+  }
+
+  const issues = validatePageOutput(parsed);
+  if (issues.length > 0) {
+    return { ok: false, issues, repairs, candidate };
+  }
+
+  return {
+    ok: true,
+    value: {
+      title: parsed.title.trim(),
+      meta_title: parsed.meta_title.trim(),
+      meta_description: parsed.meta_description.trim(),
+      content: parsed.content.trim(),
+    },
+    repairs,
+  };
+}
+
+function buildFixPrompt(candidate: string, issues: string[]): string {
+  return `The JSON below was generated for a web page but failed validation.
+
+PROBLEMS:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+RULES:
+- title: max ${PAGE_OUTPUT_LIMITS.title} characters
+- meta_title: max ${PAGE_OUTPUT_LIMITS.meta_title} characters
+- meta_description: max ${PAGE_OUTPUT_LIMITS.meta_description} characters
+- content: HTML using h2, h3, p, ul, li, strong, em - no H1 tags
+- Fix ONLY the problems listed. Keep all other wording and HTML exactly as it is.
+
+Format your response as JSON with exactly the keys "title", "meta_title", "meta_description" and "content".
+Output ONLY the JSON object, no code fences or explanations.
+
+BROKEN JSON:
+${candidate}`;
+}
+
+/**
+ * Parse a model response into a page, repairing it locally and then with one
+ * follow-up "fix this JSON" turn if needed. Throws PageOutputValidationError
+ * with the remaining failed checks if the page still isn't valid.
+ */
+export async function parseAndRepairPageOutput(
+  text: string,
+  llm: LlmProvider,
+  logPrefix = ""
+): Promise<{ page: GeneratedPageOutput; repairs: string[] }> {
+  const first = parsePageOutput(text);
+  if (first.ok) {
+    if (first.repairs.length > 0) {
+      console.log(`🔧 ${logPrefix}Repaired page output: ${first.repairs.join(", ")}`);
+    }
+    return { page: first.value, repairs: first.repairs };
+  }
+
+  console.log(`🔧 ${logPrefix}Page output invalid (${first.issues.join("; ")}) - asking ${llm.name} to fix it`);
+
+  const fix = await llm.complete(
+    [{ role: "user", content: buildFixPrompt(first.candidate, first.issues) }],
+    { temperature: 0, title: "GeoScale JSON Repair", operation: "repair" }
+  );
+
+  const second = parsePageOutput(fix.text);
+  if (!second.ok) {
+    throw new PageOutputValidationError(second.issues, true);
+  }
+
+  const repairs = [...first.repairs, `${llm.name} fix-up turn`, ...second.repairs];
+  console.log(`🔧 ${logPrefix}Repaired page output: ${repairs.join(", ")}`);
+  return { page: second.value, repairs };
+}
@@ -0,0 +1,314 @@
+/**
+ * Prompt templates shared by the content edge functions.
+ *
+ * Template bodies use a small mustache-style syntax:
+ *   {{name}}                     - value of the variable (empty if unset)
+ *   {{name|fallback text}}       - value, or the fallback text if empty
+ *   {{#name}}...{{/name}}        - rendered only when the variable is set
+ *   {{^name}}...{{/name}}        - rendered only when the variable is empty
+ *
+ * Projects and services can be assigned a template from the prompt_templates
+ * table. Anything without an assignment uses the built-in prompts below.
+ */
+
+export type PromptPageType = "town" | "suburb";
+
+export type PromptVariables = Record<string, string | null | undefined>;
+
+export interface ResolvedPromptTemplate {
+  body: string;
+  versionId: string | null; // NULL for built-in prompts
+  ref: string; // Stored on generated_pages.prompt_template_ref
+}
+
+// Bump the version when editing a built-in prompt so generated_pages can tell the wording apart
+export const BUILTIN_PROMPT_VERSIONS: Record<PromptPageType, number> = {
+  town: 2,
+  suburb: 2,
+};
+
+export const BUILTIN_SUBURB_PROMPT = `Create a suburb-level service coverage page that reinforces local relevance while supporting the main town page.
+
+PAGE TYPE: Suburb/Local Coverage Page
+This is NOT a primary sales landing page. This is a local relevance amplifier.
+This page must support the main town page, not compete with it.
+
+Service: {{serviceName}}
+Suburb Location: {{location}}
+Parent Town: {{parentLocation|Main town}}
+Target keyword phrase: {{serviceName}} services available in {{location}}
+
+Business name: {{businessName}}
+Phone number: {{phoneNumber}}
+Contact page URL: {{contactUrl}}
+{{internalLinkingBlock}}
+
+{{#serviceDescription}}Brief service context: {{serviceDescription}}{{/serviceDescription}}
+{{internalLinkingInstructions}}
+
+**SUBURB PAGE CONSTRAINTS (MUST FOLLOW):**
+- Limit total content to 500-750 words maximum (hard cap)
+- Use FEWER sections than the main town page (maximum 3 H2 sections)
+- Avoid full testimonials or case-study style proof - no testimonials by default
+- Avoid detailed service breakdowns - summarise at high level only
+- Emphasise proximity, availability, and coverage
+- Clearly position the main town page as the primary service hub
+- The page should feel like a local relevance and coverage confirmation, not a primary sales landing page
+- DO NOT list advanced or specialist services (e.g., SaaS development, bespoke software) - refer to main town page for full capabilities
+
+**CONTENT INTENT (CRITICAL):**
+This page exists to:
+- Confirm service availability in {{location}}
+- Reinforce proximity to {{parentLocation|the main town}}
+- Support the main town page, NOT compete with it
+- Provide local reassurance to users searching from {{location}}
+
+This page should NOT:
+- Be a full sales landing page
+- Repeat detailed service explanations from the town page
+- Over-optimise for the primary town keyword
+- Position itself as the main service page for the wider area
+- Look conversion-complete (no full testimonials, no detailed feature lists)
+
+**CONTENT STRUCTURE (Suburb Page - Minimal, max 3 H2 sections):**
+- **Short Introduction** (2-3 paragraphs): Confirm service coverage in {{location}}, mention proximity to {{parentLocation|main town}}
+- **Local Coverage Section**: Brief explanation of how you serve {{location}} as part of your {{parentLocation|main town}} coverage. Use heading like "Supporting {{location}} as part of our {{parentLocation|main town}} service area"
+- **Optional: Nearby Areas** (only if relevant): A brief mention like "Close to {{parentLocation|main town}} town centre" or "Serving surrounding areas" - keeps it factual and light
+- **Soft CTA**: Direct users to contact or to the main {{parentLocation|town}} page for full details
+
+**TITLE/H1 REQUIREMENTS:**
+- The title should imply service AVAILABILITY or COVERAGE, not primary ownership
+- Use: "{{serviceName}} services available in {{location}}" or "{{serviceName}} support for businesses in {{location}}"
+- DO NOT use: "Professional {{serviceName}} in {{location}}" or ownership-style headlines
+
+**TESTIMONIAL HANDLING:**
+{{#testimonialBlock}}- You may briefly reference this testimonial, but DO NOT include it in full
+- Instead, paraphrase or use a short excerpt
+- Or reference generally: "Clients across {{parentLocation|the area}} and surrounding areas trust us for quality {{serviceName}}"
+- Original testimonial for reference: {{testimonialBlock}}{{/testimonialBlock}}{{^testimonialBlock}}- No testimonials provided - do not invent any{{/testimonialBlock}}
+
+**HEADINGS - AVOID GENERIC SALES HEADINGS:**
+- DO NOT use: "Why Choose [Business]" or "Why Choose Local [Service]"
+- DO use: "Local {{serviceName}} support for {{location}} businesses" or "Supporting {{location}} as part of our {{parentLocation|main town}} service area"
+- Headings should emphasise coverage, proximity, or support - NOT competitive positioning
+
+**SERVICE SCOPE:**
+- Summarise services at a HIGH LEVEL only
+- DO NOT list advanced or specialist offerings in detail
+- Refer readers to the main town or service page for full capability breakdowns
+- Keep service mentions brief and general
+
+**LANGUAGE REQUIREMENTS:**
+- Use supportive language: "serving", "covering", "supporting businesses in", "available in"
+- Verbally defer to the parent town: "Our main {{serviceName}} service is based in {{parentLocation|the main town}}, with full coverage across {{location}}"
+- Reference the main town page naturally where appropriate
+- DO NOT repeat the suburb name excessively - use natural variation and pronouns once location relevance is established
+- Avoid footprint patterns - vary sentence structure and phrasing
+
+**CRITICAL RULES - DO NOT VIOLATE:**
+- DO NOT invent case studies, statistics, or specific client results
+- DO NOT include full testimonials - only brief references or paraphrases
+- DO NOT claim local office presence unless verified
+- DO NOT repeat town-level statistics or detailed service breakdowns
+- DO NOT use more than 3 H2 sections
+- Keep claims general and non-specific
+
+**FORMATTING:**
+- Use semantic HTML: h2, h3, p, ul, li, strong, em
+- Simpler, shorter structure than main town pages
+- No H1 tags (WordPress uses page title as H1)
+- Maximum 3 H2 sections total
+
+**LOCALE:**
+{{localeInstructions}}
+
+Format your response as JSON:
+{
+  "title": "{{serviceName}} services available in {{location}}",
+  "meta_title": "{{serviceName}} in {{location}} | {{businessName}}",
+  "meta_description": "Meta description here (150 characters max)",
+  "content": "HTML content here"
+}`;
+
+export const BUILTIN_TOWN_PROMPT = `Create a comprehensive, SEO-optimized landing page for a service business that will rank highly in Google search results.
+
+{{#primaryTown}}PAGE TYPE: Primary Town Page (Main Location Hub)
+This is the main service page for {{location}}. It should be comprehensive and conversion-focused.
+
+{{/primaryTown}}Service: {{serviceName}}
+Location: {{location}}
+Target keyword phrase: {{serviceName}} in {{location}}
+
+Business name: {{businessName}}
+Phone number: {{phoneNumber}}
+Contact page URL: {{contactUrl}}
+{{internalLinkingBlock}}
+
+{{#testimonialBlock}}Testimonial to include:
+{{testimonialBlock}}{{/testimonialBlock}}{{^testimonialBlock}}No testimonials provided.{{/testimonialBlock}}
+
+{{#serviceDescription}}Service description: {{serviceDescription}}{{/serviceDescription}}
+
+{{#projectServicesBlock}}Services offered by this business:
+{{projectServicesBlock}}{{/projectServicesBlock}}
+
+{{#serviceFaqsBlock}}Service-specific FAQs to include:
+{{serviceFaqsBlock}}{{/serviceFaqsBlock}}
+{{internalLinkingInstructions}}
+
+Create a complete, engaging landing page article that includes:
+
+**REQUIRED ELEMENTS (must be included):**
+- Business name and location prominently featured
+- Phone number and contact URL in the content
+- At least one customer testimonial (use the provided testimonial exactly) - skip if none provided
+- Clear call-to-action at the end
+
+**CONTENT STRUCTURE (flexible but comprehensive):**
+- **Introduction**: Compelling opening that explains the service benefits and includes business name
+- **Why Choose Section**: 4-6 compelling reasons to choose this business (can include local expertise, unique selling points, benefits)
+- **Services/Process Section**: ONLY list services from "Services offered by this business" above. If no services are provided, write general content about the main service type
+- **Testimonials**: Include the provided testimonial(s) in a dedicated section - skip if none provided
+- **Benefits/Value Proposition**: Additional reasons this service is valuable
+- **FAQ Section**: ONLY include if "Service-specific FAQs to include:" appears above with actual FAQs. If no FAQs are provided, DO NOT create or invent any FAQ section
+- **Strong Call-to-Action**: End with clear contact information and next steps
+
+**CRITICAL RULES - DO NOT VIOLATE:**
+- DO NOT invent case studies, client projects, portfolio examples, or success stories
+- DO NOT fabricate statistics or metrics (e.g., "50% increase", "reduced by X%", "X+ clients served")
+- DO NOT claim specific outcomes or results for unnamed clients
+- DO NOT create fake testimonials - only use the exact testimonial text provided above
+- DO NOT invent specific business names, project names, or client names
+- Only make general claims about service quality and expertise, not specific measurable results
+- All claims must be general and non-specific (e.g., "we deliver quality results" NOT "we increased sales by 50%")
+- DO NOT invent service names - only use services listed in "Services offered by this business" above
+- If no services list is provided, only discuss the main service type generically
+
+**SEO REQUIREMENTS:**
+- Natural keyword integration throughout (aim for 3-6 keyword mentions)
+- Local relevance and location mentions (4-8 location references)
+- Professional, engaging tone suitable for B2B or local business audience
+- 800-1500 words of high-quality, original content
+- Mobile-friendly structure
+- Schema markup friendly (use proper headings, lists, etc.)
+
+**FORMATTING:**
+- Use semantic HTML: h2, h3, p, ul, li, strong, em
+- Tables for comparisons if helpful
+- No H1 tags (WordPress uses page title as H1)
+- Proper alt text for any images mentioned
+- Clean, readable structure
+
+{{internalLinkingInstructions}}
+
+**LOCALE:**
+{{localeInstructions}}
+
+Format your response as JSON:
+{
+  "title": "Service in Location (NO business name)",
+  "meta_title": "Meta title here (can include business name)",
+  "meta_description": "Meta description here (150 characters max)",
+  "content": "HTML content here"
+}`;
+
+const BUILTIN_PROMPTS: Record<PromptPageType, string> = {
+  town: BUILTIN_TOWN_PROMPT,
+  suburb: BUILTIN_SUBURB_PROMPT,
+};
+
+/**
+ * Render a template body with the given variables
+ */
+export function renderPromptTemplate(body: string, variables: PromptVariables): string {
+  const valueOf = (name: string) => (variables[name] ?? "").toString();
+
+  // Sections first, so variables inside a section are substituted afterwards
+  const withSections = body.replace(
+    /\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+    (_match, kind: string, name: string, inner: string) => {
+      const isSet = valueOf(name).trim() !== "";
+      return (kind === "#" ? isSet : !isSet) ? inner : "";
+    }
+  );
+
+  return withSections.replace(
+    /\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g,
+    (_match, name: string, fallback: string | undefined) => {
+      const value = valueOf(name);
+      return value.trim() !== "" ? value : (fallback ?? "").trim();
+    }
+  );
+}
+
+function builtinTemplate(pageType: PromptPageType): ResolvedPromptTemplate {
+  return {
+    body: BUILTIN_PROMPTS[pageType],
+    versionId: null,
+    ref: `builtin:${pageType}@${BUILTIN_PROMPT_VERSIONS[pageType]}`,
+  };
+}
+
+/**
+ * Find the template to use for a page. A template assigned to the service wins
+ * over one assigned to the project; otherwise the built-in prompt is used.
+ * Lookup failures are logged and fall back to the built-in prompt.
+ */
+export async function resolvePromptTemplate(
+  supabase: any,
+  { projectId, serviceId, pageType }: { projectId: string; serviceId?: string | null; pageType: PromptPageType }
+): Promise<ResolvedPromptTemplate> {
+  const column = pageType === "suburb" ? "suburb_prompt_template_id" : "town_prompt_template_id";
+
+  let templateId: string | null = null;
+
+  if (serviceId) {
+    const { data: service, error } = await supabase
+      .from("project_services")
+      .select(column)
+      .eq("id", serviceId)
+      .single();
+    if (error) {
+      console.error("Failed to fetch service prompt template:", error);
+    }
+    templateId = service?.[column] || null;
+  }
+
+  if (!templateId) {
+    const { data: project, error } = await supabase
+      .from("projects")
+      .select(column)
+      .eq("id", projectId)
+      .single();
+    if (error) {
+      console.error("Failed to fetch project prompt template:", error);
+    }
+    templateId = project?.[column] || null;
+  }
+
+  if (!templateId) {
+    return builtinTemplate(pageType);
+  }
+
+  const { data: template, error: templateError } = await supabase
+    .from("prompt_templates")
+    .select(`
+      name,
+      current_version:prompt_template_versions!prompt_templates_current_version_id_fkey(id, version_number, body)
+    `)
+    .eq("id", templateId)
+    .single();
+
+  const version = Array.isArray(template?.current_version) ? template.current_version[0] : template?.current_version;
+
+  if (templateError || !version?.body) {
+    console.error(`Prompt template ${templateId} has no usable version, using built-in ${pageType} prompt`, templateError);
+    return builtinTemplate(pageType);
+  }
+
+  return {
+    body: version.body,
+    versionId: version.id,
+    ref: `${template.name}@v${version.version_number}`,
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * Publish mapping: where a page goes in WordPress. Projects choose the post
+ * type, parent page and author, taxonomy terms taken from the location's
+ * region, the service, the location or a fixed value, and custom fields
+ * filled from page variables. Plugins older than 1.5.0 ignore these fields
+ * and publish plain pages.
+ *
+ * With the hierarchical URL structure, pages nest under each other in
+ * WordPress: service page > town page > suburb page, as in
+ * /web-design/doncaster/bessacarr/. Town and suburb pages take their
+ * location's slug, towns are parented to the service page (resolved by the
+ * plugin from project_services.service_page_url) and suburbs to their town.
+ * A suburb pushed before its town sits under the service page until the town
+ * is live; backfillParentLinks then queues it for another push.
+ */
+
+export type UrlStructure = "flat" | "hierarchical";
+
+export type TermSource = "region" | "service" | "location" | "fixed";
+
+export interface TermMapping {
+  taxonomy: string;
+  source: TermSource;
+  value?: string | null; // the term for "fixed"
+}
+
+export interface CustomFieldMapping {
+  key: string;
+  value: string; // may use {variables}
+}
+
+export interface PublishMappingValues {
+  service: string;
+  location: string;
+  region: string;
+  keyword: string;
+  phrase: string;
+  business: string;
+  phone: string;
+  lat: string;
+  lng: string;
+}
+
+export interface PublishMapping {
+  post_type: string;
+  parent_id: number | null;
+  parent_url?: string; // the plugin looks up the page at this URL when parent_id is null
+  slug?: string; // hierarchical pages only; flat pages keep the slug WordPress derives from the title
+  author_id: number | null;
+  terms: Record<string, string[]>;
+  custom_fields: Record<string, string>;
+}
+
+interface PublishMappingProject {
+  wp_url_structure?: UrlStructure | null;
+  wp_post_type?: string | null;
+  wp_parent_id?: number | null;
+  wp_author_id?: number | null;
+  wp_term_mapping?: TermMapping[] | null;
+  wp_custom_fields?: CustomFieldMapping[] | null;
+}
+
+function single<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+/**
+ * Fill {variables} in a custom field value. Unknown variables are left as typed.
+ */
+export function renderMappingValue(template: string, values: PublishMappingValues): string {
+  return template
+    .replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? values[name as keyof PublishMappingValues] : match))
+    .trim();
+}
+
+/**
+ * The mapping fields sent to the plugin's /publish and /update
+ */
+export function buildPublishMapping(project: PublishMappingProject, values: PublishMappingValues): PublishMapping {
+  const terms: Record<string, string[]> = {};
+  for (const mapping of project.wp_term_mapping || []) {
+    if (!mapping?.taxonomy) continue;
+    const term = mapping.source === "fixed" ? (mapping.value || "").trim() : values[mapping.source];
+    if (!term) continue; // e.g. a location without a region
+    terms[mapping.taxonomy] = [...new Set([...(terms[mapping.taxonomy] || []), term])];
+  }
+
+  const customFields: Record<string, string> = {};
+  for (const field of project.wp_custom_fields || []) {
+    const key = field?.key?.trim();
+    if (!key) continue;
+    customFields[key] = renderMappingValue(field.value || "", values);
+  }
+
+  return {
+    post_type: project.wp_post_type || "page",
+    parent_id: project.wp_parent_id ?? null,
+    author_id: project.wp_author_id ?? null,
+    terms,
+    custom_fields: customFields,
+  };
+}
+
+/**
+ * Load a page's project mapping and variables, and build its mapping fields
+ */
+export async function loadPublishMapping(supabase: any, locationKeywordId: string): Promise<PublishMapping> {
+  const { data, error } = await supabase
+    .from("location_keywords")
+    .select(`
+      phrase,
+      parent_location_id,
+      location:project_locations!location_id(name, slug, region, lat, lng),
+      keyword:keyword_variations!keyword_id(keyword),
+      service:project_services!service_id(name, service_page_url),
+      project:projects!project_id(company_name, phone_number, base_keyword, wp_url_structure, wp_post_type, wp_parent_id, wp_author_id, wp_term_mapping, wp_custom_fields)
+    `)
+    .eq("id", locationKeywordId)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to load publish mapping: ${error?.message || "page not found"}`);
+  }
+
+  const location = single<any>(data.location);
+  const project = single<any>(data.project) || {};
+  const keyword = single<any>(data.keyword)?.keyword || "";
+  const service = single<any>(data.service);
+  const hasCoordinates = location && !(Number(location.lat) === 0 && Number(location.lng) === 0);
+
+  const mapping = buildPublishMapping(project, {
+    service: service?.name || keyword || project.base_keyword || "",
+    location: location?.name || "",
+    region: location?.region || "",
+    keyword,
+    phrase: data.phrase || "",
+    business: project.company_name || "",
+    phone: project.phone_number || "",
+    lat: hasCoordinates ? String(location.lat) : "",
+    lng: hasCoordinates ? String(location.lng) : "",
+  });
+
+  if (project.wp_url_structure !== "hierarchical") {
+    return mapping;
+  }
+
+  // Suburbs go under their town once it's in WordPress
+  let townPageId: number | null = null;
+  if (data.parent_location_id) {
+    const { data: town } = await supabase
+      .from("location_keywords")
+      .select("wp_page_id")
+      .eq("id", data.parent_location_id)
+      .maybeSingle();
+    townPageId = town?.wp_page_id ?? null;
+  }
+
+  return {
+    ...mapping,
+    ...hierarchicalParent({
+      townPageId,
+      servicePageUrl: service?.service_page_url || null,
+      fallbackParentId: mapping.parent_id,
+    }),
+    slug: location?.slug || slugify(location?.name || data.phrase || ""),
+  };
+}
+
+/**
+ * The parent of a page in the hierarchical structure: its town, else the
+ * service page, else the project's parent page
+ */
+export function hierarchicalParent(params: {
+  townPageId: number | null;
+  servicePageUrl: string | null;
+  fallbackParentId: number | null;
+}): Pick<PublishMapping, "parent_id" | "parent_url"> {
+  if (params.townPageId) {
+    return { parent_id: params.townPageId };
+  }
+  if (params.servicePageUrl) {
+    return { parent_id: null, parent_url: params.servicePageUrl };
+  }
+  return { parent_id: params.fallbackParentId };
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
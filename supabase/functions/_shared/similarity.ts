@@ -0,0 +1,425 @@
+/**
+ * Near-duplicate detection across a project's generated pages.
+ *
+ * Each page's visible text is split into 5-word shingles and reduced to a
+ * 128-value MinHash signature, stored on generated_pages.minhash_signature.
+ * The share of matching signature slots between two pages estimates the
+ * Jaccard similarity of their shingle sets. The page's own location, keyword
+ * and parent town are masked first, so two pages that only differ by the town
+ * name are reported as the template footprint they are.
+ *
+ * Everything runs locally in the function. After a page is generated its
+ * signature is compared with every other page in the project; pairs at or
+ * above the project's threshold are kept in duplicate_content_pairs.
+ */
+
+const SHINGLE_SIZE = 5;
+const SIGNATURE_SIZE = 128;
+const PAGE_SIZE = 1000; // Rows per request when loading a project's signatures
+const UPDATE_BATCH_SIZE = 200; // Closest matches (with signatures) per update request
+
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+export const MAX_DUPLICATE_REGENERATIONS = 2; // Auto-regenerations per page before we leave it to the user
+
+// Seeds for the hash family. Fixed, so stored signatures stay comparable.
+const HASH_SEEDS = (() => {
+  const seeds = new Int32Array(SIGNATURE_SIZE);
+  let x = 0x9e3779b9;
+  for (let i = 0; i < SIGNATURE_SIZE; i++) {
+    x = (Math.imul(x, 1664525) + 1013904223) | 0;
+    seeds[i] = x;
+  }
+  return seeds;
+})();
+
+export interface SimilarityMatch {
+  locationKeywordId: string;
+  similarity: number;
+}
+
+export interface PageSimilarityResult {
+  maxSimilarity: number | null; // NULL when the page has too little text to compare
+  mostSimilar: SimilarityMatch | null;
+  duplicates: SimilarityMatch[]; // Pages at or above the threshold, closest first
+}
+
+export interface ProjectScanResult {
+  pagesScanned: number;
+  duplicatePairs: number;
+  pagesFlagged: number;
+}
+
+interface StoredSignature {
+  location_keyword_id: string;
+  minhash_signature: number[] | null;
+  max_similarity: number | null;
+  most_similar_location_keyword_id: string | null;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash | 0;
+}
+
+// MurmurHash3 finaliser: spreads (shingle hash ^ seed) into an independent-looking value
+function mix(hash: number): number {
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash | 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Lowercased words of the page's visible text, with the mask terms replaced by a placeholder
+ */
+export function similarityTokens(html: string, maskTerms: Array<string | null | undefined> = []): string[] {
+  let text = (html || "")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&#?\w+;/g, " ")
+    .toLowerCase();
+
+  const terms = maskTerms
+    .map((term) => (term || "").toLowerCase().trim())
+    .filter((term) => term.length > 1)
+    .sort((a, b) => b.length - a.length); // "North Sydney" before "Sydney"
+
+  for (const term of terms) {
+    text = text.replace(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, "gu"), " _term_ ");
+  }
+
+  return text.split(/[^\p{L}\p{N}_]+/u).filter(Boolean);
+}
+
+/**
+ * MinHash signature of a page, or null when it has no text
+ */
+export function minhashSignature(html: string, maskTerms: Array<string | null | undefined> = []): number[] | null {
+  const tokens = similarityTokens(html, maskTerms);
+  if (tokens.length === 0) return null;
+
+  const size = Math.min(SHINGLE_SIZE, tokens.length);
+  const shingleHashes = new Set<number>();
+  for (let i = 0; i + size <= tokens.length; i++) {
+    shingleHashes.add(fnv1a(tokens.slice(i, i + size).join(" ")));
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0x7fffffff);
+  for (const hash of shingleHashes) {
+    for (let k = 0; k < SIGNATURE_SIZE; k++) {
+      const value = mix(hash ^ HASH_SEEDS[k]);
+      if (value < signature[k]) signature[k] = value;
+    }
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity (0-1) of two signatures
+ */
+export function estimateSimilarity(a: number[] | null, b: number[] | null): number {
+  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+function roundSimilarity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function pairKey(a: string, b: string): { location_keyword_id_a: string; location_keyword_id_b: string } {
+  return a < b
+    ? { location_keyword_id_a: a, location_keyword_id_b: b }
+    : { location_keyword_id_a: b, location_keyword_id_b: a };
+}
+
+async function loadProjectSignatures(supabase: any, projectId: string): Promise<StoredSignature[]> {
+  const rows: StoredSignature[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("generated_pages")
+      .select("location_keyword_id, minhash_signature, max_similarity, most_similar_location_keyword_id")
+      .eq("project_id", projectId)
+      .not("minhash_signature", "is", null)
+      .order("location_keyword_id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+interface ClosestMatchRow {
+  location_keyword_id: string;
+  max_similarity: number | null;
+  most_similar_location_keyword_id: string | null;
+  minhash_signature: number[] | null;
+  update_signature: boolean; // FALSE keeps the stored signature
+}
+
+function closestMatchRow(locationKeywordId: string, match: SimilarityMatch | null, signature?: number[] | null): ClosestMatchRow {
+  return {
+    location_keyword_id: locationKeywordId,
+    max_similarity: signature === null ? null : match ? roundSimilarity(match.similarity) : 0,
+    most_similar_location_keyword_id: match?.locationKeywordId || null,
+    minhash_signature: signature ?? null,
+    update_signature: signature !== undefined,
+  };
+}
+
+/**
+ * Store the closest match of many pages at once. Pages now below the
+ * threshold get their automatic regenerations back (set_page_closest_matches).
+ */
+async function saveClosestMatches(supabase: any, rows: ClosestMatchRow[], threshold: number) {
+  for (let from = 0; from < rows.length; from += UPDATE_BATCH_SIZE) {
+    const { error } = await supabase.rpc("set_page_closest_matches", {
+      p_matches: rows.slice(from, from + UPDATE_BATCH_SIZE),
+      p_threshold: threshold,
+    });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Mask terms for a location keyword: its location, keyword and parent town names
+ */
+export function pageMaskTerms(page: {
+  location?: { name?: string | null } | null;
+  keyword?: { keyword?: string | null } | null;
+  parentLocationName?: string | null;
+}): string[] {
+  return [page.location?.name, page.keyword?.keyword, page.parentLocationName].filter(Boolean) as string[];
+}
+
+/**
+ * Fingerprint a freshly saved page and compare it with the rest of the project.
+ * Updates this page's closest match, any page whose closest match changed as a
+ * result, and the duplicate pairs involving this page.
+ */
+export async function updatePageSimilarity(
+  supabase: any,
+  options: {
+    projectId: string;
+    locationKeywordId: string;
+    content: string;
+    maskTerms: Array<string | null | undefined>;
+    threshold?: number | null;
+  }
+): Promise<PageSimilarityResult> {
+  const { projectId, locationKeywordId } = options;
+  const threshold = options.threshold ?? DEFAULT_DUPLICATE_THRESHOLD;
+  const signature = minhashSignature(options.content, options.maskTerms);
+  const others = (await loadProjectSignatures(supabase, projectId))
+    .filter((page) => page.location_keyword_id !== locationKeywordId);
+
+  const similarities = new Map<string, number>();
+  for (const page of others) {
+    similarities.set(page.location_keyword_id, estimateSimilarity(signature, page.minhash_signature));
+  }
+
+  // Other pages whose closest match is now this page, or was this page and needs looking up again.
+  // Stored similarities are rounded, so compare rounded values or ties count as changes.
+  const updates: ClosestMatchRow[] = [];
+  for (const page of others) {
+    const similarity = roundSimilarity(similarities.get(page.location_keyword_id) || 0);
+    if (similarity > Number(page.max_similarity || 0)) {
+      updates.push(closestMatchRow(page.location_keyword_id, { locationKeywordId, similarity }));
+    } else if (page.most_similar_location_keyword_id === locationKeywordId) {
+      let closest: SimilarityMatch | null = similarity > 0 ? { locationKeywordId, similarity } : null;
+      for (const other of others) {
+        if (other.location_keyword_id === page.location_keyword_id) continue;
+        const otherSimilarity = estimateSimilarity(page.minhash_signature, other.minhash_signature);
+        if (otherSimilarity > (closest?.similarity || 0)) {
+          closest = { locationKeywordId: other.location_keyword_id, similarity: otherSimilarity };
+        }
+      }
+      const unchanged = roundSimilarity(closest?.similarity || 0) === Number(page.max_similarity || 0)
+        && (closest?.locationKeywordId || null) === page.most_similar_location_keyword_id;
+      if (!unchanged) {
+        updates.push(closestMatchRow(page.location_keyword_id, closest));
+      }
+    }
+  }
+
+  const matches: SimilarityMatch[] = [...similarities.entries()]
+    .map(([id, similarity]) => ({ locationKeywordId: id, similarity }))
+    .sort((a, b) => b.similarity - a.similarity);
+  const mostSimilar = matches[0] && matches[0].similarity > 0 ? matches[0] : null;
+  const duplicates = matches.filter((match) => match.similarity >= threshold);
+
+  updates.push(closestMatchRow(locationKeywordId, mostSimilar, signature));
+  await saveClosestMatches(supabase, updates, threshold);
+
+  // Replace this page's duplicate pairs
+  const { error: deleteError } = await supabase
+    .from("duplicate_content_pairs")
+    .delete()
+    .eq("project_id", projectId)
+    .or(`location_keyword_id_a.eq.${locationKeywordId},location_keyword_id_b.eq.${locationKeywordId}`);
+  if (deleteError) throw deleteError;
+
+  if (duplicates.length > 0) {
+    const { error: insertError } = await supabase
+      .from("duplicate_content_pairs")
+      .upsert(
+        duplicates.map((match) => ({
+          project_id: projectId,
+          ...pairKey(locationKeywordId, match.locationKeywordId),
+          similarity: roundSimilarity(match.similarity),
+          detected_at: new Date().toISOString(),
+        })),
+        { onConflict: "location_keyword_id_a,location_keyword_id_b" }
+      );
+    if (insertError) throw insertError;
+  }
+
+  return {
+    maxSimilarity: signature ? roundSimilarity(mostSimilar?.similarity || 0) : null,
+    mostSimilar,
+    duplicates,
+  };
+}
+
+/**
+ * Recompute every page's signature and closest match in a project, and
+ * rebuild its duplicate pairs. Used to backfill and after threshold changes.
+ */
+export async function scanProjectSimilarity(
+  supabase: any,
+  projectId: string,
+  threshold: number = DEFAULT_DUPLICATE_THRESHOLD
+): Promise<ProjectScanResult> {
+  const pages: Array<{ locationKeywordId: string; signature: number[] | null }> = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("generated_pages")
+      .select(`
+        location_keyword_id,
+        content,
+        location_keyword:location_keywords!location_keyword_id(
+          location:project_locations!location_id(name),
+          keyword:keyword_variations!keyword_id(keyword),
+          parent:location_keywords!parent_location_id(location:project_locations!location_id(name))
+        )
+      `)
+      .eq("project_id", projectId)
+      .order("location_keyword_id")
+      .range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const lk = row.location_keyword || {};
+      const signature = minhashSignature(row.content || "", pageMaskTerms({
+        location: lk.location,
+        keyword: lk.keyword,
+        parentLocationName: lk.parent?.location?.name,
+      }));
+      pages.push({ locationKeywordId: row.location_keyword_id, signature });
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const closest = new Map<string, SimilarityMatch>();
+  const pairs: Array<Record<string, unknown>> = [];
+  const detectedAt = new Date().toISOString();
+
+  for (let i = 0; i < pages.length; i++) {
+    for (let j = i + 1; j < pages.length; j++) {
+      const similarity = estimateSimilarity(pages[i].signature, pages[j].signature);
+      if (similarity === 0) continue;
+
+      const a = pages[i].locationKeywordId;
+      const b = pages[j].locationKeywordId;
+      if (similarity > (closest.get(a)?.similarity || 0)) closest.set(a, { locationKeywordId: b, similarity });
+      if (similarity > (closest.get(b)?.similarity || 0)) closest.set(b, { locationKeywordId: a, similarity });
+      if (similarity >= threshold) {
+        pairs.push({ project_id: projectId, ...pairKey(a, b), similarity: roundSimilarity(similarity), detected_at: detectedAt });
+      }
+    }
+  }
+
+  await saveClosestMatches(
+    supabase,
+    pages.map((page) => closestMatchRow(page.locationKeywordId, closest.get(page.locationKeywordId) || null, page.signature)),
+    threshold
+  );
+
+  const { error: deleteError } = await supabase
+    .from("duplicate_content_pairs")
+    .delete()
+    .eq("project_id", projectId);
+  if (deleteError) throw deleteError;
+
+  for (let from = 0; from < pairs.length; from += PAGE_SIZE) {
+    const { error: insertError } = await supabase
+      .from("duplicate_content_pairs")
+      .insert(pairs.slice(from, from + PAGE_SIZE));
+    if (insertError) throw insertError;
+  }
+
+  const flagged = new Set<string>();
+  for (const pair of pairs) {
+    flagged.add(pair.location_keyword_id_a as string);
+    flagged.add(pair.location_keyword_id_b as string);
+  }
+
+  return { pagesScanned: pages.length, duplicatePairs: pairs.length, pagesFlagged: flagged.size };
+}
+
+/**
+ * Queue the page for regeneration when the project auto-regenerates duplicates
+ * and it hasn't used up its attempts. Returns TRUE if a job was queued.
+ */
+export async function queueDuplicateRegeneration(
+  supabase: any,
+  options: { projectId: string; locationKeywordId: string; userId: string }
+): Promise<boolean> {
+  const { data: page, error: pageError } = await supabase
+    .from("generated_pages")
+    .select("duplicate_regenerations")
+    .eq("location_keyword_id", options.locationKeywordId)
+    .single();
+  if (pageError) throw pageError;
+
+  const regenerations = page?.duplicate_regenerations || 0;
+  if (regenerations >= MAX_DUPLICATE_REGENERATIONS) return false;
+
+  await supabase
+    .from("generated_pages")
+    .update({ duplicate_regenerations: regenerations + 1 })
+    .eq("location_keyword_id", options.locationKeywordId);
+
+  const { error: jobError } = await supabase.from("content_generation_jobs").insert({
+    user_id: options.userId,
+    project_id: options.projectId,
+    location_keyword_id: options.locationKeywordId,
+    status: "queued",
+    priority: 0,
+    attempts: 0,
+    max_attempts: 3,
+  });
+  if (jobError) throw jobError;
+
+  await supabase
+    .from("location_keywords")
+    .update({ status: "queued", updated_at: new Date().toISOString() })
+    .eq("id", options.locationKeywordId);
+
+  return true;
+}
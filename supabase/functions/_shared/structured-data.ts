@@ -0,0 +1,236 @@
+/**
+ * Schema.org JSON-LD for generated pages, shared by the content workers and
+ * the app (through src/lib/structured-data.ts).
+ *
+ * One @graph per page: the LocalBusiness (with the project's testimonials as
+ * reviews), the Service it offers in the page's area, and an FAQPage built
+ * from the service's FAQs. The result is stored in generated_pages.schema_json
+ * and sent to the WordPress plugin, which prints it in the page head.
+ *
+ * Like content-scoring.ts this file has no imports, so Deno and Vite can both
+ * load it. The loader takes whichever Supabase client the caller has.
+ */
+
+export type JsonLd = Record<string, unknown>;
+
+export interface StructuredDataInput {
+  businessName: string;
+  websiteUrl?: string | null;
+  phoneNumber?: string | null;
+  serviceName: string;
+  serviceDescription?: string | null;
+  pageTitle: string;
+  pageDescription?: string | null;
+  location: { name: string; region?: string | null; country?: string | null; lat?: number | null; lng?: number | null };
+  parentTown?: string | null;
+  faqs: Array<{ question: string; answer: string }>;
+  testimonials: Array<{ testimonial_text: string; customer_name?: string | null; business_name?: string | null }>;
+}
+
+function compact<T extends JsonLd>(node: T): T {
+  return Object.fromEntries(
+    Object.entries(node).filter(([, value]) => value !== null && value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0))
+  ) as T;
+}
+
+function normaliseUrl(url: string | null | undefined): string | null {
+  if (!url || !url.trim()) return null;
+  const trimmed = url.trim().replace(/\/+$/, "");
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+/**
+ * The JSON-LD document for one page
+ */
+export function buildStructuredData(input: StructuredDataInput): JsonLd {
+  const siteUrl = normaliseUrl(input.websiteUrl);
+  const businessId = `${siteUrl || ""}#business`;
+
+  const areaServed: JsonLd[] = [
+    compact({
+      "@type": "Place",
+      name: input.location.name,
+      address: compact({
+        "@type": "PostalAddress",
+        addressLocality: input.location.name,
+        addressRegion: input.location.region,
+        addressCountry: input.location.country,
+      }),
+      geo: input.location.lat !== null && input.location.lat !== undefined && input.location.lng !== null && input.location.lng !== undefined
+        ? { "@type": "GeoCoordinates", latitude: Number(input.location.lat), longitude: Number(input.location.lng) }
+        : null,
+    }),
+  ];
+  if (input.parentTown && input.parentTown !== input.location.name) {
+    areaServed.push({ "@type": "Place", name: input.parentTown });
+  }
+
+  const reviews = input.testimonials
+    .filter((testimonial) => testimonial.testimonial_text && (testimonial.customer_name || testimonial.business_name))
+    .map((testimonial) => ({
+      "@type": "Review",
+      reviewBody: testimonial.testimonial_text,
+      author: testimonial.customer_name
+        ? { "@type": "Person", name: testimonial.customer_name }
+        : { "@type": "Organization", name: testimonial.business_name },
+    }));
+
+  const graph: JsonLd[] = [
+    compact({
+      "@type": "LocalBusiness",
+      "@id": businessId,
+      name: input.businessName,
+      url: siteUrl,
+      telephone: input.phoneNumber,
+      areaServed,
+      review: reviews,
+    }),
+    compact({
+      "@type": "Service",
+      name: input.pageTitle,
+      serviceType: input.serviceName,
+      description: input.pageDescription || input.serviceDescription,
+      provider: { "@id": businessId },
+      areaServed,
+    }),
+  ];
+
+  if (input.faqs.length > 0) {
+    graph.push({
+      "@type": "FAQPage",
+      mainEntity: input.faqs.map((faq) => ({
+        "@type": "Question",
+        name: faq.question,
+        acceptedAnswer: { "@type": "Answer", text: faq.answer },
+      })),
+    });
+  }
+
+  return { "@context": "https://schema.org", "@graph": graph };
+}
+
+function requireText(errors: string[], node: JsonLd, field: string, label: string) {
+  const value = node[field];
+  if (typeof value !== "string" || !value.trim()) {
+    errors.push(`${label} is missing "${field}"`);
+  }
+}
+
+/**
+ * Problems that would stop search engines reading the JSON-LD. An empty list
+ * means it is valid.
+ */
+export function validateStructuredData(value: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return ["JSON-LD must be a single JSON object"];
+  }
+
+  const document = value as JsonLd;
+  if (typeof document["@context"] !== "string" || !/schema\.org/i.test(document["@context"] as string)) {
+    errors.push('"@context" must be "https://schema.org"');
+  }
+
+  const nodes = Array.isArray(document["@graph"]) ? (document["@graph"] as unknown[]) : [document];
+  if (nodes.length === 0) {
+    errors.push('"@graph" is empty');
+  }
+
+  nodes.forEach((item, index) => {
+    if (!item || typeof item !== "object") {
+      errors.push(`Item ${index + 1} is not an object`);
+      return;
+    }
+    const node = item as JsonLd;
+    const type = node["@type"];
+    const label = typeof type === "string" ? type : `Item ${index + 1}`;
+
+    if (typeof type !== "string" || !type) {
+      errors.push(`Item ${index + 1} has no "@type"`);
+      return;
+    }
+
+    switch (type) {
+      case "LocalBusiness":
+        requireText(errors, node, "name", label);
+        for (const review of (Array.isArray(node.review) ? node.review : []) as JsonLd[]) {
+          if (!review?.reviewBody) errors.push("A Review is missing \"reviewBody\"");
+          if (!(review?.author as JsonLd | undefined)?.name) errors.push("A Review is missing an author name");
+        }
+        break;
+      case "Service":
+        if (!node.serviceType && !node.name) errors.push('Service needs a "serviceType" or "name"');
+        if (!node.provider) errors.push('Service is missing "provider"');
+        break;
+      case "FAQPage": {
+        const questions = Array.isArray(node.mainEntity) ? (node.mainEntity as JsonLd[]) : [];
+        if (questions.length === 0) errors.push('FAQPage has no questions in "mainEntity"');
+        questions.forEach((question, i) => {
+          if (!question?.name) errors.push(`FAQ question ${i + 1} is missing "name"`);
+          if (!(question?.acceptedAnswer as JsonLd | undefined)?.text) errors.push(`FAQ question ${i + 1} is missing an answer`);
+        });
+        break;
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Gather everything the JSON-LD needs for a location keyword and build it
+ */
+export async function buildStructuredDataForPage(
+  supabase: any,
+  locationKeywordId: string,
+  page: { title: string; meta_description?: string | null }
+): Promise<JsonLd> {
+  const { data: lk, error } = await supabase
+    .from("location_keywords")
+    .select(`
+      service_id,
+      parent_location_id,
+      project_id,
+      location:project_locations!location_id(name, region, country, lat, lng),
+      keyword:keyword_variations!keyword_id(keyword),
+      project:projects!project_id(company_name, project_name, wp_url, phone_number, service_description)
+    `)
+    .eq("id", locationKeywordId)
+    .single();
+
+  if (error || !lk) {
+    throw new Error(`Location keyword not found: ${locationKeywordId}`);
+  }
+
+  const [parent, service, faqs, testimonials] = await Promise.all([
+    lk.parent_location_id
+      ? supabase
+        .from("location_keywords")
+        .select("location:project_locations!location_id(name)")
+        .eq("id", lk.parent_location_id)
+        .single()
+      : Promise.resolve({ data: null }),
+    lk.service_id
+      ? supabase.from("project_services").select("name, description").eq("id", lk.service_id).single()
+      : Promise.resolve({ data: null }),
+    lk.service_id
+      ? supabase.from("service_faqs").select("question, answer").eq("service_id", lk.service_id).order("sort_order", { ascending: true })
+      : Promise.resolve({ data: [] }),
+    supabase.from("project_testimonials").select("testimonial_text, customer_name, business_name").eq("project_id", lk.project_id),
+  ]);
+
+  return buildStructuredData({
+    businessName: lk.project?.company_name || lk.project?.project_name || "",
+    websiteUrl: lk.project?.wp_url,
+    phoneNumber: lk.project?.phone_number,
+    serviceName: service.data?.name || lk.keyword?.keyword || "",
+    serviceDescription: service.data?.description || lk.project?.service_description,
+    pageTitle: page.title,
+    pageDescription: page.meta_description,
+    location: lk.location || { name: "" },
+    parentTown: parent.data?.location?.name,
+    faqs: faqs.data || [],
+    testimonials: testimonials.data || [],
+  });
+}
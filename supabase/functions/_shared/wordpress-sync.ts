@@ -0,0 +1,116 @@
+/**
+ * Edits made in WordPress. The plugin hashes each page's title and content
+ * and returns the hash with every publish, update and sitemap item. GeoScale
+ * stores the hash from its last push and sends it back as expected_hash, so
+ * the plugin refuses an update that would overwrite changes made in the
+ * WordPress editor (HTTP 409, changed_in_wordpress) unless force is set.
+ *
+ * Reconciliation compares pushed pages with the plugin's /sitemap and flags
+ * pages deleted, trashed, unpublished or moved to a new URL in WordPress.
+ */
+
+export const WORDPRESS_CONFLICT_CODE = "changed_in_wordpress";
+
+export interface WordPressSyncState {
+  content_hash?: string | null;
+  modified_gmt?: string | null;
+}
+
+export type WordPressPageIssue = "missing" | "trashed" | "unpublished" | "url_changed";
+
+export interface WordPressSitemapItem extends WordPressSyncState {
+  id: number;
+  url: string;
+  status: string;
+  geoscale_page?: boolean;
+}
+
+/**
+ * Columns to clear once a page's reconciliation issue is dealt with
+ */
+export const CLEARED_ISSUE = {
+  wp_issue: null,
+  wp_issue_url: null,
+  wp_issue_detected_at: null,
+};
+
+/**
+ * location_keywords columns to store after a push. Plugins older than 1.1.0
+ * don't send a hash, which leaves edit detection off for the page. A push
+ * also settles any reconciliation issue.
+ */
+export function pushedSyncColumns(result: WordPressSyncState) {
+  const hash = result.content_hash || null;
+  const modified = result.modified_gmt || null;
+  return {
+    wp_content_hash: hash,
+    wp_modified_at: modified,
+    wp_remote_hash: hash,
+    wp_remote_modified_at: modified,
+    wp_checked_at: new Date().toISOString(),
+    ...CLEARED_ISSUE,
+  };
+}
+
+/**
+ * location_keywords columns to store when WordPress reports a page's state
+ */
+export function remoteSyncColumns(state: WordPressSyncState) {
+  return {
+    wp_remote_hash: state.content_hash || null,
+    wp_remote_modified_at: state.modified_gmt || null,
+    wp_checked_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Whether a failed /update was refused because the page changed in WordPress.
+ * Returns the page's current state if so.
+ */
+export function parseWordPressConflict(status: number, errorText: string): WordPressSyncState | null {
+  if (status !== 409) return null;
+  try {
+    const error = JSON.parse(errorText);
+    if (error?.code !== WORDPRESS_CONFLICT_CODE) return null;
+    return {
+      content_hash: error.data?.content_hash || null,
+      modified_gmt: error.data?.modified_gmt || null,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fields for an /update request that protect edits made in WordPress
+ */
+export function conflictGuard(expectedHash: string | null | undefined, force = false) {
+  if (!expectedHash) return {};
+  return force ? { expected_hash: expectedHash, force: true } : { expected_hash: expectedHash };
+}
+
+// Scheme, trailing slashes and case don't make a different page
+function comparableUrl(url: string | null | undefined): string {
+  return (url || "").trim().replace(/^https?:\/\//i, "").replace(/\/+$/, "").toLowerCase();
+}
+
+/**
+ * What happened to a pushed page in WordPress. item is its /sitemap entry,
+ * or undefined when WordPress no longer has the page. Drafts only count as
+ * unpublished when the project publishes pages live.
+ */
+export function classifyWordPressPage(
+  wpPageUrl: string | null,
+  item: WordPressSitemapItem | undefined,
+  publishStatus: string | null
+): { issue: WordPressPageIssue | null; currentUrl: string | null } {
+  if (!item) return { issue: "missing", currentUrl: null };
+  if (item.status === "trash") return { issue: "trashed", currentUrl: null };
+  if (item.status !== "publish" && item.status !== "future") {
+    return { issue: (publishStatus || "publish") === "publish" ? "unpublished" : null, currentUrl: null };
+  }
+  if (item.status === "publish" && wpPageUrl && comparableUrl(item.url) !== comparableUrl(wpPageUrl)) {
+    return { issue: "url_changed", currentUrl: item.url };
+  }
+  return { issue: null, currentUrl: null };
+}
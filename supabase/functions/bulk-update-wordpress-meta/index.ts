@@ -0,0 +1,283 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface MetaChange {
+  locationKeywordId: string;
+  metaTitle: string;
+  metaDescription: string;
+}
+
+interface BulkMetaRequest {
+  projectId: string;
+  pages: MetaChange[];
+}
+
+interface MetaResult {
+  location_keyword_id: string;
+  saved: boolean;
+  pushed: boolean; // false for pages not in WordPress, or when the push failed
+  seo_plugin: string | null; // yoast, rank_math or none; null when not pushed or the plugin is older than 1.3.0
+  meta_title: string | null; // as WordPress holds it after the push
+  meta_description: string | null;
+  error: string | null;
+}
+
+// Pages per request, so one call finishes well inside the function time limit
+const MAX_PAGES = 500;
+// Ids per .in() filter, to keep request URLs short
+const ID_BATCH = 200;
+// generated_pages updates run this many at a time
+const SAVE_CONCURRENCY = 20;
+// The plugin's /update-meta-batch takes at most 100 pages
+const WORDPRESS_BATCH = 100;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+async function wordpressError(response: Response, fallback: string): Promise<string> {
+  if (response.status === 401) return "Invalid API key";
+  const errorText = await response.text();
+  try {
+    const errorJson = JSON.parse(errorText);
+    return errorJson.message || errorJson.error || fallback;
+  } catch (e) {
+    return `${fallback} (Status: ${response.status})`;
+  }
+}
+
+/**
+ * Push meta to WordPress one page at a time, for plugins without
+ * /update-meta-batch
+ */
+async function pushOneByOne(wpUrl: string, apiKey: string, pages: Array<{ page_id: number; meta_title: string; meta_description: string }>) {
+  const results: any[] = [];
+  for (const page of pages) {
+    const response = await fetch(`${wpUrl}/wp-json/geoscale/v1/update-meta`, {
+      method: "POST",
+      headers: { "X-GeoScale-API-Key": apiKey, "Content-Type": "application/json" },
+      body: JSON.stringify(page),
+    });
+    if (!response.ok) {
+      results.push({ page_id: page.page_id, success: false, error: await wordpressError(response, "Failed to update page meta") });
+      continue;
+    }
+    const data = await response.json();
+    results.push({ page_id: page.page_id, success: true, ...data });
+  }
+  return results;
+}
+
+/**
+ * Save meta titles and descriptions on many of a project's pages, and push
+ * them to WordPress in batches for the pages already published there. Each
+ * page gets its own result, with the SEO plugin that took the meta.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { projectId, pages = [] }: BulkMetaRequest = await req.json();
+
+    if (!projectId || pages.length === 0) {
+      return jsonResponse({ error: "projectId and pages are required" }, 400);
+    }
+
+    if (pages.length > MAX_PAGES) {
+      return jsonResponse({ error: `At most ${MAX_PAGES} pages per request` }, 400);
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, wp_url, blog_url, wp_api_key")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return jsonResponse({ error: "Project not found" }, 404);
+    }
+
+    // Only the project's own combinations; RLS hides everyone else's
+    const ids = pages.map((page) => page.locationKeywordId);
+    const combinations = (await Promise.all(
+      Array.from({ length: Math.ceil(ids.length / ID_BATCH) }, async (_, i) => {
+        const { data, error } = await supabaseClient
+          .from("location_keywords")
+          .select("id, wp_page_id")
+          .eq("project_id", projectId)
+          .in("id", ids.slice(i * ID_BATCH, (i + 1) * ID_BATCH));
+        if (error) throw error;
+        return data || [];
+      })
+    )).flat();
+    const wpPageIdById = new Map<string, number | null>(combinations.map((row: any) => [row.id, row.wp_page_id]));
+
+    const results = new Map<string, MetaResult>();
+    for (const page of pages) {
+      results.set(page.locationKeywordId, {
+        location_keyword_id: page.locationKeywordId,
+        saved: false,
+        pushed: false,
+        seo_plugin: null,
+        meta_title: null,
+        meta_description: null,
+        error: wpPageIdById.has(page.locationKeywordId) ? null : "Page not found in this project",
+      });
+    }
+
+    // Save in GeoScale first, so the meta sticks even if WordPress is down
+    const toSave = pages.filter((page) => wpPageIdById.has(page.locationKeywordId));
+    const now = new Date().toISOString();
+    for (let i = 0; i < toSave.length; i += SAVE_CONCURRENCY) {
+      await Promise.all(
+        toSave.slice(i, i + SAVE_CONCURRENCY).map(async (page) => {
+          const result = results.get(page.locationKeywordId)!;
+          const { error } = await supabaseClient
+            .from("generated_pages")
+            .update({
+              meta_title: page.metaTitle,
+              meta_description: page.metaDescription,
+              content_source: "manual_edit",
+              updated_at: now,
+            })
+            .eq("location_keyword_id", page.locationKeywordId);
+          if (error) {
+            result.error = error.message;
+          } else {
+            result.saved = true;
+          }
+        })
+      );
+    }
+
+    const toPush = toSave
+      .filter((page) => results.get(page.locationKeywordId)!.saved && wpPageIdById.get(page.locationKeywordId))
+      .map((page) => ({
+        location_keyword_id: page.locationKeywordId,
+        page_id: Number(wpPageIdById.get(page.locationKeywordId)),
+        meta_title: page.metaTitle,
+        meta_description: page.metaDescription,
+      }));
+
+    let seoPlugin: string | null = null;
+    const apiBaseUrl = project.blog_url || project.wp_url;
+
+    if (toPush.length > 0 && (!apiBaseUrl || !project.wp_api_key)) {
+      for (const page of toPush) {
+        results.get(page.location_keyword_id)!.error = "WordPress URL and API key not configured for this project";
+      }
+    } else if (toPush.length > 0) {
+      let wpUrl = apiBaseUrl.trim();
+      if (!wpUrl.startsWith("http://") && !wpUrl.startsWith("https://")) {
+        wpUrl = "https://" + wpUrl;
+      }
+      wpUrl = wpUrl.replace(/\/$/, "");
+      const apiKey = project.wp_api_key.trim();
+
+      const idByPageId = new Map(toPush.map((page) => [page.page_id, page.location_keyword_id]));
+      let batchSupported = true;
+
+      for (let i = 0; i < toPush.length; i += WORDPRESS_BATCH) {
+        const batch = toPush.slice(i, i + WORDPRESS_BATCH).map(({ page_id, meta_title, meta_description }) => ({
+          page_id,
+          meta_title,
+          meta_description,
+        }));
+
+        let pageResults: any[] = [];
+        try {
+          if (batchSupported) {
+            const response = await fetch(`${wpUrl}/wp-json/geoscale/v1/update-meta-batch`, {
+              method: "POST",
+              headers: { "X-GeoScale-API-Key": apiKey, "Content-Type": "application/json" },
+              body: JSON.stringify({ pages: batch }),
+            });
+
+            // Plugins older than 1.3.0 only have /update-meta
+            if (response.status === 404) {
+              await response.text();
+              batchSupported = false;
+              console.log("⚠️ [BULK META] /update-meta-batch not found, updating pages one at a time");
+            } else if (!response.ok) {
+              throw new Error(await wordpressError(response, "Failed to update page meta"));
+            } else {
+              const data = await response.json();
+              seoPlugin = data.seo_plugin || seoPlugin;
+              pageResults = data.results || [];
+            }
+          }
+          if (!batchSupported) {
+            pageResults = await pushOneByOne(wpUrl, apiKey, batch);
+            seoPlugin = pageResults.find((item) => item.seo_plugin)?.seo_plugin || seoPlugin;
+          }
+        } catch (batchError) {
+          const message = batchError instanceof Error ? batchError.message : "Failed to update page meta";
+          pageResults = batch.map((page) => ({ page_id: page.page_id, success: false, error: message }));
+        }
+
+        for (const item of pageResults) {
+          const id = idByPageId.get(Number(item.page_id));
+          if (!id) continue;
+          const result = results.get(id)!;
+          result.pushed = !!item.success;
+          result.error = item.success ? null : item.error || "Failed to update page meta";
+          result.seo_plugin = item.seo_plugin || null;
+          result.meta_title = item.meta_title ?? null;
+          result.meta_description = item.meta_description ?? null;
+        }
+      }
+    }
+
+    const all = [...results.values()];
+    console.log(
+      `🏷️ [BULK META] Project ${projectId}: ${all.filter((r) => r.saved).length} saved, ${all.filter((r) => r.pushed).length} pushed (SEO plugin: ${seoPlugin || "unknown"})`
+    );
+
+    return jsonResponse({
+      success: true,
+      seoPlugin,
+      saved: all.filter((result) => result.saved).length,
+      pushed: all.filter((result) => result.pushed).length,
+      failed: all.filter((result) => result.error).length,
+      results: all,
+    });
+  } catch (error) {
+    console.error("Error in bulk-update-wordpress-meta function:", error);
+    return jsonResponse(
+      {
+        error: "Failed to update page meta",
+        details: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { scanProjectSimilarity } from "../_shared/similarity.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface CheckDuplicateContentRequest {
+  projectId: string;
+}
+
+/**
+ * Rescan every generated page in a project for near-duplicates.
+ * Pages are checked as they are generated; this backfills older pages and
+ * applies a changed threshold to the whole project.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // The user's client proves they can see the project (RLS)
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { projectId }: CheckDuplicateContentRequest = await req.json();
+
+    if (!projectId) {
+      return new Response(JSON.stringify({ error: "projectId is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, duplicate_similarity_threshold")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Signatures and pairs are written with the service role
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    console.log(`👯 Scanning project ${projectId} for near-duplicate pages...`);
+    const result = await scanProjectSimilarity(serviceClient, projectId, project.duplicate_similarity_threshold ?? undefined);
+    console.log(`✅ Scanned ${result.pagesScanned} pages: ${result.duplicatePairs} near-duplicate pairs, ${result.pagesFlagged} pages flagged`);
+
+    return new Response(JSON.stringify({ success: true, ...result }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in check-duplicate-content function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
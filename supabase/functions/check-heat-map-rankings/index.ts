@@ -1,6 +1,7 @@
 // @ts-nocheck - Deno types not available in this environment
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { resolveLocale } from '../_shared/locale.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -225,7 +226,7 @@ serve(async (req: Request) => {
     // Get project details to extract domain URLs
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('project_name, company_name, base_location, latitude, longitude, blog_url, wp_url')
+      .select('project_name, company_name, base_location, latitude, longitude, blog_url, wp_url, locale_country, locale_language')
       .eq('id', project_id)
       .single()
 
@@ -286,7 +287,7 @@ serve(async (req: Request) => {
       const task = [{
         keyword: keyword_combination,
         location_coordinate: `${point.latitude.toFixed(6)},${point.longitude.toFixed(6)},15z`,
-        language_code: "en",
+        language_code: resolveLocale(project).language,
         depth: 20
       }]
 
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { dataForSeoLocale, resolveLocale } from "../_shared/locale.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +14,35 @@ interface CheckRankingsRequest {
   combination_ids?: string[]; // Optional: check specific combinations only
 }
 
+/**
+ * The page's URL as WordPress reported it: the new URL of a page moved in
+ * WordPress, else the permalink stored at the last push. Hierarchical
+ * permalinks can't be rebuilt from the slug, so blog_url + slug is only a
+ * fallback for pages pushed before permalinks were stored.
+ */
+function pageUrl(combo: any, baseUrl: string): string {
+  if (combo.wp_issue === "url_changed" && combo.wp_issue_url) return combo.wp_issue_url;
+  if (combo.wp_page_url) return combo.wp_page_url;
+
+  // generated_pages is an array, get the first one's slug
+  const pageSlug = combo.generated_pages?.[0]?.slug || combo.phrase.toLowerCase().replace(/\s+/g, "-");
+  return `${baseUrl.replace(/\/$/, "")}/${pageSlug}`;
+}
+
+// Compare URLs ignoring scheme, www., trailing slash, query and fragment
+function normaliseUrl(url: string): string {
+  return url
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+}
+
+function sameUrl(a: string, b: string): boolean {
+  return normaliseUrl(a) === normaliseUrl(b);
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -59,7 +89,7 @@ serve(async (req) => {
     // Get project details including blog_url and user_id
     const { data: project, error: projectError } = await supabase
       .from("projects")
-      .select("blog_url, wp_url, user_id")
+      .select("blog_url, wp_url, user_id, locale_country, locale_language")
       .eq("id", project_id)
       .single();
 
@@ -181,7 +211,7 @@ serve(async (req) => {
     // Use blog_url if available, otherwise fall back to wp_url
     const baseUrl = project.blog_url || project.wp_url;
 
-    // Get combinations to check - include generated_pages to get the slug
+    // Get combinations to check - include generated_pages to get the slug for pages without a stored URL
     let query = supabase
       .from("location_keywords")
       .select(
@@ -189,12 +219,16 @@ serve(async (req) => {
         id,
         phrase,
         status,
+        wp_page_url,
+        wp_issue,
+        wp_issue_url,
         project_locations!inner(name, slug),
         generated_pages(slug)
       `
       )
       .eq("project_id", project_id)
-      .eq("status", "pushed"); // Only check pushed pages
+      .eq("status", "pushed") // Only check pushed pages
+      .or("wp_issue.is.null,wp_issue.eq.url_changed"); // Skip pages deleted, trashed or unpublished in WordPress
 
     if (combination_ids && combination_ids.length > 0) {
       query = query.in("id", combination_ids);
@@ -233,18 +267,16 @@ serve(async (req) => {
       new TextEncoder().encode(`${dataForSeoLogin}:${dataForSeoPassword}`)
     );
 
+    // Search the project's country and language
+    const { location_code, language_code } = dataForSeoLocale(resolveLocale(project));
+
     // Prepare tasks for DataForSEO (batch API call)
     const tasks = combinationsToCheck.map((combo: any) => {
-      // Construct the full URL using the slug from generated_pages
-      // generated_pages is an array, get the first one's slug
-      const pageSlug = combo.generated_pages?.[0]?.slug || combo.phrase.toLowerCase().replace(/\s+/g, "-");
-      const fullUrl = `${baseUrl.replace(/\/$/, "")}/${pageSlug}`;
-
       return {
         keyword: combo.phrase,
-        url: fullUrl,
-        location_code: 2826, // United Kingdom
-        language_code: "en",
+        url: pageUrl(combo, baseUrl),
+        location_code,
+        language_code,
         device: "desktop",
         os: "windows",
       };
@@ -304,7 +336,7 @@ serve(async (req) => {
           let position = null;
           for (let k = 0; k < items.length; k++) {
             const item = items[k];
-            if (item.url && item.url.includes(task.url)) {
+            if (item.url && sameUrl(item.url, task.url)) {
               position = item.rank_absolute || k + 1;
               break;
             }
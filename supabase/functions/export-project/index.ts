@@ -0,0 +1,372 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { type ExportTable, htmlToMarkdown, toCsv, toXlsx } from "../_shared/export-formats.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+type ExportDataset = "combinations" | "pages" | "rankings" | "heat_maps";
+type ExportFormat = "csv" | "json" | "xlsx";
+
+interface ExportProjectRequest {
+  projectId: string;
+  dataset: ExportDataset;
+  format: ExportFormat;
+  contentFormat?: "html" | "markdown"; // pages only, default html
+  since?: string; // ISO date; rankings and heat maps only
+}
+
+interface ExportData {
+  tables: ExportTable[]; // the first table is the CSV export
+  json: unknown[];
+}
+
+const DATASETS: ExportDataset[] = ["combinations", "pages", "rankings", "heat_maps"];
+const FORMATS: ExportFormat[] = ["csv", "json", "xlsx"];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+async function selectAll(build: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function single<T>(value: T | T[] | null | undefined): T | null {
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+}
+
+async function exportCombinations(supabase: any, projectId: string): Promise<ExportData> {
+  const rows = await selectAll(() =>
+    supabase
+      .from("location_keywords")
+      .select(`
+        id,
+        phrase,
+        status,
+        search_volume,
+        difficulty,
+        position,
+        previous_position,
+        last_position_check,
+        track_position,
+        wp_page_url,
+        parent_location_id,
+        location:project_locations!location_id(name),
+        keyword:keyword_variations!keyword_id(keyword, search_volume, difficulty),
+        service:project_services!service_id(name),
+        generated_page:generated_pages(score)
+      `)
+      .eq("project_id", projectId)
+      .order("phrase", { ascending: true })
+  );
+
+  const locationNames = new Map(rows.map((row) => [row.id, single(row.location)?.name || ""]));
+  const records = rows.map((row) => {
+    const keyword = single(row.keyword);
+    return {
+      id: row.id,
+      phrase: row.phrase,
+      location: single(row.location)?.name || null,
+      keyword: keyword?.keyword || null,
+      service: single(row.service)?.name || null,
+      page_type: row.parent_location_id ? "suburb" : "town",
+      parent_town: row.parent_location_id ? locationNames.get(row.parent_location_id) || null : null,
+      status: row.status,
+      search_volume: row.search_volume ?? keyword?.search_volume ?? null,
+      difficulty: row.difficulty ?? keyword?.difficulty ?? null,
+      position: row.position,
+      previous_position: row.previous_position,
+      last_position_check: row.last_position_check,
+      track_position: !!row.track_position,
+      score: single(row.generated_page)?.score ?? null,
+      wp_page_url: row.wp_page_url,
+    };
+  });
+
+  return {
+    json: records,
+    tables: [{
+      name: "Combinations",
+      columns: [
+        "Phrase", "Location", "Keyword", "Service", "Page type", "Parent town", "Status", "Search volume",
+        "Difficulty", "Position", "Previous position", "Last checked", "Tracked", "Score", "WordPress URL",
+      ],
+      rows: records.map((r) => [
+        r.phrase, r.location, r.keyword, r.service, r.page_type, r.parent_town, r.status, r.search_volume,
+        r.difficulty, r.position, r.previous_position, r.last_position_check, r.track_position, r.score, r.wp_page_url,
+      ]),
+    }],
+  };
+}
+
+async function exportPages(supabase: any, projectId: string, contentFormat: "html" | "markdown"): Promise<ExportData> {
+  const rows = await selectAll(() =>
+    supabase
+      .from("generated_pages")
+      .select(`
+        location_keyword_id,
+        title,
+        meta_title,
+        meta_description,
+        content,
+        score,
+        updated_at,
+        location_keyword:location_keywords!inner(
+          phrase,
+          status,
+          wp_page_url,
+          parent_location_id,
+          project_id,
+          location:project_locations!location_id(name)
+        )
+      `)
+      .eq("location_keyword.project_id", projectId)
+      .order("location_keyword_id", { ascending: true })
+  );
+
+  const records = rows.map((row) => {
+    const combination = single(row.location_keyword);
+    return {
+      location_keyword_id: row.location_keyword_id,
+      phrase: combination?.phrase || null,
+      location: single(combination?.location)?.name || null,
+      page_type: combination?.parent_location_id ? "suburb" : "town",
+      status: combination?.status || null,
+      title: row.title,
+      meta_title: row.meta_title,
+      meta_description: row.meta_description,
+      wp_page_url: combination?.wp_page_url || null,
+      score: row.score ?? null,
+      updated_at: row.updated_at,
+      content: contentFormat === "markdown" ? htmlToMarkdown(row.content || "") : row.content,
+    };
+  });
+
+  return {
+    json: records.map((r) => ({ ...r, content_format: contentFormat })),
+    tables: [{
+      name: "Pages",
+      columns: [
+        "Phrase", "Location", "Page type", "Status", "Title", "Meta title", "Meta description", "WordPress URL",
+        "Score", "Updated", contentFormat === "markdown" ? "Content (Markdown)" : "Content (HTML)",
+      ],
+      rows: records.map((r) => [
+        r.phrase, r.location, r.page_type, r.status, r.title, r.meta_title, r.meta_description, r.wp_page_url,
+        r.score, r.updated_at, r.content,
+      ]),
+    }],
+  };
+}
+
+async function exportRankings(supabase: any, projectId: string, since?: string): Promise<ExportData> {
+  const rows = await selectAll(() => {
+    let query = supabase
+      .from("position_history")
+      .select(`
+        location_keyword_id,
+        position,
+        checked_at,
+        location_keyword:location_keywords!location_keyword_id(phrase, wp_page_url, location:project_locations!location_id(name))
+      `)
+      .eq("project_id", projectId)
+      .order("checked_at", { ascending: true });
+    if (since) query = query.gte("checked_at", since);
+    return query;
+  });
+
+  const records = rows.map((row) => {
+    const combination = single(row.location_keyword);
+    return {
+      location_keyword_id: row.location_keyword_id,
+      phrase: combination?.phrase || null,
+      location: single(combination?.location)?.name || null,
+      position: row.position,
+      checked_at: row.checked_at,
+      wp_page_url: combination?.wp_page_url || null,
+    };
+  });
+
+  return {
+    json: records,
+    tables: [{
+      name: "Position History",
+      columns: ["Phrase", "Location", "Position", "Checked", "WordPress URL"],
+      rows: records.map((r) => [r.phrase, r.location, r.position, r.checked_at, r.wp_page_url]),
+    }],
+  };
+}
+
+async function exportHeatMaps(supabase: any, projectId: string, since?: string): Promise<ExportData> {
+  const rows = await selectAll(() => {
+    let query = supabase
+      .from("heat_map_scans")
+      .select("id, keyword_combination, grid_size, radius_km, center_lat, center_lng, average_position, ranked_count, not_ranked_count, weak_locations, grid_data, scanned_at")
+      .eq("project_id", projectId)
+      .order("scanned_at", { ascending: true });
+    if (since) query = query.gte("scanned_at", since);
+    return query;
+  });
+
+  const scans: ExportTable = {
+    name: "Heat Map Scans",
+    columns: [
+      "Keyword", "Scanned", "Grid size", "Radius (km)", "Centre latitude", "Centre longitude", "Average position",
+      "Ranked points", "Not ranked points", "Weak locations",
+    ],
+    rows: rows.map((scan) => [
+      scan.keyword_combination,
+      scan.scanned_at,
+      scan.grid_size,
+      scan.radius_km,
+      Number(scan.center_lat),
+      Number(scan.center_lng),
+      scan.average_position,
+      scan.ranked_count,
+      scan.not_ranked_count,
+      (scan.weak_locations || [])
+        .map((weak: any) => `${weak.name} (${weak.position ?? "not ranked"})`)
+        .join("; "),
+    ]),
+  };
+
+  const points: ExportTable = {
+    name: "Grid Points",
+    columns: ["Keyword", "Scanned", "Latitude", "Longitude", "Position", "Businesses"],
+    rows: rows.flatMap((scan) =>
+      (scan.grid_data || []).map((point: any) => [
+        scan.keyword_combination,
+        scan.scanned_at,
+        point.latitude,
+        point.longitude,
+        point.position,
+        point.business_count,
+      ])
+    ),
+  };
+
+  return {
+    json: rows.map((scan) => ({
+      ...scan,
+      center_lat: Number(scan.center_lat),
+      center_lng: Number(scan.center_lng),
+    })),
+    tables: [scans, points],
+  };
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "project";
+}
+
+/**
+ * Export a project's combinations, page content, position history or heat map
+ * scans as CSV, JSON or XLSX. Everything is read with the caller's client, so
+ * RLS decides what they can export.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { projectId, dataset, format, contentFormat = "html", since }: ExportProjectRequest = await req.json();
+
+    if (!projectId || !DATASETS.includes(dataset) || !FORMATS.includes(format)) {
+      return new Response(
+        JSON.stringify({ error: `projectId, dataset (${DATASETS.join(", ")}) and format (${FORMATS.join(", ")}) are required` }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, project_name, company_name")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    console.log(`📦 Exporting ${dataset} for project ${projectId} as ${format}...`);
+
+    const data = dataset === "combinations"
+      ? await exportCombinations(supabaseClient, projectId)
+      : dataset === "pages"
+      ? await exportPages(supabaseClient, projectId, contentFormat === "markdown" ? "markdown" : "html")
+      : dataset === "rankings"
+      ? await exportRankings(supabaseClient, projectId, since)
+      : await exportHeatMaps(supabaseClient, projectId, since);
+
+    const body = format === "csv"
+      ? "\uFEFF" + toCsv(data.tables[0]) // BOM so Excel reads UTF-8
+      : format === "json"
+      ? JSON.stringify({ project: project.company_name || project.project_name, dataset, exported_at: new Date().toISOString(), rows: data.json }, null, 2)
+      : toXlsx(data.tables) as BodyInit;
+
+    const date = new Date().toISOString().slice(0, 10);
+    const filename = `${slugify(project.company_name || project.project_name || "")}-${dataset.replace("_", "-")}-${date}.${format}`;
+
+    console.log(`✅ Exported ${data.json.length} ${dataset} rows`);
+
+    return new Response(body, {
+      headers: {
+        ...corsHeaders,
+        "Content-Type": CONTENT_TYPES[format],
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error in export-project function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -12,7 +12,7 @@ serve(async (req) => {
   }
 
   try {
-    const { wordpressUrl, wordpressApiKey } = await req.json();
+    const { wordpressUrl, wordpressApiKey, postType } = await req.json();
 
     if (!wordpressUrl || !wordpressApiKey) {
       return new Response(
@@ -33,7 +33,8 @@ serve(async (req) => {
     }
     wpUrl = wpUrl.replace(/\/$/, "");
 
-    const apiUrl = `${wpUrl}/wp-json/geoscale/v1/templates`;
+    // Templates, and the parent pages listed, depend on the post type
+    const apiUrl = `${wpUrl}/wp-json/geoscale/v1/templates${postType ? `?post_type=${encodeURIComponent(postType)}` : ""}`;
 
     console.log("Fetching WordPress templates from:", apiUrl);
 
@@ -84,6 +85,10 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         templates: data.templates || [],
+        // Plugin 1.5.0 and later; older plugins only publish pages
+        postTypes: data.post_types || [],
+        authors: data.authors || [],
+        parents: data.parents || [],
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { LOCALE_COUNTRIES, loadProjectLocale } from "../_shared/locale.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -55,6 +56,10 @@ serve(async (req) => {
     
     console.log("🗺️ Finding nearby towns for:", location, "within", radius, "km", "(capped at", radiusInMeters / 1000, "km)");
 
+    // Search in the project's country and language
+    const locale = await loadProjectLocale(supabase, project_id);
+    const regionCode = locale.country.toLowerCase();
+
     // Step 1: Geocode the base location to get lat/lng
     const textSearchResponse = await fetch(
       "https://places.googleapis.com/v1/places:searchText",
@@ -68,9 +73,11 @@ serve(async (req) => {
         },
         body: JSON.stringify({
           textQuery: location,
+          regionCode,
+          languageCode: locale.language,
           locationBias: {
             circle: {
-              center: { latitude: 54.0, longitude: -2.0 }, // UK center
+              center: LOCALE_COUNTRIES[locale.country].placesCentre,
               radius: 500000.0, // 500km
             },
           },
@@ -115,6 +122,8 @@ serve(async (req) => {
           },
           includedTypes: ["locality", "postal_town"],
           maxResultCount: 20,
+          regionCode,
+          languageCode: locale.language,
         }),
       }
     );
@@ -143,7 +152,7 @@ serve(async (req) => {
 
     const extractCountry = (addressComponents: any[]): string => {
       const country = addressComponents?.find((c) => c.types.includes("country"));
-      return country?.shortText || "GB";
+      return country?.shortText || locale.country;
     };
 
     const towns = places.map((place: any) => ({
@@ -1,5 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createLlmProvider, llmEndpoint, loadProjectLlmSettings, resolveLlmSettings, type LlmProvider } from "../_shared/llm-providers.ts";
+import { renderPromptTemplate, resolvePromptTemplate } from "../_shared/prompt-templates.ts";
+import { parseAndRepairPageOutput } from "../_shared/page-output.ts";
+import { assertWithinBudget, withUsageLogging } from "../_shared/llm-costs.ts";
+import { extractKeywordPart, resolveScoringRuleset } from "../_shared/content-scoring.ts";
+import { loadScoringProfile, optimiseSettings, optimiseToTarget, pageScoreFields, recordOptimisationRun } from "../_shared/content-optimiser.ts";
+import { buildStructuredDataForPage } from "../_shared/structured-data.ts";
+import { loadLinkGraphPages, withLinkMesh } from "../_shared/link-graph.ts";
+import { localePromptVariables, resolveLocale } from "../_shared/locale.ts";
+import { pageMaskTerms, queueDuplicateRegeneration, updatePageSimilarity } from "../_shared/similarity.ts";
+import { findPageImages, pageImageFields, type PageImage } from "../_shared/image-providers.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,6 +29,17 @@ interface ProjectData {
   contact_url: string | null;
   service_description: string | null;
   base_keyword: string | null;
+  user_id: string;
+  duplicate_similarity_threshold: number | null;
+  auto_regenerate_duplicates: boolean | null;
+  optimise_target_score: number | null;
+  optimise_max_iterations: number | null;
+  locale_country: string | null;
+  locale_language: string | null;
+  locale_spelling: string | null;
+  locale_currency: string | null;
+  image_provider: string | null;
+  content_images_per_page: number | null;
 }
 
 interface LocationKeywordData {
@@ -31,6 +53,7 @@ interface LocationKeywordData {
   };
   project_id: string;
   service_id: string | null;
+  location_id: string | null;
   parent_location_id: string | null;
 }
 
@@ -62,13 +85,6 @@ interface ServiceFaqData {
   sort_order: number | null;
 }
 
-interface GeneratedContent {
-  title: string;
-  content: string;
-  meta_title: string;
-  meta_description: string;
-}
-
 /**
  * Generate WordPress-style slug from title
  * Strips out the business name to ensure clean, keyword-focused URLs
@@ -94,216 +110,6 @@ function generateSlug(title: string, businessName?: string): string {
     .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
 }
 
-/**
- * Calculate Local Support Score for suburb pages and return failed checks
- */
-function calculateLocalSupportScore(
-  content: string,
-  keyword: string,
-  location: string
-): { score: number; failedChecks: { name: string; message: string; currentValue?: number }[] } {
-  const failedChecks: { name: string; message: string; currentValue?: number }[] = [];
-  const plainText = content.replace(/<[^>]*>/g, ' ');
-  const lowerPlainText = plainText.toLowerCase();
-  const wordCount = plainText.split(/\s+/).filter(w => w.length > 0).length;
-  
-  // Extract keyword part (without location)
-  const keywordPart = keyword.replace(new RegExp(`\\s*(in|for|near|around)\\s+${location.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'gi'), '').trim();
-  const lowerKeyword = keywordPart.toLowerCase();
-  const lowerLocation = location.toLowerCase();
-
-  let totalScore = 0;
-
-  // 1. Content length (max 20 points) - 300-700 words ideal
-  if (wordCount >= 300 && wordCount <= 700) {
-    totalScore += 20;
-  } else if (wordCount < 300) {
-    totalScore += 10;
-    failedChecks.push({ name: 'Content Length', message: `${wordCount} words (could be slightly longer)`, currentValue: wordCount });
-  } else if (wordCount <= 800) {
-    totalScore += 10;
-    failedChecks.push({ name: 'Content Length', message: `${wordCount} words (slightly long for suburb page)`, currentValue: wordCount });
-  } else {
-    failedChecks.push({ name: 'Content Length', message: `${wordCount} words (too long - risk of competing with town page)`, currentValue: wordCount });
-  }
-
-  // 2. Keyword frequency (max 15 points) - 2-5 ideal
-  const keywordRegex = new RegExp(lowerKeyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-  const keywordCount = (lowerPlainText.match(keywordRegex) || []).length;
-  if (keywordCount >= 2 && keywordCount <= 5) {
-    totalScore += 15;
-  } else if (keywordCount < 2) {
-    totalScore += 5;
-    failedChecks.push({ name: 'Keyword Frequency', message: `Keyword appears ${keywordCount} times (could add 1-2 more)`, currentValue: keywordCount });
-  } else if (keywordCount <= 6) {
-    totalScore += 10;
-    failedChecks.push({ name: 'Keyword Frequency', message: `Keyword appears ${keywordCount} times (slightly high)`, currentValue: keywordCount });
-  } else {
-    failedChecks.push({ name: 'Keyword Frequency', message: `Keyword appears ${keywordCount} times (over-optimised)`, currentValue: keywordCount });
-  }
-
-  // 3. Location frequency (max 15 points) - 3-6 ideal
-  const locationRegex = new RegExp(lowerLocation.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-  const locationCount = (lowerPlainText.match(locationRegex) || []).length;
-  if (locationCount >= 3 && locationCount <= 6) {
-    totalScore += 15;
-  } else if (locationCount < 3) {
-    totalScore += 8;
-    failedChecks.push({ name: 'Location Frequency', message: `Location appears ${locationCount} times (could add 1-2 more)`, currentValue: locationCount });
-  } else if (locationCount <= 8) {
-    totalScore += 8;
-    failedChecks.push({ name: 'Location Frequency', message: `Location appears ${locationCount} times (slightly high)`, currentValue: locationCount });
-  } else {
-    failedChecks.push({ name: 'Location Frequency', message: `Location appears ${locationCount} times (over-optimised)`, currentValue: locationCount });
-  }
-
-  // 4. Heading usage (max 15 points) - 0-1 keyword headings ideal
-  const headings = content.match(/<h[2-3][^>]*>(.*?)<\/h[2-3]>/gi) || [];
-  const headingsWithKeyword = headings.filter(h => h.toLowerCase().includes(lowerKeyword)).length;
-  if (headingsWithKeyword <= 1) {
-    totalScore += 15;
-  } else {
-    totalScore += 5;
-    failedChecks.push({ name: 'Heading Usage', message: `${headingsWithKeyword} keyword headings (too many - footprint risk)`, currentValue: headingsWithKeyword });
-  }
-
-  // 5. Sales pressure detection (max 15 points)
-  const salesTerms = ['best', 'leading', 'top', 'award-winning', 'premier', 'number one', '#1', 'guaranteed', 'unbeatable', 'cheapest', 'lowest price'];
-  const foundSalesTerms = salesTerms.filter(term => lowerPlainText.includes(term));
-  const hasPricing = /\$|£|€|price|pricing|cost|quote|fee/i.test(plainText);
-  const hasTestimonial = /<blockquote|class="testimonial"|"testimonial/i.test(content);
-  
-  let salesPressure = 0;
-  if (foundSalesTerms.length > 0) salesPressure += foundSalesTerms.length * 2;
-  if (hasPricing) salesPressure += 3;
-  if (hasTestimonial) salesPressure += 3;
-  
-  const salesPoints = Math.max(0, 15 - salesPressure * 2);
-  totalScore += salesPoints;
-  if (salesPressure > 3) {
-    failedChecks.push({ name: 'Sales Pressure', message: 'High sales pressure (reduce for suburb page)' });
-  }
-
-  // Add points for title checks (simplified - just add base points)
-  totalScore += 20; // Keyword + Location in title
-
-  return { score: totalScore, failedChecks };
-}
-
-/**
- * Auto-optimise suburb content based on failed Local Support Score checks
- */
-async function optimiseSuburbContent(
-  content: string,
-  keyword: string,
-  location: string,
-  failedChecks: { name: string; message: string; currentValue?: number }[],
-  openrouterApiKey: string
-): Promise<string> {
-  if (failedChecks.length === 0) {
-    return content; // No optimisation needed
-  }
-
-  // Build specific instructions based on failed checks
-  const instructions: string[] = [];
-  
-  for (const check of failedChecks) {
-    switch (check.name) {
-      case 'Content Length':
-        if (check.message.includes('too long')) {
-          instructions.push(`REDUCE content length. Current: ~${check.currentValue} words. Target: 300-700 words. Remove redundant sentences, combine paragraphs, and trim verbose sections.`);
-        } else if (check.message.includes('slightly longer')) {
-          instructions.push(`SLIGHTLY EXPAND content. Current: ~${check.currentValue} words. Add 1-2 sentences of relevant local context. Target: 300-400 words.`);
-        }
-        break;
-        
-      case 'Keyword Frequency':
-        if (check.message.includes('over-optimised') || check.message.includes('slightly high')) {
-          instructions.push(`REDUCE keyword "${keyword}" mentions. Current: ${check.currentValue} times. Target: 2-5 times. Replace some instances with pronouns or related terms.`);
-        } else if (check.message.includes('could add')) {
-          instructions.push(`ADD 1-2 natural mentions of "${keyword}". Current: ${check.currentValue} times. Target: 2-4 times.`);
-        }
-        break;
-        
-      case 'Location Frequency':
-        if (check.message.includes('over-optimised') || check.message.includes('slightly high')) {
-          instructions.push(`REDUCE location "${location}" mentions. Current: ${check.currentValue} times. Target: 3-6 times. Replace some with "the area", "locally", "nearby".`);
-        } else if (check.message.includes('could add')) {
-          instructions.push(`ADD 1-2 natural mentions of "${location}". Current: ${check.currentValue} times. Target: 3-5 times.`);
-        }
-        break;
-        
-      case 'Heading Usage':
-        if (check.message.includes('too many')) {
-          instructions.push(`REDUCE keyword in headings. Current: ${check.currentValue} H2/H3 headings contain the keyword. Target: 0-1. Rewrite headings to be more generic.`);
-        }
-        break;
-        
-      case 'Sales Pressure':
-        instructions.push(`REMOVE aggressive sales language. Replace words like "best", "leading", "top", "award-winning" with softer alternatives. Remove pricing mentions.`);
-        break;
-    }
-  }
-
-  if (instructions.length === 0) {
-    return content;
-  }
-
-  const prompt = `You are an SEO content optimiser for LOCAL SUBURB SUPPORT PAGES. These pages should be LIGHTER and LESS optimised than main town pages.
-
-CURRENT CONTENT:
-${content}
-
-REQUIRED CHANGES (apply ALL):
-${instructions.map((inst, i) => `${i + 1}. ${inst}`).join('\n')}
-
-RULES:
-- Make ONLY the changes listed above
-- Preserve the HTML structure (h1, h2, h3, p tags)
-- Keep the same general flow and sections
-- Do NOT add new sections or testimonials
-- Do NOT add pricing or aggressive CTAs
-- Maintain a helpful, supportive tone
-- Output ONLY the optimised HTML content, no explanations
-
-OUTPUT THE OPTIMISED HTML:`;
-
-  try {
-    const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openrouterApiKey}`,
-        'Content-Type': 'application/json',
-        'HTTP-Referer': Deno.env.get('SUPABASE_URL') || '',
-        'X-Title': 'GeoScale Auto-Optimiser',
-      },
-      body: JSON.stringify({
-        model: 'x-ai/grok-4.1-fast',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 4000,
-        temperature: 0.3,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error('Auto-optimise API error:', await response.text());
-      return content; // Return original on error
-    }
-
-    const result = await response.json();
-    const optimisedContent = result.choices?.[0]?.message?.content?.trim();
-
-    if (optimisedContent) {
-      console.log(`Auto-optimised suburb content: applied ${instructions.length} fix(es)`);
-      return optimisedContent;
-    }
-  } catch (error) {
-    console.error('Auto-optimise error:', error);
-  }
-
-  return content; // Return original on error
-}
-
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
@@ -314,11 +120,6 @@ serve(async (req) => {
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const openrouterApiKey = Deno.env.get("OPENROUTER_API_KEY");
-
-    if (!openrouterApiKey) {
-      throw new Error("OPENROUTER_API_KEY is not set");
-    }
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
@@ -339,6 +140,14 @@ serve(async (req) => {
       throw new Error("Invalid token");
     }
 
+    // api_logs refers to users.id, not the auth user id
+    const { data: userRecord } = await supabase
+      .from("users")
+      .select("id")
+      .eq("supabase_auth_user_id", user.id)
+      .single();
+    const userId: string | null = userRecord?.id || null;
+
     // Parse request body
     const { locationKeywordIds }: GenerateContentRequest = await req.json();
 
@@ -350,6 +159,8 @@ serve(async (req) => {
 
     // Process each location keyword
     for (const locationKeywordId of locationKeywordIds) {
+      let llm: LlmProvider | undefined;
+
       try {
         // Update status to 'generating'
         await supabase
@@ -366,6 +177,7 @@ serve(async (req) => {
             phrase,
             project_id,
             service_id,
+            location_id,
             parent_location_id,
             location:project_locations!location_keywords_location_id_fkey(name),
             keyword:keyword_variations!location_keywords_keyword_id_fkey(keyword)
@@ -380,10 +192,13 @@ serve(async (req) => {
 
         const lkData = locationKeyword as unknown as LocationKeywordData;
 
+        // Don't generate for projects that have hit their monthly budget
+        await assertWithinBudget(supabase, lkData.project_id);
+
         // Fetch project details
         const { data: project, error: projectError } = await supabase
           .from("projects")
-          .select("id, company_name, phone_number, contact_url, service_description, base_keyword")
+          .select("id, company_name, phone_number, contact_url, service_description, base_keyword, user_id, duplicate_similarity_threshold, auto_regenerate_duplicates, optimise_target_score, optimise_max_iterations, locale_country, locale_language, locale_spelling, locale_currency, image_provider, content_images_per_page")
           .eq("id", lkData.project_id)
           .single();
 
@@ -451,7 +266,7 @@ serve(async (req) => {
             const faqsList = (serviceFaqs as ServiceFaqData[])
               .map((faq) => `Q: ${faq.question}\nA: ${faq.answer}`)
               .join("\n\n");
-            serviceFaqsBlock = `Service-specific FAQs to include:\n${faqsList}`;
+            serviceFaqsBlock = faqsList;
           }
         }
 
@@ -545,7 +360,7 @@ ${servicePageUrl ? `- Main Service Page URL: ${servicePageUrl}` : ""}`;
           internalLinkingInstructions = `
 INTERNAL LINKING INSTRUCTIONS (Suburb Page):
 ${parentTownData.wp_page_url ? `- In the intro or summary section, include a natural link to the parent town page.
-  Example: "For wider coverage across the area, see our main <a href="${parentTownData.wp_page_url}">${serviceName} in ${parentLocation}</a> page."` : "- Parent town page not yet published, skip parent link for now."}
+  Example: "For wider coverage across the area, see our main <a href="${parentTownData.wp_page_url}">${serviceName} in ${parentLocation}</a> page."` : "- Parent town page not yet published. Do not add a parent link; it is added automatically once that page is live."}
 ${servicePageUrl ? `- In the CTA section, include a link to the main service page.
   Example: "Learn more about all our <a href="${servicePageUrl}">${serviceName} services</a>."` : ""}`;
         } else if (isMainTownWithSuburbs) {
@@ -588,268 +403,103 @@ INTERNAL LINKING INSTRUCTIONS:
   Example: "Learn more about all our <a href="${servicePageUrl}">${serviceName} services</a>."`;
         }
 
-        // Determine content intent based on page type
-        const contentIntent = isSuburbPage ? "suburb-support" : (isMainTownWithSuburbs ? "primary-town" : "standard-service");
-        
         // Get parent location name for suburb pages
         const parentLocation = isSuburbPage && parentTownData 
           ? (Array.isArray(parentTownData.location) ? parentTownData.location[0]?.name : parentTownData.location?.name)
           : null;
 
-        // Build the prompt based on content intent
-        let prompt: string;
-
-        if (contentIntent === "suburb-support") {
-          // SUBURB PAGE PROMPT - Shorter, supportive, defers to parent
-          prompt = `Create a suburb-level service coverage page that reinforces local relevance while supporting the main town page.
-
-PAGE TYPE: Suburb/Local Coverage Page
-This is NOT a primary sales landing page. This is a local relevance amplifier.
-This page must support the main town page, not compete with it.
-
-Service: ${serviceName}
-Suburb Location: ${location}
-Parent Town: ${parentLocation || "Main town"}
-Target keyword phrase: ${serviceName} services available in ${location}
-
-Business name: ${businessName}
-Phone number: ${phoneNumber}
-Contact page URL: ${contactUrl}
-${internalLinkingBlock}
-
-${serviceDescription ? `Brief service context: ${serviceDescription}` : ""}
-${internalLinkingInstructions}
-
-**SUBURB PAGE CONSTRAINTS (MUST FOLLOW):**
-- Limit total content to 500-750 words maximum (hard cap)
-- Use FEWER sections than the main town page (maximum 3 H2 sections)
-- Avoid full testimonials or case-study style proof - no testimonials by default
-- Avoid detailed service breakdowns - summarise at high level only
-- Emphasise proximity, availability, and coverage
-- Clearly position the main town page as the primary service hub
-- The page should feel like a local relevance and coverage confirmation, not a primary sales landing page
-- DO NOT list advanced or specialist services (e.g., SaaS development, bespoke software) - refer to main town page for full capabilities
-
-**CONTENT INTENT (CRITICAL):**
-This page exists to:
-- Confirm service availability in ${location}
-- Reinforce proximity to ${parentLocation || "the main town"}
-- Support the main town page, NOT compete with it
-- Provide local reassurance to users searching from ${location}
-
-This page should NOT:
-- Be a full sales landing page
-- Repeat detailed service explanations from the town page
-- Over-optimise for the primary town keyword
-- Position itself as the main service page for the wider area
-- Look conversion-complete (no full testimonials, no detailed feature lists)
-
-**CONTENT STRUCTURE (Suburb Page - Minimal, max 3 H2 sections):**
-- **Short Introduction** (2-3 paragraphs): Confirm service coverage in ${location}, mention proximity to ${parentLocation || "main town"}
-- **Local Coverage Section**: Brief explanation of how you serve ${location} as part of your ${parentLocation || "main town"} coverage. Use heading like "Supporting ${location} as part of our ${parentLocation || "main town"} service area"
-- **Optional: Nearby Areas** (only if relevant): A brief mention like "Close to ${parentLocation || "main town"} town centre" or "Serving surrounding areas" - keeps it factual and light
-- **Soft CTA**: Direct users to contact or to the main ${parentLocation || "town"} page for full details
-
-**TITLE/H1 REQUIREMENTS:**
-- The title should imply service AVAILABILITY or COVERAGE, not primary ownership
-- Use: "${serviceName} services available in ${location}" or "${serviceName} support for businesses in ${location}"
-- DO NOT use: "Professional ${serviceName} in ${location}" or ownership-style headlines
-
-**TESTIMONIAL HANDLING:**
-${testimonialBlock ? `- You may briefly reference this testimonial, but DO NOT include it in full
-- Instead, paraphrase or use a short excerpt
-- Or reference generally: "Clients across ${parentLocation || "the area"} and surrounding areas trust us for quality ${serviceName}"
-- Original testimonial for reference: ${testimonialBlock}` : "- No testimonials provided - do not invent any"}
-
-**HEADINGS - AVOID GENERIC SALES HEADINGS:**
-- DO NOT use: "Why Choose [Business]" or "Why Choose Local [Service]"
-- DO use: "Local ${serviceName} support for ${location} businesses" or "Supporting ${location} as part of our ${parentLocation || "main town"} service area"
-- Headings should emphasise coverage, proximity, or support - NOT competitive positioning
-
-**SERVICE SCOPE:**
-- Summarise services at a HIGH LEVEL only
-- DO NOT list advanced or specialist offerings in detail
-- Refer readers to the main town or service page for full capability breakdowns
-- Keep service mentions brief and general
-
-**LANGUAGE REQUIREMENTS:**
-- Use supportive language: "serving", "covering", "supporting businesses in", "available in"
-- Verbally defer to the parent town: "Our main ${serviceName} service is based in ${parentLocation || "the main town"}, with full coverage across ${location}"
-- Reference the main town page naturally where appropriate
-- DO NOT repeat the suburb name excessively - use natural variation and pronouns once location relevance is established
-- Avoid footprint patterns - vary sentence structure and phrasing
-
-**CRITICAL RULES - DO NOT VIOLATE:**
-- DO NOT invent case studies, statistics, or specific client results
-- DO NOT include full testimonials - only brief references or paraphrases
-- DO NOT claim local office presence unless verified
-- DO NOT repeat town-level statistics or detailed service breakdowns
-- DO NOT use more than 3 H2 sections
-- Keep claims general and non-specific
-
-**FORMATTING:**
-- Use semantic HTML: h2, h3, p, ul, li, strong, em
-- Simpler, shorter structure than main town pages
-- No H1 tags (WordPress uses page title as H1)
-- Maximum 3 H2 sections total
-
-Format your response as JSON:
-{
-  "title": "${serviceName} services available in ${location}",
-  "meta_title": "${serviceName} in ${location} | ${businessName}",
-  "meta_description": "Meta description here (150 characters max)",
-  "content": "HTML content here"
-}`;
-        } else {
-          // PRIMARY TOWN or STANDARD SERVICE PROMPT - Full comprehensive page
-          prompt = `Create a comprehensive, SEO-optimized landing page for a service business that will rank highly in Google search results.
-
-${contentIntent === "primary-town" ? `PAGE TYPE: Primary Town Page (Main Location Hub)
-This is the main service page for ${location}. It should be comprehensive and conversion-focused.
-` : ""}
-Service: ${serviceName}
-Location: ${location}
-Target keyword phrase: ${serviceName} in ${location}
-
-Business name: ${businessName}
-Phone number: ${phoneNumber}
-Contact page URL: ${contactUrl}
-${internalLinkingBlock}
-
-${testimonialBlock ? `Testimonial to include:\n${testimonialBlock}` : "No testimonials provided."}
-
-${serviceDescription ? `Service description: ${serviceDescription}` : ""}
-
-${projectServicesBlock ? `Services offered by this business:\n${projectServicesBlock}` : ""}
-
-${serviceFaqsBlock ? `Service-specific FAQs to include:\n${serviceFaqsBlock}` : ""}
-${internalLinkingInstructions}
-
-Create a complete, engaging landing page article that includes:
-
-**REQUIRED ELEMENTS (must be included):**
-- Business name and location prominently featured
-- Phone number and contact URL in the content
-- At least one customer testimonial (use the provided testimonial exactly) - skip if none provided
-- Clear call-to-action at the end
-
-**CONTENT STRUCTURE (flexible but comprehensive):**
-- **Introduction**: Compelling opening that explains the service benefits and includes business name
-- **Why Choose Section**: 4-6 compelling reasons to choose this business (can include local expertise, unique selling points, benefits)
-- **Services/Process Section**: ONLY list services from "Services offered by this business" above. If no services are provided, write general content about the main service type
-- **Testimonials**: Include the provided testimonial(s) in a dedicated section - skip if none provided
-- **Benefits/Value Proposition**: Additional reasons this service is valuable
-- **FAQ Section**: ONLY include if "Service-specific FAQs to include:" appears above with actual FAQs. If no FAQs are provided, DO NOT create or invent any FAQ section
-- **Strong Call-to-Action**: End with clear contact information and next steps
-
-**CRITICAL RULES - DO NOT VIOLATE:**
-- DO NOT invent case studies, client projects, portfolio examples, or success stories
-- DO NOT fabricate statistics or metrics (e.g., "50% increase", "reduced by X%", "X+ clients served")
-- DO NOT claim specific outcomes or results for unnamed clients
-- DO NOT create fake testimonials - only use the exact testimonial text provided above
-- DO NOT invent specific business names, project names, or client names
-- Only make general claims about service quality and expertise, not specific measurable results
-- All claims must be general and non-specific (e.g., "we deliver quality results" NOT "we increased sales by 50%")
-- DO NOT invent service names - only use services listed in "Services offered by this business" above
-- If no services list is provided, only discuss the main service type generically
-
-**SEO REQUIREMENTS:**
-- Natural keyword integration throughout (aim for 3-6 keyword mentions)
-- Local relevance and location mentions (4-8 location references)
-- Professional, engaging tone suitable for B2B or local business audience
-- 800-1500 words of high-quality, original content
-- Mobile-friendly structure
-- Schema markup friendly (use proper headings, lists, etc.)
-
-**FORMATTING:**
-- Use semantic HTML: h2, h3, p, ul, li, strong, em
-- Tables for comparisons if helpful
-- No H1 tags (WordPress uses page title as H1)
-- Proper alt text for any images mentioned
-- Clean, readable structure
-
-${internalLinkingInstructions}
-
-Format your response as JSON:
-{
-  "title": "Service in Location (NO business name)",
-  "meta_title": "Meta title here (can include business name)",
-  "meta_description": "Meta description here (150 characters max)",
-  "content": "HTML content here"
-}`;
-        }
+        // Render the assigned prompt template (or the built-in prompt)
+        const promptTemplate = await resolvePromptTemplate(supabase, {
+          projectId: lkData.project_id,
+          serviceId: lkData.service_id,
+          pageType: isSuburbPage ? "suburb" : "town",
+        });
+        console.log(`Using prompt template ${promptTemplate.ref}`);
+
+        const prompt = renderPromptTemplate(promptTemplate.body, {
+          serviceName,
+          location,
+          parentLocation,
+          primaryTown: isMainTownWithSuburbs ? "yes" : "",
+          businessName,
+          phoneNumber,
+          contactUrl,
+          serviceDescription,
+          testimonialBlock,
+          projectServicesBlock,
+          serviceFaqsBlock,
+          internalLinkingBlock,
+          internalLinkingInstructions,
+          ...localePromptVariables(resolveLocale(projectData)),
+        });
 
-        // Call OpenRouter API with Grok 4.1 Fast model
-        const openaiResponse = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${openrouterApiKey}`,
-            "HTTP-Referer": supabaseUrl,
-            "X-Title": "GeoScale",
-          },
-          body: JSON.stringify({
-            model: "x-ai/grok-4.1-fast",
-            messages: [
-              {
-                role: "user",
-                content: prompt,
-              },
-            ],
-          }),
+        // Call the project's configured LLM provider
+        llm = withUsageLogging(supabase, createLlmProvider(await loadProjectLlmSettings(supabase, lkData.project_id)), {
+          userId,
+          projectId: lkData.project_id,
+          locationKeywordId,
+          serviceId: lkData.service_id,
+          pageType: isSuburbPage ? "suburb" : "town",
         });
+        const completion = await llm.complete([{ role: "user", content: prompt }]);
+        const generatedText = completion.text;
 
-        if (!openaiResponse.ok) {
-          const errorText = await openaiResponse.text();
-          throw new Error(`OpenRouter API error: ${openaiResponse.status} - ${errorText}`);
+        if (!generatedText) {
+          throw new Error(`No content generated from ${llm.name}`);
         }
 
-        const openaiData = await openaiResponse.json();
-        const generatedText = openaiData.choices[0]?.message?.content;
+        // Parse, validate and if necessary repair the JSON page
+        const { page: generatedContent } = await parseAndRepairPageOutput(generatedText, llm);
 
-        if (!generatedText) {
-          throw new Error("No content generated from OpenRouter");
-        }
+        // Generate WordPress-style slug from title (excluding business name)
+        const slug = generateSlug(generatedContent.title, businessName);
 
-        // Parse the JSON response
-        let generatedContent: GeneratedContent;
+        // Score the page against the project's scoring profile and optimise it
+        // (SEO Score for town pages, Local Support Score for suburbs) towards the target
+        const pageType = isSuburbPage ? "suburb" : "town";
+        const scoringProfile = await loadScoringProfile(supabase, lkData.project_id);
+        const ruleset = resolveScoringRuleset(pageType, scoringProfile[pageType]);
+        const settings = optimiseSettings(projectData);
+        const optimisation = await optimiseToTarget(
+          llm,
+          { content: generatedContent.content, title: generatedContent.title, phrase: lkData.phrase, location: lkData.location?.name, phoneNumber, contactUrl },
+          ruleset,
+          { keyword: extractKeywordPart(lkData.phrase, lkData.location?.name), location: lkData.location?.name || "", pageType, phoneNumber, contactUrl },
+          settings
+        );
+        const finalContent = optimisation.content;
+
+        // Featured and in-content images; the page is still saved without them
+        let images: PageImage[] = [];
         try {
-          // Try to extract JSON from the response (in case it's wrapped in markdown)
-          const jsonMatch = generatedText.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            generatedContent = JSON.parse(jsonMatch[0]);
-          } else {
-            generatedContent = JSON.parse(generatedText);
-          }
-        } catch (parseError) {
-          console.error("Failed to parse OpenRouter response:", generatedText);
-          throw new Error(`Failed to parse generated content: ${parseError.message}`);
+          images = await findPageImages(supabase, projectData, {
+            projectId: lkData.project_id,
+            serviceId: lkData.service_id,
+            locationId: lkData.location_id,
+            service: serviceName,
+            location,
+            business: businessName,
+            phrase: lkData.phrase,
+          });
+        } catch (imageError) {
+          console.error("Failed to find page images:", imageError);
         }
+        const { content: illustratedContent, ...imageFields } = pageImageFields(finalContent, images);
 
-        // Generate WordPress-style slug from title (excluding business name)
-        const slug = generateSlug(generatedContent.title, businessName);
+        // Links to the published parent town, suburbs and sibling suburbs
+        let linkedContent = illustratedContent;
+        try {
+          linkedContent = withLinkMesh(illustratedContent, locationKeywordId, await loadLinkGraphPages(supabase, lkData.project_id));
+        } catch (linkError) {
+          console.error("Failed to build internal links:", linkError);
+        }
 
-        // Auto-optimise suburb pages based on Local Support Score
-        let finalContent = generatedContent.content;
-        if (isSuburbPage && lkData.phrase && lkData.location?.name) {
-          console.log(`Suburb page detected - checking Local Support Score...`);
-          const { score, failedChecks } = calculateLocalSupportScore(
-            generatedContent.content,
-            lkData.phrase,
-            lkData.location.name
-          );
-          console.log(`Local Support Score: ${score}/100, Failed checks: ${failedChecks.length}`);
-          
-          if (failedChecks.length > 0) {
-            console.log(`Auto-optimising suburb content for: ${failedChecks.map(c => c.name).join(', ')}`);
-            finalContent = await optimiseSuburbContent(
-              generatedContent.content,
-              lkData.phrase,
-              lkData.location.name,
-              failedChecks,
-              openrouterApiKey
-            );
-          }
+        // JSON-LD for the page head; without it the page is still saved
+        let schemaJson: Record<string, unknown> | null = null;
+        try {
+          schemaJson = await buildStructuredDataForPage(supabase, locationKeywordId, { title: generatedContent.title, meta_description: generatedContent.meta_description });
+        } catch (schemaError) {
+          console.error("Failed to build JSON-LD:", schemaError);
         }
 
         // Insert or update into generated_pages table
@@ -860,9 +510,17 @@ Format your response as JSON:
             location_keyword_id: locationKeywordId,
             title: generatedContent.title,
             slug: slug,
-            content: finalContent,
+            content: linkedContent,
             meta_title: generatedContent.meta_title,
             meta_description: generatedContent.meta_description,
+            prompt_template_version_id: promptTemplate.versionId,
+            prompt_template_ref: promptTemplate.ref,
+            content_source: "ai_generate",
+            ...pageScoreFields(optimisation.score, optimisation),
+            ...imageFields,
+            schema_json: schemaJson,
+            schema_updated_at: schemaJson ? new Date().toISOString() : null,
+            duplicate_regenerations: 0, // Asked for by the user, so automatic retries start again
             updated_at: new Date().toISOString(),
           }, {
             onConflict: 'location_keyword_id',
@@ -881,22 +539,48 @@ Format your response as JSON:
           .update({ status: "generated", updated_at: new Date().toISOString() })
           .eq("id", locationKeywordId);
 
-        // Log successful API call
-        await supabase.from("api_logs").insert({
-          user_id: user.id,
-          project_id: lkData.project_id,
-          api_type: "openrouter",
-          endpoint: "/v1/chat/completions",
-          method: "POST",
-          status_code: 200,
-          request_body: { model: "x-ai/grok-4.1-fast", prompt_length: prompt.length },
-          response_body: { success: true },
-        });
+        if (optimisation.iterations.length > 0) {
+          await recordOptimisationRun(supabase, {
+            projectId: lkData.project_id,
+            locationKeywordId,
+            pageType,
+            targetScore: settings.targetScore,
+            result: optimisation,
+          });
+        }
+
+        // Compare with the project's other pages; a failed check doesn't fail the generation
+        let maxSimilarity: number | null = null;
+        try {
+          const similarity = await updatePageSimilarity(supabase, {
+            projectId: lkData.project_id,
+            locationKeywordId,
+            content: finalContent,
+            maskTerms: pageMaskTerms({
+              location: lkData.location,
+              keyword: lkData.keyword,
+              parentLocationName: parentTownData?.location?.name,
+            }),
+            threshold: projectData.duplicate_similarity_threshold,
+          });
+          maxSimilarity = similarity.maxSimilarity;
+
+          if (similarity.duplicates.length > 0 && projectData.auto_regenerate_duplicates) {
+            await queueDuplicateRegeneration(supabase, {
+              projectId: lkData.project_id,
+              locationKeywordId,
+              userId: projectData.user_id,
+            });
+          }
+        } catch (similarityError) {
+          console.error(`Duplicate check failed for ${locationKeywordId}:`, similarityError);
+        }
 
         results.push({
           locationKeywordId,
           success: true,
           generatedPageId: generatedPage.id,
+          maxSimilarity,
         });
       } catch (error) {
         console.error(`Error generating content for ${locationKeywordId}:`, error);
@@ -914,13 +598,16 @@ Format your response as JSON:
           .eq("id", locationKeywordId)
           .single();
 
+        // Failures before the provider was set up are logged against the default one
+        const providerName = llm?.name || resolveLlmSettings().provider;
         await supabase.from("api_logs").insert({
-          user_id: user.id,
+          user_id: userId,
           project_id: lkData?.project_id,
-          api_type: "openrouter",
-          endpoint: "/v1/chat/completions",
+          api_type: providerName,
+          endpoint: llmEndpoint(providerName),
           method: "POST",
           status_code: 500,
+          request_body: { provider: providerName, model: llm?.model },
           error_message: error.message,
         });
 
@@ -0,0 +1,203 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LOCALE_COUNTRIES, loadProjectLocale } from "../_shared/locale.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface GeocodeLocationsRequest {
+  projectId: string;
+}
+
+// Locations looked up per call; the app calls again while some remain
+const BATCH_SIZE = 50;
+
+/**
+ * Look up real coordinates for a project's locations that were added without
+ * them (CSV imports and hand-entered combinations). Suburbs are searched
+ * together with their parent town's name so the right place is found.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // The user's client proves they can see the project (RLS)
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { projectId }: GeocodeLocationsRequest = await req.json();
+
+    if (!projectId) {
+      return new Response(JSON.stringify({ error: "projectId is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, latitude, longitude")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const googleApiKey = Deno.env.get("GOOGLE_PLACES_API_KEY");
+    if (!googleApiKey) {
+      throw new Error("GOOGLE_PLACES_API_KEY is not set");
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const { data: locations, error: locationsError } = await serviceClient
+      .from("project_locations")
+      .select("id, name")
+      .eq("project_id", projectId)
+      .eq("geocode_status", "pending")
+      .order("created_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (locationsError) throw locationsError;
+
+    // Parent town names for locations used as suburbs
+    const parentNames = new Map<string, string>();
+    if (locations && locations.length > 0) {
+      const { data: suburbRows } = await serviceClient
+        .from("location_keywords")
+        .select("location_id, parent:location_keywords!parent_location_id(location:project_locations!location_id(name))")
+        .in("location_id", locations.map((location: any) => location.id))
+        .not("parent_location_id", "is", null);
+
+      for (const row of suburbRows || []) {
+        const parentName = row.parent?.location?.name;
+        if (parentName && !parentNames.has(row.location_id)) {
+          parentNames.set(row.location_id, parentName);
+        }
+      }
+    }
+
+    // Bias towards the project's own area when it has one, otherwise the whole country
+    const locale = await loadProjectLocale(serviceClient, projectId);
+    const bias = project.latitude && project.longitude
+      ? { center: { latitude: project.latitude, longitude: project.longitude }, radius: 50000.0 }
+      : { center: LOCALE_COUNTRIES[locale.country].placesCentre, radius: 500000.0 };
+
+    console.log(`📍 Geocoding ${locations?.length || 0} locations for project ${projectId}...`);
+
+    let geocoded = 0;
+    let failed = 0;
+
+    for (const location of locations || []) {
+      const parentName = parentNames.get(location.id);
+      const textQuery = parentName && parentName !== location.name ? `${location.name}, ${parentName}` : location.name;
+
+      try {
+        const response = await fetch("https://places.googleapis.com/v1/places:searchText", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Goog-Api-Key": googleApiKey,
+            "X-Goog-FieldMask": "places.id,places.location,places.addressComponents",
+          },
+          body: JSON.stringify({
+            textQuery,
+            regionCode: locale.country.toLowerCase(),
+            languageCode: locale.language,
+            locationBias: { circle: bias },
+          }),
+        });
+
+        if (!response.ok) {
+          throw new Error(`Google Places API error: ${response.status} - ${await response.text()}`);
+        }
+
+        const place = (await response.json()).places?.[0];
+        if (!place) {
+          console.warn(`⚠️ No match for "${textQuery}"`);
+          await serviceClient
+            .from("project_locations")
+            .update({ geocode_status: "failed" })
+            .eq("id", location.id);
+          failed++;
+          continue;
+        }
+
+        const components: any[] = place.addressComponents || [];
+        const region = components.find((c) =>
+          c.types.includes("administrative_area_level_2") || c.types.includes("administrative_area_level_1")
+        );
+        const country = components.find((c) => c.types.includes("country"));
+
+        const { error: updateError } = await serviceClient
+          .from("project_locations")
+          .update({
+            lat: place.location.latitude,
+            lng: place.location.longitude,
+            region: region?.longText || region?.shortText || null,
+            country: country?.shortText || locale.country,
+            geocode_status: "geocoded",
+          })
+          .eq("id", location.id);
+
+        if (updateError) throw updateError;
+        geocoded++;
+      } catch (error) {
+        // Left pending so the next call tries again
+        console.error(`❌ Failed to geocode "${textQuery}":`, error);
+        failed++;
+      }
+    }
+
+    const { count: remaining } = await serviceClient
+      .from("project_locations")
+      .select("id", { count: "exact", head: true })
+      .eq("project_id", projectId)
+      .eq("geocode_status", "pending");
+
+    console.log(`✅ Geocoded ${geocoded} locations, ${failed} failed, ${remaining || 0} still pending`);
+
+    return new Response(JSON.stringify({ success: true, geocoded, failed, remaining: remaining || 0 }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error geocoding locations:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { dataForSeoLocale, loadProjectLocale } from "../_shared/locale.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -117,7 +118,8 @@ serve(async (req) => {
       new TextEncoder().encode(`${dataForSeoLogin}:${dataForSeoPassword}`)
     );
 
-    const locationCode = 2826; // United Kingdom
+    // Metrics for the project's country and language
+    const { location_code: locationCode, language_code: languageCode } = dataForSeoLocale(await loadProjectLocale(supabase, project_id));
     const batchSize = 700; // Use 700 to be safe with Google Ads limit
 
     const volumeResults: Map<string, number> = new Map();
@@ -151,7 +153,7 @@ serve(async (req) => {
                 {
                   keywords: batch,
                   location_code: locationCode,
-                  language_code: "en",
+                  language_code: languageCode,
                 },
               ]),
             }
@@ -215,7 +217,7 @@ serve(async (req) => {
                 {
                   keywords: batch,
                   location_code: locationCode,
-                  language_code: "en",
+                  language_code: languageCode,
                 },
               ]),
             }
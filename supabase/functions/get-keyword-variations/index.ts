@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { encode as base64Encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { dataForSeoLocale, loadProjectLocale, LOCALE_COUNTRIES } from "../_shared/locale.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,7 +12,7 @@ const corsHeaders = {
 interface KeywordVariationsRequest {
   project_id: string;
   base_keyword: string;
-  location?: string;
+  location?: string; // Country code; the project's locale country when not given
   limit?: number;
 }
 
@@ -40,12 +41,17 @@ serve(async (req) => {
     const {
       project_id,
       base_keyword,
-      location = "GB",
+      location,
       limit = 20,
     }: KeywordVariationsRequest = requestBody;
 
     const seedKeyword = base_keyword.toLowerCase().trim();
-    const locationCode = 2826; // United Kingdom
+    // Keywords for the project's country and language
+    const locale = await loadProjectLocale(supabase, project_id);
+    if (location && LOCALE_COUNTRIES[location]) {
+      locale.country = location;
+    }
+    const { location_code: locationCode, language_code: languageCode } = dataForSeoLocale(locale);
 
     console.log(`📊 Checking cache for: "${seedKeyword}"`);
 
@@ -120,7 +126,7 @@ serve(async (req) => {
           {
             keywords: [base_keyword],
             location_code: locationCode,
-            language_code: "en",
+            language_code: languageCode,
             include_seed_keyword: true,
             include_serp_info: false,
             sort_by: "search_volume",
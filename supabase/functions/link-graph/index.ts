@@ -0,0 +1,117 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { analyseLinkGraph, loadLinkGraphPages, queueRepush, refreshLinkMesh } from "../_shared/link-graph.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface LinkGraphRequest {
+  projectId: string;
+  rewrite?: boolean;
+}
+
+/**
+ * The project's internal link graph: orphan pages, broken links and links
+ * between pages. With rewrite set, every page's mesh block is rebuilt first
+ * and the rewritten pages that are live are queued for a WordPress push.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // The user's client proves they can see the project (RLS)
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { projectId, rewrite }: LinkGraphRequest = await req.json();
+
+    if (!projectId) {
+      return new Response(JSON.stringify({ error: "projectId is required" }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, user_id, wp_url, blog_url, contact_url")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return new Response(JSON.stringify({ error: "Project not found" }), {
+        status: 404,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Pages are rewritten with the service role
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    let rewritten: string[] = [];
+    if (rewrite) {
+      console.log(`🔗 Rewriting internal links for project ${projectId}...`);
+      rewritten = await refreshLinkMesh(serviceClient, projectId);
+      console.log(`✅ Rewrote the links on ${rewritten.length} pages`);
+    }
+
+    const [pages, { data: services }] = await Promise.all([
+      loadLinkGraphPages(serviceClient, projectId, { withContent: true }),
+      serviceClient.from("project_services").select("service_page_url").eq("project_id", projectId),
+    ]);
+
+    // WordPress only gets the new links when the live pages are pushed again
+    const queued = await queueRepush(serviceClient, {
+      projectId,
+      userId: project.user_id,
+      locationKeywordIds: pages.filter((page) => rewritten.includes(page.id) && page.status === "pushed").map((page) => page.id),
+    });
+    if (queued.length > 0) {
+      console.log(`📤 Queued ${queued.length} live pages for a re-push`);
+    }
+
+    const report = analyseLinkGraph(pages, {
+      siteUrls: [project.wp_url, project.blog_url].filter(Boolean),
+      knownUrls: [project.contact_url, ...(services || []).map((s: any) => s.service_page_url)].filter(Boolean),
+    });
+
+    return new Response(JSON.stringify({ success: true, pagesRewritten: rewritten.length, pagesQueued: queued.length, ...report }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in link-graph function:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildFailureUpdate, claimJobs, createWorkerId, LeaseLostError, QueueJobError, RELEASED_LEASE, resetExpiredJobs, startHeartbeat } from "../_shared/job-queue.ts";
+import { parseRetryAfter } from "../_shared/llm-providers.ts";
+import { backfillParentLinks, refreshLinkMesh, refreshMeshNeighbours } from "../_shared/link-graph.ts";
+import { conflictGuard, parseWordPressConflict, pushedSyncColumns, remoteSyncColumns } from "../_shared/wordpress-sync.ts";
+import { loadPublishMapping } from "../_shared/publish-mapping.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,7 +14,7 @@ const corsHeaders = {
 // Configuration
 const BATCH_SIZE = 5; // Process up to 5 jobs per cron run for reliability
 const MAX_EXECUTION_TIME_MS = 50000; // Stop processing after 50 seconds to avoid timeout
-const STUCK_JOB_THRESHOLD_MINUTES = 5; // Reset jobs stuck in "processing" for longer than this
+const LEASE_SECONDS = 90; // Job returns to the queue if the worker stops heartbeating for this long
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -17,7 +22,7 @@ serve(async (req) => {
   }
 
   const startTime = Date.now();
-  const results: Array<{ job_id: string; success: boolean; error?: string }> = [];
+  const results: Array<{ job_id: string; success: boolean; lost?: boolean; error?: string }> = [];
 
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
@@ -25,100 +30,30 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    console.log(`🔄 [WP QUEUE WORKER] Starting batch processing (up to ${BATCH_SIZE} jobs)...`);
-
-    // First, check for and reset any stuck jobs (processing for too long)
-    const stuckThreshold = new Date(Date.now() - STUCK_JOB_THRESHOLD_MINUTES * 60 * 1000).toISOString();
-    const { data: stuckJobs, error: stuckError } = await supabase
-      .from("wordpress_push_jobs")
-      .update({ 
-        status: "queued", 
-        error_message: "Reset: job was stuck in processing state",
-        updated_at: new Date().toISOString()
-      })
-      .eq("status", "processing")
-      .lt("started_at", stuckThreshold)
-      .select("id");
-
-    if (!stuckError && stuckJobs && stuckJobs.length > 0) {
-      console.log(`🔧 [WP QUEUE WORKER] Reset ${stuckJobs.length} stuck jobs back to queued`);
-    }
-
-    // Check if there are already jobs being processed (prevent overlapping runs)
-    const { count: processingCount } = await supabase
-      .from("wordpress_push_jobs")
-      .select("*", { count: "exact", head: true })
-      .eq("status", "processing");
+    const workerId = createWorkerId("wp-queue");
+    console.log(`🔄 [WP QUEUE WORKER] ${workerId} starting batch processing (up to ${BATCH_SIZE} jobs)...`);
 
-    if (processingCount && processingCount > 0) {
-      console.log(`⏳ [WP QUEUE WORKER] ${processingCount} jobs still processing, skipping this run`);
-      return new Response(
-        JSON.stringify({ success: true, message: "Previous batch still processing", skipped: true }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    // Get batch of queued jobs (ordered by priority desc, then created_at asc)
-    const { data: jobs, error: fetchError } = await supabase
-      .from("wordpress_push_jobs")
-      .select("*")
-      .eq("status", "queued")
-      .order("priority", { ascending: false })
-      .order("created_at", { ascending: true })
-      .limit(BATCH_SIZE);
-
-    if (fetchError) {
-      console.error("❌ [WP QUEUE WORKER] Error fetching jobs:", fetchError);
-      throw fetchError;
-    }
-
-    if (!jobs || jobs.length === 0) {
-      console.log("✅ [WP QUEUE WORKER] No jobs in queue");
-      return new Response(
-        JSON.stringify({ success: true, message: "No jobs to process", processed: 0 }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Put jobs from crashed or timed-out runs back in the queue
+    const resetCount = await resetExpiredJobs(supabase, "wordpress_push_jobs");
+    if (resetCount > 0) {
+      console.log(`🔧 [WP QUEUE WORKER] Reset ${resetCount} jobs with expired leases`);
     }
 
-    console.log(`📋 [WP QUEUE WORKER] Found ${jobs.length} jobs to process`);
-
-    // Process each job in sequence
-    for (const job of jobs) {
+    // Claim and process one job at a time so overlapping runs share the queue safely
+    for (let i = 0; i < BATCH_SIZE; i++) {
       // Check if we're running out of time
       if (Date.now() - startTime > MAX_EXECUTION_TIME_MS) {
         console.log(`⏱️ [WP QUEUE WORKER] Approaching timeout, stopping batch processing`);
         break;
       }
 
-      // Check if job has exceeded max attempts
-      if (job.attempts >= job.max_attempts) {
-        console.log(`⚠️ [WP QUEUE WORKER] Job ${job.id} has exceeded max attempts, marking as failed`);
-        await supabase
-          .from("wordpress_push_jobs")
-          .update({ status: "failed" })
-          .eq("id", job.id);
-        results.push({ job_id: job.id, success: false, error: "Max attempts exceeded" });
-        continue;
+      const [job] = await claimJobs(supabase, "wordpress_push_jobs", workerId, 1, LEASE_SECONDS);
+      if (!job) {
+        break;
       }
 
-      console.log(`📋 [WP QUEUE WORKER] Processing job ${job.id} for location_keyword ${job.location_keyword_id}`);
-
-      // Mark job as processing
-      const { error: updateError } = await supabase
-        .from("wordpress_push_jobs")
-        .update({
-          status: "processing",
-          started_at: new Date().toISOString(),
-          attempts: job.attempts + 1,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", job.id);
-
-      if (updateError) {
-        console.error("❌ [WP QUEUE WORKER] Error updating job status:", updateError);
-        results.push({ job_id: job.id, success: false, error: updateError.message });
-        continue;
-      }
+      console.log(`📋 [WP QUEUE WORKER] Processing job ${job.id} for location_keyword ${job.location_keyword_id} (attempt ${job.attempts}/${job.max_attempts})`);
+      const heartbeat = startHeartbeat(supabase, "wordpress_push_jobs", job, LEASE_SECONDS);
 
       try {
         // Fetch location keyword with project and generated page data
@@ -134,7 +69,7 @@ serve(async (req) => {
           .single();
 
         if (lkError || !lkData) {
-          throw new Error(`Location keyword not found: ${job.location_keyword_id}`);
+          throw new QueueJobError(`Location keyword not found: ${job.location_keyword_id}`, { retryable: false });
         }
 
         // Check if content has been generated
@@ -142,6 +77,13 @@ serve(async (req) => {
           throw new Error(`Content not yet generated for: ${lkData.phrase}`);
         }
 
+        // Bring the page's internal links up to date with what is published now
+        try {
+          await refreshLinkMesh(supabase, lkData.project_id, [job.location_keyword_id]);
+        } catch (linkError) {
+          console.error(`⚠️ [WP QUEUE WORKER] Failed to refresh internal links for ${job.location_keyword_id}:`, linkError);
+        }
+
         // Fetch generated page content
         const { data: generatedPage, error: pageError } = await supabase
           .from("generated_pages")
@@ -157,7 +99,7 @@ serve(async (req) => {
         // Use blog_url if available, otherwise fall back to wp_url
         const apiBaseUrl = project?.blog_url || project?.wp_url;
         if (!apiBaseUrl || !project?.wp_api_key) {
-          throw new Error("WordPress URL or API Key not configured for this project");
+          throw new QueueJobError("WordPress URL or API Key not configured for this project", { retryable: false });
         }
 
         console.log(`📤 [WP QUEUE WORKER] Pushing to WordPress: ${lkData.phrase}`);
@@ -184,16 +126,24 @@ serve(async (req) => {
           page_template: project.wp_page_template || "",
           location: lkData.location?.name || "",
           keyword: lkData.keyword?.keyword || "",
+          schema: generatedPage.schema_json || null, // JSON-LD the plugin prints in the page head
+          image_url: generatedPage.featured_image_url || null, // set as the featured image
+          image_alt: generatedPage.featured_image_alt || null,
         };
 
+        // Post type, parent, author, taxonomy terms and custom fields
+        Object.assign(wordpressData, await loadPublishMapping(supabase, job.location_keyword_id));
+
         // If updating, include the WordPress page ID
         if (isUpdate && lkData.wp_page_id) {
           wordpressData.page_id = lkData.wp_page_id;
+          Object.assign(wordpressData, conflictGuard(lkData.wp_content_hash));
         }
 
         console.log(`🌐 [WP QUEUE WORKER] Calling WordPress API: ${apiUrl}`);
 
-        // Send to WordPress
+        // Send to WordPress, unless another run has taken the job over
+        await heartbeat.assertHeld();
         const wordpressResponse = await fetch(apiUrl, {
           method: "POST",
           headers: {
@@ -207,6 +157,22 @@ serve(async (req) => {
           const errorText = await wordpressResponse.text();
           console.error("WordPress API error:", wordpressResponse.status, errorText);
 
+          // Never overwrite edits made in WordPress from the queue; the user
+          // decides on the page whether to keep them
+          const conflict = parseWordPressConflict(wordpressResponse.status, errorText);
+          if (conflict) {
+            await heartbeat.assertHeld();
+            await supabase
+              .from("location_keywords")
+              .update(remoteSyncColumns(conflict))
+              .eq("id", job.location_keyword_id);
+
+            throw new QueueJobError("Page was edited in WordPress since it was last published; review the changes before updating it", {
+              status: 409,
+              retryable: false,
+            });
+          }
+
           let errorMessage = "Failed to publish to WordPress";
           try {
             const errorJson = JSON.parse(errorText);
@@ -215,7 +181,10 @@ serve(async (req) => {
             errorMessage = `${errorMessage}: ${wordpressResponse.statusText}`;
           }
 
-          throw new Error(errorMessage);
+          throw new QueueJobError(errorMessage, {
+            status: wordpressResponse.status,
+            retryAfterSeconds: parseRetryAfter(wordpressResponse.headers.get("retry-after")),
+          });
         }
 
         const wordpressResult = await wordpressResponse.json();
@@ -225,6 +194,7 @@ serve(async (req) => {
         const updateData: any = {
           status: "pushed",
           wp_page_url: wordpressResult.page_url,
+          ...pushedSyncColumns(wordpressResult),
           updated_at: new Date().toISOString(),
         };
 
@@ -233,20 +203,49 @@ serve(async (req) => {
           updateData.wp_page_id = wordpressResult.page_id;
         }
 
+        await heartbeat.assertHeld();
         await supabase
           .from("location_keywords")
           .update(updateData)
           .eq("id", job.location_keyword_id);
 
-        // Mark job as completed
+        // Neighbouring pages can link here now that it has a URL. A town's
+        // first URL also goes out to its suburbs that are already live.
+        try {
+          if (!lkData.parent_location_id && lkData.wp_page_url !== wordpressResult.page_url) {
+            const { patched, queued } = await backfillParentLinks(supabase, {
+              projectId: lkData.project_id,
+              townId: job.location_keyword_id,
+              userId: job.user_id,
+            });
+            if (patched.length > 0) {
+              console.log(`🔗 [WP QUEUE WORKER] Linked ${patched.length} suburb page${patched.length !== 1 ? "s" : ""} to ${lkData.phrase}, ${queued.length} queued for a re-push`);
+            }
+          } else {
+            const { relinked, queued } = await refreshMeshNeighbours(supabase, {
+              projectId: lkData.project_id,
+              locationKeywordId: job.location_keyword_id,
+              userId: job.user_id,
+            });
+            if (relinked.length > 0) {
+              console.log(`🔗 [WP QUEUE WORKER] Added links to ${lkData.phrase} on ${relinked.length} neighbouring page${relinked.length !== 1 ? "s" : ""}, ${queued.length} queued for a re-push`);
+            }
+          }
+        } catch (linkError) {
+          console.error(`⚠️ [WP QUEUE WORKER] Failed to update neighbouring links for ${job.location_keyword_id}:`, linkError);
+        }
+
+        // Mark job as completed (only if we still hold the lease)
         await supabase
           .from("wordpress_push_jobs")
           .update({
             status: "completed",
             completed_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
+            ...RELEASED_LEASE,
           })
-          .eq("id", job.id);
+          .eq("id", job.id)
+          .eq("locked_by", workerId);
 
         // Log to api_logs
         await supabase.from("api_logs").insert({
@@ -264,21 +263,26 @@ serve(async (req) => {
         results.push({ job_id: job.id, success: true });
 
       } catch (error: any) {
-        console.error(`❌ [WP QUEUE WORKER] Job ${job.id} failed:`, error);
+        // The job belongs to the run that reclaimed it now; leave its rows alone
+        if (error instanceof LeaseLostError || heartbeat.lost()) {
+          console.warn(`⚠️ [WP QUEUE WORKER] Stopped job ${job.id}: lease lost to another run`);
+          results.push({ job_id: job.id, success: false, lost: true, error: error.message });
+          continue;
+        }
 
-        // Determine if we should retry
-        const shouldRetry = job.attempts + 1 < job.max_attempts;
-        const newStatus = shouldRetry ? "queued" : "failed";
+        console.error(`❌ [WP QUEUE WORKER] Job ${job.id} failed:`, error);
 
-        // Update job with error
+        // Retry with backoff, or move to the dead-letter view (only if we still hold the lease)
+        const { failure, willRetry, delaySeconds, update } = buildFailureUpdate(job, error);
         await supabase
           .from("wordpress_push_jobs")
-          .update({
-            status: newStatus,
-            error_message: error.message || String(error),
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", job.id);
+          .update(update)
+          .eq("id", job.id)
+          .eq("locked_by", workerId);
+
+        console.log(willRetry
+          ? `🔁 [WP QUEUE WORKER] Job ${job.id} will retry in ${delaySeconds}s`
+          : `🪦 [WP QUEUE WORKER] Job ${job.id} failed permanently${failure.retryable ? " (out of attempts)" : ` (HTTP ${failure.statusCode} is not retryable)`}`);
 
         // Log error to api_logs
         await supabase.from("api_logs").insert({
@@ -287,20 +291,31 @@ serve(async (req) => {
           api_type: "wordpress",
           endpoint: "wordpress-push-queue",
           method: "POST",
-          status_code: 500,
-          request_body: { job_id: job.id },
-          error_message: error.message || String(error),
+          status_code: failure.statusCode || 500,
+          request_body: { job_id: job.id, attempt: job.attempts, will_retry: willRetry },
+          error_message: failure.message,
         });
 
         results.push({ job_id: job.id, success: false, error: error.message });
+      } finally {
+        heartbeat.stop();
       }
     }
 
+    if (results.length === 0) {
+      console.log("✅ [WP QUEUE WORKER] No jobs in queue");
+      return new Response(
+        JSON.stringify({ success: true, message: "No jobs to process", processed: 0 }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
     // Return summary of all processed jobs
     const successCount = results.filter(r => r.success).length;
-    const failCount = results.filter(r => !r.success).length;
+    const failCount = results.filter(r => !r.success && !r.lost).length;
+    const lostCount = results.filter(r => r.lost).length;
 
-    console.log(`🏁 [WP QUEUE WORKER] Batch complete: ${successCount} succeeded, ${failCount} failed`);
+    console.log(`🏁 [WP QUEUE WORKER] Batch complete: ${successCount} succeeded, ${failCount} failed, ${lostCount} taken over`);
 
     return new Response(
       JSON.stringify({
@@ -308,6 +323,7 @@ serve(async (req) => {
         processed: results.length,
         succeeded: successCount,
         failed: failCount,
+        lost: lostCount,
         results,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.4";
+import { backfillParentLinks, loadLinkGraphPages, refreshLinkMesh, refreshMeshNeighbours, withLinkMesh } from "../_shared/link-graph.ts";
+import { conflictGuard, parseWordPressConflict, pushedSyncColumns, remoteSyncColumns } from "../_shared/wordpress-sync.ts";
+import { loadPublishMapping } from "../_shared/publish-mapping.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -26,6 +29,7 @@ serve(async (req) => {
       publishStatus,
       location,
       keyword,
+      force, // overwrite edits made in WordPress since the last push
     } = await req.json();
 
     if (!combinationId || !title || !content) {
@@ -67,10 +71,27 @@ serve(async (req) => {
     // Check if we're updating an existing page
     const { data: combination } = await supabase
       .from("location_keywords")
-      .select("wp_page_id")
+      .select("wp_page_id, wp_page_url, wp_content_hash, project_id, parent_location_id, project:projects!project_id(user_id)")
       .eq("id", combinationId)
       .single();
 
+    // Bring the page's internal links up to date with what is published now
+    let pageContent = content;
+    if (combination?.project_id) {
+      try {
+        pageContent = withLinkMesh(content, combinationId, await loadLinkGraphPages(supabase, combination.project_id));
+      } catch (linkError) {
+        console.error("Failed to refresh internal links:", linkError);
+      }
+    }
+
+    // JSON-LD is sent from the stored page so edits made in the app are published
+    const { data: generatedPage } = await supabase
+      .from("generated_pages")
+      .select("schema_json, featured_image_url, featured_image_alt")
+      .eq("location_keyword_id", combinationId)
+      .maybeSingle();
+
     const isUpdate = combination?.wp_page_id ? true : false;
     const endpoint = isUpdate ? "update" : "publish";
     const apiUrl = `${wpUrl}/wp-json/geoscale/v1/${endpoint}`;
@@ -83,18 +104,25 @@ serve(async (req) => {
     // Prepare page data for WordPress
     const wordpressData: any = {
       title,
-      content,
+      content: pageContent,
       meta_title: metaTitle,
       meta_description: metaDescription,
       status: publishStatus || "draft",
       page_template: pageTemplate || "",
       location,
       keyword,
+      schema: generatedPage?.schema_json || null,
+      image_url: generatedPage?.featured_image_url || null,
+      image_alt: generatedPage?.featured_image_alt || null,
     };
 
+    // Post type, parent, author, taxonomy terms and custom fields
+    Object.assign(wordpressData, await loadPublishMapping(supabase, combinationId));
+
     // If updating, include the WordPress page ID
     if (isUpdate && combination?.wp_page_id) {
       wordpressData.page_id = combination.wp_page_id;
+      Object.assign(wordpressData, conflictGuard(combination.wp_content_hash, force === true));
     }
 
     console.log("Sending data to WordPress:", {
@@ -117,6 +145,28 @@ serve(async (req) => {
       const errorText = await wordpressResponse.text();
       console.error("WordPress API error:", wordpressResponse.status, errorText);
 
+      // Edited in WordPress since the last push: record it and let the app ask
+      const conflict = parseWordPressConflict(wordpressResponse.status, errorText);
+      if (conflict) {
+        await supabase
+          .from("location_keywords")
+          .update(remoteSyncColumns(conflict))
+          .eq("id", combinationId);
+
+        return new Response(
+          JSON.stringify({
+            error: "This page has been edited in WordPress since it was last published",
+            conflict: true,
+            modified_gmt: conflict.modified_gmt,
+            status: 409,
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 409,
+          }
+        );
+      }
+
       let errorMessage = "Failed to publish to WordPress";
       try {
         const errorJson = JSON.parse(errorText);
@@ -148,6 +198,7 @@ serve(async (req) => {
     const updateData: any = {
       status: "pushed",
       wp_page_url: wordpressResult.page_url,
+      ...pushedSyncColumns(wordpressResult),
       updated_at: new Date().toISOString(),
     };
 
@@ -166,6 +217,31 @@ serve(async (req) => {
       // Don't fail the entire request, just log it
     }
 
+    // Store the links that were published, and let neighbouring pages link here.
+    // A town's first URL also goes out to its suburbs that are already live.
+    if (combination?.project_id) {
+      try {
+        await refreshLinkMesh(supabase, combination.project_id, [combinationId]);
+        if (!combination.parent_location_id && combination.wp_page_url !== wordpressResult.page_url && combination.project?.user_id) {
+          const { patched, queued } = await backfillParentLinks(supabase, {
+            projectId: combination.project_id,
+            townId: combinationId,
+            userId: combination.project.user_id,
+          });
+          console.log(`Linked ${patched.length} suburb pages to the town page, ${queued.length} queued for a re-push`);
+        } else if (combination.project?.user_id) {
+          const { relinked, queued } = await refreshMeshNeighbours(supabase, {
+            projectId: combination.project_id,
+            locationKeywordId: combinationId,
+            userId: combination.project.user_id,
+          });
+          console.log(`Linked ${relinked.length} neighbouring pages to this page, ${queued.length} queued for a re-push`);
+        }
+      } catch (linkError) {
+        console.error("Failed to update neighbouring links:", linkError);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -0,0 +1,376 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { loadLinkGraphPages, meshNeighbourIds, queueRepush, refreshLinkMesh } from "../_shared/link-graph.ts";
+import {
+  CLEARED_ISSUE,
+  classifyWordPressPage,
+  remoteSyncColumns,
+  type WordPressPageIssue,
+  type WordPressSitemapItem,
+} from "../_shared/wordpress-sync.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type ReconcileAction = "check" | "repush" | "relink" | "reset";
+
+interface ReconcileRequest {
+  projectId?: string; // scheduled runs leave this out and reconcile every due project
+  action?: ReconcileAction; // default check
+  locationKeywordIds?: string[]; // the pages to repush, relink or reset
+}
+
+// Which fixes make sense for each issue
+const ACTIONS_FOR_ISSUE: Record<WordPressPageIssue, ReconcileAction[]> = {
+  missing: ["repush", "reset"],
+  trashed: ["repush", "reset"],
+  unpublished: ["repush", "reset"],
+  url_changed: ["relink", "reset"],
+};
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Ids per .in() filter, to keep request URLs short
+const ID_BATCH = 200;
+const MAX_EXECUTION_TIME_MS = 50000; // Stop starting new projects after 50 seconds
+const RECONCILE_EVERY_HOURS = 20; // Scheduled runs skip projects reconciled more recently
+
+async function selectAll(build: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Compare a project's pushed pages with the plugin's /sitemap and record
+ * pages deleted, trashed, unpublished or moved in WordPress
+ */
+async function reconcileProject(supabase: any, project: any) {
+  const combinations = await selectAll(() =>
+    supabase
+      .from("location_keywords")
+      .select("id, wp_page_id, wp_page_url, wp_remote_hash, wp_issue, wp_issue_url")
+      .eq("project_id", project.id)
+      .not("wp_page_id", "is", null)
+      .order("id", { ascending: true })
+  );
+
+  const issues: Record<WordPressPageIssue, number> = { missing: 0, trashed: 0, unpublished: 0, url_changed: 0 };
+  if (combinations.length === 0) {
+    return { supported: true, checked: 0, issues };
+  }
+
+  let wpUrl = (project.blog_url || project.wp_url).trim();
+  if (!wpUrl.startsWith("http://") && !wpUrl.startsWith("https://")) {
+    wpUrl = "https://" + wpUrl;
+  }
+  wpUrl = wpUrl.replace(/\/$/, "");
+
+  const wordpressResponse = await fetch(`${wpUrl}/wp-json/geoscale/v1/sitemap?geoscale_only=1`, {
+    method: "GET",
+    headers: {
+      "Content-Type": "application/json",
+      "X-GeoScale-API-Key": project.wp_api_key,
+    },
+  });
+
+  if (!wordpressResponse.ok) {
+    const errorText = await wordpressResponse.text();
+    let errorMessage = `WordPress returned ${wordpressResponse.status}`;
+    try {
+      const errorJson = JSON.parse(errorText);
+      errorMessage = errorJson.message || errorJson.error || errorMessage;
+    } catch (e) {
+      // keep the status message
+    }
+    throw new Error(errorMessage);
+  }
+
+  const result = await wordpressResponse.json();
+
+  // Older plugins list published pages only, which would flag every draft as
+  // deleted, so nothing is recorded until the plugin is updated
+  if (!result.plugin_version) {
+    return { supported: false, checked: 0, issues };
+  }
+
+  const itemByPageId = new Map<number, WordPressSitemapItem>(
+    (result.sitemap || []).map((item: WordPressSitemapItem) => [Number(item.id), item])
+  );
+  const now = new Date().toISOString();
+  const untouched: string[] = [];
+
+  for (const combination of combinations) {
+    const item = itemByPageId.get(Number(combination.wp_page_id));
+    const { issue, currentUrl } = classifyWordPressPage(combination.wp_page_url, item, project.wp_publish_status);
+    if (issue) issues[issue]++;
+
+    const issueChanged = issue !== combination.wp_issue || currentUrl !== combination.wp_issue_url;
+    const hashChanged = !!item && (item.content_hash || null) !== combination.wp_remote_hash;
+
+    if (!issueChanged && !hashChanged) {
+      untouched.push(combination.id);
+      continue;
+    }
+
+    const update: Record<string, unknown> = item ? remoteSyncColumns(item) : { wp_checked_at: now };
+    if (issueChanged) {
+      Object.assign(update, issue
+        ? {
+          wp_issue: issue,
+          wp_issue_url: currentUrl,
+          wp_issue_detected_at: issue !== combination.wp_issue ? now : undefined,
+        }
+        : CLEARED_ISSUE);
+    }
+
+    const { error } = await supabase
+      .from("location_keywords")
+      .update(update)
+      .eq("id", combination.id);
+    if (error) throw error;
+  }
+
+  for (let i = 0; i < untouched.length; i += ID_BATCH) {
+    const { error } = await supabase
+      .from("location_keywords")
+      .update({ wp_checked_at: now })
+      .in("id", untouched.slice(i, i + ID_BATCH));
+    if (error) throw error;
+  }
+
+  await supabase.from("projects").update({ wp_reconciled_at: now }).eq("id", project.id);
+
+  return { supported: true, checked: combinations.length, issues };
+}
+
+/**
+ * Rewrite the links on pages next to the changed ones, and queue a push for
+ * the rewritten pages that are live
+ */
+async function relinkNeighbours(supabase: any, projectId: string, userId: string, changedIds: string[]) {
+  const pages = await loadLinkGraphPages(supabase, projectId);
+  const changed = new Set(changedIds);
+  const neighbours = [...new Set(changedIds.flatMap((id) => meshNeighbourIds(id, pages)))].filter((id) => !changed.has(id));
+  if (neighbours.length === 0) return [];
+
+  const rewritten = await refreshLinkMesh(supabase, projectId, neighbours);
+  const live = pages.filter((page) => rewritten.includes(page.id) && page.status === "pushed").map((page) => page.id);
+  return queueRepush(supabase, { projectId, userId, locationKeywordIds: live });
+}
+
+/**
+ * Fix the flagged pages: re-push them, point them at their new WordPress URL,
+ * or forget the WordPress page and go back to generated
+ */
+async function applyAction(
+  supabase: any,
+  projectId: string,
+  userId: string,
+  action: Exclude<ReconcileAction, "check">,
+  locationKeywordIds: string[]
+) {
+  const flagged = (await Promise.all(
+    Array.from({ length: Math.ceil(locationKeywordIds.length / ID_BATCH) }, (_, i) =>
+      selectAll(() =>
+        supabase
+          .from("location_keywords")
+          .select("id, wp_issue, wp_issue_url")
+          .eq("project_id", projectId)
+          .in("id", locationKeywordIds.slice(i * ID_BATCH, (i + 1) * ID_BATCH))
+          .not("wp_issue", "is", null)
+          .order("id", { ascending: true })
+      )
+    )
+  )).flat();
+
+  const targets = flagged.filter((row) => ACTIONS_FOR_ISSUE[row.wp_issue as WordPressPageIssue]?.includes(action));
+  const skipped = locationKeywordIds.length - targets.length;
+  if (targets.length === 0) {
+    return { updated: 0, skipped, queued: 0, neighboursQueued: 0 };
+  }
+
+  const forgetPage = {
+    wp_page_id: null,
+    wp_page_url: null,
+    wp_content_hash: null,
+    wp_modified_at: null,
+    wp_remote_hash: null,
+    wp_remote_modified_at: null,
+  };
+
+  if (action === "repush") {
+    // Deleted pages are published afresh; trashed and unpublished ones are
+    // updated in place, which restores and republishes them. The issue
+    // clears when the push succeeds.
+    const missing = targets.filter((row) => row.wp_issue === "missing").map((row) => row.id);
+    for (let i = 0; i < missing.length; i += ID_BATCH) {
+      const { error } = await supabase
+        .from("location_keywords")
+        .update(forgetPage)
+        .in("id", missing.slice(i, i + ID_BATCH));
+      if (error) throw error;
+    }
+
+    const queued = await queueRepush(supabase, {
+      projectId,
+      userId,
+      locationKeywordIds: targets.map((row) => row.id),
+    });
+    return { updated: missing.length, skipped, queued: queued.length, neighboursQueued: 0 };
+  }
+
+  if (action === "relink") {
+    for (const row of targets) {
+      const { error } = await supabase
+        .from("location_keywords")
+        .update({ wp_page_url: row.wp_issue_url, ...CLEARED_ISSUE })
+        .eq("id", row.id);
+      if (error) throw error;
+    }
+  } else {
+    const ids = targets.map((row) => row.id);
+    for (let i = 0; i < ids.length; i += ID_BATCH) {
+      const { error } = await supabase
+        .from("location_keywords")
+        .update({ status: "generated", ...forgetPage, ...CLEARED_ISSUE })
+        .in("id", ids.slice(i, i + ID_BATCH));
+      if (error) throw error;
+    }
+  }
+
+  // Neighbouring pages link to the new URL, or stop linking to a reset page
+  const neighboursQueued = await relinkNeighbours(supabase, projectId, userId, targets.map((row) => row.id));
+  return { updated: targets.length, skipped, queued: 0, neighboursQueued: neighboursQueued.length };
+}
+
+/**
+ * Find pushed pages that were deleted, trashed, unpublished or moved in
+ * WordPress, and fix them on request. Called by the app for one project, or
+ * by the hourly cron with the service role key for every project due.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  const startTime = Date.now();
+
+  try {
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const serviceClient = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceKey);
+    const authorization = req.headers.get("Authorization") || "";
+
+    const { projectId, action = "check", locationKeywordIds = [] }: ReconcileRequest = await req.json().catch(() => ({}));
+
+    // Scheduled run over every connected project that is due
+    if (!projectId) {
+      if (!serviceKey || authorization !== `Bearer ${serviceKey}`) {
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+
+      const dueBefore = new Date(Date.now() - RECONCILE_EVERY_HOURS * 60 * 60 * 1000).toISOString();
+      const { data: projects, error } = await serviceClient
+        .from("projects")
+        .select("id, wp_url, blog_url, wp_api_key, wp_publish_status")
+        .not("wp_api_key", "is", null)
+        .or(`wp_reconciled_at.is.null,wp_reconciled_at.lt.${dueBefore}`)
+        .order("wp_reconciled_at", { ascending: true, nullsFirst: true })
+        .limit(100);
+
+      if (error) throw error;
+
+      const results: Array<{ project_id: string; success: boolean; error?: string }> = [];
+      for (const project of projects || []) {
+        if (Date.now() - startTime > MAX_EXECUTION_TIME_MS) {
+          console.log("⏱️ [WP RECONCILE] Approaching timeout, the rest wait for the next run");
+          break;
+        }
+        if (!project.blog_url && !project.wp_url) continue;
+
+        try {
+          const summary = await reconcileProject(serviceClient, project);
+          console.log(`🔎 [WP RECONCILE] Project ${project.id}: ${summary.checked} pages checked`, summary.issues);
+          results.push({ project_id: project.id, success: true });
+        } catch (projectError) {
+          console.error(`❌ [WP RECONCILE] Project ${project.id} failed:`, projectError);
+          results.push({
+            project_id: project.id,
+            success: false,
+            error: projectError instanceof Error ? projectError.message : String(projectError),
+          });
+        }
+      }
+
+      return jsonResponse({ success: true, processed: results.length, results });
+    }
+
+    // The user's client proves they can see the project (RLS)
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: authorization },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, wp_url, blog_url, wp_api_key, wp_publish_status")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return jsonResponse({ error: "Project not found" }, 404);
+    }
+
+    if (action === "check") {
+      if ((!project.blog_url && !project.wp_url) || !project.wp_api_key) {
+        return jsonResponse({ error: "WordPress URL and API key not configured for this project" }, 400);
+      }
+      const summary = await reconcileProject(serviceClient, project);
+      return jsonResponse({ success: true, ...summary });
+    }
+
+    if (!["repush", "relink", "reset"].includes(action) || locationKeywordIds.length === 0) {
+      return jsonResponse({ error: "action (check, repush, relink or reset) and locationKeywordIds are required" }, 400);
+    }
+
+    const summary = await applyAction(serviceClient, projectId, user.id, action, locationKeywordIds);
+    console.log(`🔧 [WP RECONCILE] ${action} on ${summary.updated} pages in project ${projectId}`, summary);
+    return jsonResponse({ success: true, action, ...summary });
+  } catch (error) {
+    console.error("Error in reconcile-wordpress-pages function:", error);
+    return jsonResponse(
+      {
+        error: "Failed to reconcile WordPress pages",
+        details: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      500
+    );
+  }
+});
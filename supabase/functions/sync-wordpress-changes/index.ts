@@ -0,0 +1,240 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { remoteSyncColumns } from "../_shared/wordpress-sync.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface SyncRequest {
+  projectId: string;
+  locationKeywordIds?: string[]; // default: every pushed page in the project
+  includeContent?: boolean; // return WordPress's title and content for the pages
+}
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Ids per .in() filter, to keep request URLs short
+const ID_BATCH = 200;
+
+async function selectAll(build: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await build().range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Check a project's pushed pages for edits made in WordPress. The plugin's
+ * /sitemap reports each GeoScale page's content hash; a page whose hash
+ * differs from the one stored at its last push was changed in WordPress.
+ * The reported state is saved on the combinations so pushes can warn too.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+      {
+        global: {
+          headers: { Authorization: req.headers.get("Authorization")! },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabaseClient.auth.getUser();
+
+    if (!user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const { projectId, locationKeywordIds, includeContent = false }: SyncRequest = await req.json();
+
+    if (!projectId) {
+      return jsonResponse({ error: "projectId is required" }, 400);
+    }
+
+    const { data: project, error: projectError } = await supabaseClient
+      .from("projects")
+      .select("id, wp_url, blog_url, wp_api_key")
+      .eq("id", projectId)
+      .single();
+
+    if (projectError || !project) {
+      return jsonResponse({ error: "Project not found" }, 404);
+    }
+
+    const apiBaseUrl = project.blog_url || project.wp_url;
+    if (!apiBaseUrl || !project.wp_api_key) {
+      return jsonResponse({ error: "WordPress URL and API key not configured for this project" }, 400);
+    }
+
+    const columns = "id, phrase, wp_page_id, wp_content_hash, wp_remote_hash, wp_remote_modified_at";
+    const combinations = locationKeywordIds?.length
+      ? (await Promise.all(
+          Array.from({ length: Math.ceil(locationKeywordIds.length / ID_BATCH) }, (_, i) =>
+            selectAll(() =>
+              supabaseClient
+                .from("location_keywords")
+                .select(columns)
+                .eq("project_id", projectId)
+                .in("id", locationKeywordIds.slice(i * ID_BATCH, (i + 1) * ID_BATCH))
+                .not("wp_page_id", "is", null)
+                .order("id", { ascending: true })
+            )
+          )
+        )).flat()
+      : await selectAll(() =>
+          supabaseClient
+            .from("location_keywords")
+            .select(columns)
+            .eq("project_id", projectId)
+            .not("wp_page_id", "is", null)
+            .order("id", { ascending: true })
+        );
+
+    if (combinations.length === 0) {
+      return jsonResponse({ success: true, supported: true, checked: 0, changed: [], missing: [], pages: [] });
+    }
+
+    let wpUrl = apiBaseUrl.trim();
+    if (!wpUrl.startsWith("http://") && !wpUrl.startsWith("https://")) {
+      wpUrl = "https://" + wpUrl;
+    }
+    wpUrl = wpUrl.replace(/\/$/, "");
+
+    // A handful of pages are asked for by id, which also returns their content
+    const params = new URLSearchParams({ geoscale_only: "1" });
+    if (locationKeywordIds?.length) {
+      params.set("ids", combinations.map((combination) => combination.wp_page_id).join(","));
+    }
+    const apiUrl = `${wpUrl}/wp-json/geoscale/v1/sitemap?${params}`;
+
+    console.log(`🔍 [WP SYNC] Checking ${combinations.length} pages for edits: ${apiUrl}`);
+
+    const wordpressResponse = await fetch(apiUrl, {
+      method: "GET",
+      headers: {
+        "Content-Type": "application/json",
+        "X-GeoScale-API-Key": project.wp_api_key,
+      },
+    });
+
+    if (!wordpressResponse.ok) {
+      const errorText = await wordpressResponse.text();
+      console.error("WordPress API error:", wordpressResponse.status, errorText);
+
+      let errorMessage = "Failed to check WordPress for changes";
+      try {
+        const errorJson = JSON.parse(errorText);
+        errorMessage = errorJson.message || errorJson.error || errorMessage;
+      } catch (e) {
+        errorMessage = `${errorMessage}: ${wordpressResponse.statusText}`;
+      }
+
+      return jsonResponse({ error: errorMessage, status: wordpressResponse.status }, wordpressResponse.status);
+    }
+
+    const result = await wordpressResponse.json();
+    const items: any[] = result.sitemap || [];
+
+    // Plugins older than 1.1.0 don't report hashes
+    const supported = items.length === 0 || items.some((item) => typeof item.content_hash === "string");
+    if (!supported) {
+      console.log("⚠️ [WP SYNC] Plugin does not report content hashes, update it to 1.1.0 or later");
+      return jsonResponse({ success: true, supported: false, checked: 0, changed: [], missing: [], pages: [] });
+    }
+
+    const itemByPageId = new Map(items.map((item) => [Number(item.id), item]));
+    const changed: Array<{ location_keyword_id: string; phrase: string; modified_gmt: string | null }> = [];
+    const missing: string[] = [];
+    const pages: any[] = [];
+    const unchangedIds: string[] = [];
+
+    for (const combination of combinations) {
+      const item = itemByPageId.get(Number(combination.wp_page_id));
+      if (!item) {
+        missing.push(combination.id);
+        continue;
+      }
+
+      if (combination.wp_content_hash && item.content_hash !== combination.wp_content_hash) {
+        changed.push({
+          location_keyword_id: combination.id,
+          phrase: combination.phrase,
+          modified_gmt: item.modified_gmt || null,
+        });
+      }
+
+      if (includeContent && typeof item.content === "string") {
+        pages.push({
+          location_keyword_id: combination.id,
+          wp_page_id: item.id,
+          title: item.title ?? "",
+          content: item.content,
+          content_hash: item.content_hash,
+          modified_gmt: item.modified_gmt || null,
+          url: item.url,
+        });
+      }
+
+      // Only rows whose reported state moved need their own update
+      if (item.content_hash === combination.wp_remote_hash) {
+        unchangedIds.push(combination.id);
+      } else {
+        const { error } = await supabaseClient
+          .from("location_keywords")
+          .update(remoteSyncColumns(item))
+          .eq("id", combination.id);
+        if (error) throw error;
+      }
+    }
+
+    const checkedAt = new Date().toISOString();
+    for (let i = 0; i < unchangedIds.length; i += ID_BATCH) {
+      const { error } = await supabaseClient
+        .from("location_keywords")
+        .update({ wp_checked_at: checkedAt })
+        .in("id", unchangedIds.slice(i, i + ID_BATCH));
+      if (error) throw error;
+    }
+
+    console.log(`✅ [WP SYNC] ${changed.length} of ${combinations.length} pages changed in WordPress, ${missing.length} not found`);
+
+    return jsonResponse({
+      success: true,
+      supported: true,
+      checked: combinations.length - missing.length,
+      changed,
+      missing,
+      pages,
+    });
+  } catch (error) {
+    console.error("Error in sync-wordpress-changes function:", error);
+    return jsonResponse(
+      {
+        error: "Failed to check WordPress for changes",
+        details: error instanceof Error ? error.message : "Unknown error occurred",
+      },
+      500
+    );
+  }
+});
@@ -0,0 +1,48 @@
+-- Content Optimisation Runs Migration
+-- Generated pages (town and suburb) are optimised in a loop: score, fix the
+-- failed checks, re-score, until the project's target score is reached or the
+-- pass limit is hit. Each run is recorded with the score before and after and
+-- every pass, so the effect of optimising can be measured.
+
+-- Project settings (max iterations 0 turns auto-optimising off)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS optimise_target_score INTEGER NOT NULL DEFAULT 80
+  CHECK (optimise_target_score >= 0 AND optimise_target_score <= 100),
+ADD COLUMN IF NOT EXISTS optimise_max_iterations INTEGER NOT NULL DEFAULT 2
+  CHECK (optimise_max_iterations >= 0 AND optimise_max_iterations <= 5);
+
+-- Score the page had before it was optimised (NULL if no rewrite was kept)
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS pre_optimise_score INTEGER,
+ADD COLUMN IF NOT EXISTS optimise_iterations INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS content_optimisation_runs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  location_keyword_id UUID NOT NULL REFERENCES location_keywords(id) ON DELETE CASCADE,
+  page_type TEXT NOT NULL CHECK (page_type IN ('town', 'suburb')),
+  ruleset TEXT NOT NULL,
+  target_score INTEGER NOT NULL,
+  initial_score INTEGER NOT NULL,
+  final_score INTEGER NOT NULL,
+  iterations JSONB NOT NULL DEFAULT '[]'::jsonb, -- [{ iteration, scoreBefore, scoreAfter, fixed, kept }]
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_optimisation_runs_project_id ON content_optimisation_runs(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_content_optimisation_runs_location_keyword_id ON content_optimisation_runs(location_keyword_id);
+
+-- Enable RLS; runs are written by the edge functions with the service role
+ALTER TABLE content_optimisation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view optimisation runs for their projects" ON content_optimisation_runs;
+CREATE POLICY "Users can view optimisation runs for their projects"
+  ON content_optimisation_runs FOR SELECT
+  USING (user_owns_project(project_id));
+
+-- Comments for documentation
+COMMENT ON TABLE content_optimisation_runs IS 'One row per auto-optimise run of a generated page, with the score before and after each pass';
+COMMENT ON COLUMN projects.optimise_target_score IS 'Score (0-100) at which auto-optimising stops';
+COMMENT ON COLUMN projects.optimise_max_iterations IS 'Most optimise passes per generated page; 0 turns auto-optimising off';
+COMMENT ON COLUMN generated_pages.pre_optimise_score IS 'Score before auto-optimising; NULL when no optimised version was kept';
+COMMENT ON COLUMN generated_pages.optimise_iterations IS 'Optimise passes run when the page was generated';
@@ -0,0 +1,20 @@
+-- Content Scores Migration
+-- Pages are scored with the shared rulesets in supabase/functions/_shared/content-scoring.ts
+-- (SEO score for town pages, Local Support Score for suburb pages). The score
+-- and each check's result are stored on the page whenever it is generated or
+-- edited, so the combinations table can sort and filter without rescoring.
+
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS score INTEGER CHECK (score BETWEEN 0 AND 100),
+ADD COLUMN IF NOT EXISTS score_grade TEXT CHECK (score_grade IN ('excellent', 'good', 'needs-work', 'poor')),
+ADD COLUMN IF NOT EXISTS score_ruleset TEXT CHECK (score_ruleset IN ('town', 'suburb', 'custom')),
+ADD COLUMN IF NOT EXISTS score_checks JSONB,
+ADD COLUMN IF NOT EXISTS scored_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_generated_pages_project_score ON generated_pages(project_id, score);
+
+-- Comments for documentation
+COMMENT ON COLUMN generated_pages.score IS 'Content score (0-100) from the ruleset in score_ruleset';
+COMMENT ON COLUMN generated_pages.score_ruleset IS 'Ruleset the page was scored with: town, suburb or custom';
+COMMENT ON COLUMN generated_pages.score_checks IS 'Result of every check: id, name, passed, state, points, maxPoints, message, currentValue, target';
+COMMENT ON COLUMN generated_pages.scored_at IS 'When the score was last calculated';
@@ -0,0 +1,33 @@
+-- Drip Publishing Migration
+-- Instead of pushing every page at once, a project can publish a set number of
+-- pages per day inside a daily time window. Each page gets a push job with a
+-- publish time; claim_queue_jobs() already skips jobs whose next_attempt_at is
+-- in the future, so scheduling a job sets both columns to that time.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS drip_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+ADD COLUMN IF NOT EXISTS drip_pages_per_day INTEGER NOT NULL DEFAULT 10
+  CHECK (drip_pages_per_day BETWEEN 1 AND 500),
+ADD COLUMN IF NOT EXISTS drip_window_start SMALLINT NOT NULL DEFAULT 9
+  CHECK (drip_window_start BETWEEN 0 AND 23),
+ADD COLUMN IF NOT EXISTS drip_window_end SMALLINT NOT NULL DEFAULT 17
+  CHECK (drip_window_end BETWEEN 1 AND 24),
+ADD COLUMN IF NOT EXISTS drip_timezone TEXT NOT NULL DEFAULT 'Europe/London';
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_drip_window_check;
+ALTER TABLE projects ADD CONSTRAINT projects_drip_window_check
+  CHECK (drip_window_end > drip_window_start);
+
+ALTER TABLE wordpress_push_jobs
+ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_wordpress_push_jobs_scheduled
+  ON wordpress_push_jobs(project_id, scheduled_for)
+  WHERE scheduled_for IS NOT NULL;
+
+COMMENT ON COLUMN projects.drip_enabled IS 'Push All schedules pages over the coming days instead of publishing them now';
+COMMENT ON COLUMN projects.drip_pages_per_day IS 'Pages published per day when drip publishing';
+COMMENT ON COLUMN projects.drip_window_start IS 'Hour of the day (in drip_timezone) the first drip publish goes out';
+COMMENT ON COLUMN projects.drip_window_end IS 'Hour of the day (in drip_timezone) drip publishes stop; publishes are spread evenly between start and end';
+COMMENT ON COLUMN projects.drip_timezone IS 'IANA time zone for the drip publishing window';
+COMMENT ON COLUMN wordpress_push_jobs.scheduled_for IS 'Drip publishing time. NULL = push as soon as possible';
@@ -0,0 +1,96 @@
+-- Duplicate Content Detection Migration
+-- Every generated page gets a MinHash signature of its text (with its own
+-- location and keyword masked out). After each generation the page is
+-- compared with the rest of the project; its closest match is stored on the
+-- page and pairs above the project's threshold go into duplicate_content_pairs.
+
+-- Per-page fingerprint and closest match
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS minhash_signature INTEGER[],
+ADD COLUMN IF NOT EXISTS max_similarity NUMERIC(5, 4),
+ADD COLUMN IF NOT EXISTS most_similar_location_keyword_id UUID REFERENCES location_keywords(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS similarity_checked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS duplicate_regenerations INTEGER NOT NULL DEFAULT 0;
+
+-- Project settings
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS duplicate_similarity_threshold NUMERIC(3, 2) NOT NULL DEFAULT 0.80
+  CHECK (duplicate_similarity_threshold > 0 AND duplicate_similarity_threshold <= 1),
+ADD COLUMN IF NOT EXISTS auto_regenerate_duplicates BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Pairs of pages at or above the threshold. Each pair is stored once, smallest id first.
+CREATE TABLE IF NOT EXISTS duplicate_content_pairs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  location_keyword_id_a UUID NOT NULL REFERENCES location_keywords(id) ON DELETE CASCADE,
+  location_keyword_id_b UUID NOT NULL REFERENCES location_keywords(id) ON DELETE CASCADE,
+  similarity NUMERIC(5, 4) NOT NULL,
+  detected_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(location_keyword_id_a, location_keyword_id_b),
+  CHECK (location_keyword_id_a < location_keyword_id_b)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duplicate_content_pairs_project_id ON duplicate_content_pairs(project_id, similarity DESC);
+CREATE INDEX IF NOT EXISTS idx_duplicate_content_pairs_b ON duplicate_content_pairs(location_keyword_id_b);
+
+-- A deleted page (e.g. before a regenerate) is no longer a duplicate of anything
+CREATE OR REPLACE FUNCTION delete_duplicate_content_pairs()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM duplicate_content_pairs
+  WHERE location_keyword_id_a = OLD.location_keyword_id
+     OR location_keyword_id_b = OLD.location_keyword_id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS delete_duplicate_content_pairs ON generated_pages;
+CREATE TRIGGER delete_duplicate_content_pairs
+  AFTER DELETE ON generated_pages
+  FOR EACH ROW
+  EXECUTE FUNCTION delete_duplicate_content_pairs();
+
+-- Store the closest match of many pages in one statement. A page whose
+-- closest match is below the threshold is no longer a near-duplicate, so its
+-- automatic regenerations are given back.
+CREATE OR REPLACE FUNCTION set_page_closest_matches(p_matches JSONB, p_threshold NUMERIC)
+RETURNS VOID AS $$
+  UPDATE generated_pages gp
+  SET
+    max_similarity = m.max_similarity,
+    most_similar_location_keyword_id = m.most_similar_location_keyword_id,
+    minhash_signature = CASE WHEN m.update_signature THEN m.minhash_signature ELSE gp.minhash_signature END,
+    duplicate_regenerations = CASE
+      WHEN m.max_similarity IS NULL OR m.max_similarity < p_threshold THEN 0
+      ELSE gp.duplicate_regenerations
+    END,
+    similarity_checked_at = NOW()
+  FROM jsonb_to_recordset(p_matches) AS m(
+    location_keyword_id UUID,
+    max_similarity NUMERIC,
+    most_similar_location_keyword_id UUID,
+    minhash_signature INTEGER[],
+    update_signature BOOLEAN
+  )
+  WHERE gp.location_keyword_id = m.location_keyword_id;
+$$ LANGUAGE sql;
+
+-- Written by the edge functions only
+REVOKE EXECUTE ON FUNCTION set_page_closest_matches(JSONB, NUMERIC) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION set_page_closest_matches(JSONB, NUMERIC) TO service_role;
+
+-- Enable RLS; pairs are written by the edge functions with the service role
+ALTER TABLE duplicate_content_pairs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view duplicate pairs for their projects" ON duplicate_content_pairs;
+CREATE POLICY "Users can view duplicate pairs for their projects"
+  ON duplicate_content_pairs FOR SELECT
+  USING (user_owns_project(project_id));
+
+-- Comments for documentation
+COMMENT ON TABLE duplicate_content_pairs IS 'Pairs of generated pages in a project whose estimated similarity is at or above the project threshold';
+COMMENT ON COLUMN generated_pages.minhash_signature IS '128-value MinHash of the page text (5-word shingles, own location and keyword masked)';
+COMMENT ON COLUMN generated_pages.max_similarity IS 'Estimated Jaccard similarity (0-1) to the most similar page in the project; NULL until checked';
+COMMENT ON COLUMN generated_pages.duplicate_regenerations IS 'How many times this page was regenerated automatically for being a duplicate; reset when it stops being one or is regenerated by the user';
+COMMENT ON COLUMN projects.duplicate_similarity_threshold IS 'Similarity (0-1) at which two pages are flagged as near-duplicates';
+COMMENT ON COLUMN projects.auto_regenerate_duplicates IS 'Regenerate a newly generated page automatically when it is a near-duplicate';
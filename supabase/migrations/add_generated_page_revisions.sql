@@ -0,0 +1,107 @@
+-- Generated Page Revisions Migration
+-- generated_pages is upserted on location_keyword_id, so every regenerate,
+-- enhance or optimise used to overwrite the previous content for good. A
+-- trigger now snapshots the page into generated_page_revisions whenever its
+-- title, meta or content changes. Writers say what produced the change by
+-- setting generated_pages.content_source in the same statement; the trigger
+-- clears it once recorded, so a writer that doesn't set it counts as a
+-- manual edit rather than inheriting the previous writer's source.
+
+-- What produced the change being saved
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS content_source TEXT
+  CHECK (content_source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore'));
+
+-- Revisions are keyed on the location keyword (not the page row) because
+-- regenerating deletes and re-inserts the generated_pages row
+CREATE TABLE IF NOT EXISTS generated_page_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  location_keyword_id UUID NOT NULL REFERENCES location_keywords(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore')),
+  title TEXT,
+  meta_title TEXT,
+  meta_description TEXT,
+  content TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(location_keyword_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_generated_page_revisions_location_keyword ON generated_page_revisions(location_keyword_id, revision_number DESC);
+CREATE INDEX IF NOT EXISTS idx_generated_page_revisions_project_id ON generated_page_revisions(project_id);
+
+-- Snapshot the page after every insert, and after updates that change what the page says
+CREATE OR REPLACE FUNCTION record_generated_page_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.title IS NOT DISTINCT FROM OLD.title
+    AND NEW.meta_title IS NOT DISTINCT FROM OLD.meta_title
+    AND NEW.meta_description IS NOT DISTINCT FROM OLD.meta_description
+    AND NEW.content IS NOT DISTINCT FROM OLD.content
+  THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialise concurrent snapshots of the same page
+  PERFORM pg_advisory_xact_lock(hashtext('generated_page_revisions:' || NEW.location_keyword_id::TEXT));
+
+  INSERT INTO generated_page_revisions (
+    project_id, location_keyword_id, revision_number, source,
+    title, meta_title, meta_description, content, created_by
+  )
+  SELECT
+    NEW.project_id,
+    NEW.location_keyword_id,
+    COALESCE(MAX(r.revision_number), 0) + 1,
+    COALESCE(NEW.content_source, CASE WHEN TG_OP = 'INSERT' THEN 'ai_generate' ELSE 'manual_edit' END),
+    NEW.title,
+    NEW.meta_title,
+    NEW.meta_description,
+    NEW.content,
+    (SELECT id FROM users WHERE supabase_auth_user_id = auth.uid())
+  FROM generated_page_revisions r
+  WHERE r.location_keyword_id = NEW.location_keyword_id;
+
+  -- The source describes this change only. This update changes no content,
+  -- so it returns early above instead of recording another revision.
+  IF NEW.content_source IS NOT NULL THEN
+    UPDATE generated_pages SET content_source = NULL WHERE id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_generated_page_revision ON generated_pages;
+CREATE TRIGGER record_generated_page_revision
+  AFTER INSERT OR UPDATE ON generated_pages
+  FOR EACH ROW
+  EXECUTE FUNCTION record_generated_page_revision();
+
+-- Backfill: the current content of existing pages becomes revision 1
+INSERT INTO generated_page_revisions (
+  project_id, location_keyword_id, revision_number, source,
+  title, meta_title, meta_description, content, created_at
+)
+SELECT gp.project_id, gp.location_keyword_id, 1, 'ai_generate',
+       gp.title, gp.meta_title, gp.meta_description, gp.content, COALESCE(gp.updated_at, gp.created_at, NOW())
+FROM generated_pages gp
+WHERE NOT EXISTS (
+  SELECT 1 FROM generated_page_revisions r WHERE r.location_keyword_id = gp.location_keyword_id
+);
+
+-- Enable RLS; revisions are written only by the trigger
+ALTER TABLE generated_page_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view revisions for their projects" ON generated_page_revisions;
+CREATE POLICY "Users can view revisions for their projects"
+  ON generated_page_revisions FOR SELECT
+  USING (user_owns_project(project_id));
+
+-- Comments for documentation
+COMMENT ON TABLE generated_page_revisions IS 'Snapshot of a generated page after every change to its title, meta or content';
+COMMENT ON COLUMN generated_page_revisions.source IS 'What made the change: ai_generate, ai_optimise, enhance, manual_edit or restore';
+COMMENT ON COLUMN generated_pages.content_source IS 'What produced the change being saved; set by each writer, copied into the revision, then cleared';
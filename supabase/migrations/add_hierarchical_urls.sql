@@ -0,0 +1,11 @@
+-- Hierarchical URLs Migration
+-- Pages can nest in WordPress instead of sitting flat under the site root:
+-- service page > town page > suburb page, e.g. /web-design/doncaster/bessacarr/.
+-- Town and suburb pages take their location's slug and are parented through
+-- post_parent, using parent_location_id and project_services.service_page_url.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS wp_url_structure TEXT NOT NULL DEFAULT 'flat'
+  CHECK (wp_url_structure IN ('flat', 'hierarchical'));
+
+COMMENT ON COLUMN projects.wp_url_structure IS 'flat = pages under the site root with a slug from the title; hierarchical = service page > town > suburb, slugs from the location';
@@ -0,0 +1,15 @@
+-- Internal Link Graph Migration
+-- Town pages link to their suburbs and suburbs to their parent town and
+-- sibling suburbs, through a block at the end of each page's content. The
+-- block is rewritten whenever a neighbouring page is published, and those
+-- rewrites are recorded as their own revision source.
+
+ALTER TABLE generated_pages DROP CONSTRAINT IF EXISTS generated_pages_content_source_check;
+ALTER TABLE generated_pages ADD CONSTRAINT generated_pages_content_source_check
+  CHECK (content_source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh'));
+
+ALTER TABLE generated_page_revisions DROP CONSTRAINT IF EXISTS generated_page_revisions_source_check;
+ALTER TABLE generated_page_revisions ADD CONSTRAINT generated_page_revisions_source_check
+  CHECK (source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh'));
+
+COMMENT ON COLUMN generated_pages.content_source IS 'What produced the change being saved (cleared once copied into the revision): ai_generate, ai_optimise, enhance, manual_edit, restore or link_mesh (internal links rewritten after a neighbour was published)';
@@ -0,0 +1,206 @@
+-- LLM Cost Tracking Migration
+-- Records prompt/completion tokens and cost for every generation, repair and
+-- optimise call in api_logs, adds monthly AI budgets per project and per
+-- agency, and exposes spend to the app through two functions:
+--   get_llm_budget_status(project)  - this month's spend against both caps
+--   get_project_llm_costs(project)  - spend grouped by service, location and page type
+
+-- Token and cost columns on api_logs
+ALTER TABLE api_logs
+ADD COLUMN IF NOT EXISTS operation TEXT CHECK (operation IN ('generate', 'repair', 'optimise')),
+ADD COLUMN IF NOT EXISTS model TEXT,
+ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS completion_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS total_tokens INTEGER,
+ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6),
+ADD COLUMN IF NOT EXISTS location_keyword_id UUID REFERENCES location_keywords(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS service_id UUID REFERENCES project_services(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS page_type TEXT CHECK (page_type IN ('town', 'suburb'));
+
+-- Monthly spend is summed per project on every job claim
+DROP INDEX IF EXISTS idx_api_logs_project_costs;
+CREATE INDEX IF NOT EXISTS idx_api_logs_project_created_at ON api_logs(project_id, created_at);
+
+-- Monthly budgets (NULL = no cap)
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS monthly_llm_budget_usd NUMERIC(10, 2) CHECK (monthly_llm_budget_usd >= 0);
+
+ALTER TABLE agencies
+ADD COLUMN IF NOT EXISTS monthly_llm_budget_usd NUMERIC(10, 2) CHECK (monthly_llm_budget_usd >= 0);
+
+-- Agency budgets are set through set_agency_llm_budget, so owners can't
+-- update other agency columns such as plan
+DROP POLICY IF EXISTS "Users can update agencies they own" ON agencies;
+
+-- Set (or clear, with NULL) an agency's monthly budget. Only its owner may.
+CREATE OR REPLACE FUNCTION set_agency_llm_budget(p_agency_id UUID, p_budget_usd NUMERIC)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE agencies a
+  SET monthly_llm_budget_usd = p_budget_usd
+  FROM users u
+  WHERE a.id = p_agency_id
+    AND u.id = a.owner_user_id
+    AND u.supabase_auth_user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Agency not found: %', p_agency_id USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The agency a project's spend counts towards: the project's own agency, else
+-- the owner's agency, else the agency the owner runs
+CREATE OR REPLACE FUNCTION project_agency_id(p_project_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    p.agency_id,
+    u.agency_id,
+    (SELECT a.id FROM agencies a WHERE a.owner_user_id = p.user_id ORDER BY a.created_at LIMIT 1)
+  )
+  FROM projects p
+  LEFT JOIN users u ON u.id = p.user_id
+  WHERE p.id = p_project_id;
+$$ LANGUAGE sql STABLE;
+
+-- Every project whose spend counts towards the agency (the reverse of project_agency_id)
+CREATE OR REPLACE FUNCTION agency_project_ids(p_agency_id UUID)
+RETURNS SETOF UUID AS $$
+  SELECT p.id
+  FROM projects p
+  LEFT JOIN users u ON u.id = p.user_id
+  WHERE COALESCE(
+    p.agency_id,
+    u.agency_id,
+    (SELECT a.id FROM agencies a WHERE a.owner_user_id = p.user_id ORDER BY a.created_at LIMIT 1)
+  ) = p_agency_id;
+$$ LANGUAGE sql STABLE;
+
+-- Cost data is only visible to the project owner (and the service-role workers)
+CREATE OR REPLACE FUNCTION assert_project_cost_access(p_project_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM projects p
+    JOIN users u ON u.id = p.user_id
+    WHERE p.id = p_project_id AND u.supabase_auth_user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Project not found: %', p_project_id USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- This calendar month's (UTC) spend against the project and agency budgets.
+-- paused is TRUE once either budget is reached.
+CREATE OR REPLACE FUNCTION get_llm_budget_status(p_project_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_month_start TIMESTAMPTZ := date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_project_budget NUMERIC;
+  v_project_spend NUMERIC;
+  v_agency_id UUID;
+  v_agency_budget NUMERIC;
+  v_agency_spend NUMERIC := 0;
+  v_reason TEXT;
+BEGIN
+  PERFORM assert_project_cost_access(p_project_id);
+
+  SELECT monthly_llm_budget_usd INTO v_project_budget FROM projects WHERE id = p_project_id;
+
+  SELECT COALESCE(SUM(cost_usd), 0) INTO v_project_spend
+  FROM api_logs
+  WHERE project_id = p_project_id AND created_at >= v_month_start;
+
+  v_agency_id := project_agency_id(p_project_id);
+  IF v_agency_id IS NOT NULL THEN
+    SELECT monthly_llm_budget_usd INTO v_agency_budget FROM agencies WHERE id = v_agency_id;
+
+    -- Resolve the agency's projects once so the sum can use the (project_id, created_at) index
+    SELECT COALESCE(SUM(l.cost_usd), 0) INTO v_agency_spend
+    FROM api_logs l
+    WHERE l.project_id IN (SELECT agency_project_ids(v_agency_id))
+      AND l.created_at >= v_month_start
+      AND l.cost_usd IS NOT NULL;
+  END IF;
+
+  IF v_project_budget IS NOT NULL AND v_project_spend >= v_project_budget THEN
+    v_reason := format('project monthly AI budget of $%s reached ($%s spent)', v_project_budget, ROUND(v_project_spend, 2));
+  ELSIF v_agency_budget IS NOT NULL AND v_agency_spend >= v_agency_budget THEN
+    v_reason := format('agency monthly AI budget of $%s reached ($%s spent)', v_agency_budget, ROUND(v_agency_spend, 2));
+  END IF;
+
+  RETURN jsonb_build_object(
+    'month_start', v_month_start,
+    'project_spend_usd', v_project_spend,
+    'project_budget_usd', v_project_budget,
+    'agency_id', v_agency_id,
+    'agency_spend_usd', v_agency_spend,
+    'agency_budget_usd', v_agency_budget,
+    'paused', v_reason IS NOT NULL,
+    'paused_reason', v_reason
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Spend for a project grouped by service, location, page type and operation.
+-- p_since NULL = all time.
+CREATE OR REPLACE FUNCTION get_project_llm_costs(p_project_id UUID, p_since TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+  service_id UUID,
+  service_name TEXT,
+  location_id UUID,
+  location_name TEXT,
+  page_type TEXT,
+  operation TEXT,
+  calls BIGINT,
+  prompt_tokens BIGINT,
+  completion_tokens BIGINT,
+  cost_usd NUMERIC
+) AS $$
+BEGIN
+  PERFORM assert_project_cost_access(p_project_id);
+
+  RETURN QUERY
+  SELECT
+    COALESCE(l.service_id, lk.service_id),
+    ps.name,
+    lk.location_id,
+    pl.name,
+    l.page_type,
+    COALESCE(l.operation, 'generate'),
+    COUNT(*),
+    COALESCE(SUM(l.prompt_tokens), 0)::BIGINT,
+    COALESCE(SUM(l.completion_tokens), 0)::BIGINT,
+    COALESCE(SUM(l.cost_usd), 0)
+  FROM api_logs l
+  LEFT JOIN location_keywords lk ON lk.id = l.location_keyword_id
+  LEFT JOIN project_services ps ON ps.id = COALESCE(l.service_id, lk.service_id)
+  LEFT JOIN project_locations pl ON pl.id = lk.location_id
+  WHERE l.project_id = p_project_id
+    AND l.total_tokens IS NOT NULL
+    AND (p_since IS NULL OR l.created_at >= p_since)
+  GROUP BY 1, 2, 3, 4, 5, 6;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION assert_project_cost_access(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_llm_budget_status(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_project_llm_costs(UUID, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_llm_budget_status(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_project_llm_costs(UUID, TIMESTAMPTZ) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION set_agency_llm_budget(UUID, NUMERIC) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_agency_llm_budget(UUID, NUMERIC) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON COLUMN api_logs.operation IS 'What the LLM call was for: generate, repair (JSON fix-up turn) or optimise';
+COMMENT ON COLUMN api_logs.cost_usd IS 'Cost in USD as reported by the provider, or estimated from the model price table';
+COMMENT ON COLUMN api_logs.page_type IS 'town or suburb - the kind of page the call was generating';
+COMMENT ON COLUMN projects.monthly_llm_budget_usd IS 'Monthly AI spend cap in USD. The content queue pauses for this project when reached. NULL = no cap';
+COMMENT ON COLUMN agencies.monthly_llm_budget_usd IS 'Monthly AI spend cap in USD across all the agency''s projects. NULL = no cap';
+COMMENT ON FUNCTION get_llm_budget_status IS 'This month''s AI spend against the project and agency budgets; paused = either reached';
+COMMENT ON FUNCTION get_project_llm_costs IS 'AI spend for a project grouped by service, location, page type and operation';
+COMMENT ON FUNCTION set_agency_llm_budget IS 'Set an agency''s monthly AI budget; owner only';
@@ -0,0 +1,32 @@
+-- Pluggable LLM provider settings
+-- Projects can override the provider/model used for content generation.
+-- Plans provide the default for every project owned by a user on that plan.
+-- NULL means "inherit" (project -> plan -> built-in default of OpenRouter + x-ai/grok-4.1-fast)
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS llm_provider TEXT
+  CHECK (llm_provider IN ('openrouter', 'openai', 'anthropic', 'mock')),
+ADD COLUMN IF NOT EXISTS llm_model TEXT,
+ADD COLUMN IF NOT EXISTS llm_temperature DECIMAL(3, 2)
+  CHECK (llm_temperature >= 0 AND llm_temperature <= 2),
+ADD COLUMN IF NOT EXISTS llm_max_tokens INTEGER
+  CHECK (llm_max_tokens > 0);
+
+ALTER TABLE public.plans
+ADD COLUMN IF NOT EXISTS llm_provider TEXT
+  CHECK (llm_provider IN ('openrouter', 'openai', 'anthropic', 'mock')),
+ADD COLUMN IF NOT EXISTS llm_model TEXT,
+ADD COLUMN IF NOT EXISTS llm_temperature DECIMAL(3, 2)
+  CHECK (llm_temperature >= 0 AND llm_temperature <= 2),
+ADD COLUMN IF NOT EXISTS llm_max_tokens INTEGER
+  CHECK (llm_max_tokens > 0);
+
+COMMENT ON COLUMN projects.llm_provider IS 'LLM provider for content generation: openrouter, openai, anthropic or mock. NULL inherits from the plan.';
+COMMENT ON COLUMN projects.llm_model IS 'Model identifier passed to the provider (e.g., x-ai/grok-4.1-fast). NULL uses the provider default.';
+COMMENT ON COLUMN projects.llm_temperature IS 'Sampling temperature for page generation. NULL uses the provider default.';
+COMMENT ON COLUMN projects.llm_max_tokens IS 'Maximum completion tokens for page generation. NULL uses the provider default.';
+
+-- api_logs.api_type now records the provider that served each generation call
+ALTER TABLE api_logs DROP CONSTRAINT IF EXISTS api_logs_api_type_check;
+ALTER TABLE api_logs ADD CONSTRAINT api_logs_api_type_check
+  CHECK (api_type IN ('google', 'dataforseo', 'openai', 'openrouter', 'anthropic', 'mock', 'wordpress'));
@@ -0,0 +1,19 @@
+-- Location Geocoding Migration
+-- Locations from CSV imports and hand-entered combinations were stored at
+-- lat 0 / lng 0, which put them in the Gulf of Guinea on heat maps. They are
+-- now marked pending and the geocode-locations function looks them up.
+
+ALTER TABLE project_locations
+ADD COLUMN IF NOT EXISTS geocode_status TEXT
+  CHECK (geocode_status IN ('pending', 'geocoded', 'failed'));
+
+-- Existing locations without coordinates
+UPDATE project_locations
+SET geocode_status = 'pending'
+WHERE lat = 0 AND lng = 0 AND geocode_status IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_project_locations_geocode_pending
+  ON project_locations(project_id)
+  WHERE geocode_status = 'pending';
+
+COMMENT ON COLUMN project_locations.geocode_status IS 'Coordinate lookup for locations added without them: pending, geocoded or failed (no match). NULL when the coordinates came from Places or the import file';
@@ -0,0 +1,58 @@
+-- Page Images Migration
+-- Generation can give each page a featured image and a few in-content images,
+-- drawn from the project's media library or an image provider (Unsplash,
+-- OpenAI, or a local placeholder for testing). Library uploads and generated
+-- images are stored in the public project-media bucket under the project id.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS image_provider TEXT
+  CHECK (image_provider IN ('media_library', 'unsplash', 'openai', 'placeholder')),
+ADD COLUMN IF NOT EXISTS content_images_per_page INTEGER NOT NULL DEFAULT 0
+  CHECK (content_images_per_page BETWEEN 0 AND 3);
+
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS featured_image_url TEXT,
+ADD COLUMN IF NOT EXISTS featured_image_alt TEXT,
+ADD COLUMN IF NOT EXISTS image_source TEXT;
+
+CREATE TABLE IF NOT EXISTS project_media (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  url TEXT NOT NULL,
+  filename TEXT,
+  service_id UUID REFERENCES project_services(id) ON DELETE SET NULL,
+  location_id UUID REFERENCES project_locations(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'upload'
+    CHECK (source IN ('upload', 'openai')),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_media_project_id ON project_media(project_id);
+
+ALTER TABLE project_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage media in their projects"
+  ON project_media FOR ALL
+  USING (user_owns_project(project_id));
+
+-- Public bucket: WordPress downloads the images from their public URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('project-media', 'project-media', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects live under <project_id>/...
+CREATE POLICY "Users can upload media to their projects"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'project-media' AND user_owns_project(((storage.foldername(name))[1])::uuid));
+
+CREATE POLICY "Users can delete media in their projects"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'project-media' AND user_owns_project(((storage.foldername(name))[1])::uuid));
+
+COMMENT ON COLUMN projects.image_provider IS 'Where generated pages get their images: media_library, unsplash, openai or placeholder (offline testing). NULL = no images';
+COMMENT ON COLUMN projects.content_images_per_page IS 'Images placed in the page body besides the featured image, 0-3';
+COMMENT ON COLUMN generated_pages.featured_image_url IS 'Image sent to WordPress as the featured image on publish';
+COMMENT ON COLUMN generated_pages.featured_image_alt IS 'Alt text for the featured image; names the service and location';
+COMMENT ON COLUMN generated_pages.image_source IS 'Provider the page images came from';
+COMMENT ON TABLE project_media IS 'Images uploaded to a project (or generated for it) for use on its pages. Images tagged with a service or location are preferred for matching pages.';
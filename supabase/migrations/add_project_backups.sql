@@ -0,0 +1,14 @@
+-- Project Backup Migration
+-- Projects can be cloned or restored from a JSON backup. Pages brought in that
+-- way are recorded as their own revision source so their history starts with
+-- the import rather than an AI generation.
+
+ALTER TABLE generated_pages DROP CONSTRAINT IF EXISTS generated_pages_content_source_check;
+ALTER TABLE generated_pages ADD CONSTRAINT generated_pages_content_source_check
+  CHECK (content_source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh', 'import'));
+
+ALTER TABLE generated_page_revisions DROP CONSTRAINT IF EXISTS generated_page_revisions_source_check;
+ALTER TABLE generated_page_revisions ADD CONSTRAINT generated_page_revisions_source_check
+  CHECK (source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh', 'import'));
+
+COMMENT ON COLUMN generated_pages.content_source IS 'What produced the change being saved (cleared once copied into the revision): ai_generate, ai_optimise, enhance, manual_edit, restore, link_mesh (internal links rewritten after a neighbour was published) or import (copied from another project or a backup)';
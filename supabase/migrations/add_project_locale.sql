@@ -0,0 +1,20 @@
+-- Project Locale Migration
+-- Projects were UK-only: prompts assumed British English, DataForSEO calls
+-- used the United Kingdom market (location_code 2826, language "en") and
+-- Places searches were biased to the UK. Each project now has a locale, and
+-- the content workers, DataForSEO functions and find-nearby-towns read it.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS locale_country TEXT NOT NULL DEFAULT 'GB'
+  CHECK (locale_country IN ('GB', 'IE', 'AU', 'NZ', 'US', 'CA')),
+ADD COLUMN IF NOT EXISTS locale_language TEXT NOT NULL DEFAULT 'en'
+  CHECK (locale_language IN ('en', 'fr', 'es', 'de')),
+ADD COLUMN IF NOT EXISTS locale_spelling TEXT NOT NULL DEFAULT 'en-GB'
+  CHECK (locale_spelling IN ('en-GB', 'en-IE', 'en-AU', 'en-NZ', 'en-US', 'en-CA')),
+ADD COLUMN IF NOT EXISTS locale_currency TEXT NOT NULL DEFAULT 'GBP'
+  CHECK (locale_currency IN ('GBP', 'EUR', 'AUD', 'NZD', 'USD', 'CAD'));
+
+COMMENT ON COLUMN projects.locale_country IS 'Country pages target (ISO 3166-1 alpha-2): DataForSEO market, Places search region and default country of new locations';
+COMMENT ON COLUMN projects.locale_language IS 'Language pages are written in and DataForSEO language_code (ISO 639-1)';
+COMMENT ON COLUMN projects.locale_spelling IS 'English spelling variant for generated pages';
+COMMENT ON COLUMN projects.locale_currency IS 'Currency (ISO 4217) prices are given in';
@@ -0,0 +1,100 @@
+-- Prompt Templates Migration
+-- Moves the content generation prompts out of the edge function source into
+-- editable, versioned templates that can be assigned per project or per service
+
+-- Named templates, owned by an agency user
+CREATE TABLE IF NOT EXISTS prompt_templates (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  page_type TEXT NOT NULL CHECK (page_type IN ('town', 'suburb')),
+  current_version_id UUID, -- Version used for new content (set back to roll back)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Immutable template bodies. Editing a template always adds a new version.
+CREATE TABLE IF NOT EXISTS prompt_template_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  template_id UUID NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(template_id, version_number)
+);
+
+ALTER TABLE prompt_templates
+  DROP CONSTRAINT IF EXISTS prompt_templates_current_version_id_fkey;
+ALTER TABLE prompt_templates
+  ADD CONSTRAINT prompt_templates_current_version_id_fkey
+  FOREIGN KEY (current_version_id) REFERENCES prompt_template_versions(id) ON DELETE SET NULL;
+
+-- Assignments. Service assignments win over project assignments, which win
+-- over the built-in prompts.
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS town_prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS suburb_prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE project_services
+ADD COLUMN IF NOT EXISTS town_prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS suburb_prompt_template_id UUID REFERENCES prompt_templates(id) ON DELETE SET NULL;
+
+-- Which template version produced each page
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS prompt_template_version_id UUID REFERENCES prompt_template_versions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS prompt_template_ref TEXT;
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS idx_prompt_templates_user_id ON prompt_templates(user_id);
+CREATE INDEX IF NOT EXISTS idx_prompt_template_versions_template_id ON prompt_template_versions(template_id);
+CREATE INDEX IF NOT EXISTS idx_generated_pages_prompt_template_version_id ON generated_pages(prompt_template_version_id);
+
+-- Enable Row Level Security
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_template_versions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for prompt_templates
+CREATE POLICY "Users can manage their own prompt templates"
+  ON prompt_templates FOR ALL
+  USING (
+    auth.uid() IN (
+      SELECT supabase_auth_user_id FROM users WHERE id = user_id
+    )
+  );
+
+-- RLS Policies for prompt_template_versions
+CREATE POLICY "Users can view versions of their own prompt templates"
+  ON prompt_template_versions FOR SELECT
+  USING (
+    auth.uid() IN (
+      SELECT supabase_auth_user_id FROM users WHERE id = (SELECT user_id FROM prompt_templates WHERE id = template_id)
+    )
+  );
+
+CREATE POLICY "Users can add versions to their own prompt templates"
+  ON prompt_template_versions FOR INSERT
+  WITH CHECK (
+    auth.uid() IN (
+      SELECT supabase_auth_user_id FROM users WHERE id = (SELECT user_id FROM prompt_templates WHERE id = template_id)
+    )
+  );
+
+-- Trigger for updated_at column
+CREATE TRIGGER update_prompt_templates_updated_at BEFORE UPDATE ON prompt_templates
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Comments for documentation
+COMMENT ON TABLE prompt_templates IS 'Editable content generation prompts, assignable per project or per service';
+COMMENT ON TABLE prompt_template_versions IS 'Immutable versions of a prompt template body';
+COMMENT ON COLUMN prompt_templates.page_type IS 'town (primary landing page) or suburb (local support page)';
+COMMENT ON COLUMN prompt_templates.current_version_id IS 'Version used for new content. Point at an older version to roll back';
+COMMENT ON COLUMN prompt_template_versions.body IS 'Prompt text with {{variable}}, {{variable|fallback}}, {{#variable}}...{{/variable}} and {{^variable}}...{{/variable}} placeholders';
+COMMENT ON COLUMN projects.town_prompt_template_id IS 'Prompt template for town pages (NULL = built-in prompt)';
+COMMENT ON COLUMN projects.suburb_prompt_template_id IS 'Prompt template for suburb pages (NULL = built-in prompt)';
+COMMENT ON COLUMN project_services.town_prompt_template_id IS 'Prompt template for this service''s town pages (NULL = project template)';
+COMMENT ON COLUMN project_services.suburb_prompt_template_id IS 'Prompt template for this service''s suburb pages (NULL = project template)';
+COMMENT ON COLUMN generated_pages.prompt_template_version_id IS 'Template version that produced this content (NULL = built-in prompt)';
+COMMENT ON COLUMN generated_pages.prompt_template_ref IS 'Readable template reference, e.g. "builtin:suburb@1" or "Trades town page@v3"';
@@ -0,0 +1,18 @@
+-- Publish Mapping Migration
+-- Where pages go in WordPress: the post type (a theme's locations or
+-- service_area custom post type instead of pages), a parent page, the author,
+-- taxonomy terms taken from the location's region, the service or a fixed
+-- value, and custom fields filled from page variables.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS wp_post_type TEXT NOT NULL DEFAULT 'page',
+ADD COLUMN IF NOT EXISTS wp_parent_id INTEGER,
+ADD COLUMN IF NOT EXISTS wp_author_id INTEGER,
+ADD COLUMN IF NOT EXISTS wp_term_mapping JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS wp_custom_fields JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN projects.wp_post_type IS 'WordPress post type pages are published as (page, or a custom post type such as locations)';
+COMMENT ON COLUMN projects.wp_parent_id IS 'WordPress ID of the parent page for hierarchical post types; NULL = top level';
+COMMENT ON COLUMN projects.wp_author_id IS 'WordPress user ID set as the author; NULL = the first administrator';
+COMMENT ON COLUMN projects.wp_term_mapping IS 'Taxonomy terms to set: [{taxonomy, source: region|service|location|fixed, value}]. Missing terms are created.';
+COMMENT ON COLUMN projects.wp_custom_fields IS 'Custom fields to set: [{key, value}], value may use {service}, {location}, {region}, {keyword}, {phrase}, {business}, {phone}, {lat}, {lng}';
@@ -0,0 +1,170 @@
+-- Queue Job Leasing Migration
+-- Makes the content generation and WordPress push queues safe for overlapping
+-- cron runs: jobs are claimed atomically with FOR UPDATE SKIP LOCKED, held
+-- under a lease that the worker renews with heartbeats, and put back in the
+-- queue when the lease expires (e.g. the edge function was killed mid-job).
+
+-- Lease columns on both queue tables
+ALTER TABLE content_generation_jobs
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+ALTER TABLE wordpress_push_jobs
+ADD COLUMN IF NOT EXISTS locked_by TEXT,
+ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+-- Indexes for claiming and lease expiry
+CREATE INDEX IF NOT EXISTS idx_content_generation_jobs_claim ON content_generation_jobs(status, priority DESC, created_at);
+CREATE INDEX IF NOT EXISTS idx_content_generation_jobs_lease ON content_generation_jobs(lease_expires_at) WHERE status = 'processing';
+CREATE INDEX IF NOT EXISTS idx_wordpress_push_jobs_claim ON wordpress_push_jobs(status, priority DESC, created_at);
+CREATE INDEX IF NOT EXISTS idx_wordpress_push_jobs_lease ON wordpress_push_jobs(lease_expires_at) WHERE status = 'processing';
+
+-- Only the two queue tables may be passed to the functions below
+CREATE OR REPLACE FUNCTION assert_queue_table(p_queue TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_queue NOT IN ('content_generation_jobs', 'wordpress_push_jobs') THEN
+    RAISE EXCEPTION 'Unknown queue table: %', p_queue;
+  END IF;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Atomically claim up to p_batch_size queued jobs for a worker.
+-- Rows locked by a concurrent claim are skipped rather than waited on, so two
+-- overlapping runs never receive the same job.
+CREATE OR REPLACE FUNCTION claim_queue_jobs(
+  p_queue TEXT,
+  p_worker_id TEXT,
+  p_batch_size INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF JSONB AS $$
+BEGIN
+  PERFORM assert_queue_table(p_queue);
+
+  RETURN QUERY EXECUTE format(
+    'UPDATE %1$I AS j
+     SET status = ''processing'',
+         started_at = NOW(),
+         attempts = j.attempts + 1,
+         locked_by = $1,
+         heartbeat_at = NOW(),
+         lease_expires_at = NOW() + make_interval(secs => $2),
+         updated_at = NOW()
+     WHERE j.id IN (
+       SELECT id FROM %1$I
+       WHERE status = ''queued'' AND attempts < max_attempts
+       ORDER BY priority DESC, created_at ASC
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING to_jsonb(j.*)',
+    p_queue
+  ) USING p_worker_id, p_lease_seconds, p_batch_size;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Extend the lease on a job the worker still holds.
+-- Returns FALSE if the lease was lost (expired and reset, or claimed by another worker).
+CREATE OR REPLACE FUNCTION heartbeat_queue_job(
+  p_queue TEXT,
+  p_job_id UUID,
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_updated INTEGER;
+BEGIN
+  PERFORM assert_queue_table(p_queue);
+
+  EXECUTE format(
+    'UPDATE %I
+     SET heartbeat_at = NOW(),
+         lease_expires_at = NOW() + make_interval(secs => $3)
+     WHERE id = $1 AND locked_by = $2 AND status = ''processing''',
+    p_queue
+  ) USING p_job_id, p_worker_id, p_lease_seconds;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  RETURN v_updated > 0;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Put processing jobs whose lease has expired back in the queue (or fail them
+-- if they are out of attempts), and fail queued jobs that are out of attempts.
+-- Jobs from before leasing existed fall back to started_at + p_legacy_minutes.
+-- Returns the number of jobs reset.
+CREATE OR REPLACE FUNCTION reset_expired_queue_jobs(
+  p_queue TEXT,
+  p_legacy_minutes INTEGER DEFAULT 5
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reset INTEGER;
+BEGIN
+  PERFORM assert_queue_table(p_queue);
+
+  EXECUTE format(
+    'UPDATE %I
+     SET status = ''failed'',
+         error_message = COALESCE(error_message, ''Max attempts exceeded''),
+         updated_at = NOW()
+     WHERE status = ''queued'' AND attempts >= max_attempts',
+    p_queue
+  );
+
+  EXECUTE format(
+    'WITH expired AS (
+       UPDATE %I
+       SET status = CASE WHEN attempts >= max_attempts THEN ''failed'' ELSE ''queued'' END,
+           error_message = ''Lease expired: worker '' || COALESCE(locked_by, ''unknown'') || '' stopped responding on attempt '' || attempts,
+           locked_by = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE status = ''processing''
+         AND (
+           lease_expires_at < NOW()
+           OR (lease_expires_at IS NULL AND started_at < NOW() - make_interval(mins => $1))
+         )
+       RETURNING id, location_keyword_id, status
+     ),
+     -- Content jobs leave their location keyword in "generating" while they run
+     keywords AS (
+       UPDATE location_keywords lk
+       SET status = CASE WHEN expired.status = ''failed'' THEN ''error'' ELSE ''queued'' END,
+           updated_at = NOW()
+       FROM expired
+       WHERE $2
+         AND lk.id = expired.location_keyword_id
+         AND lk.status = ''generating''
+       RETURNING lk.id
+     )
+     SELECT COUNT(*)::INTEGER FROM expired',
+    p_queue
+  ) INTO v_reset USING p_legacy_minutes, p_queue = 'content_generation_jobs';
+
+  RETURN v_reset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Queue functions are for the service-role workers only
+REVOKE EXECUTE ON FUNCTION claim_queue_jobs(TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION heartbeat_queue_job(TEXT, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reset_expired_queue_jobs(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_queue_jobs(TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION heartbeat_queue_job(TEXT, UUID, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION reset_expired_queue_jobs(TEXT, INTEGER) TO service_role;
+
+-- Comments for documentation
+COMMENT ON COLUMN content_generation_jobs.locked_by IS 'Worker run currently holding the job';
+COMMENT ON COLUMN content_generation_jobs.lease_expires_at IS 'Job is returned to the queue if not renewed by this time';
+COMMENT ON COLUMN content_generation_jobs.heartbeat_at IS 'Last time the worker renewed its lease';
+COMMENT ON COLUMN wordpress_push_jobs.locked_by IS 'Worker run currently holding the job';
+COMMENT ON COLUMN wordpress_push_jobs.lease_expires_at IS 'Job is returned to the queue if not renewed by this time';
+COMMENT ON COLUMN wordpress_push_jobs.heartbeat_at IS 'Last time the worker renewed its lease';
+COMMENT ON FUNCTION claim_queue_jobs IS 'Atomically claim queued jobs (FOR UPDATE SKIP LOCKED) and start their lease';
+COMMENT ON FUNCTION heartbeat_queue_job IS 'Extend the lease on a job; FALSE if the worker no longer holds it';
+COMMENT ON FUNCTION reset_expired_queue_jobs IS 'Requeue or fail jobs whose lease expired; shared by both queue workers';
@@ -0,0 +1,165 @@
+-- Queue Retry Backoff Migration
+-- Failed jobs wait before retrying (exponential backoff with jitter, longer for
+-- rate limits), every failure is kept in error_history, and jobs that give up
+-- land in the queue_dead_letters view until they are retried or discarded.
+
+ALTER TABLE content_generation_jobs
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS error_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS discarded_at TIMESTAMPTZ;
+
+ALTER TABLE wordpress_push_jobs
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS error_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS discarded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_content_generation_jobs_failed ON content_generation_jobs(project_id) WHERE status = 'failed' AND discarded_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_wordpress_push_jobs_failed ON wordpress_push_jobs(project_id) WHERE status = 'failed' AND discarded_at IS NULL;
+
+-- Claiming now skips jobs that are waiting out a backoff
+CREATE OR REPLACE FUNCTION claim_queue_jobs(
+  p_queue TEXT,
+  p_worker_id TEXT,
+  p_batch_size INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 120
+)
+RETURNS SETOF JSONB AS $$
+BEGIN
+  PERFORM assert_queue_table(p_queue);
+
+  RETURN QUERY EXECUTE format(
+    'UPDATE %1$I AS j
+     SET status = ''processing'',
+         started_at = NOW(),
+         attempts = j.attempts + 1,
+         locked_by = $1,
+         heartbeat_at = NOW(),
+         lease_expires_at = NOW() + make_interval(secs => $2),
+         next_attempt_at = NULL,
+         updated_at = NOW()
+     WHERE j.id IN (
+       SELECT id FROM %1$I
+       WHERE status = ''queued''
+         AND attempts < max_attempts
+         AND (next_attempt_at IS NULL OR next_attempt_at <= NOW())
+       ORDER BY priority DESC, created_at ASC
+       LIMIT $3
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING to_jsonb(j.*)',
+    p_queue
+  ) USING p_worker_id, p_lease_seconds, p_batch_size;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Expired leases count as a retryable failure: back off and record it in the history
+CREATE OR REPLACE FUNCTION reset_expired_queue_jobs(
+  p_queue TEXT,
+  p_legacy_minutes INTEGER DEFAULT 5
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reset INTEGER;
+BEGIN
+  PERFORM assert_queue_table(p_queue);
+
+  EXECUTE format(
+    'UPDATE %I
+     SET status = ''failed'',
+         error_message = COALESCE(error_message, ''Max attempts exceeded''),
+         updated_at = NOW()
+     WHERE status = ''queued'' AND attempts >= max_attempts',
+    p_queue
+  );
+
+  EXECUTE format(
+    'WITH expired AS (
+       UPDATE %I
+       SET status = CASE WHEN attempts >= max_attempts THEN ''failed'' ELSE ''queued'' END,
+           error_message = ''Lease expired: worker '' || COALESCE(locked_by, ''unknown'') || '' stopped responding on attempt '' || attempts,
+           error_history = error_history || jsonb_build_array(jsonb_build_object(
+             ''attempt'', attempts,
+             ''at'', NOW(),
+             ''error'', ''Lease expired: worker '' || COALESCE(locked_by, ''unknown'') || '' stopped responding'',
+             ''status_code'', NULL,
+             ''retryable'', TRUE
+           )),
+           next_attempt_at = CASE
+             WHEN attempts >= max_attempts THEN NULL
+             ELSE NOW() + make_interval(secs => LEAST(1800, 30 * POWER(2, GREATEST(attempts - 1, 0))))
+           END,
+           locked_by = NULL,
+           lease_expires_at = NULL,
+           updated_at = NOW()
+       WHERE status = ''processing''
+         AND (
+           lease_expires_at < NOW()
+           OR (lease_expires_at IS NULL AND started_at < NOW() - make_interval(mins => $1))
+         )
+       RETURNING id, location_keyword_id, status
+     ),
+     -- Content jobs leave their location keyword in "generating" while they run
+     keywords AS (
+       UPDATE location_keywords lk
+       SET status = CASE WHEN expired.status = ''failed'' THEN ''error'' ELSE ''queued'' END,
+           updated_at = NOW()
+       FROM expired
+       WHERE $2
+         AND lk.id = expired.location_keyword_id
+         AND lk.status = ''generating''
+       RETURNING lk.id
+     )
+     SELECT COUNT(*)::INTEGER FROM expired',
+    p_queue
+  ) INTO v_reset USING p_legacy_minutes, p_queue = 'content_generation_jobs';
+
+  RETURN v_reset;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Dead-letter view: failed jobs from both queues that haven't been discarded.
+-- security_invoker keeps the job tables' RLS policies in force.
+CREATE OR REPLACE VIEW queue_dead_letters
+WITH (security_invoker = true) AS
+SELECT
+  'content_generation_jobs'::TEXT AS queue,
+  j.id,
+  j.user_id,
+  j.project_id,
+  j.location_keyword_id,
+  lk.phrase,
+  j.attempts,
+  j.max_attempts,
+  j.error_message,
+  j.error_history,
+  j.created_at,
+  j.updated_at AS failed_at
+FROM content_generation_jobs j
+LEFT JOIN location_keywords lk ON lk.id = j.location_keyword_id
+WHERE j.status = 'failed' AND j.discarded_at IS NULL
+UNION ALL
+SELECT
+  'wordpress_push_jobs'::TEXT AS queue,
+  j.id,
+  j.user_id,
+  j.project_id,
+  j.location_keyword_id,
+  lk.phrase,
+  j.attempts,
+  j.max_attempts,
+  j.error_message,
+  j.error_history,
+  j.created_at,
+  j.updated_at AS failed_at
+FROM wordpress_push_jobs j
+LEFT JOIN location_keywords lk ON lk.id = j.location_keyword_id
+WHERE j.status = 'failed' AND j.discarded_at IS NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN content_generation_jobs.next_attempt_at IS 'Job is not claimed before this time (retry backoff). NULL = ready now';
+COMMENT ON COLUMN content_generation_jobs.error_history IS 'Every failed attempt: [{attempt, at, error, status_code, retryable}]';
+COMMENT ON COLUMN content_generation_jobs.discarded_at IS 'Set when a failed job is discarded from the dead-letter view';
+COMMENT ON COLUMN wordpress_push_jobs.next_attempt_at IS 'Job is not claimed before this time (retry backoff). NULL = ready now';
+COMMENT ON COLUMN wordpress_push_jobs.error_history IS 'Every failed attempt: [{attempt, at, error, status_code, retryable}]';
+COMMENT ON COLUMN wordpress_push_jobs.discarded_at IS 'Set when a failed job is discarded from the dead-letter view';
+COMMENT ON VIEW queue_dead_letters IS 'Failed, undiscarded jobs from both queues with their error history';
@@ -0,0 +1,40 @@
+-- Scoring Profiles Migration
+-- Lets a project, and an agency for all of its projects, change the rules the
+-- content score uses: thresholds, weights, sales terms, banned phrases and
+-- required elements (phone number, contact link). A profile only holds the
+-- values that differ, per page type:
+--   { "suburb": { "contentLength": { "min": 400, "max": 900 } }, "town": { ... } }
+-- The project's profile is applied over the agency's, which is applied over
+-- the built-in rules in supabase/functions/_shared/content-scoring.ts.
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS scoring_profile JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE agencies
+ADD COLUMN IF NOT EXISTS scoring_profile JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Both profiles for a project, plus the agency they came from (see
+-- project_agency_id in add_llm_cost_tracking.sql). Readable by the project
+-- owner, whose agency row may not be visible to them directly.
+CREATE OR REPLACE FUNCTION get_scoring_profiles(p_project_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_agency_id UUID;
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT user_owns_project(p_project_id) THEN
+    RAISE EXCEPTION 'Project not found: %', p_project_id USING ERRCODE = '42501';
+  END IF;
+
+  v_agency_id := project_agency_id(p_project_id);
+
+  RETURN jsonb_build_object(
+    'agency_id', v_agency_id,
+    'agency', COALESCE((SELECT scoring_profile FROM agencies WHERE id = v_agency_id), '{}'::jsonb),
+    'project', COALESCE((SELECT scoring_profile FROM projects WHERE id = p_project_id), '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Comments for documentation
+COMMENT ON COLUMN projects.scoring_profile IS 'Content scoring rule overrides per page type (town/suburb), applied over the agency profile';
+COMMENT ON COLUMN agencies.scoring_profile IS 'Default content scoring rule overrides per page type for every project in the agency';
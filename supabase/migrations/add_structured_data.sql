@@ -0,0 +1,11 @@
+-- Structured Data Migration
+-- Schema.org JSON-LD (LocalBusiness, Service, FAQPage, Review) is built for
+-- every generated page and kept apart from the HTML, so it can be edited and
+-- validated on its own. The WordPress plugin prints it in the page head.
+
+ALTER TABLE generated_pages
+ADD COLUMN IF NOT EXISTS schema_json JSONB,
+ADD COLUMN IF NOT EXISTS schema_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN generated_pages.schema_json IS 'Schema.org JSON-LD document (@context + @graph) published in the page head';
+COMMENT ON COLUMN generated_pages.schema_updated_at IS 'When the JSON-LD was last built or edited';
@@ -0,0 +1,44 @@
+-- WordPress Reconciliation Migration
+-- A pushed combination stays 'pushed' even after the page is deleted, trashed
+-- or unpublished in WordPress, or its slug is changed there. The
+-- reconcile-wordpress-pages function compares wp_page_id and wp_page_url with
+-- the plugin's /sitemap once a day per project and records what it finds
+-- here, so the app can offer to re-push, relink or reset each page and rank
+-- checks skip pages that aren't live.
+
+ALTER TABLE location_keywords
+ADD COLUMN IF NOT EXISTS wp_issue TEXT
+  CHECK (wp_issue IN ('missing', 'trashed', 'unpublished', 'url_changed')),
+ADD COLUMN IF NOT EXISTS wp_issue_url TEXT,
+ADD COLUMN IF NOT EXISTS wp_issue_detected_at TIMESTAMPTZ;
+
+ALTER TABLE projects
+ADD COLUMN IF NOT EXISTS wp_reconciled_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_location_keywords_wp_issue
+  ON location_keywords(project_id)
+  WHERE wp_issue IS NOT NULL;
+
+-- Each hourly run reconciles the connected projects not checked for a day,
+-- oldest first, for as long as the function has time
+SELECT cron.schedule(
+  'reconcile-wordpress-pages',
+  '15 * * * *',
+  $$
+  SELECT
+    net.http_post(
+      url:='https://ydojubhuopsyxvyzbsan.supabase.co/functions/v1/reconcile-wordpress-pages',
+      headers:=jsonb_build_object(
+        'Content-Type', 'application/json',
+        'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+      ),
+      body:='{}'::jsonb
+    ) as request_id;
+  $$
+);
+
+COMMENT ON COLUMN location_keywords.wp_issue IS 'What reconciliation found wrong with the pushed page in WordPress: missing (deleted), trashed, unpublished (draft, pending or private while the project publishes live) or url_changed. NULL = live as pushed';
+COMMENT ON COLUMN location_keywords.wp_issue_url IS 'The URL WordPress has for the page now, when wp_issue is url_changed';
+COMMENT ON COLUMN location_keywords.wp_issue_detected_at IS 'When reconciliation first found the current wp_issue';
+COMMENT ON COLUMN projects.wp_reconciled_at IS 'When the project''s pushed pages were last reconciled with WordPress';
+COMMENT ON COLUMN location_keywords.wp_checked_at IS 'When GeoScale last compared the page with WordPress, for edits or reconciliation';
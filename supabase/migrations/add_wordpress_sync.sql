@@ -0,0 +1,28 @@
+-- WordPress Sync Migration
+-- Clients edit pushed pages in the WordPress editor. The plugin hashes each
+-- page's title and content; GeoScale keeps the hash from its last push and
+-- compares it with what the plugin reports now. A different hash means the
+-- page was changed in WordPress, and updates ask before overwriting it.
+-- Edits pulled back into GeoScale are recorded as their own revision source.
+
+ALTER TABLE location_keywords
+ADD COLUMN IF NOT EXISTS wp_content_hash TEXT,
+ADD COLUMN IF NOT EXISTS wp_modified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS wp_remote_hash TEXT,
+ADD COLUMN IF NOT EXISTS wp_remote_modified_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS wp_checked_at TIMESTAMPTZ;
+
+ALTER TABLE generated_pages DROP CONSTRAINT IF EXISTS generated_pages_content_source_check;
+ALTER TABLE generated_pages ADD CONSTRAINT generated_pages_content_source_check
+  CHECK (content_source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh', 'import', 'wordpress_edit'));
+
+ALTER TABLE generated_page_revisions DROP CONSTRAINT IF EXISTS generated_page_revisions_source_check;
+ALTER TABLE generated_page_revisions ADD CONSTRAINT generated_page_revisions_source_check
+  CHECK (source IN ('ai_generate', 'ai_optimise', 'enhance', 'manual_edit', 'restore', 'link_mesh', 'import', 'wordpress_edit'));
+
+COMMENT ON COLUMN location_keywords.wp_content_hash IS 'Content hash the plugin reported after GeoScale last pushed (or pulled) the page';
+COMMENT ON COLUMN location_keywords.wp_modified_at IS 'WordPress modified time after GeoScale last pushed (or pulled) the page';
+COMMENT ON COLUMN location_keywords.wp_remote_hash IS 'Content hash WordPress reported at the last sync check. Differs from wp_content_hash when the page was edited in WordPress';
+COMMENT ON COLUMN location_keywords.wp_remote_modified_at IS 'WordPress modified time at the last sync check';
+COMMENT ON COLUMN location_keywords.wp_checked_at IS 'When GeoScale last checked the page for edits made in WordPress';
+COMMENT ON COLUMN generated_pages.content_source IS 'What produced the change being saved (cleared once copied into the revision): ai_generate, ai_optimise, enhance, manual_edit, restore, link_mesh (internal links rewritten after a neighbour was published), import (copied from another project or a backup) or wordpress_edit (pulled back from edits made in WordPress)';